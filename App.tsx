@@ -1,8 +1,25 @@
-import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { supabase } from './lib/supabase';
-import { ProjectTask, ViewState, EditableExtendedTaskDetails, TaskStatus, GanttItem, SlideDeck, ProjectMember } from './types';
-import { initializeGemini, generateProjectPlan } from './services/geminiService';
+import { ProjectTask, ViewState, EditableExtendedTaskDetails, TaskStatus, GanttItem, SlideDeck, ProjectMember, ProjectVersion, ProjectTemplate, TaskBlueprint, ImportSummary, ProjectFileContent, ProjectComment } from './types';
+import { initializeAiProvider, generateProjectPlan } from './services/geminiService';
+import { AiProviderConfig } from './services/aiProvider';
 import { ProjectService, ProjectData } from './services/projectService';
+import { setAttachmentStorageContext } from './services/attachmentStorage';
+import { VersionComparison } from './services/projectDiff';
+import { instantiateTemplate } from './services/projectTemplates';
+import { instantiateBlueprint } from './services/taskBlueprints';
+import { exportMsProjectXml, importMsProjectXml } from './services/msProjectXml';
+import { exportProjectWorkbook, readWbsWorkbook, WbsSheet } from './services/excelWbs';
+import { exportProjectIcs } from './services/icalendar';
+import { createProjectFile, readProjectFile, readTasksFile, summarizeProjectFile, remapImportedIds, ProjectFileReadResult } from './services/projectFile';
+import { exportProjectBundle, importProjectBundle } from './services/projectBundle';
+import { MergeableProject, MergeConflict, MergeSide } from './services/projectMerge';
+import { ProjectPresence, PresenceUser, PresenceCursor, joinProjectPresence, findTaskLockHolder } from './services/presence';
+import { CommentBoard, CommentRead, commentTargetKey } from './services/comments';
+import {
+  LOCAL_DRAFT_KEY, saveProjectSnapshot, getProjectSnapshot, deleteProjectSnapshot, setLastOpenedProject, getLastOpenedProject, clearOfflineData,
+} from './services/offlineStore';
+import { startSyncQueue, enqueueSync, hasPendingSync, setSyncConflictHandler, subscribeSyncMerges } from './services/syncQueue';
 import ProjectInputForm from './components/ProjectInputForm';
 import ProjectFlowDisplay from './components/ProjectFlowDisplay';
 import TaskDetailModal from './components/TaskDetailModal';
@@ -11,57 +28,12 @@ import AuthModal from './components/AuthModal';
 import ProjectListModal from './components/ProjectListModal';
 import LoadingSpinner from './components/LoadingSpinner';
 import ErrorMessage from './components/ErrorMessage';
-
-// Template data
-const TEMPLATES = {
-  'process-design': {
-    goal: 'APQP（Advanced Product Quality Planning）に基づく新製品の工程設計を完了し、量産開始準備を整える',
-    tasks: [
-      { id: 'apqp-1', title: '計画・プログラム定義（Phase 1）', description: '顧客要求の理解、設計目標の設定、初期品質計画の策定' },
-      { id: 'apqp-2', title: '製品設計・開発（Phase 2）', description: 'DFMEA実施、設計検証、製品仕様の確定' },
-      { id: 'apqp-3', title: '工程設計・開発（Phase 3）', description: 'PFMEA実施、工程フロー作成、制御計画策定' },
-      { id: 'apqp-4', title: '製品・工程検証（Phase 4）', description: '試作評価、工程能力確認、量産試作実施' },
-      { id: 'apqp-5', title: '立上げ・評価・是正処置（Phase 5）', description: '量産開始、初期品質監視、継続的改善' }
-    ]
-  },
-  'process-change': {
-    goal: 'ISO/IATF 16949に準拠した工程変更管理を実施し、品質リスクを最小化して変更を完了する',
-    tasks: [
-      { id: 'change-1', title: '変更要求・影響分析', description: '変更内容の詳細分析、リスクアセスメント、関連部門への影響評価' },
-      { id: 'change-2', title: '変更計画・承認', description: '変更実施計画の策定、必要な承認取得、リソース確保' },
-      { id: 'change-3', title: '変更実施・検証', description: '工程変更の実施、検証試験、品質確認' },
-      { id: 'change-4', title: '効果確認・標準化', description: '変更効果の測定、標準書更新、関係者への展開' }
-    ]
-  },
-  'new-product-eval': {
-    goal: '顧客からの新製品要求に対し、既存設備での製造可能性を評価し、実現可能性報告書を提出する',
-    tasks: [
-      { id: 'eval-1', title: '顧客要求分析', description: '製品仕様、品質要求、数量・納期要求の詳細分析' },
-      { id: 'eval-2', title: '設備能力評価', description: '既存設備の能力確認、必要な改造・追加設備の検討' },
-      { id: 'eval-3', title: '製造可能性検証', description: '試作・テスト実施、品質確認、コスト試算' },
-      { id: 'eval-4', title: '実現可能性報告', description: '評価結果まとめ、リスク・課題整理、顧客への提案書作成' }
-    ]
-  },
-  'improvement-project': {
-    goal: 'DMAICアプローチを用いて生産性向上とコスト削減を実現し、目標効果を達成する',
-    tasks: [
-      { id: 'dmaic-d', title: 'Define（定義）', description: '問題の明確化、目標設定、プロジェクトスコープの定義' },
-      { id: 'dmaic-m', title: 'Measure（測定）', description: '現状把握、データ収集、ベースライン設定' },
-      { id: 'dmaic-a', title: 'Analyze（分析）', description: '根本原因分析、要因特定、改善機会の抽出' },
-      { id: 'dmaic-i', title: 'Improve（改善）', description: '改善案実施、効果検証、最適化' },
-      { id: 'dmaic-c', title: 'Control（管理）', description: '標準化、監視体制構築、継続的改善' }
-    ]
-  },
-  'equipment-modification': {
-    goal: '社内設備・治具の改造により生産効率向上を図り、投資対効果を最大化する',
-    tasks: [
-      { id: 'equip-1', title: '現状分析・要求定義', description: '現設備の課題分析、改造要求の明確化、目標設定' },
-      { id: 'equip-2', title: '改造設計・計画', description: '改造設計、部品調達計画、作業スケジュール策定' },
-      { id: 'equip-3', title: '改造実施・テスト', description: '設備停止、改造作業実施、機能確認テスト' },
-      { id: 'equip-4', title: '効果検証・標準化', description: '改造効果測定、作業標準更新、横展開検討' }
-    ]
-  }
-};
+import MergeConflictModal from './components/MergeConflictModal';
+import SyncStatusIndicator from './components/SyncStatusIndicator';
+import VersionHistoryModal from './components/VersionHistoryModal';
+import ImportSummaryModal from './components/ImportSummaryModal';
+import ExcelImportModal from './components/ExcelImportModal';
+import CalendarExportModal from './components/CalendarExportModal';
 
 // History management
 interface HistoryState {
@@ -105,6 +77,46 @@ const useHistory = (initialState: HistoryState) => {
   return { addToHistory, undo, redo, canUndo, canRedo };
 };
 
+// Applies tasks re-fetched after a remote change (null = deleted), keeping unchanged tasks as they are.
+const applyRemoteTasks = (current: ProjectTask[], updates: Map<string, ProjectTask | null>): ProjectTask[] => {
+  const result: ProjectTask[] = [];
+  current.forEach(task => {
+    if (!updates.has(task.id)) {
+      result.push(task);
+      return;
+    }
+    const updated = updates.get(task.id);
+    if (updated) result.push(JSON.stringify(updated) === JSON.stringify(task) ? task : updated);
+  });
+  updates.forEach((task, taskId) => {
+    if (task && !current.some(t => t.id === taskId)) result.push(task);
+  });
+  return result;
+};
+
+// Puts the given tasks of a past version back in place (re-adding deleted ones) and drops
+// connections to tasks that no longer exist.
+const restoreTasksFromVersion = (current: ProjectTask[], versionTasks: ProjectTask[], taskIds: string[]): ProjectTask[] => {
+  const restored = applyRemoteTasks(current, new Map(
+    versionTasks.filter(task => taskIds.includes(task.id)).map(task => [task.id, task] as [string, ProjectTask])
+  ));
+  const ids = new Set(restored.map(task => task.id));
+  return restored.map(task => (task.nextTaskIds || []).every(id => ids.has(id))
+    ? task
+    : { ...task, nextTaskIds: (task.nextTaskIds || []).filter(id => ids.has(id)) });
+};
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
 const App: React.FC = () => {
   // Authentication state
   const [user, setUser] = useState<any>(null);
@@ -113,9 +125,30 @@ const App: React.FC = () => {
 
   // Project collaboration state
   const [currentProject, setCurrentProject] = useState<ProjectData | null>(null);
+  // Last state known to match the server; the base of the three-way merge when a save conflicts
+  const syncedSnapshotRef = useRef<MergeableProject | null>(null);
+  const [mergeConflicts, setMergeConflicts] = useState<{ conflicts: MergeConflict[]; resolve: (resolutions: Record<string, MergeSide> | null) => void } | null>(null);
   const [projectMembers, setProjectMembers] = useState<ProjectMember[]>([]);
+  const presenceRef = useRef<ProjectPresence | null>(null);
+  const [presenceUsers, setPresenceUsers] = useState<PresenceUser[]>([]);
+  const [remoteCursors, setRemoteCursors] = useState<Record<string, PresenceCursor>>({});
+  const [editingSince, setEditingSince] = useState<string | null>(null);
+  const [comments, setComments] = useState<ProjectComment[]>([]);
+  const [commentReads, setCommentReads] = useState<Record<string, string>>({});
+  // State of the open cloud project that has already been queued for sync, and the server version it
+  // builds on; edits are diffed against it
+  const queuedStateRef = useRef<(MergeableProject & { projectId: string; version: number }) | null>(null);
+  const [hasRestoredSession, setHasRestoredSession] = useState(false);
   const [isLoadingProject, setIsLoadingProject] = useState(false);
   const [showProjectList, setShowProjectList] = useState(false);
+  const [showVersionHistory, setShowVersionHistory] = useState(false);
+  const [showCalendarExport, setShowCalendarExport] = useState(false);
+  // Task to open once the project from a calendar link has loaded
+  const [linkedTaskId, setLinkedTaskId] = useState<string | null>(null);
+  const [importSummary, setImportSummary] = useState<ImportSummary | null>(null);
+  const [excelImport, setExcelImport] = useState<{ fileName: string; sheets: WbsSheet[] } | null>(null);
+  const [previewVersion, setPreviewVersion] = useState<ProjectVersion | null>(null);
+  const [previewComparison, setPreviewComparison] = useState<VersionComparison | null>(null);
 
   // Core application state
   const [viewState, setViewState] = useState<ViewState>(ViewState.INPUT_FORM);
@@ -129,7 +162,7 @@ const App: React.FC = () => {
   // UI state
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
-  const [apiKey, setApiKey] = useState<string>('');
+  const [aiConfig, setAiConfig] = useState<AiProviderConfig | null>(null);
   const [isApiKeySet, setIsApiKeySet] = useState<boolean>(false);
 
   // History management
@@ -170,39 +203,264 @@ const App: React.FC = () => {
     return () => subscription.unsubscribe();
   }, []);
 
-  // Initialize API key
+  // Initialize AI provider
   useEffect(() => {
-    const savedApiKey = sessionStorage.getItem('gemini_api_key');
-    if (savedApiKey) {
-      setApiKey(savedApiKey);
+    const savedConfig = sessionStorage.getItem('ai_provider_config');
+    const legacyApiKey = sessionStorage.getItem('gemini_api_key');
+    let config: AiProviderConfig | null = null;
+    if (savedConfig) {
+      try {
+        config = JSON.parse(savedConfig);
+      } catch {
+        sessionStorage.removeItem('ai_provider_config');
+      }
+    } else if (legacyApiKey) {
+      config = { kind: 'gemini', apiKey: legacyApiKey };
+    }
+    if (config) {
+      setAiConfig(config);
       setIsApiKeySet(true);
-      initializeGemini(savedApiKey);
+      initializeAiProvider(config);
     }
   }, []);
 
+  // New attachments go to the current cloud project, or stay in this browser until the project is saved
+  useEffect(() => {
+    setAttachmentStorageContext({ projectId: currentProject?.id ?? null, userId: user?.id ?? null });
+  }, [currentProject?.id, user?.id]);
+
+  // Replay queued edits whenever the connection allows
+  useEffect(() => startSyncQueue(), []);
+
+  // Every edit goes to IndexedDB right away, and edits of cloud projects are queued for sync
+  useEffect(() => {
+    if (!user || !hasRestoredSession) return;
+    if (viewState !== ViewState.PROJECT_FLOW) {
+      setLastOpenedProject(null).catch(error => console.error('Failed to update offline state:', error));
+      return;
+    }
+
+    const key = currentProject?.id ?? LOCAL_DRAFT_KEY;
+    const persist = async () => {
+      await saveProjectSnapshot({ key, project: currentProject, goal: projectGoal, targetDate, tasks, ganttData });
+      await setLastOpenedProject(key);
+
+      const queued = queuedStateRef.current;
+      if (!currentProject || !queued || queued.projectId !== currentProject.id) return;
+      if (currentProject.archivedAt || (currentProject.userRole !== 'owner' && currentProject.userRole !== 'editor')) return;
+      queuedStateRef.current = { ...queued, goal: projectGoal, targetDate, tasks, ganttData };
+
+      if (queued.goal !== projectGoal || queued.targetDate !== targetDate || queued.ganttData !== ganttData) {
+        await enqueueSync({
+          type: 'updateProject',
+          projectId: currentProject.id,
+          baseVersion: queued.version,
+          base: { goal: queued.goal, targetDate: queued.targetDate, ganttData: queued.ganttData ?? null },
+          updates: { goal: projectGoal, targetDate, ganttData },
+        });
+      }
+      if (queued.tasks !== tasks) {
+        await enqueueSync({
+          type: 'saveTasks', projectId: currentProject.id, baseVersion: queued.version, previousTasks: queued.tasks, nextTasks: tasks,
+        });
+      }
+    };
+    persist().catch(error => console.error('Failed to store project locally:', error));
+  }, [user, hasRestoredSession, viewState, currentProject, projectGoal, targetDate, tasks, ganttData]);
+
   // Real-time project updates
   useEffect(() => {
     if (!currentProject?.id) return;
+    const projectId = currentProject.id;
+
+    // Row changes arrive one by one while a save is written, so re-fetch each changed task once they settle
+    const pendingTaskIds = new Set<string>();
+    let refreshTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const refreshPendingTasks = async () => {
+      refreshTimer = null;
+      const taskIds = [...pendingTaskIds];
+      pendingTaskIds.clear();
+      try {
+        const fetched = await Promise.all(taskIds.map(async taskId => [taskId, await ProjectService.getTask(projectId, taskId)] as const));
+        const updates = new Map<string, ProjectTask | null>(fetched);
+        setTasks(prev => {
+          const next = applyRemoteTasks(prev, updates);
+          // Remote changes are already on the server, so they must not be queued again
+          if (queuedStateRef.current?.projectId === projectId) queuedStateRef.current = { ...queuedStateRef.current, tasks: next };
+          return next;
+        });
+        if (syncedSnapshotRef.current) {
+          syncedSnapshotRef.current = { ...syncedSnapshotRef.current, tasks: applyRemoteTasks(syncedSnapshotRef.current.tasks, updates) };
+        }
+      } catch (error) {
+        console.error('Failed to apply remote task changes:', error);
+      }
+    };
 
     const unsubscribe = ProjectService.subscribeToProjectChanges(
-      currentProject.id,
+      projectId,
       (payload) => {
         // Handle project updates
         if (payload.eventType === 'UPDATE') {
           const updatedProject = payload.new;
-          setTasks(updatedProject.tasks_data || []);
           setProjectGoal(updatedProject.goal);
           setTargetDate(updatedProject.target_date);
           setGanttData(updatedProject.gantt_data);
+          if (syncedSnapshotRef.current) {
+            syncedSnapshotRef.current = {
+              ...syncedSnapshotRef.current,
+              goal: updatedProject.goal,
+              targetDate: updatedProject.target_date,
+              ganttData: updatedProject.gantt_data,
+            };
+          }
+          if (queuedStateRef.current?.projectId === projectId) {
+            queuedStateRef.current = {
+              ...queuedStateRef.current,
+              version: updatedProject.version,
+              goal: updatedProject.goal,
+              targetDate: updatedProject.target_date,
+              ganttData: updatedProject.gantt_data,
+            };
+          }
+          // Projects not yet moved to the task tables send no row changes, so reload their tasks
+          if (!updatedProject.tasks_migrated_at) {
+            ProjectService.getProjectTasks(updatedProject.id)
+              .then(remoteTasks => {
+                setTasks(remoteTasks);
+                if (syncedSnapshotRef.current) syncedSnapshotRef.current = { ...syncedSnapshotRef.current, tasks: remoteTasks };
+                if (queuedStateRef.current?.projectId === projectId) queuedStateRef.current = { ...queuedStateRef.current, tasks: remoteTasks };
+              })
+              .catch(error => console.error('Failed to reload project tasks:', error));
+          }
         }
       },
       () => {
         // Handle member updates
         loadProjectMembers();
+      },
+      (taskId) => {
+        pendingTaskIds.add(taskId);
+        if (!refreshTimer) refreshTimer = setTimeout(refreshPendingTasks, 300);
       }
     );
 
-    return unsubscribe;
+    return () => {
+      if (refreshTimer) clearTimeout(refreshTimer);
+      unsubscribe();
+    };
+  }, [currentProject?.id]);
+
+  // Presence: who else has the project open, their cursors and the tasks they work on
+  useEffect(() => {
+    if (!currentProject?.id || !user?.id) return;
+
+    const presence = joinProjectPresence(
+      currentProject.id,
+      { userId: user.id, name: user.user_metadata?.name || user.email || 'ユーザー' },
+      {
+        onUsersChange: setPresenceUsers,
+        onCursor: (cursor, userId) => setRemoteCursors(prev => {
+          const next = { ...prev };
+          if (cursor) next[userId] = cursor;
+          else delete next[userId];
+          return next;
+        }),
+      }
+    );
+    presenceRef.current = presence;
+
+    return () => {
+      presence.leave();
+      presenceRef.current = null;
+      setPresenceUsers([]);
+      setRemoteCursors({});
+    };
+  }, [currentProject?.id, user?.id]);
+
+  // Comments of the open project and which of them the user has read
+  useEffect(() => {
+    if (!currentProject?.id || !user?.id) return;
+    const projectId = currentProject.id;
+    let cancelled = false;
+
+    Promise.all([ProjectService.getProjectComments(projectId), ProjectService.getCommentReads(projectId)])
+      .then(([loadedComments, reads]) => {
+        if (cancelled) return;
+        setComments(loadedComments);
+        setCommentReads(reads);
+      })
+      .catch(error => console.error('Failed to load comments:', error));
+
+    const unsubscribe = ProjectService.subscribeToComments(
+      projectId,
+      (comment) => setComments(prev => [...prev.filter(c => c.id !== comment.id), comment]),
+      (commentId) => setComments(prev => prev.filter(c => c.id !== commentId && c.parentId !== commentId))
+    );
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+      setComments([]);
+      setCommentReads({});
+    };
+  }, [currentProject?.id, user?.id]);
+
+  const handleCommentSaved = useCallback((comment: ProjectComment) => {
+    setComments(prev => [...prev.filter(c => c.id !== comment.id), comment]);
+  }, []);
+
+  const handleCommentDeleted = useCallback((commentId: string) => {
+    setComments(prev => prev.filter(c => c.id !== commentId && c.parentId !== commentId));
+  }, []);
+
+  const handleCommentsRead = useCallback((reads: CommentRead[]) => {
+    setCommentReads(prev => {
+      const next = { ...prev };
+      reads.forEach(read => { next[commentTargetKey(read)] = read.readAt; });
+      return next;
+    });
+  }, []);
+
+  const commentBoard = useMemo((): CommentBoard | null => (
+    currentProject?.id && user?.id ? {
+      projectId: currentProject.id,
+      currentUserId: user.id,
+      userRole: currentProject.userRole,
+      members: projectMembers,
+      comments,
+      reads: commentReads,
+      onCommentSaved: handleCommentSaved,
+      onCommentDeleted: handleCommentDeleted,
+      onRead: handleCommentsRead,
+    } : null
+  ), [currentProject?.id, currentProject?.userRole, user?.id, projectMembers, comments, commentReads, handleCommentSaved, handleCommentDeleted, handleCommentsRead]);
+
+  // Opening a task's detail view claims it for editing (viewers only show up as viewing the project)
+  const canEditProject = !currentProject?.archivedAt && (currentProject?.userRole === 'owner' || currentProject?.userRole === 'editor');
+  useEffect(() => {
+    const state = presenceRef.current?.update({ editingTaskId: canEditProject ? selectedTask?.id ?? null : null });
+    setEditingSince(state?.editingSince ?? null);
+  }, [selectedTask?.id, currentProject?.id, user?.id, canEditProject]);
+
+  const taskLockHolder = useMemo(() => (
+    selectedTask && user ? findTaskLockHolder(presenceUsers, selectedTask.id, user.id, editingSince) : null
+  ), [selectedTask, user, presenceUsers, editingSince]);
+
+  const handleCanvasPointerMove = useCallback((point: { x: number; y: number } | null) => {
+    presenceRef.current?.moveCursor(point);
+  }, []);
+
+  const handleCanvasSelectionChange = useCallback((taskId: string | null) => {
+    presenceRef.current?.update({ selectedTaskId: taskId });
+  }, []);
+
+  // A version preview belongs to the project it was opened from
+  useEffect(() => {
+    setPreviewVersion(null);
+    setPreviewComparison(null);
+    setShowVersionHistory(false);
   }, [currentProject?.id]);
 
   const loadProjectMembers = useCallback(async () => {
@@ -233,19 +491,47 @@ const App: React.FC = () => {
     });
   }, [addToHistory, projectGoal, targetDate]);
 
-  const handleSetApiKey = useCallback((key: string) => {
-    setApiKey(key);
+  // Queued edits that conflict with other users' changes are resolved in the same dialog as manual saves
+  useEffect(() => {
+    setSyncConflictHandler(async conflicts => {
+      const chosen = await new Promise<Record<string, MergeSide> | null>(resolve => setMergeConflicts({ conflicts, resolve }));
+      setMergeConflicts(null);
+      return chosen;
+    });
+    return () => setSyncConflictHandler(null);
+  }, []);
+
+  // A queued edit that had to be merged brings back the merged project
+  useEffect(() => subscribeSyncMerges(project => {
+    if (project.id !== currentProject?.id) return;
+    setProjectGoal(project.goal);
+    setTargetDate(project.targetDate);
+    setTasksWithHistory(project.tasks);
+    setGanttData(project.ganttData || null);
+    syncedSnapshotRef.current = {
+      goal: project.goal,
+      targetDate: project.targetDate,
+      tasks: project.tasks,
+      ganttData: project.ganttData || null,
+    };
+    queuedStateRef.current = { projectId: project.id, version: project.version, ...syncedSnapshotRef.current };
+    setCurrentProject(project);
+  }), [currentProject?.id, setTasksWithHistory]);
+
+  const handleSetAiConfig = useCallback((config: AiProviderConfig) => {
+    setAiConfig(config);
     setIsApiKeySet(true);
-    sessionStorage.setItem('gemini_api_key', key);
-    initializeGemini(key);
+    sessionStorage.setItem('ai_provider_config', JSON.stringify(config));
+    sessionStorage.removeItem('gemini_api_key');
+    initializeAiProvider(config);
     setError(null);
   }, []);
 
   const handleClearApiKey = useCallback(() => {
-    setApiKey('');
     setIsApiKeySet(false);
+    sessionStorage.removeItem('ai_provider_config');
     sessionStorage.removeItem('gemini_api_key');
-    initializeGemini('');
+    initializeAiProvider(null);
   }, []);
 
   const handleAuthSuccess = useCallback(() => {
@@ -253,6 +539,11 @@ const App: React.FC = () => {
   }, []);
 
   const handleLogout = useCallback(async () => {
+    const hasUnsyncedEdits = await hasPendingSync().catch(() => false);
+    if (hasUnsyncedEdits && !confirm('まだ同期されていない変更があります。ログアウトすると、これらの変更は失われます。ログアウトしますか？')) {
+      return;
+    }
+    await clearOfflineData().catch(error => console.error('Failed to clear offline data:', error));
     await supabase.auth.signOut();
   }, []);
 
@@ -287,102 +578,94 @@ const App: React.FC = () => {
     }
   }, [isApiKeySet, setTasksWithHistory, addToHistory, HORIZONTAL_SPACING, VERTICAL_SPACING]);
 
-  const handleLoadTemplate = useCallback((templateName: keyof typeof TEMPLATES, goal: string, date: string) => {
-    const template = TEMPLATES[templateName];
-    const tasksWithPositions = template.tasks.map((task, index) => ({
+  const handleLoadTemplate = useCallback((template: ProjectTemplate, values: Record<string, string>, goal: string, date: string) => {
+    const instance = instantiateTemplate(template, values, date);
+    const tasksWithPositions = instance.tasks.map((task, index) => ({
       ...task,
-      position: {
+      position: task.position || {
         x: 50 + (index % 3) * HORIZONTAL_SPACING,
         y: 50 + Math.floor(index / 3) * VERTICAL_SPACING,
       },
     }));
+    const projectGoal = goal.trim() || instance.goal;
 
-    setProjectGoal(goal);
+    setProjectGoal(projectGoal);
     setTargetDate(date);
     setTasksWithHistory(tasksWithPositions);
     setViewState(ViewState.PROJECT_FLOW);
-    addToHistory({ tasks: tasksWithPositions, projectGoal: goal, targetDate: date });
+    addToHistory({ tasks: tasksWithPositions, projectGoal, targetDate: date });
   }, [setTasksWithHistory, addToHistory, HORIZONTAL_SPACING, VERTICAL_SPACING]);
 
   const handleSelectTask = useCallback((task: ProjectTask) => {
     setSelectedTask(task);
   }, []);
 
-  const handleUpdateTaskExtendedDetails = useCallback(async (taskId: string, details: EditableExtendedTaskDetails) => {
+  useEffect(() => {
+    if (!linkedTaskId || viewState !== ViewState.PROJECT_FLOW) return;
+    const task = tasks.find(t => t.id === linkedTaskId);
+    if (task) setSelectedTask(task);
+    setLinkedTaskId(null);
+  }, [linkedTaskId, viewState, tasks]);
+
+  const handleUpdateTaskExtendedDetails = useCallback((taskId: string, details: EditableExtendedTaskDetails) => {
     const updatedTasks = tasks.map(t => 
       t.id === taskId ? { ...t, extendedDetails: details } : t
     );
     setTasksWithHistory(updatedTasks);
+  }, [tasks, setTasksWithHistory]);
 
-    // Auto-save to Supabase if project exists
-    if (currentProject?.id && (currentProject.userRole === 'owner' || currentProject.userRole === 'editor')) {
-      try {
-        await ProjectService.updateProject(currentProject.id, {
-          tasks: updatedTasks,
-          expectedVersion: currentProject.version,
-        });
-      } catch (error) {
-        console.error('Failed to auto-save project:', error);
-      }
-    }
-  }, [tasks, setTasksWithHistory, currentProject]);
-
-  const handleUpdateTaskPosition = useCallback(async (taskId: string, position: { x: number; y: number }) => {
+  const handleUpdateTaskPosition = useCallback((taskId: string, position: { x: number; y: number }) => {
     const updatedTasks = tasks.map(t => 
       t.id === taskId ? { ...t, position } : t
     );
     setTasksWithHistory(updatedTasks);
+  }, [tasks, setTasksWithHistory]);
 
-    // Auto-save to Supabase if project exists
-    if (currentProject?.id && (currentProject.userRole === 'owner' || currentProject.userRole === 'editor')) {
-      try {
-        await ProjectService.updateProject(currentProject.id, {
-          tasks: updatedTasks,
-          expectedVersion: currentProject.version,
-        });
-      } catch (error) {
-        console.error('Failed to auto-save project:', error);
-      }
-    }
-  }, [tasks, setTasksWithHistory, currentProject]);
-
-  const handleUpdateTaskStatus = useCallback(async (taskId: string, status: TaskStatus) => {
+  const handleUpdateTaskStatus = useCallback((taskId: string, status: TaskStatus) => {
     const updatedTasks = tasks.map(t => 
       t.id === taskId ? { ...t, status } : t
     );
     setTasksWithHistory(updatedTasks);
+  }, [tasks, setTasksWithHistory]);
 
-    // Auto-save to Supabase if project exists
-    if (currentProject?.id && (currentProject.userRole === 'owner' || currentProject.userRole === 'editor')) {
-      try {
-        await ProjectService.updateProject(currentProject.id, {
-          tasks: updatedTasks,
-          expectedVersion: currentProject.version,
-        });
-      } catch (error) {
-        console.error('Failed to auto-save project:', error);
-      }
-    }
-  }, [tasks, setTasksWithHistory, currentProject]);
-
-  const handleUpdateTaskConnections = useCallback(async (sourceTaskId: string, nextTaskIds: string[]) => {
+  const handleUpdateTaskConnections = useCallback((sourceTaskId: string, nextTaskIds: string[]) => {
     const updatedTasks = tasks.map(t => 
       t.id === sourceTaskId ? { ...t, nextTaskIds } : t
     );
     setTasksWithHistory(updatedTasks);
+  }, [tasks, setTasksWithHistory]);
 
-    // Auto-save to Supabase if project exists
-    if (currentProject?.id && (currentProject.userRole === 'owner' || currentProject.userRole === 'editor')) {
-      try {
-        await ProjectService.updateProject(currentProject.id, {
-          tasks: updatedTasks,
-          expectedVersion: currentProject.version,
-        });
-      } catch (error) {
-        console.error('Failed to auto-save project:', error);
-      }
-    }
-  }, [tasks, setTasksWithHistory, currentProject]);
+  const handleApplyGanttEdit = useCallback((updatedTasks: ProjectTask[], updatedGanttData: GanttItem[]) => {
+    setTasksWithHistory(updatedTasks);
+    setGanttData(updatedGanttData);
+  }, [setTasksWithHistory]);
+
+  const handlePreviewVersion = useCallback((version: ProjectVersion, comparison?: VersionComparison) => {
+    setSelectedTask(null);
+    setShowVersionHistory(false);
+    setPreviewVersion(version);
+    setPreviewComparison(comparison || null);
+  }, []);
+
+  const handleExitPreview = useCallback(() => {
+    setPreviewVersion(null);
+    setPreviewComparison(null);
+  }, []);
+
+  // Restoring is an ordinary edit: it is queued for sync and becomes a new version itself
+  const handleRestoreVersion = useCallback((version: ProjectVersion) => {
+    setProjectGoal(version.goal);
+    setTargetDate(version.targetDate);
+    setTasksWithHistory(version.tasks);
+    setGanttData(version.ganttData);
+    setPreviewVersion(null);
+    setPreviewComparison(null);
+    setShowVersionHistory(false);
+  }, [setTasksWithHistory]);
+
+  const handleRestoreVersionTasks = useCallback((version: ProjectVersion, taskIds: string[]) => {
+    setTasksWithHistory(prev => restoreTasksFromVersion(prev, version.tasks, taskIds));
+  }, [setTasksWithHistory]);
 
   const handleStartNewProject = useCallback(() => {
     setCurrentProject(null);
@@ -395,50 +678,163 @@ const App: React.FC = () => {
     setViewState(ViewState.INPUT_FORM);
   }, []);
 
+  // The open project was moved to the trash from the project list: close it and drop the local copy
+  const handleProjectRemoved = useCallback((projectId: string) => {
+    deleteProjectSnapshot(projectId).catch(error => console.error('Failed to remove local copy:', error));
+    if (currentProject?.id === projectId) {
+      queuedStateRef.current = null;
+      handleStartNewProject();
+    }
+  }, [currentProject?.id, handleStartNewProject]);
+
   const handleExportProject = useCallback(() => {
-    const projectData = {
+    const projectData = createProjectFile({
       projectGoal,
       targetDate,
       tasks,
       ganttData,
-    };
+    });
     const jsonString = JSON.stringify(projectData, null, 2);
-    const blob = new Blob([jsonString], { type: 'application/json' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `project-${Date.now()}.json`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+    downloadBlob(new Blob([jsonString], { type: 'application/json' }), `project-${Date.now()}.json`);
   }, [projectGoal, targetDate, tasks, ganttData]);
 
+  const handleExportMsProject = useCallback(() => {
+    const xml = exportMsProjectXml({ projectGoal, targetDate, tasks, ganttData });
+    downloadBlob(new Blob([xml], { type: 'application/xml' }), `project-${Date.now()}.xml`);
+  }, [projectGoal, targetDate, tasks, ganttData]);
+
+  const handleDownloadIcs = useCallback((responsible: string) => {
+    const ics = exportProjectIcs(projectGoal, targetDate, tasks, {
+      projectId: currentProject?.id,
+      projectTitle: currentProject?.title || projectGoal.slice(0, 50),
+      appUrl: window.location.origin,
+      responsible: responsible || undefined,
+    });
+    downloadBlob(new Blob([ics], { type: 'text/calendar' }), `project-${Date.now()}.ics`);
+  }, [projectGoal, targetDate, tasks, currentProject?.id, currentProject?.title]);
+
+  const handleExportExcel = useCallback(() => {
+    const workbook = exportProjectWorkbook({ projectGoal, targetDate, tasks, ganttData });
+    downloadBlob(
+      new Blob([workbook], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' }),
+      `project-${Date.now()}.xlsx`,
+    );
+  }, [projectGoal, targetDate, tasks, ganttData]);
+
+  const handleExportBundle = useCallback(async () => {
+    try {
+      const { blob, missingFiles } = await exportProjectBundle({
+        title: currentProject?.title || projectGoal.slice(0, 50),
+        projectGoal,
+        targetDate,
+        tasks,
+        ganttData,
+        reportDeck: customReportDeck,
+      });
+      downloadBlob(blob, `project-${Date.now()}.zip`);
+      if (missingFiles.length > 0) {
+        alert(`次の添付ファイルを取得できなかったため、ZIPファイルには含まれていません:\n${missingFiles.join('\n')}`);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'ZIPファイルの作成に失敗しました。');
+    }
+  }, [projectGoal, targetDate, tasks, ganttData, customReportDeck, currentProject?.title]);
+
+  // Opens a project converted from another tool's file format and shows what was imported
+  const applyConvertedProject = useCallback(({ summary, ...content }: ProjectFileContent & { summary: ImportSummary }) => {
+    const importedTasks = content.tasks.map((task, index) => ({
+      ...task,
+      position: {
+        x: 50 + (index % 3) * HORIZONTAL_SPACING,
+        y: 50 + Math.floor(index / 3) * VERTICAL_SPACING,
+      },
+    }));
+    setProjectGoal(content.projectGoal);
+    setTargetDate(content.targetDate);
+    setTasksWithHistory(importedTasks);
+    setGanttData(content.ganttData || null);
+    setViewState(ViewState.PROJECT_FLOW);
+    addToHistory({ tasks: importedTasks, projectGoal: content.projectGoal, targetDate: content.targetDate });
+    setImportSummary(summary);
+  }, [setTasksWithHistory, addToHistory, HORIZONTAL_SPACING, VERTICAL_SPACING]);
+
+  // Opens a project read from a JSON file or ZIP bundle; the summary is shown when something was changed or rejected
+  const openProjectFile = useCallback((result: ProjectFileReadResult, summary: ImportSummary) => {
+    if (!result.content) {
+      setImportSummary(summary);
+      return;
+    }
+    const content = result.content;
+    // Positions may have been dropped by validation
+    const importedTasks = content.tasks.map((task, index) => task.position ? task : {
+      ...task,
+      position: {
+        x: 50 + (index % 3) * HORIZONTAL_SPACING,
+        y: 50 + Math.floor(index / 3) * VERTICAL_SPACING,
+      },
+    });
+    setProjectGoal(content.projectGoal);
+    setTargetDate(content.targetDate);
+    setTasksWithHistory(importedTasks);
+    setGanttData(content.ganttData || null);
+    setViewState(ViewState.PROJECT_FLOW);
+    addToHistory({ 
+      tasks: importedTasks, 
+      projectGoal: content.projectGoal, 
+      targetDate: content.targetDate 
+    });
+    if (summary.warnings.length > 0) setImportSummary(summary);
+  }, [setTasksWithHistory, addToHistory, HORIZONTAL_SPACING, VERTICAL_SPACING]);
+
   const handleImportProject = useCallback((file: File) => {
     const reader = new FileReader();
+    if (/\.zip$/i.test(file.name)) {
+      reader.onload = async (e) => {
+        setIsLoadingProject(true);
+        try {
+          const { result, summary } = await importProjectBundle(e.target?.result as ArrayBuffer, file.name);
+          openProjectFile(result, summary);
+        } catch (err) {
+          setError(err instanceof Error ? err.message : 'ZIPファイルの読み込みに失敗しました。');
+        } finally {
+          setIsLoadingProject(false);
+        }
+      };
+      reader.readAsArrayBuffer(file);
+      return;
+    }
+    if (/\.(xlsx|xls|csv)$/i.test(file.name)) {
+      reader.onload = (e) => {
+        try {
+          setExcelImport({ fileName: file.name, sheets: readWbsWorkbook(e.target?.result as ArrayBuffer, file.name) });
+        } catch (err) {
+          setError('Excelファイルの読み込みに失敗しました。');
+        }
+      };
+      reader.readAsArrayBuffer(file);
+      return;
+    }
+    if (/\.xml$/i.test(file.name)) {
+      reader.onload = (e) => {
+        try {
+          applyConvertedProject(importMsProjectXml(e.target?.result as string, file.name));
+        } catch (err) {
+          setError(err instanceof Error ? err.message : 'ファイルの読み込みに失敗しました。');
+        }
+      };
+      reader.readAsText(file);
+      return;
+    }
     reader.onload = (e) => {
       try {
-        const content = JSON.parse(e.target?.result as string);
-        if (content.projectGoal && content.targetDate && Array.isArray(content.tasks)) {
-          setProjectGoal(content.projectGoal);
-          setTargetDate(content.targetDate);
-          setTasksWithHistory(content.tasks);
-          setGanttData(content.ganttData || null);
-          setViewState(ViewState.PROJECT_FLOW);
-          addToHistory({ 
-            tasks: content.tasks, 
-            projectGoal: content.projectGoal, 
-            targetDate: content.targetDate 
-          });
-        } else {
-          setError('無効なプロジェクトファイル形式です。');
-        }
+        const result = readProjectFile(e.target?.result as string);
+        openProjectFile(result, summarizeProjectFile(result, file.name));
       } catch (err) {
-        setError('ファイルの読み込みに失敗しました。');
+        setError(err instanceof Error ? err.message : 'ファイルの読み込みに失敗しました。');
       }
     };
     reader.readAsText(file);
-  }, [setTasksWithHistory, addToHistory]);
+  }, [applyConvertedProject, openProjectFile]);
 
   const handleAddTask = useCallback(() => {
     const newTask: ProjectTask = {
@@ -460,31 +856,52 @@ const App: React.FC = () => {
     }
   }, [tasks, setTasksWithHistory]);
 
+  // Adds the tasks of a task or project file to the open project; ids already in use get new ones
   const handleImportSingleTask = useCallback((file: File) => {
     const reader = new FileReader();
     reader.onload = (e) => {
       try {
-        const content = JSON.parse(e.target?.result as string);
-        if (content.task && content.task.id && content.task.title) {
-          const importedTask = {
-            ...content.task,
-            id: generateUniqueId('imported_task'),
-            position: {
-              x: 50 + (tasks.length % 3) * HORIZONTAL_SPACING,
-              y: 50 + Math.floor(tasks.length / 3) * VERTICAL_SPACING,
-            },
-          };
-          setTasksWithHistory([...tasks, importedTask]);
-        } else {
-          setError('無効なタスクファイル形式です。');
+        const result = readTasksFile(e.target?.result as string);
+        const summary = summarizeProjectFile(result, file.name);
+        if (!result.content) {
+          setImportSummary(summary);
+          return;
         }
+        const merged = remapImportedIds(result.content, tasks, generateUniqueId);
+        const importedTasks = merged.tasks.map((task, index) => ({
+          ...task,
+          position: {
+            x: 50 + ((tasks.length + index) % 3) * HORIZONTAL_SPACING,
+            y: 50 + Math.floor((tasks.length + index) / 3) * VERTICAL_SPACING,
+          },
+        }));
+        setTasksWithHistory([...tasks, ...importedTasks]);
+        // Without a chart the imported rows would be the only ones in it, so leave it to be regenerated
+        if (merged.ganttData.length > 0) setGanttData(prev => prev ? [...prev, ...merged.ganttData] : prev);
+        if (merged.remappedCount > 0) {
+          summary.warnings.push(`プロジェクト内で既に使われているID ${merged.remappedCount} 件を新しいIDに置き換えました`);
+        }
+        if (summary.warnings.length > 0) setImportSummary(summary);
       } catch (err) {
-        setError('タスクファイルの読み込みに失敗しました。');
+        setError(err instanceof Error ? err.message : 'タスクファイルの読み込みに失敗しました。');
       }
     };
     reader.readAsText(file);
   }, [tasks, generateUniqueId, setTasksWithHistory, HORIZONTAL_SPACING, VERTICAL_SPACING]);
 
+  const handleInsertTaskBlueprint = useCallback((blueprint: TaskBlueprint, anchorDate: string) => {
+    const { task } = instantiateBlueprint(blueprint, anchorDate, generateUniqueId);
+    if (!task) return;
+    const insertedTask = {
+      ...task,
+      position: {
+        x: 50 + (tasks.length % 3) * HORIZONTAL_SPACING,
+        y: 50 + Math.floor(tasks.length / 3) * VERTICAL_SPACING,
+      },
+    };
+    setTasksWithHistory([...tasks, insertedTask]);
+  }, [tasks, generateUniqueId, setTasksWithHistory, HORIZONTAL_SPACING, VERTICAL_SPACING]);
+
   const handleAutoLayout = useCallback(() => {
     const updatedTasks = tasks.map((task, index) => ({
       ...task,
@@ -521,13 +938,44 @@ const App: React.FC = () => {
   const handleSelectProject = useCallback(async (project: ProjectData) => {
     setIsLoadingProject(true);
     try {
-      const projectWithMembers = await ProjectService.getProjectWithMembers(project.id);
-      setCurrentProject(project);
-      setProjectMembers(projectWithMembers.members || []);
-      setProjectGoal(project.goal);
-      setTargetDate(project.targetDate);
-      setTasks(project.tasks);
-      setGanttData(project.ganttData || null);
+      const [snapshot, hasPendingEdits] = await Promise.all([
+        getProjectSnapshot(project.id).catch(() => null),
+        hasPendingSync(project.id).catch(() => false),
+      ]);
+
+      let openedProject: ProjectData;
+      let members: ProjectMember[] = [];
+      let serverState: MergeableProject;
+      try {
+        const projectWithMembers = await ProjectService.getProjectWithMembers(project.id);
+        openedProject = { ...project, ...projectWithMembers, tasks: projectWithMembers.tasks, version: projectWithMembers.version };
+        members = projectWithMembers.members || [];
+        serverState = {
+          goal: projectWithMembers.goal,
+          targetDate: projectWithMembers.targetDate,
+          tasks: projectWithMembers.tasks,
+          ganttData: projectWithMembers.ganttData || null,
+        };
+      } catch (error) {
+        // Offline (or the server is unreachable): open the copy stored in this browser
+        if (!snapshot?.project) throw error;
+        openedProject = { ...snapshot.project, tasks: snapshot.tasks };
+        serverState = { goal: snapshot.goal, targetDate: snapshot.targetDate, tasks: snapshot.tasks, ganttData: snapshot.ganttData };
+      }
+
+      // Edits still waiting in the sync queue are newer than the server's copy
+      const localState = hasPendingEdits && snapshot
+        ? { goal: snapshot.goal, targetDate: snapshot.targetDate, tasks: snapshot.tasks, ganttData: snapshot.ganttData }
+        : serverState;
+
+      syncedSnapshotRef.current = serverState;
+      queuedStateRef.current = { projectId: openedProject.id, version: openedProject.version, ...localState };
+      setCurrentProject(openedProject);
+      setProjectMembers(members);
+      setProjectGoal(localState.goal);
+      setTargetDate(localState.targetDate);
+      setTasks(localState.tasks);
+      setGanttData(localState.ganttData || null);
       setViewState(ViewState.PROJECT_FLOW);
       setShowProjectList(false);
     } catch (error) {
@@ -537,26 +985,93 @@ const App: React.FC = () => {
     }
   }, []);
 
+  // Reopen the project that was open when the tab was closed
+  useEffect(() => {
+    if (!user?.id || hasRestoredSession) return;
+
+    const restore = async () => {
+      // Links in calendar events open their project and task
+      const params = new URLSearchParams(window.location.search);
+      const linkedProjectId = params.get('project');
+      if (linkedProjectId) {
+        window.history.replaceState(null, '', window.location.pathname);
+        try {
+          await handleSelectProject(await ProjectService.getProject(linkedProjectId));
+          setLinkedTaskId(params.get('task'));
+        } catch (error) {
+          setError('リンク先のプロジェクトを開けませんでした。メンバーとして参加しているか確認してください。');
+        }
+        return;
+      }
+
+      const key = await getLastOpenedProject();
+      const snapshot = key ? await getProjectSnapshot(key) : null;
+      if (!snapshot) return;
+
+      if (snapshot.project) {
+        await handleSelectProject(snapshot.project);
+      } else if (snapshot.tasks.length > 0) {
+        setProjectGoal(snapshot.goal);
+        setTargetDate(snapshot.targetDate);
+        setTasks(snapshot.tasks);
+        setGanttData(snapshot.ganttData);
+        addToHistory({ tasks: snapshot.tasks, projectGoal: snapshot.goal, targetDate: snapshot.targetDate });
+        setViewState(ViewState.PROJECT_FLOW);
+      }
+    };
+
+    restore()
+      .catch(error => console.error('Failed to restore the last project:', error))
+      .finally(() => setHasRestoredSession(true));
+  }, [user?.id, hasRestoredSession, handleSelectProject, addToHistory]);
+
   const handleSaveProject = useCallback(async () => {
     if (!user) {
       throw new Error('ログインが必要です');
     }
 
     if (currentProject?.id) {
-      // Update existing project
-      const updatedProject = await ProjectService.updateProject(currentProject.id, {
-        goal: projectGoal,
-        targetDate,
-        tasks,
-        ganttData,
-        expectedVersion: currentProject.version,
-      });
+      if (!navigator.onLine) {
+        throw new Error('オフラインのため、変更はこの端末に保存されています。接続が戻ると自動的に同期されます。');
+      }
+
+      // Update existing project, merging in changes other users saved in the meantime
+      const local: MergeableProject = { goal: projectGoal, targetDate, tasks, ganttData };
+      const base = syncedSnapshotRef.current || local;
+      let resolutions: Record<string, MergeSide> = {};
+      let outcome = await ProjectService.saveProjectWithMerge(currentProject.id, base, local, currentProject.version);
+
+      while (!outcome.project) {
+        const conflicts = outcome.merge?.conflicts || [];
+        const chosen = await new Promise<Record<string, MergeSide> | null>(resolve => setMergeConflicts({ conflicts, resolve }));
+        setMergeConflicts(null);
+        if (!chosen) {
+          throw new Error('保存をキャンセルしました');
+        }
+        resolutions = { ...resolutions, ...chosen };
+        outcome = await ProjectService.saveProjectWithMerge(currentProject.id, base, local, currentProject.version, resolutions);
+      }
+
+      const updatedProject = outcome.project;
+      if (outcome.merge) {
+        setProjectGoal(updatedProject.goal);
+        setTargetDate(updatedProject.targetDate);
+        setTasksWithHistory(updatedProject.tasks);
+        setGanttData(updatedProject.ganttData || null);
+      }
+      syncedSnapshotRef.current = {
+        goal: updatedProject.goal,
+        targetDate: updatedProject.targetDate,
+        tasks: updatedProject.tasks,
+        ganttData: updatedProject.ganttData || null,
+      };
+      queuedStateRef.current = { projectId: updatedProject.id, version: updatedProject.version, ...syncedSnapshotRef.current };
       setCurrentProject(updatedProject);
     } else {
       // This case is handled in ProjectFlowDisplay
       throw new Error('新規プロジェクトの保存はProjectFlowDisplayで処理されます');
     }
-  }, [user, currentProject, projectGoal, targetDate, tasks, ganttData]);
+  }, [user, currentProject, projectGoal, targetDate, tasks, ganttData, setTasksWithHistory]);
 
   // Show loading screen during auth initialization
   if (isAuthLoading) {
@@ -596,7 +1111,8 @@ const App: React.FC = () => {
   if (!isApiKeySet) {
     return (
       <ApiKeyModal
-        onSetApiKey={handleSetApiKey}
+        onSetConfig={handleSetAiConfig}
+        initialConfig={aiConfig}
         error={error}
         isLoading={isLoading}
       />
@@ -631,27 +1147,34 @@ const App: React.FC = () => {
 
       {viewState === ViewState.PROJECT_FLOW && (
         <ProjectFlowDisplay
-          tasks={tasks}
-          projectGoal={projectGoal}
-          targetDate={targetDate}
-          onSelectTask={handleSelectTask}
+          tasks={previewVersion ? [...previewVersion.tasks, ...(previewComparison?.diff.removedTasks || [])] : tasks}
+          projectGoal={previewVersion ? previewVersion.goal : projectGoal}
+          targetDate={previewVersion ? previewVersion.targetDate : targetDate}
+          onSelectTask={previewVersion ? () => {} : handleSelectTask}
           onUpdateTaskExtendedDetails={handleUpdateTaskExtendedDetails}
           onUpdateTaskPosition={handleUpdateTaskPosition}
           onUpdateTaskStatus={handleUpdateTaskStatus}
           onStartNewProject={handleStartNewProject}
           onExportProject={handleExportProject}
+          onExportMsProject={handleExportMsProject}
+          onExportExcel={handleExportExcel}
+          onExportBundle={handleExportBundle}
+          onOpenCalendarExport={() => setShowCalendarExport(true)}
           onAddTask={handleAddTask}
           onRemoveTask={handleRemoveTask}
           onImportSingleTask={handleImportSingleTask}
+          onInsertTaskBlueprint={handleInsertTaskBlueprint}
+          currentUserId={user?.id || null}
           onAutoLayout={handleAutoLayout}
           onUndo={handleUndo}
-          canUndo={canUndo}
+          canUndo={canUndo && !previewVersion && !currentProject?.archivedAt}
           onRedo={handleRedo}
-          canRedo={canRedo}
+          canRedo={canRedo && !previewVersion && !currentProject?.archivedAt}
           generateUniqueId={generateUniqueId}
           onUpdateTaskConnections={handleUpdateTaskConnections}
-          ganttData={ganttData}
-          setGanttData={setGanttData}
+          ganttData={previewVersion ? previewVersion.ganttData : ganttData}
+          setGanttData={previewVersion ? () => {} : setGanttData}
+          onApplyGanttEdit={handleApplyGanttEdit}
           onCustomReportGenerated={handleCustomReportGenerated}
           onClearApiKey={handleClearApiKey}
           onOpenProjectList={() => setShowProjectList(true)}
@@ -661,6 +1184,19 @@ const App: React.FC = () => {
           projectMembers={projectMembers}
           userRole={currentProject?.userRole || 'viewer'}
           onMembersUpdate={loadProjectMembers}
+          presenceUsers={presenceUsers}
+          commentBoard={commentBoard}
+          remoteCursors={Object.values(remoteCursors)}
+          onCanvasPointerMove={handleCanvasPointerMove}
+          onCanvasSelectionChange={handleCanvasSelectionChange}
+          onOpenVersionHistory={() => setShowVersionHistory(true)}
+          archivedAt={currentProject?.archivedAt}
+          previewVersion={previewVersion}
+          previewComparison={previewComparison}
+          onRestorePreview={canEditProject && previewVersion ? () => {
+            if (confirm(`プロジェクト全体をバージョン ${previewVersion.version} の状態に戻しますか？`)) handleRestoreVersion(previewVersion);
+          } : undefined}
+          onExitPreview={handleExitPreview}
         />
       )}
 
@@ -672,19 +1208,75 @@ const App: React.FC = () => {
           generateUniqueId={generateUniqueId}
           projectGoal={projectGoal}
           targetDate={targetDate}
-          canEdit={!currentProject || currentProject.userRole === 'owner' || currentProject.userRole === 'editor'}
+          canEdit={!currentProject || canEditProject}
+          lockedBy={taskLockHolder}
+          projectId={currentProject?.id || null}
+          currentUserId={user?.id || null}
+          commentBoard={commentBoard}
+        />
+      )}
+
+      {showVersionHistory && currentProject && (
+        <VersionHistoryModal
+          isOpen={showVersionHistory}
+          onClose={() => setShowVersionHistory(false)}
+          projectId={currentProject.id}
+          currentTasks={tasks}
+          canRestore={canEditProject}
+          onPreview={handlePreviewVersion}
+          onRestore={handleRestoreVersion}
+          onRestoreTasks={handleRestoreVersionTasks}
         />
       )}
 
+      {showCalendarExport && (
+        <CalendarExportModal
+          tasks={tasks}
+          projectId={currentProject?.id || null}
+          projectTitle={currentProject?.title || projectGoal.slice(0, 50)}
+          isLoggedIn={!!user}
+          onDownload={handleDownloadIcs}
+          onClose={() => setShowCalendarExport(false)}
+        />
+      )}
+
+      {excelImport && (
+        <ExcelImportModal
+          fileName={excelImport.fileName}
+          sheets={excelImport.sheets}
+          onImport={(result) => {
+            setExcelImport(null);
+            applyConvertedProject(result);
+          }}
+          onClose={() => setExcelImport(null)}
+        />
+      )}
+
+      {importSummary && (
+        <ImportSummaryModal summary={importSummary} onClose={() => setImportSummary(null)} />
+      )}
+
       {showProjectList && (
         <ProjectListModal
           isOpen={showProjectList}
           onClose={() => setShowProjectList(false)}
           onSelectProject={handleSelectProject}
           onCreateNew={handleStartNewProject}
+          onProjectRemoved={handleProjectRemoved}
         />
       )}
 
+      {(viewState === ViewState.PROJECT_FLOW || currentProject) && (
+        <SyncStatusIndicator isCloudProject={!!currentProject} />
+      )}
+
+      <MergeConflictModal
+        isOpen={!!mergeConflicts}
+        conflicts={mergeConflicts?.conflicts || []}
+        onResolve={(resolutions) => mergeConflicts?.resolve(resolutions)}
+        onCancel={() => mergeConflicts?.resolve(null)}
+      />
+
       {error && (
         <div className="fixed bottom-4 right-4 z-50">
           <ErrorMessage message={error} />
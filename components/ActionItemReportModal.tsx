@@ -1,9 +1,11 @@
 
 import React, { useState, useRef, ChangeEvent, useCallback } from 'react';
 import * as XLSX from 'xlsx';
-import { ActionItem, ActionItemReport, Attachment, ChartType } from '../types';
+import { ActionItem, ActionItemReport, ChartType } from '../types';
 import { XIcon, PaperClipIcon, TrashIcon, TableCellsIcon, PresentationChartBarIcon, PlusIcon, UploadIcon } from './icons';
 import MatrixEditor from './MatrixEditor';
+import AttachmentPreview from './AttachmentPreview';
+import { uploadAttachment } from '../services/attachmentStorage';
 
 // --- Chart Components ---
 const getCoordinatesForPercent = (percent: number) => {
@@ -94,6 +96,7 @@ interface ActionItemReportModalProps {
 const ActionItemReportModal: React.FC<ActionItemReportModalProps> = ({ actionItem, onSave, onClose, generateUniqueId }) => {
   const [report, setReport] = useState<ActionItemReport>(actionItem.report || { notes: '', attachments: [], matrixData: null });
   const [chartType, setChartType] = useState<ChartType>('bar');
+  const [isUploading, setIsUploading] = useState(false);
   const attachmentInputRef = useRef<HTMLInputElement>(null);
   const excelInputRef = useRef<HTMLInputElement>(null);
   
@@ -105,7 +108,7 @@ const ActionItemReportModal: React.FC<ActionItemReportModalProps> = ({ actionIte
     onSave({ ...actionItem, report });
   };
   
-  const handleAttachmentChange = (event: ChangeEvent<HTMLInputElement>) => {
+  const handleAttachmentChange = async (event: ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
 
@@ -117,26 +120,17 @@ const ActionItemReportModal: React.FC<ActionItemReportModalProps> = ({ actionIte
         if (event.target) event.target.value = '';
         return;
     }
-
-    const reader = new FileReader();
-    reader.onload = (e) => {
-        if (typeof e.target?.result === 'string') {
-            const newAttachment: Attachment = {
-                id: generateUniqueId('attach'),
-                name: file.name,
-                type: file.type,
-                dataUrl: e.target.result,
-            };
-            updateReport({ attachments: [...(report.attachments || []), newAttachment]});
-        } else {
-            alert('ファイルの読み込みに失敗しました。');
-        }
-    };
-    reader.onerror = () => {
-        alert('ファイルの読み込み中にエラーが発生しました。');
-    };
-    reader.readAsDataURL(file);
     if (event.target) event.target.value = '';
+
+    setIsUploading(true);
+    try {
+        const newAttachment = await uploadAttachment(file, generateUniqueId('attach'));
+        setReport(prev => ({ ...prev, attachments: [...(prev.attachments || []), newAttachment] }));
+    } catch (err) {
+        alert(err instanceof Error ? err.message : 'ファイルの読み込み中にエラーが発生しました。');
+    } finally {
+        setIsUploading(false);
+    }
   };
 
   const handleRemoveAttachment = (id: string) => {
@@ -230,21 +224,13 @@ const ActionItemReportModal: React.FC<ActionItemReportModalProps> = ({ actionIte
             <div>
                 <h4 className="text-sm font-semibold text-slate-700 flex justify-between items-center mb-2">
                     添付ファイル
-                    <button onClick={() => attachmentInputRef.current?.click()} className="p-1 hover:bg-slate-200 rounded-full"><PaperClipIcon className="w-5 h-5"/></button>
+                    <button onClick={() => attachmentInputRef.current?.click()} disabled={isUploading} className="p-1 hover:bg-slate-200 rounded-full disabled:opacity-50" title={isUploading ? 'アップロード中...' : 'ファイルを添付'}><PaperClipIcon className={`w-5 h-5 ${isUploading ? 'animate-pulse' : ''}`}/></button>
                     <input type="file" ref={attachmentInputRef} onChange={handleAttachmentChange} className="hidden" multiple={false} />
                 </h4>
                 <div className="grid grid-cols-2 sm:grid-cols-3 gap-2 max-h-48 overflow-y-auto border p-2 rounded-md bg-slate-50">
                     {(report.attachments || []).map(att => (
                         <div key={att.id} className="relative group border rounded-md overflow-hidden bg-white shadow-sm h-24">
-                            <a href={att.dataUrl} download={att.name} className="block w-full h-full" aria-label={`Download ${att.name}`}>
-                                {att.type.startsWith('image/') ? (
-                                    <img src={att.dataUrl} alt={att.name} className="w-full h-full object-cover"/>
-                                ) : (
-                                    <div className="w-full h-full bg-slate-100 flex flex-col items-center justify-center p-2 hover:bg-slate-200">
-                                      <PaperClipIcon className="w-8 h-8 text-slate-500"/>
-                                    </div>
-                                )}
-                            </a>
+                            <AttachmentPreview attachment={att} />
                             <div className="absolute bottom-0 w-full bg-black bg-opacity-60 p-1 pointer-events-none">
                                <p className="text-white text-[10px] truncate" title={att.name}>{att.name}</p>
                             </div>
@@ -1,6 +1,7 @@
 import React, { useState, useMemo } from 'react';
 import { ActionItem, SubStep } from '../types';
 import { XIcon, SortAscIcon, SortDescIcon, CheckSquareIcon, SquareIcon, PaperClipIcon } from './icons';
+import AttachmentPreview, { AttachmentLink } from './AttachmentPreview';
 
 interface FlattenedItem {
   actionItem: ActionItem;
@@ -133,17 +134,17 @@ const ActionItemTableModal: React.FC<ActionItemTableModalProps> = ({ items, task
                     {actionItem.report && Array.isArray(actionItem.report.attachments) && actionItem.report.attachments.length > 0 && (
                         <div className="mt-2 pt-2 border-t border-slate-200 space-y-1">
                             {actionItem.report.attachments.map(att => (
-                                <a 
-                                    key={att.id} 
-                                    href={att.dataUrl} 
-                                    target="_blank" 
-                                    rel="noopener noreferrer"
-                                    download={att.name}
-                                    className="flex items-center gap-1.5 text-xs text-blue-600 hover:underline"
-                                >
-                                    <PaperClipIcon className="w-3.5 h-3.5" />
-                                    <span>{att.name}</span>
-                                </a>
+                                <div key={att.id} className="flex items-center gap-1.5">
+                                    {att.type.startsWith('image/') && (
+                                        <div className="w-8 h-8 flex-shrink-0 border rounded overflow-hidden">
+                                            <AttachmentPreview attachment={att} iconClassName="w-4 h-4" />
+                                        </div>
+                                    )}
+                                    <AttachmentLink attachment={att} className="flex items-center gap-1.5 text-xs text-blue-600 hover:underline">
+                                        <PaperClipIcon className="w-3.5 h-3.5" />
+                                        <span>{att.name}</span>
+                                    </AttachmentLink>
+                                </div>
                             ))}
                         </div>
                     )}
@@ -0,0 +1,281 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { ProjectActivity, ActivityEntityType, ActivityAction } from '../types';
+import { ProjectService } from '../services/projectService';
+import { formatChangeValue } from '../services/changeValues';
+import { XIcon, RefreshIcon, DownloadIcon } from './icons';
+import LoadingSpinner from './LoadingSpinner';
+import ErrorMessage from './ErrorMessage';
+
+interface ActivityLogModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  projectId: string;
+  taskId?: string; // Limits the feed to one task and everything inside it
+  title?: string;
+}
+
+const PAGE_SIZE = 50;
+
+const ENTITY_LABELS: Record<string, string> = {
+  task: 'タスク',
+  substep: 'サブステップ',
+  actionitem: 'アクションアイテム',
+  decision: '決定事項',
+  member: 'メンバー',
+};
+
+const ACTION_LABELS: Record<string, string> = {
+  created: '追加',
+  updated: '変更',
+  deleted: '削除',
+};
+
+const ACTION_STYLES: Record<string, string> = {
+  created: 'bg-green-100 text-green-800',
+  updated: 'bg-blue-100 text-blue-800',
+  deleted: 'bg-red-100 text-red-800',
+};
+
+const COLUMN_LABELS: Record<string, string> = {
+  id: 'ID',
+  title: 'タイトル',
+  description: '説明',
+  status: 'ステータス',
+  next_task_ids: 'タスクの接続',
+  next_sub_step_ids: 'サブステップの接続',
+  canvas_position: '位置',
+  sort_order: '並び順',
+  has_details: '詳細計画',
+  resources: '必要なリソース',
+  responsible: '担当者',
+  notes: 'メモ',
+  due_date: '期限',
+  estimated_days: '見積工数',
+  numerical_target: '数値目標',
+  report_deck: 'レポート',
+  resource_matrix: 'リソースマトリクス',
+  sub_step_canvas_size: 'キャンバスサイズ',
+  text: '内容',
+  completed: '完了',
+  completed_date: '完了日',
+  has_report: '実施報告',
+  report_notes: '報告メモ',
+  report_matrix: '報告表',
+  question: '質問',
+  decision: '決定内容',
+  reasoning: '理由',
+  decided_on: '決定日',
+  role: '権限',
+  invited_by: '招待者',
+  invited_at: '招待日時',
+  joined_at: '参加日時',
+  user_id: 'ユーザー',
+  extra: 'その他の項目',
+};
+
+const STATUS_VALUE_LABELS: Record<string, Record<string, string>> = {
+  task: { 'Not Started': '未着手', 'In Progress': '進行中', Completed: '完了', Blocked: '停滞中' },
+  substep: { 'Not Started': '未着手', 'In Progress': '進行中', Completed: '完了' },
+  decision: { decided: '決定済み', undecided: '未決定' },
+  member: { pending: '招待中', accepted: '参加済み', declined: '辞退' },
+};
+
+const ROLE_LABELS: Record<string, string> = { owner: 'オーナー', editor: '編集者', viewer: '閲覧者' };
+
+// Columns that only change as a side effect of other edits
+const HIDDEN_COLUMNS = new Set(['id', 'sort_order', 'task_id', 'sub_step_id', 'has_details', 'has_report', 'invited_at', 'joined_at', 'user_id']);
+
+const formatValue = (entityType: string, column: string, value: unknown): string => formatChangeValue(value, {
+  labels: column === 'status' ? STATUS_VALUE_LABELS[entityType] : column === 'role' ? ROLE_LABELS : undefined,
+  maxLength: 60,
+});
+
+const visibleChanges = (entry: ProjectActivity) =>
+  Object.entries(entry.changes).filter(([column]) => entry.action === 'updated' ? !HIDDEN_COLUMNS.has(column) : false);
+
+const formatDateTime = (value: string) =>
+  new Date(value).toLocaleString('ja-JP', { year: 'numeric', month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+const csvCell = (value: string) => `"${value.replace(/"/g, '""')}"`;
+
+const ActivityLogModal: React.FC<ActivityLogModalProps> = ({ isOpen, onClose, projectId, taskId, title }) => {
+  const [entries, setEntries] = useState<ProjectActivity[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [hasMore, setHasMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [entityFilter, setEntityFilter] = useState<ActivityEntityType[]>([]);
+  const [actionFilter, setActionFilter] = useState<ActivityAction | ''>('');
+  const [actorFilter, setActorFilter] = useState('');
+  const [searchText, setSearchText] = useState('');
+
+  const load = useCallback(async (beforeId?: string) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const page = await ProjectService.getProjectActivity(projectId, {
+        taskId,
+        entityTypes: entityFilter,
+        actorId: actorFilter || undefined,
+        beforeId,
+        limit: PAGE_SIZE,
+      });
+      setEntries(prev => beforeId ? [...prev, ...page] : page);
+      setHasMore(page.length === PAGE_SIZE);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '変更履歴の取得に失敗しました');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [projectId, taskId, entityFilter, actorFilter]);
+
+  useEffect(() => {
+    if (isOpen) load();
+  }, [isOpen, load]);
+
+  const actors = useMemo(() => {
+    const byId = new Map<string, string>();
+    entries.forEach(entry => {
+      if (entry.actorId) byId.set(entry.actorId, entry.actorEmail || entry.actorId);
+    });
+    return [...byId.entries()];
+  }, [entries]);
+
+  const visibleEntries = useMemo(() => {
+    const query = searchText.trim().toLowerCase();
+    return entries.filter(entry =>
+      (!actionFilter || entry.action === actionFilter) &&
+      (!query || (entry.entityName || '').toLowerCase().includes(query) || (entry.actorEmail || '').toLowerCase().includes(query)));
+  }, [entries, actionFilter, searchText]);
+
+  const toggleEntity = (entityType: ActivityEntityType) => {
+    setEntityFilter(prev => prev.includes(entityType) ? prev.filter(t => t !== entityType) : [...prev, entityType]);
+  };
+
+  const handleExportCsv = () => {
+    const header = ['日時', '実行者', '対象', '名前', '操作', '項目', '変更前', '変更後'];
+    const rows = visibleEntries.flatMap(entry => {
+      const base = [formatDateTime(entry.createdAt), entry.actorEmail || 'システム', ENTITY_LABELS[entry.entityType], entry.entityName || entry.entityId, ACTION_LABELS[entry.action]];
+      const changes = visibleChanges(entry);
+      if (changes.length === 0) return [[...base, '', '', '']];
+      return changes.map(([column, change]) => [
+        ...base,
+        COLUMN_LABELS[column] || column,
+        formatValue(entry.entityType, column, change.from),
+        formatValue(entry.entityType, column, change.to),
+      ]);
+    });
+    const csv = [header, ...rows].map(row => row.map(csvCell).join(',')).join('\r\n');
+    const blob = new Blob(['\uFEFF' + csv], { type: 'text/csv;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `activity-${taskId || projectId}-${new Date().toISOString().slice(0, 10)}.csv`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-70 backdrop-blur-sm flex items-center justify-center p-4 z-[110]">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-4xl max-h-[90vh] flex flex-col">
+        <header className="flex items-center justify-between p-4 border-b">
+          <div className="min-w-0">
+            <h3 className="text-xl font-bold text-slate-800">変更履歴</h3>
+            {title && <p className="text-sm text-slate-500 truncate">{title}</p>}
+          </div>
+          <div className="flex items-center gap-2">
+            <button onClick={handleExportCsv} disabled={visibleEntries.length === 0} className="inline-flex items-center px-3 py-1.5 text-sm border border-slate-300 rounded-md text-slate-700 hover:bg-slate-50 disabled:opacity-50">
+              <DownloadIcon className="w-4 h-4 mr-1" />CSV
+            </button>
+            <button onClick={() => load()} className="p-2 rounded-full hover:bg-slate-100" title="再読み込み">
+              <RefreshIcon className="w-5 h-5 text-slate-600" />
+            </button>
+            <button onClick={onClose} className="p-2 rounded-full hover:bg-slate-100" title="閉じる">
+              <XIcon className="w-5 h-5 text-slate-600" />
+            </button>
+          </div>
+        </header>
+
+        <div className="flex flex-wrap items-center gap-2 px-4 py-3 bg-slate-50 border-b text-sm">
+          {(Object.keys(ENTITY_LABELS) as ActivityEntityType[])
+            .filter(entityType => !taskId || entityType !== 'member')
+            .map(entityType => (
+              <button
+                key={entityType}
+                onClick={() => toggleEntity(entityType)}
+                className={`px-2.5 py-1 rounded-full border text-xs ${entityFilter.includes(entityType) ? 'bg-blue-600 border-blue-600 text-white' : 'bg-white border-slate-300 text-slate-700 hover:bg-slate-100'}`}
+              >
+                {ENTITY_LABELS[entityType]}
+              </button>
+            ))}
+          <select value={actionFilter} onChange={e => setActionFilter(e.target.value as ActivityAction | '')} className="ml-auto px-2 py-1 border border-slate-300 rounded-md bg-white text-slate-700">
+            <option value="">すべての操作</option>
+            {Object.entries(ACTION_LABELS).map(([action, label]) => <option key={action} value={action}>{label}</option>)}
+          </select>
+          <select value={actorFilter} onChange={e => setActorFilter(e.target.value)} className="px-2 py-1 border border-slate-300 rounded-md bg-white text-slate-700">
+            <option value="">すべてのユーザー</option>
+            {actors.map(([actorId, email]) => <option key={actorId} value={actorId}>{email}</option>)}
+          </select>
+          <input
+            type="search"
+            value={searchText}
+            onChange={e => setSearchText(e.target.value)}
+            placeholder="名前で検索"
+            className="px-2 py-1 border border-slate-300 rounded-md bg-white text-slate-700 w-36"
+          />
+        </div>
+
+        <div className="flex-grow overflow-y-auto p-4">
+          {error && <ErrorMessage message={error} />}
+          {!isLoading && visibleEntries.length === 0 && !error && (
+            <p className="text-center text-slate-500 py-12">該当する変更履歴はありません。</p>
+          )}
+          <ol className="space-y-3">
+            {visibleEntries.map(entry => {
+              const changes = visibleChanges(entry);
+              return (
+                <li key={entry.id} className="border rounded-lg p-3">
+                  <div className="flex flex-wrap items-center gap-2 text-sm">
+                    <span className={`px-1.5 py-0.5 rounded text-xs font-medium ${ACTION_STYLES[entry.action]}`}>{ACTION_LABELS[entry.action]}</span>
+                    <span className="px-1.5 py-0.5 rounded bg-slate-100 text-xs text-slate-700">{ENTITY_LABELS[entry.entityType]}</span>
+                    <span className="font-semibold text-slate-800 break-all">{entry.entityName || entry.entityId}</span>
+                    <span className="ml-auto text-xs text-slate-500 whitespace-nowrap">{formatDateTime(entry.createdAt)}</span>
+                  </div>
+                  <p className="text-xs text-slate-500 mt-1">{entry.actorEmail || 'システム'}</p>
+                  {changes.length > 0 && (
+                    <table className="mt-2 w-full text-xs">
+                      <tbody>
+                        {changes.map(([column, change]) => (
+                          <tr key={column} className="border-t border-slate-100">
+                            <td className="py-1 pr-2 text-slate-500 whitespace-nowrap align-top w-32">{COLUMN_LABELS[column] || column}</td>
+                            <td className="py-1 pr-2 text-slate-500 line-through break-all align-top">{formatValue(entry.entityType, column, change.from)}</td>
+                            <td className="py-1 text-slate-800 break-all align-top">{formatValue(entry.entityType, column, change.to)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+                </li>
+              );
+            })}
+          </ol>
+          {isLoading && (
+            <div className="flex justify-center py-6"><LoadingSpinner size="md" text="読み込み中..." /></div>
+          )}
+          {!isLoading && hasMore && (
+            <div className="flex justify-center pt-4">
+              <button onClick={() => load(entries[entries.length - 1]?.id)} className="px-4 py-2 text-sm border border-slate-300 rounded-md text-slate-700 hover:bg-slate-50">
+                さらに読み込む
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ActivityLogModal;
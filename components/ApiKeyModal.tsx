@@ -2,19 +2,32 @@
 import React, { useState } from 'react';
 import { KeyIcon, SparklesIcon } from './icons';
 import LoadingSpinner from './LoadingSpinner';
+import { AiProviderConfig, AiProviderKind, AI_PROVIDER_LABELS } from '../services/aiProvider';
+import { GEMINI_MODEL_TEXT, OPENAI_COMPATIBLE_DEFAULT_MODEL } from '../constants';
 
 interface ApiKeyModalProps {
-  onSetApiKey: (key: string) => void;
+  onSetConfig: (config: AiProviderConfig) => void;
+  initialConfig?: AiProviderConfig | null;
   error?: string | null;
   isLoading?: boolean;
 }
 
-const ApiKeyModal: React.FC<ApiKeyModalProps> = ({ onSetApiKey, error, isLoading }) => {
-  const [key, setKey] = useState('');
+const ApiKeyModal: React.FC<ApiKeyModalProps> = ({ onSetConfig, initialConfig, error, isLoading }) => {
+  const [kind, setKind] = useState<AiProviderKind>(initialConfig?.kind || 'gemini');
+  const [key, setKey] = useState(initialConfig?.apiKey || '');
+  const [baseUrl, setBaseUrl] = useState(initialConfig?.baseUrl || '');
+  const [model, setModel] = useState(initialConfig?.model || '');
+
+  const isValid = kind === 'mock' || (kind === 'gemini' && !!key) || (kind === 'openai' && !!baseUrl);
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    onSetApiKey(key);
+    onSetConfig({
+      kind,
+      apiKey: kind === 'mock' ? '' : key,
+      baseUrl: kind === 'openai' ? baseUrl.trim() : undefined,
+      model: kind === 'mock' ? undefined : model.trim() || undefined,
+    });
   };
 
   return (
@@ -23,30 +36,78 @@ const ApiKeyModal: React.FC<ApiKeyModalProps> = ({ onSetApiKey, error, isLoading
         <div className="text-center mb-8">
           <SparklesIcon className="w-12 h-12 mx-auto text-blue-600 mb-4" />
           <h1 className="text-3xl font-bold text-slate-800">AI Project Planner</h1>
-          <p className="text-slate-600 mt-2">始めるには、Google Gemini APIキーを入力してください。</p>
+          <p className="text-slate-600 mt-2">始めるには、利用するAIプロバイダーを設定してください。</p>
         </div>
         
         <form onSubmit={handleSubmit} className="space-y-6">
           <div>
-            <label htmlFor="apiKey" className="block text-sm font-semibold text-slate-700 mb-2 flex items-center">
-              <KeyIcon className="w-5 h-5 mr-2 text-slate-500" />
-              Gemini API Key
-            </label>
-            <input
-              id="apiKey"
-              type="password"
-              value={key}
-              onChange={(e) => setKey(e.target.value)}
-              placeholder="APIキーをここに貼り付け"
-              className="w-full px-4 py-3 bg-slate-100 border border-slate-300 rounded-lg shadow-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition duration-150 ease-in-out text-base text-slate-800 placeholder-slate-400"
-            />
+            <label htmlFor="aiProvider" className="block text-sm font-semibold text-slate-700 mb-2">AIプロバイダー</label>
+            <select
+              id="aiProvider"
+              value={kind}
+              onChange={(e) => setKind(e.target.value as AiProviderKind)}
+              className="w-full px-4 py-3 bg-slate-100 border border-slate-300 rounded-lg shadow-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-base text-slate-800"
+            >
+              {(Object.keys(AI_PROVIDER_LABELS) as AiProviderKind[]).map(k => (
+                <option key={k} value={k}>{AI_PROVIDER_LABELS[k]}</option>
+              ))}
+            </select>
           </div>
+
+          {kind === 'openai' && (
+            <div>
+              <label htmlFor="baseUrl" className="block text-sm font-semibold text-slate-700 mb-2">エンドポイントURL</label>
+              <input
+                id="baseUrl"
+                type="url"
+                value={baseUrl}
+                onChange={(e) => setBaseUrl(e.target.value)}
+                placeholder="http://localhost:8000/v1"
+                className="w-full px-4 py-3 bg-slate-100 border border-slate-300 rounded-lg shadow-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition duration-150 ease-in-out text-base text-slate-800 placeholder-slate-400"
+              />
+            </div>
+          )}
+
+          {kind !== 'mock' && (
+            <div>
+              <label htmlFor="apiKey" className="block text-sm font-semibold text-slate-700 mb-2 flex items-center">
+                <KeyIcon className="w-5 h-5 mr-2 text-slate-500" />
+                {kind === 'gemini' ? 'Gemini API Key' : 'API Key (任意)'}
+              </label>
+              <input
+                id="apiKey"
+                type="password"
+                value={key}
+                onChange={(e) => setKey(e.target.value)}
+                placeholder="APIキーをここに貼り付け"
+                className="w-full px-4 py-3 bg-slate-100 border border-slate-300 rounded-lg shadow-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition duration-150 ease-in-out text-base text-slate-800 placeholder-slate-400"
+              />
+            </div>
+          )}
+
+          {kind !== 'mock' && (
+            <div>
+              <label htmlFor="model" className="block text-sm font-semibold text-slate-700 mb-2">モデル (任意)</label>
+              <input
+                id="model"
+                type="text"
+                value={model}
+                onChange={(e) => setModel(e.target.value)}
+                placeholder={kind === 'gemini' ? GEMINI_MODEL_TEXT : OPENAI_COMPATIBLE_DEFAULT_MODEL}
+                className="w-full px-4 py-3 bg-slate-100 border border-slate-300 rounded-lg shadow-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition duration-150 ease-in-out text-base text-slate-800 placeholder-slate-400"
+              />
+            </div>
+          )}
+
+          {kind === 'mock' && (
+            <p className="text-sm text-slate-600 bg-slate-100 p-3 rounded-md">モックプロバイダーはネットワークに接続せず、固定の応答を返します。オフラインでの動作確認やテストに使用します。</p>
+          )}
           
           {error && <p className="text-sm text-red-600 bg-red-100 p-3 rounded-md">{error}</p>}
           
           <button
             type="submit"
-            disabled={isLoading || !key}
+            disabled={isLoading || !isValid}
             className="w-full bg-blue-600 hover:bg-blue-700 disabled:bg-slate-400 text-white font-semibold py-3 px-4 rounded-lg shadow-md hover:shadow-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 transition duration-150 ease-in-out flex items-center justify-center"
           >
             {isLoading ? <LoadingSpinner size="sm" /> : '保存して開始'}
@@ -61,12 +122,12 @@ const ApiKeyModal: React.FC<ApiKeyModalProps> = ({ onSetApiKey, error, isLoading
             >
                 APIキーの取得はこちら
             </a>
-            <p className="text-xs text-slate-400 mt-2">APIキーはセッション中のみブラウザに保存されます。</p>
+            <p className="text-xs text-slate-400 mt-2">APIキーと接続設定はセッション中のみブラウザに保存されます。</p>
         </div>
       </div>
       <footer className="mt-8 text-center">
         <p className="text-slate-400 text-sm">
-          Powered by Gemini API
+          Powered by {AI_PROVIDER_LABELS[kind]}
         </p>
       </footer>
     </div>
@@ -0,0 +1,152 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Attachment } from '../types';
+import { resolveAttachmentUrl, formatFileSize } from '../services/attachmentStorage';
+import { PaperClipIcon } from './icons';
+
+// Resolves the attachment URL once `enabled` is true (e.g. after the element scrolled into view).
+export const useAttachmentUrl = (attachment: Attachment | undefined, enabled: boolean = true) => {
+  const [url, setUrl] = useState<string | null>(attachment?.dataUrl || null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!attachment || !enabled) return;
+    let cancelled = false;
+    setError(null);
+    resolveAttachmentUrl(attachment)
+      .then(resolved => { if (!cancelled) setUrl(resolved); })
+      .catch(err => { if (!cancelled) setError(err instanceof Error ? err.message : 'ファイルを読み込めませんでした。'); });
+    return () => { cancelled = true; };
+  }, [attachment?.id, attachment?.storagePath, attachment?.dataUrl, enabled]);
+
+  return { url, error };
+};
+
+// Becomes true the first time the element comes near the viewport.
+const useInView = (ref: React.RefObject<HTMLElement | null>) => {
+  const [inView, setInView] = useState(false);
+
+  useEffect(() => {
+    const element = ref.current;
+    if (!element || inView) return;
+    if (typeof IntersectionObserver === 'undefined') {
+      setInView(true);
+      return;
+    }
+    const observer = new IntersectionObserver(entries => {
+      if (entries.some(entry => entry.isIntersecting)) {
+        setInView(true);
+        observer.disconnect();
+      }
+    }, { rootMargin: '200px' });
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [ref, inView]);
+
+  return inView;
+};
+
+const describe = (attachment: Attachment) =>
+  attachment.size !== undefined ? `${attachment.name} (${formatFileSize(attachment.size)})` : attachment.name;
+
+// Opens the file in a new tab, resolving the URL first if it has not been loaded yet.
+const openOnClick = (attachment: Attachment, url: string | null) => (event: React.MouseEvent) => {
+  if (url) return;
+  event.preventDefault();
+  event.stopPropagation();
+  resolveAttachmentUrl(attachment)
+    .then(resolved => window.open(resolved, '_blank', 'noopener,noreferrer'))
+    .catch(err => alert(err instanceof Error ? err.message : 'ファイルを開けませんでした。'));
+};
+
+interface AttachmentLinkProps {
+  attachment: Attachment;
+  className?: string;
+  children?: React.ReactNode;
+}
+
+/**
+ * A link to the attachment. The file URL is only requested when the link is clicked.
+ */
+export const AttachmentLink: React.FC<AttachmentLinkProps> = ({ attachment, className, children }) => {
+  const url = attachment.dataUrl || null;
+  const handleClick = openOnClick(attachment, url);
+
+  return (
+    <a
+      href={url || '#'}
+      onClick={handleClick}
+      target="_blank"
+      rel="noopener noreferrer"
+      download={attachment.name}
+      title={describe(attachment)}
+      className={className}
+    >
+      {children ?? attachment.name}
+    </a>
+  );
+};
+
+interface AttachmentImageProps {
+  attachment: Attachment;
+  className?: string;
+}
+
+/**
+ * An image attachment rendered at full size, e.g. on a slide.
+ */
+export const AttachmentImage: React.FC<AttachmentImageProps> = ({ attachment, className }) => {
+  const { url, error } = useAttachmentUrl(attachment);
+
+  if (error) {
+    return <div className="w-full h-full bg-slate-200 flex items-center justify-center text-xs text-slate-500 p-2 text-center">{error}</div>;
+  }
+  if (!url) {
+    return <div className="w-full h-full bg-slate-100 animate-pulse" />;
+  }
+  return <img src={url} className={className} alt={attachment.name} />;
+};
+
+interface AttachmentPreviewProps {
+  attachment: Attachment;
+  iconClassName?: string;
+}
+
+/**
+ * Thumbnail for an attachment. Images are loaded when the thumbnail scrolls into view;
+ * other files show an icon and are only fetched when opened.
+ */
+const AttachmentPreview: React.FC<AttachmentPreviewProps> = ({ attachment, iconClassName = 'w-8 h-8' }) => {
+  const ref = useRef<HTMLAnchorElement>(null);
+  const isImage = attachment.type.startsWith('image/');
+  const inView = useInView(ref);
+  const { url, error } = useAttachmentUrl(attachment, isImage && inView);
+  const handleClick = openOnClick(attachment, url);
+
+  return (
+    <a
+      ref={ref}
+      href={url || '#'}
+      onClick={handleClick}
+      target="_blank"
+      rel="noopener noreferrer"
+      download={attachment.name}
+      title={error || describe(attachment)}
+      className="block w-full h-full"
+      aria-label={`Download ${attachment.name}`}
+    >
+      {isImage && url ? (
+        <img src={url} alt={attachment.name} loading="lazy" className="w-full h-full object-cover" />
+      ) : (
+        <div className="w-full h-full bg-slate-100 flex flex-col items-center justify-center p-1 hover:bg-slate-200">
+          {isImage && !error ? (
+            <div className="w-6 h-6 border-2 border-slate-300 border-t-slate-500 rounded-full animate-spin" />
+          ) : (
+            <PaperClipIcon className={`${iconClassName} ${error ? 'text-red-400' : 'text-slate-500'}`} />
+          )}
+        </div>
+      )}
+    </a>
+  );
+};
+
+export default AttachmentPreview;
@@ -0,0 +1,244 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { ProjectTask, SubStep, ActionItem, TaskBlueprint, TaskBlueprintKind } from '../types';
+import { ProjectService } from '../services/projectService';
+import { createBlueprintContent, hasBlueprintDates } from '../services/taskBlueprints';
+import { XIcon, TrashIcon, PlusIcon } from './icons';
+import LoadingSpinner from './LoadingSpinner';
+import ErrorMessage from './ErrorMessage';
+
+interface BlueprintLibraryModalProps {
+  kind: TaskBlueprintKind;
+  onClose: () => void;
+  source?: { task?: ProjectTask; subStep?: SubStep; actionItems?: ActionItem[] } | null; // Item that can be saved as a blueprint
+  sourceName?: string;
+  onInsert?: (blueprint: TaskBlueprint, anchorDate: string) => void;
+  defaultAnchorDate?: string;
+  currentUserId?: string | null;
+}
+
+const KIND_LABELS: Record<string, string> = {
+  task: 'タスク',
+  substep: 'サブステップ',
+  checklist: 'チェックリスト',
+};
+
+const ANCHOR_LABELS: Record<string, string> = {
+  task: 'タスクの期日',
+  substep: 'サブステップの期日',
+  checklist: '最後のアクションアイテムの期日',
+};
+
+const describeBlueprint = (blueprint: TaskBlueprint): string => {
+  if (blueprint.kind === 'task') {
+    const subSteps = blueprint.task?.extendedDetails?.subSteps || [];
+    const actionItems = subSteps.reduce((sum: number, subStep: SubStep) => sum + (subStep.actionItems?.length || 0), 0);
+    return `サブステップ ${subSteps.length}件・アクションアイテム ${actionItems}件`;
+  }
+  if (blueprint.kind === 'substep') return `アクションアイテム ${blueprint.subStep?.actionItems?.length || 0}件`;
+  return `アクションアイテム ${blueprint.actionItems?.length || 0}件`;
+};
+
+const BlueprintLibraryModal: React.FC<BlueprintLibraryModalProps> = ({
+  kind,
+  onClose,
+  source,
+  sourceName,
+  onInsert,
+  defaultAnchorDate,
+  currentUserId,
+}) => {
+  const [blueprints, setBlueprints] = useState<TaskBlueprint[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [search, setSearch] = useState('');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [anchorDate, setAnchorDate] = useState<string>(defaultAnchorDate || '');
+  const [name, setName] = useState<string>(sourceName || '');
+  const [description, setDescription] = useState('');
+
+  useEffect(() => {
+    setIsLoading(true);
+    ProjectService.getTaskBlueprints(kind)
+      .then(setBlueprints)
+      .catch(err => setError(err instanceof Error ? err.message : 'ブループリントの取得に失敗しました'))
+      .finally(() => setIsLoading(false));
+  }, [kind]);
+
+  const visibleBlueprints = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    if (!query) return blueprints;
+    return blueprints.filter(blueprint =>
+      blueprint.name.toLowerCase().includes(query) || blueprint.description.toLowerCase().includes(query));
+  }, [blueprints, search]);
+
+  const selectedBlueprint = blueprints.find(blueprint => blueprint.id === selectedId) || null;
+
+  const handleSave = async () => {
+    if (!source) return;
+    if (!name.trim()) {
+      setError('ブループリント名を入力してください');
+      return;
+    }
+    setIsSaving(true);
+    setError(null);
+    try {
+      const created = await ProjectService.createTaskBlueprint(createBlueprintContent(kind, source), {
+        name: name.trim(),
+        description: description.trim(),
+      });
+      setBlueprints(prev => [created, ...prev]);
+      setDescription('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'ブループリントの保存に失敗しました');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (blueprint: TaskBlueprint) => {
+    if (!confirm(`ブループリント「${blueprint.name}」を削除しますか？`)) return;
+    try {
+      await ProjectService.deleteTaskBlueprint(blueprint.id);
+      setBlueprints(prev => prev.filter(b => b.id !== blueprint.id));
+      if (selectedId === blueprint.id) setSelectedId(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'ブループリントの削除に失敗しました');
+    }
+  };
+
+  const handleInsert = () => {
+    if (!selectedBlueprint || !onInsert) return;
+    onInsert(selectedBlueprint, anchorDate);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-70 backdrop-blur-sm flex items-center justify-center p-4 z-[110]">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-2xl max-h-[90vh] flex flex-col">
+        <header className="flex items-center justify-between p-6 border-b border-slate-200">
+          <div>
+            <h3 className="text-xl font-bold text-slate-800">{KIND_LABELS[kind]}のブループリント</h3>
+            <p className="text-sm text-slate-500 mt-1">よく使う{KIND_LABELS[kind]}を保存して、どのプロジェクトにも挿入できます。</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-slate-500 hover:text-slate-700 transition-colors p-1 rounded-full hover:bg-slate-100"
+          >
+            <XIcon className="w-6 h-6" />
+          </button>
+        </header>
+
+        <div className="flex-grow p-6 overflow-y-auto space-y-5">
+          {error && <ErrorMessage message={error} />}
+
+          {source && (
+            <div className="bg-slate-50 rounded-lg p-4 space-y-3">
+              <h4 className="font-semibold text-slate-800">{sourceName ? `「${sourceName}」` : `現在の${KIND_LABELS[kind]}`}をブループリントとして保存</h4>
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="ブループリント名"
+                className="w-full px-3 py-2 border border-slate-300 rounded-md text-sm"
+                disabled={isSaving}
+              />
+              <input
+                type="text"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                placeholder="説明（任意）"
+                className="w-full px-3 py-2 border border-slate-300 rounded-md text-sm"
+                disabled={isSaving}
+              />
+              <div className="flex justify-end">
+                <button
+                  onClick={handleSave}
+                  disabled={isSaving}
+                  className="inline-flex items-center gap-2 px-4 py-2 text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:bg-slate-400"
+                >
+                  {isSaving ? <LoadingSpinner size="sm" color="border-white" /> : <PlusIcon className="w-4 h-4" />}
+                  保存
+                </button>
+              </div>
+              <p className="text-xs text-slate-500">進捗状況・実施報告・決定内容・添付ファイルは保存されません。期限は{ANCHOR_LABELS[kind]}からの相対日数として保存します。</p>
+            </div>
+          )}
+
+          <div>
+            <input
+              type="text"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="ブループリントを検索"
+              className="w-full px-3 py-2 border border-slate-300 rounded-md text-sm mb-3"
+            />
+            {isLoading ? (
+              <div className="flex justify-center py-8"><LoadingSpinner /></div>
+            ) : visibleBlueprints.length === 0 ? (
+              <p className="text-center text-sm text-slate-500 py-8">保存されたブループリントはありません。</p>
+            ) : (
+              <ul className="space-y-2">
+                {visibleBlueprints.map((blueprint: TaskBlueprint) => (
+                  <li
+                    key={blueprint.id}
+                    onClick={() => onInsert && setSelectedId(blueprint.id)}
+                    className={`border rounded-lg p-3 flex items-start justify-between gap-3 ${onInsert ? 'cursor-pointer hover:bg-slate-50' : ''} ${selectedId === blueprint.id ? 'border-blue-500 bg-blue-50' : 'border-slate-200'}`}
+                  >
+                    <div className="min-w-0">
+                      <p className="font-medium text-slate-800 truncate">{blueprint.name}</p>
+                      {blueprint.description && <p className="text-xs text-slate-600 mt-0.5">{blueprint.description}</p>}
+                      <p className="text-xs text-slate-500 mt-1">
+                        {describeBlueprint(blueprint)}
+                      </p>
+                    </div>
+                    {blueprint.createdBy === currentUserId && (
+                      <button
+                        onClick={(e) => { e.stopPropagation(); handleDelete(blueprint); }}
+                        className="p-1 text-slate-400 hover:text-red-600 flex-shrink-0"
+                        title="削除"
+                      >
+                        <TrashIcon className="w-4 h-4" />
+                      </button>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+
+        {onInsert && (
+          <footer className="flex flex-wrap items-center justify-end gap-3 p-6 border-t border-slate-200">
+            {selectedBlueprint && hasBlueprintDates(selectedBlueprint) && (
+              <label className="flex items-center gap-2 text-sm text-slate-700 mr-auto">
+                {ANCHOR_LABELS[kind]}
+                <input
+                  type="date"
+                  value={anchorDate}
+                  onChange={(e) => setAnchorDate(e.target.value)}
+                  className="px-2 py-1 border border-slate-300 rounded-md text-sm"
+                />
+              </label>
+            )}
+            <button
+              onClick={onClose}
+              className="px-4 py-2 border border-slate-300 text-sm font-medium rounded-md text-slate-700 bg-white hover:bg-slate-50"
+            >
+              キャンセル
+            </button>
+            <button
+              onClick={handleInsert}
+              disabled={!selectedBlueprint}
+              className="px-4 py-2 text-sm font-medium rounded-md text-white bg-green-600 hover:bg-green-700 disabled:bg-slate-400"
+            >
+              挿入
+            </button>
+          </footer>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BlueprintLibraryModal;
@@ -0,0 +1,236 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { ProjectTask, CalendarFeed } from '../types';
+import { ProjectService } from '../services/projectService';
+import { collectResponsibleNames } from '../services/icalendar';
+import { XIcon, DownloadIcon, TrashIcon, PlusIcon, CalendarIcon } from './icons';
+import LoadingSpinner from './LoadingSpinner';
+import ErrorMessage from './ErrorMessage';
+
+interface CalendarExportModalProps {
+  tasks: ProjectTask[];
+  projectId: string | null; // Feeds and links back to tasks need a saved project
+  projectTitle: string;
+  isLoggedIn: boolean;
+  onDownload: (responsible: string) => void; // Empty string for all items
+  onClose: () => void;
+}
+
+const CalendarExportModal: React.FC<CalendarExportModalProps> = ({ tasks, projectId, projectTitle, isLoggedIn, onDownload, onClose }) => {
+  const names = useMemo(() => collectResponsibleNames(tasks), [tasks]);
+  const [downloadResponsible, setDownloadResponsible] = useState('');
+  const [feeds, setFeeds] = useState<CalendarFeed[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [feedName, setFeedName] = useState('');
+  const [feedResponsible, setFeedResponsible] = useState('');
+  const [feedScope, setFeedScope] = useState<'project' | 'all'>(projectId ? 'project' : 'all');
+
+  useEffect(() => {
+    if (!isLoggedIn) return;
+    setIsLoading(true);
+    ProjectService.getCalendarFeeds()
+      .then(setFeeds)
+      .catch(err => setError(err instanceof Error ? err.message : 'カレンダーフィードの取得に失敗しました'))
+      .finally(() => setIsLoading(false));
+  }, [isLoggedIn]);
+
+  const handleCreateFeed = async () => {
+    const responsible = feedResponsible.trim();
+    const scopeName = feedScope === 'project' ? projectTitle : 'すべてのプロジェクト';
+    setIsSaving(true);
+    setError(null);
+    try {
+      const created = await ProjectService.createCalendarFeed({
+        name: feedName.trim() || (responsible ? `${scopeName}（${responsible}）` : scopeName),
+        responsible: responsible || null,
+        projectId: feedScope === 'project' ? projectId : null,
+        appUrl: window.location.origin,
+      });
+      setFeeds(prev => [created, ...prev]);
+      setFeedName('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'カレンダーフィードの作成に失敗しました');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDeleteFeed = async (feed: CalendarFeed) => {
+    if (!confirm(`「${feed.name}」を削除しますか？このURLで購読しているカレンダーは更新されなくなります。`)) return;
+    try {
+      await ProjectService.deleteCalendarFeed(feed.id);
+      setFeeds(prev => prev.filter(f => f.id !== feed.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'カレンダーフィードの削除に失敗しました');
+    }
+  };
+
+  const copyFeedUrl = (feed: CalendarFeed) => {
+    navigator.clipboard.writeText(feed.url).then(() => {
+      alert('購読URLをクリップボードにコピーしました');
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-70 backdrop-blur-sm flex items-center justify-center p-4 z-[110]">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-2xl max-h-[90vh] flex flex-col">
+        <header className="flex items-center justify-between p-6 border-b border-slate-200">
+          <div>
+            <h3 className="text-xl font-bold text-slate-800">カレンダーに追加</h3>
+            <p className="text-sm text-slate-500 mt-1">タスク・サブステップ・アクションアイテムの期限を終日の予定として出力します。</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-slate-500 hover:text-slate-700 transition-colors p-1 rounded-full hover:bg-slate-100"
+          >
+            <XIcon className="w-6 h-6" />
+          </button>
+        </header>
+
+        <div className="flex-grow p-6 overflow-y-auto space-y-6">
+          {error && <ErrorMessage message={error} />}
+
+          <datalist id="calendar-responsible-names">
+            {names.map((name: string) => <option key={name} value={name} />)}
+          </datalist>
+
+          <section className="space-y-3">
+            <h4 className="font-semibold text-slate-800">.icsファイルをダウンロード</h4>
+            <div className="flex flex-wrap items-center gap-3">
+              <select
+                value={downloadResponsible}
+                onChange={(e) => setDownloadResponsible(e.target.value)}
+                className="px-2 py-2 border border-slate-300 rounded-md bg-white text-sm text-slate-700"
+              >
+                <option value="">すべての担当者</option>
+                {names.map((name: string) => <option key={name} value={name}>{name}</option>)}
+              </select>
+              <button
+                onClick={() => onDownload(downloadResponsible)}
+                className="inline-flex items-center gap-2 px-4 py-2 text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700"
+              >
+                <DownloadIcon className="w-4 h-4" />
+                ダウンロード
+              </button>
+            </div>
+            <p className="text-xs text-slate-500">
+              現時点の期限を一度だけ取り込みます。
+              {!projectId && '保存していないプロジェクトの予定には、タスクへのリンクが付きません。'}
+            </p>
+          </section>
+
+          <section className="space-y-3 border-t border-slate-200 pt-5">
+            <h4 className="font-semibold text-slate-800">カレンダーで購読</h4>
+            {!isLoggedIn ? (
+              <p className="text-sm text-slate-500">購読URLを作成するにはログインしてください。</p>
+            ) : (
+              <>
+                <p className="text-xs text-slate-500">
+                  GoogleカレンダーやOutlookに購読URLを登録すると、期限の変更が自動的に反映されます（反映までの間隔はカレンダーアプリによります）。
+                  URLを知っている人は誰でも予定を閲覧できるため、共有しないでください。
+                </p>
+                <div className="bg-slate-50 rounded-lg p-4 space-y-3">
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                    <input
+                      type="text"
+                      value={feedResponsible}
+                      onChange={(e) => setFeedResponsible(e.target.value)}
+                      list="calendar-responsible-names"
+                      placeholder="担当者名（空欄ですべての項目）"
+                      className="px-3 py-2 border border-slate-300 rounded-md text-sm"
+                      disabled={isSaving}
+                    />
+                    <input
+                      type="text"
+                      value={feedName}
+                      onChange={(e) => setFeedName(e.target.value)}
+                      placeholder="カレンダー名（任意）"
+                      className="px-3 py-2 border border-slate-300 rounded-md text-sm"
+                      disabled={isSaving}
+                    />
+                  </div>
+                  <div className="flex flex-wrap items-center justify-between gap-3">
+                    <div className="flex gap-4 text-sm text-slate-700">
+                      <label className="flex items-center gap-2">
+                        <input type="radio" checked={feedScope === 'project'} onChange={() => setFeedScope('project')} disabled={isSaving || !projectId} />
+                        このプロジェクト
+                      </label>
+                      <label className="flex items-center gap-2">
+                        <input type="radio" checked={feedScope === 'all'} onChange={() => setFeedScope('all')} disabled={isSaving} />
+                        参加中のすべてのプロジェクト
+                      </label>
+                    </div>
+                    <button
+                      onClick={handleCreateFeed}
+                      disabled={isSaving}
+                      className="inline-flex items-center gap-2 px-4 py-2 text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:bg-slate-400"
+                    >
+                      {isSaving ? <LoadingSpinner size="sm" color="border-white" /> : <PlusIcon className="w-4 h-4" />}
+                      購読URLを作成
+                    </button>
+                  </div>
+                </div>
+
+                {isLoading ? (
+                  <div className="flex justify-center py-6"><LoadingSpinner /></div>
+                ) : feeds.length === 0 ? (
+                  <p className="text-center text-sm text-slate-500 py-4">作成した購読URLはありません。</p>
+                ) : (
+                  <ul className="space-y-2">
+                    {feeds.map((feed: CalendarFeed) => (
+                      <li key={feed.id} className="border border-slate-200 rounded-lg p-3 space-y-2">
+                        <div className="flex items-start justify-between gap-3">
+                          <div className="min-w-0">
+                            <p className="font-medium text-slate-800 truncate flex items-center">
+                              <CalendarIcon className="w-4 h-4 mr-1.5 text-slate-500 flex-shrink-0" />
+                              {feed.name}
+                            </p>
+                            <p className="text-xs text-slate-500 mt-0.5">
+                              {feed.responsible ? `担当: ${feed.responsible}` : 'すべての担当者'}・
+                              {feed.projectId ? (feed.projectId === projectId ? 'このプロジェクト' : '特定のプロジェクト') : '参加中のすべてのプロジェクト'}
+                            </p>
+                          </div>
+                          <button
+                            onClick={() => handleDeleteFeed(feed)}
+                            className="p-1 text-slate-400 hover:text-red-600 flex-shrink-0"
+                            title="削除"
+                          >
+                            <TrashIcon className="w-4 h-4" />
+                          </button>
+                        </div>
+                        <div className="flex items-center gap-2">
+                          <input
+                            type="text"
+                            readOnly
+                            value={feed.url}
+                            onFocus={(e) => e.target.select()}
+                            className="flex-grow min-w-0 px-2 py-1 border border-slate-300 rounded-md text-xs text-slate-600 bg-slate-50"
+                          />
+                          <button
+                            onClick={() => copyFeedUrl(feed)}
+                            className="px-2 py-1 text-xs font-medium rounded-md text-slate-700 bg-slate-200 hover:bg-slate-300 whitespace-nowrap"
+                          >
+                            コピー
+                          </button>
+                          <a
+                            href={feed.url.replace(/^https?:/, 'webcal:')}
+                            className="px-2 py-1 text-xs font-medium rounded-md text-blue-700 bg-blue-50 hover:bg-blue-100 whitespace-nowrap"
+                          >
+                            購読
+                          </a>
+                        </div>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </>
+            )}
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CalendarExportModal;
@@ -0,0 +1,401 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { CommentTarget, ProjectComment } from '../types';
+import { ProjectService } from '../services/projectService';
+import {
+  CommentBoard, MentionCandidate, buildThreads, commentsFor, countUnread, isCommentUnread, readsFor,
+  mentionCandidates, splitMentions, findMentions, activeMentionQuery, filterCandidates,
+} from '../services/comments';
+import { colorForUser, initialsOf } from '../services/presence';
+import { XIcon, ChatBubbleIcon, CheckCircleIcon, TrashIcon } from './icons';
+import LoadingSpinner from './LoadingSpinner';
+import ErrorMessage from './ErrorMessage';
+
+interface MentionInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  onSubmit: () => void;
+  candidates: MentionCandidate[];
+  placeholder: string;
+  autoFocus?: boolean;
+}
+
+/**
+ * Textarea that suggests members after "@". Enter or Tab picks a suggestion, Ctrl+Enter posts.
+ */
+const MentionInput: React.FC<MentionInputProps> = ({ value, onChange, onSubmit, candidates, placeholder, autoFocus }) => {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [mention, setMention] = useState<{ start: number; query: string } | null>(null);
+  const [highlighted, setHighlighted] = useState(0);
+  const suggestions = mention ? filterCandidates(candidates, mention.query) : [];
+
+  const updateMention = (text: string, caret: number) => {
+    setMention(activeMentionQuery(text, caret));
+    setHighlighted(0);
+  };
+
+  const insertMention = (candidate: MentionCandidate) => {
+    if (!mention) return;
+    const caret = textareaRef.current?.selectionStart ?? value.length;
+    onChange(`${value.slice(0, mention.start)}@${candidate.handle} ${value.slice(caret)}`);
+    setMention(null);
+    const position = mention.start + candidate.handle.length + 2;
+    requestAnimationFrame(() => {
+      textareaRef.current?.focus();
+      textareaRef.current?.setSelectionRange(position, position);
+    });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.nativeEvent.isComposing) return;
+    if (suggestions.length > 0) {
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        const step = e.key === 'ArrowDown' ? 1 : suggestions.length - 1;
+        setHighlighted(prev => (prev + step) % suggestions.length);
+        return;
+      }
+      if (e.key === 'Enter' || e.key === 'Tab') {
+        e.preventDefault();
+        insertMention(suggestions[highlighted] || suggestions[0]);
+        return;
+      }
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        e.stopPropagation();
+        setMention(null);
+        return;
+      }
+    }
+    if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+      e.preventDefault();
+      onSubmit();
+    }
+  };
+
+  return (
+    <div className="relative">
+      <textarea
+        ref={textareaRef}
+        value={value}
+        onChange={(e) => { onChange(e.target.value); updateMention(e.target.value, e.target.selectionStart); }}
+        onKeyDown={handleKeyDown}
+        onClick={(e) => updateMention(value, e.currentTarget.selectionStart)}
+        onBlur={() => setMention(null)}
+        placeholder={placeholder}
+        autoFocus={autoFocus}
+        rows={3}
+        className="w-full p-2 border border-slate-300 rounded-md text-sm text-slate-800 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 resize-y"
+      />
+      {suggestions.length > 0 && (
+        <ul className="absolute left-0 bottom-full mb-1 w-72 max-w-full bg-white border border-slate-200 rounded-md shadow-lg z-10 py-1">
+          {suggestions.map((candidate: MentionCandidate, index: number) => (
+            <li key={candidate.userId}>
+              <button
+                type="button"
+                onMouseDown={(e) => { e.preventDefault(); insertMention(candidate); }}
+                className={`w-full text-left px-3 py-1.5 text-sm flex items-center gap-2 ${index === highlighted ? 'bg-blue-50' : 'hover:bg-slate-50'}`}
+              >
+                <span className="font-medium text-slate-800">@{candidate.handle}</span>
+                <span className="text-xs text-slate-500 truncate">{candidate.label}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+interface CommentThreadModalProps {
+  target: CommentTarget;
+  board: CommentBoard;
+  includeTaskItems?: boolean; // For a task, also list the threads on its sub-steps, action items, decisions and slides
+  describeTarget?: (comment: ProjectComment) => string; // Where a thread was posted, shown in the task-wide list
+  onClose: () => void;
+}
+
+const formatTime = (iso: string) =>
+  new Date(iso).toLocaleString('ja-JP', { month: 'numeric', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+const CommentThreadModal: React.FC<CommentThreadModalProps> = ({ target, board, includeTaskItems = false, describeTarget, onClose }) => {
+  const [newBody, setNewBody] = useState('');
+  const [replyTo, setReplyTo] = useState<string | null>(null);
+  const [replyBody, setReplyBody] = useState('');
+  const [editing, setEditing] = useState<{ id: string; body: string } | null>(null);
+  const [showResolved, setShowResolved] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [highlightedIds, setHighlightedIds] = useState<Set<string>>(new Set());
+  const listEndRef = useRef<HTMLDivElement>(null);
+
+  const { currentUserId, userRole } = board;
+  const candidates = useMemo(() => mentionCandidates(board.members), [board.members]);
+  const comments = useMemo(() => commentsFor(board.comments, target, includeTaskItems), [board.comments, target, includeTaskItems]);
+  const threads = useMemo(() => buildThreads(comments), [comments]);
+  const resolvedCount = threads.filter(thread => thread.root.resolvedAt).length;
+  const visibleThreads = showResolved ? threads : threads.filter(thread => !thread.root.resolvedAt);
+
+  // Comments are marked read while the thread is open; they stay highlighted until it is closed
+  const unread = comments.filter(comment => isCommentUnread(comment, board.reads, currentUserId));
+  const unreadIds = unread.map(comment => comment.id).join(',');
+  useEffect(() => {
+    if (unread.length === 0) return;
+    setHighlightedIds(prev => new Set([...prev, ...unread.map(comment => comment.id)]));
+    const reads = readsFor(unread);
+    board.onRead(reads);
+    ProjectService.markCommentsRead(board.projectId, reads).catch(err => console.error('Failed to mark comments as read:', err));
+  }, [unreadIds]);
+
+  const authorName = (comment: ProjectComment) => {
+    const member = board.members.find(m => m.userId === comment.authorId);
+    return member?.userName || member?.userEmail || comment.authorName || '不明なユーザー';
+  };
+
+  const run = async (id: string, action: () => Promise<void>) => {
+    setBusyId(id);
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'コメントの操作に失敗しました');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const postComment = (body: string, thread?: ProjectComment) => run(thread ? `reply-${thread.id}` : 'new', async () => {
+    const text = body.trim();
+    if (!text) return;
+    const comment = await ProjectService.addComment({
+      projectId: board.projectId,
+      // Replies go to the item of their thread, which differs from `target` in the task-wide list
+      target: thread ? { type: thread.targetType, id: thread.targetId, taskId: thread.taskId ?? null, label: '' } : target,
+      parentId: thread?.id,
+      body: text,
+      mentions: findMentions(text, candidates),
+    });
+    board.onCommentSaved(comment);
+    if (thread) {
+      setReplyBody('');
+      setReplyTo(null);
+    } else {
+      setNewBody('');
+      requestAnimationFrame(() => listEndRef.current?.scrollIntoView({ behavior: 'smooth' }));
+    }
+  });
+
+  const saveEdit = () => editing && run(editing.id, async () => {
+    const text = editing.body.trim();
+    if (!text) return;
+    board.onCommentSaved(await ProjectService.updateComment(editing.id, text, findMentions(text, candidates)));
+    setEditing(null);
+  });
+
+  const toggleResolved = (root: ProjectComment) => run(root.id, async () => {
+    board.onCommentSaved(await ProjectService.setCommentThreadResolved(root.id, !root.resolvedAt));
+  });
+
+  const deleteComment = (comment: ProjectComment) => {
+    const message = comment.parentId ? 'このコメントを削除しますか？' : 'このスレッドを返信も含めて削除しますか？';
+    if (!confirm(message)) return;
+    run(comment.id, async () => {
+      await ProjectService.deleteComment(comment.id);
+      board.onCommentDeleted(comment.id);
+    });
+  };
+
+  const renderBody = (body: string) => splitMentions(body, candidates).map((segment, index) => (
+    segment.userId ? (
+      <span key={index} className={`font-medium rounded px-0.5 ${segment.userId === currentUserId ? 'bg-amber-100 text-amber-800' : 'bg-blue-50 text-blue-700'}`}>
+        {segment.text}
+      </span>
+    ) : <React.Fragment key={index}>{segment.text}</React.Fragment>
+  ));
+
+  const renderComment = (comment: ProjectComment, isRoot: boolean) => {
+    const name = authorName(comment);
+    const isAuthor = comment.authorId === currentUserId;
+    const canDelete = isAuthor || userRole === 'owner';
+    const isEdited = Date.parse(comment.updatedAt) - Date.parse(comment.createdAt) > 1000;
+    return (
+      <div key={comment.id} className={`flex gap-3 ${isRoot ? '' : 'ml-8'} ${highlightedIds.has(comment.id) ? 'border-l-4 border-blue-400 pl-2' : ''}`}>
+        <span
+          className="w-8 h-8 rounded-full flex-shrink-0 flex items-center justify-center text-xs font-bold text-white"
+          style={{ backgroundColor: colorForUser(comment.authorId || name) }}
+        >
+          {initialsOf(name)}
+        </span>
+        <div className="flex-grow min-w-0">
+          <div className="flex items-baseline gap-2 flex-wrap">
+            <span className="text-sm font-semibold text-slate-800">{name}</span>
+            <span className="text-xs text-slate-500">{formatTime(comment.createdAt)}{isEdited && '（編集済み）'}</span>
+            <div className="ml-auto flex items-center gap-2 text-xs">
+              {isAuthor && editing?.id !== comment.id && (
+                <button onClick={() => setEditing({ id: comment.id, body: comment.body })} className="text-slate-500 hover:text-blue-600">編集</button>
+              )}
+              {canDelete && (
+                <button onClick={() => deleteComment(comment)} disabled={busyId !== null} className="text-slate-400 hover:text-red-600" title="削除">
+                  <TrashIcon className="w-3.5 h-3.5" />
+                </button>
+              )}
+            </div>
+          </div>
+          {editing?.id === comment.id ? (
+            <div className="mt-1 space-y-2">
+              <MentionInput value={editing.body} onChange={(body) => setEditing({ id: comment.id, body })} onSubmit={saveEdit} candidates={candidates} placeholder="コメントを編集" autoFocus />
+              <div className="flex justify-end gap-2">
+                <button onClick={() => setEditing(null)} className="px-3 py-1 text-xs font-medium text-slate-700 bg-white border border-slate-300 rounded-md hover:bg-slate-50">キャンセル</button>
+                <button onClick={saveEdit} disabled={busyId !== null || !editing.body.trim()} className="px-3 py-1 text-xs font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:bg-slate-400">保存</button>
+              </div>
+            </div>
+          ) : (
+            <p className="mt-0.5 text-sm text-slate-700 whitespace-pre-wrap break-words">{renderBody(comment.body)}</p>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-70 backdrop-blur-sm flex items-center justify-center p-4 z-[120]" onClick={(e) => e.stopPropagation()}>
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-2xl max-h-[90vh] flex flex-col">
+        <div className="p-6 border-b border-slate-200 flex items-start justify-between gap-4">
+          <div className="min-w-0">
+            <h3 className="text-xl font-bold text-slate-800 flex items-center gap-2">
+              <ChatBubbleIcon className="w-6 h-6 text-blue-600" />
+              コメント
+            </h3>
+            <p className="mt-1 text-sm text-slate-500 truncate" title={target.label}>{target.label}</p>
+          </div>
+          <button onClick={onClose} className="p-1.5 rounded-full hover:bg-slate-100 flex-shrink-0">
+            <XIcon className="w-6 h-6 text-slate-500" />
+          </button>
+        </div>
+
+        <div className="px-6 pt-3 flex items-center justify-between text-sm">
+          <span className="text-slate-600">未解決 {threads.length - resolvedCount} 件</span>
+          {resolvedCount > 0 && (
+            <label className="flex items-center gap-2 text-slate-600 cursor-pointer">
+              <input type="checkbox" checked={showResolved} onChange={(e) => setShowResolved(e.target.checked)} className="w-4 h-4 accent-blue-600" />
+              解決済みも表示（{resolvedCount}件）
+            </label>
+          )}
+        </div>
+
+        <div className="flex-grow overflow-y-auto px-6 py-4 space-y-4">
+          {visibleThreads.length === 0 && (
+            <p className="text-center text-sm text-slate-500 py-8">
+              {threads.length === 0 ? 'まだコメントはありません。' : '未解決のスレッドはありません。'}
+            </p>
+          )}
+          {visibleThreads.map(({ root, replies }) => {
+            const canResolve = userRole === 'owner' || userRole === 'editor' || root.authorId === currentUserId;
+            return (
+              <div key={root.id} className={`border rounded-lg p-4 space-y-3 ${root.resolvedAt ? 'bg-slate-50 border-slate-200 opacity-80' : 'bg-white border-slate-200'}`}>
+                {(includeTaskItems && describeTarget || root.resolvedAt) && (
+                  <div className="flex items-center gap-2 text-xs">
+                    {includeTaskItems && describeTarget && <span className="px-2 py-0.5 rounded bg-slate-100 text-slate-600 truncate">{describeTarget(root)}</span>}
+                    {root.resolvedAt && (
+                      <span className="px-2 py-0.5 rounded bg-green-100 text-green-700 flex items-center gap-1 flex-shrink-0">
+                        <CheckCircleIcon className="w-3.5 h-3.5" />
+                        解決済み（{formatTime(root.resolvedAt)}）
+                      </span>
+                    )}
+                  </div>
+                )}
+                {renderComment(root, true)}
+                {replies.map(reply => renderComment(reply, false))}
+                {replyTo === root.id ? (
+                  <div className="pl-11 space-y-2">
+                    <MentionInput value={replyBody} onChange={setReplyBody} onSubmit={() => postComment(replyBody, root)} candidates={candidates} placeholder="返信を入力（@でメンション）" autoFocus />
+                    <div className="flex justify-end gap-2">
+                      <button onClick={() => { setReplyTo(null); setReplyBody(''); }} className="px-3 py-1 text-xs font-medium text-slate-700 bg-white border border-slate-300 rounded-md hover:bg-slate-50">キャンセル</button>
+                      <button onClick={() => postComment(replyBody, root)} disabled={busyId !== null || !replyBody.trim()} className="flex items-center gap-1 px-3 py-1 text-xs font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:bg-slate-400">
+                        {busyId === `reply-${root.id}` && <LoadingSpinner size="sm" color="border-white" />}
+                        返信
+                      </button>
+                    </div>
+                  </div>
+                ) : (
+                  <div className="pl-11 flex items-center gap-4 text-xs">
+                    <button onClick={() => { setReplyTo(root.id); setReplyBody(''); }} className="text-blue-600 hover:text-blue-800 font-medium">返信</button>
+                    {canResolve && (
+                      <button onClick={() => toggleResolved(root)} disabled={busyId !== null} className="text-slate-600 hover:text-green-700 font-medium">
+                        {root.resolvedAt ? '未解決に戻す' : '解決済みにする'}
+                      </button>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+          <div ref={listEndRef} />
+        </div>
+
+        <div className="p-6 border-t border-slate-200 space-y-2">
+          {error && <ErrorMessage message={error} />}
+          <MentionInput value={newBody} onChange={setNewBody} onSubmit={() => postComment(newBody)} candidates={candidates} placeholder="コメントを入力（@でメンバーをメンション、Ctrl+Enterで投稿）" />
+          <div className="flex justify-end">
+            <button onClick={() => postComment(newBody)} disabled={busyId !== null || !newBody.trim()} className="flex items-center gap-2 px-5 py-2 text-sm font-medium text-white bg-blue-600 rounded-md shadow-sm hover:bg-blue-700 disabled:bg-slate-400">
+              {busyId === 'new' && <LoadingSpinner size="sm" color="border-white" />}
+              スレッドを開始
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+interface CommentButtonProps {
+  target: CommentTarget;
+  board?: CommentBoard | null; // Nothing is shown without a board (projects not saved to the cloud)
+  includeTaskItems?: boolean;
+  describeTarget?: (comment: ProjectComment) => string;
+  label?: string; // Text next to the icon; icon only when omitted
+  className?: string;
+}
+
+/**
+ * Opens the comments of an item and shows how many there are and how many are unread.
+ */
+export const CommentButton: React.FC<CommentButtonProps> = ({ target, board, includeTaskItems, describeTarget, label, className }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  if (!board) return null;
+
+  const comments = commentsFor(board.comments, target, includeTaskItems);
+  const unread = countUnread(comments, board.reads, board.currentUserId);
+  const title = unread.count > 0
+    ? `コメント ${comments.length}件（未読 ${unread.count}件${unread.mentioned ? '・あなたへのメンションあり' : ''}）`
+    : comments.length > 0 ? `コメント ${comments.length}件` : 'コメントを追加';
+
+  return (
+    <>
+      <button
+        onClick={(e) => { e.stopPropagation(); setIsOpen(true); }}
+        className={className || 'relative flex items-center gap-1 p-1 text-xs text-slate-500 hover:text-blue-600 rounded hover:bg-slate-100'}
+        title={title}
+      >
+        <ChatBubbleIcon className="w-4 h-4" />
+        {label && <span>{label}</span>}
+        {comments.length > 0 && unread.count === 0 && <span>{comments.length}</span>}
+        {unread.count > 0 && (
+          <span className={`px-1.5 rounded-full text-[10px] font-bold text-white ${unread.mentioned ? 'bg-amber-500' : 'bg-red-500'}`}>
+            {unread.mentioned && '@'}{unread.count}
+          </span>
+        )}
+      </button>
+      {isOpen && (
+        <CommentThreadModal
+          target={target}
+          board={board}
+          includeTaskItems={includeTaskItems}
+          describeTarget={describeTarget}
+          onClose={() => setIsOpen(false)}
+        />
+      )}
+    </>
+  );
+};
+
+export default CommentThreadModal;
@@ -41,7 +41,7 @@ const CustomTaskReportModal: React.FC<CustomTaskReportModalProps> = ({ task, isO
                 id: att.id,
                 name: `添付: ${att.name}`,
                 type: 'Attachment',
-                source: { name: att.name, type: att.type.startsWith('image/') ? 'image' : 'text', content: att.dataUrl }
+                source: { name: att.name, type: att.type.startsWith('image/') ? 'image' : 'text', content: att.name, attachment: att }
             });
         });
         
@@ -60,7 +60,7 @@ const CustomTaskReportModal: React.FC<CustomTaskReportModalProps> = ({ task, isO
                         id: att.id,
                         name: `添付: ${att.name} (${ai.text})`,
                         type: 'Attachment',
-                        source: { name: att.name, type: att.type.startsWith('image/') ? 'image' : 'text', content: att.dataUrl }
+                        source: { name: att.name, type: att.type.startsWith('image/') ? 'image' : 'text', content: att.name, attachment: att }
                     });
                 });
             });
@@ -5,6 +5,8 @@ import { XIcon, TrashIcon, SparklesIcon, PlusCircleIcon, SortAscIcon, SortDescIc
 import { generateDecisions } from '../services/geminiService';
 import LoadingSpinner from './LoadingSpinner';
 import ErrorMessage from './ErrorMessage';
+import { CommentBoard } from '../services/comments';
+import { CommentButton } from './CommentThreadModal';
 
 interface DecisionModalProps {
   isOpen: boolean;
@@ -12,6 +14,7 @@ interface DecisionModalProps {
   onSave: (decisions: Decision[]) => void;
   task: ProjectTask;
   generateUniqueId: (prefix: string) => string;
+  commentBoard?: CommentBoard | null;
 }
 
 const EditableCell: React.FC<{ value: string; onChange: (value: string) => void; placeholder: string; }> = ({ value, onChange, placeholder }) => (
@@ -27,7 +30,7 @@ const EditableCell: React.FC<{ value: string; onChange: (value: string) => void;
 type SortKeys = 'status' | 'question' | 'decision' | 'reasoning' | 'date';
 type SortDirection = 'ascending' | 'descending';
 
-const DecisionModal: React.FC<DecisionModalProps> = ({ isOpen, onClose, onSave, task, generateUniqueId }) => {
+const DecisionModal: React.FC<DecisionModalProps> = ({ isOpen, onClose, onSave, task, generateUniqueId, commentBoard }) => {
   const [decisions, setDecisions] = useState<Decision[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -211,6 +214,11 @@ const DecisionModal: React.FC<DecisionModalProps> = ({ isOpen, onClose, onSave,
                     />
                   </td>
                   <td className="border border-slate-300 text-center align-middle">
+                    <CommentButton
+                      target={{ type: 'decision', id: decision.id, taskId: task.id, label: `${task.title} / ${decision.question || '決定事項'}` }}
+                      board={commentBoard}
+                      className="mx-auto mb-1 flex items-center gap-1 p-1 text-xs text-slate-500 hover:text-blue-600 rounded hover:bg-slate-100"
+                    />
                     <button
                       onClick={() => handleRemove(decision.id)}
                       className="text-red-400 hover:text-red-700 p-1 rounded-full hover:bg-red-100 transition-colors"
@@ -1,10 +1,14 @@
 
-import React, { useState, useMemo, useCallback } from 'react';
-import { ProjectTask, GanttItem, SlideDeck, Attachment } from '../types';
-import { generateCustomSlideDeck, CustomSource, generateCustomTextReport } from '../services/geminiService';
-import { XIcon, SparklesIcon, SortAscIcon, SortDescIcon, FolderIcon, ArrowLeftIcon, GanttChartIcon, PresentationChartBarIcon, PaperClipIcon, TableCellsIcon } from './icons';
+import React, { useState, useMemo, useCallback, useRef, useEffect } from 'react';
+import { ProjectTask, GanttItem, SlideDeck, Attachment, ProjectDocument } from '../types';
+import { generateCustomSlideDeck, CustomSource, generateCustomTextReport, GenerationProgress, isGenerationCancelled } from '../services/geminiService';
+import { ProjectService } from '../services/projectService';
+import { XIcon, SparklesIcon, SortAscIcon, SortDescIcon, FolderIcon, ArrowLeftIcon, GanttChartIcon, PresentationChartBarIcon, PaperClipIcon, TableCellsIcon, NotesIcon } from './icons';
 import LoadingSpinner from './LoadingSpinner';
 import ErrorMessage from './ErrorMessage';
+import GenerationProgressIndicator from './GenerationProgressIndicator';
+import AttachmentPreview, { AttachmentLink } from './AttachmentPreview';
+import TextReportEditor, { TextReportDraft, ReportImageOption } from './TextReportEditor';
 
 interface DocumentReference {
     id: string;
@@ -13,7 +17,8 @@ interface DocumentReference {
     taskName: string;
     subStepName: string;
     actionItemName: string;
-    source: CustomSource & { dataUrl?: string };
+    source: CustomSource;
+    document?: ProjectDocument; // Saved text report, opened in the editor
 }
 
 interface DocumentCenterModalProps {
@@ -25,11 +30,13 @@ interface DocumentCenterModalProps {
     onClose: () => void;
     onReportGenerated: (deck: SlideDeck) => void;
     generateUniqueId: (prefix: string) => string;
+    projectId: string | null;
+    canEdit: boolean;
 }
 
 type SortKeys = 'name' | 'type' | 'taskName' | 'subStepName' | 'actionItemName';
 type SortDirection = 'ascending' | 'descending';
-type ViewMode = 'list' | 'generate';
+type ViewMode = 'list' | 'generate' | 'edit';
 
 const DocumentCenterModal: React.FC<DocumentCenterModalProps> = ({
     tasks,
@@ -40,6 +47,8 @@ const DocumentCenterModal: React.FC<DocumentCenterModalProps> = ({
     onClose,
     onReportGenerated,
     generateUniqueId,
+    projectId,
+    canEdit,
 }) => {
     const [viewMode, setViewMode] = useState<ViewMode>('list');
     const [selectedDocs, setSelectedDocs] = useState<Set<string>>(new Set());
@@ -48,7 +57,19 @@ const DocumentCenterModal: React.FC<DocumentCenterModalProps> = ({
     const [error, setError] = useState<string | null>(null);
     const [sortConfig, setSortConfig] = useState<{ key: SortKeys; direction: SortDirection } | null>({key: 'taskName', direction: 'ascending'});
     const [reportFormat, setReportFormat] = useState<'slides' | 'text'>('slides');
-    const [generatedText, setGeneratedText] = useState<string | null>(null);
+    const [savedDocuments, setSavedDocuments] = useState<ProjectDocument[]>([]);
+    const [editingDraft, setEditingDraft] = useState<TextReportDraft | null>(null);
+    const [progress, setProgress] = useState<GenerationProgress | null>(null);
+    const abortControllerRef = useRef<AbortController | null>(null);
+
+    useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+    useEffect(() => {
+        if (!projectId) return;
+        ProjectService.getProjectDocuments(projectId)
+            .then(setSavedDocuments)
+            .catch(err => setError(err instanceof Error ? err.message : 'ドキュメントの取得に失敗しました'));
+    }, [projectId]);
 
 
     const allDocuments = useMemo((): DocumentReference[] => {
@@ -81,7 +102,7 @@ const DocumentCenterModal: React.FC<DocumentCenterModalProps> = ({
                 docs.push({
                     id: att.id, name: att.name, type: 'Attachment',
                     taskName: task.title, subStepName: '', actionItemName: '',
-                    source: { name: att.name, type: att.type.startsWith('image/') ? 'image' : 'text', content: att.dataUrl, dataUrl: att.dataUrl }
+                    source: { name: att.name, type: att.type.startsWith('image/') ? 'image' : 'text', content: att.name, attachment: att }
                 });
             });
             task.extendedDetails?.subSteps?.forEach(ss => {
@@ -89,7 +110,7 @@ const DocumentCenterModal: React.FC<DocumentCenterModalProps> = ({
                     docs.push({
                         id: att.id, name: att.name, type: 'Attachment',
                         taskName: task.title, subStepName: ss.text, actionItemName: '',
-                        source: { name: att.name, type: att.type.startsWith('image/') ? 'image' : 'text', content: att.dataUrl, dataUrl: att.dataUrl }
+                        source: { name: att.name, type: att.type.startsWith('image/') ? 'image' : 'text', content: att.name, attachment: att }
                     });
                 });
                 ss.actionItems?.forEach(ai => {
@@ -97,7 +118,7 @@ const DocumentCenterModal: React.FC<DocumentCenterModalProps> = ({
                          docs.push({
                             id: att.id, name: att.name, type: 'Attachment',
                             taskName: task.title, subStepName: ss.text, actionItemName: ai.text,
-                            source: { name: att.name, type: att.type.startsWith('image/') ? 'image' : 'text', content: att.dataUrl, dataUrl: att.dataUrl }
+                            source: { name: att.name, type: att.type.startsWith('image/') ? 'image' : 'text', content: att.name, attachment: att }
                         });
                     });
                     if (ai.report?.matrixData) {
@@ -111,8 +132,24 @@ const DocumentCenterModal: React.FC<DocumentCenterModalProps> = ({
             });
         });
 
+        savedDocuments.forEach(document => {
+            docs.push({
+                id: `document-${document.id}`, name: document.title, type: 'Text Document',
+                taskName: '', subStepName: '', actionItemName: '',
+                source: { name: document.title, type: 'text', content: document.content },
+                document,
+            });
+        });
+
         return docs;
-    }, [tasks, ganttData, projectReportDeck]);
+    }, [tasks, ganttData, projectReportDeck, savedDocuments]);
+
+    const imageOptions = useMemo((): ReportImageOption[] => allDocuments
+        .filter(doc => doc.source.attachment?.type.startsWith('image/'))
+        .map(doc => ({
+            attachment: doc.source.attachment!,
+            location: [doc.taskName, doc.subStepName, doc.actionItemName].filter(Boolean).join(' / '),
+        })), [allDocuments]);
     
     const sortedDocuments = useMemo(() => {
         let sortableItems = [...allDocuments];
@@ -171,9 +208,12 @@ const DocumentCenterModal: React.FC<DocumentCenterModalProps> = ({
             return;
         }
 
+        const controller = new AbortController();
+        abortControllerRef.current = controller;
         setIsLoading(true);
         setError(null);
-        setGeneratedText(null);
+        setProgress(null);
+        const generation = { signal: controller.signal, onProgress: setProgress };
 
         const sourcesToUse = allDocuments
             .filter(doc => selectedDocs.has(doc.id))
@@ -181,15 +221,24 @@ const DocumentCenterModal: React.FC<DocumentCenterModalProps> = ({
         
         try {
             if (reportFormat === 'slides') {
-                const deck = await generateCustomSlideDeck(sourcesToUse, customPrompt);
+                const deck = await generateCustomSlideDeck(sourcesToUse, customPrompt, generation);
                 onReportGenerated(deck);
             } else {
-                const text = await generateCustomTextReport(sourcesToUse, customPrompt);
-                setGeneratedText(text);
+                const text = await generateCustomTextReport(sourcesToUse, customPrompt, generation);
+                const firstLine = customPrompt.trim().split('\n')[0];
+                setEditingDraft({
+                    title: firstLine.length > 40 ? `${firstLine.slice(0, 40)}…` : firstLine,
+                    content: text,
+                    attachments: sourcesToUse.map(source => source.attachment).filter((att): att is Attachment => !!att && att.type.startsWith('image/')),
+                });
+                setViewMode('edit');
             }
         } catch (err) {
-            setError(err instanceof Error ? err.message : 'カスタムレポートの生成に失敗しました。');
+            if (!isGenerationCancelled(err)) {
+                setError(err instanceof Error ? err.message : 'カスタムレポートの生成に失敗しました。');
+            }
         } finally {
+            abortControllerRef.current = null;
             setIsLoading(false);
         }
     };
@@ -201,14 +250,12 @@ const DocumentCenterModal: React.FC<DocumentCenterModalProps> = ({
         case 'Task Report': return <PresentationChartBarIcon className="w-5 h-5 text-teal-600" />;
         case 'Attachment': return <PaperClipIcon className="w-5 h-5 text-slate-600" />;
         case 'Data Matrix': return <TableCellsIcon className="w-5 h-5 text-purple-600" />;
+        case 'Text Document': return <NotesIcon className="w-5 h-5 text-blue-600" />;
         default: return <FolderIcon className="w-5 h-5 text-slate-500" />;
       }
     };
     
-    const getLinkForSource = (source: CustomSource & { dataUrl?: string }): string | undefined => {
-        if (source.dataUrl) {
-            return source.dataUrl;
-        }
+    const getLinkForSource = (source: CustomSource): string | undefined => {
         if (source.type === 'json') {
             try {
                 const jsonString = JSON.stringify(source.content, null, 2);
@@ -219,6 +266,26 @@ const DocumentCenterModal: React.FC<DocumentCenterModalProps> = ({
         return undefined;
     };
     
+    const openDocument = (document: ProjectDocument) => {
+        setEditingDraft({ id: document.id, title: document.title, content: document.content, attachments: document.attachments });
+        setViewMode('edit');
+    };
+
+    const handleDocumentSaved = (document: ProjectDocument) => {
+        setSavedDocuments(prev => [document, ...prev.filter(d => d.id !== document.id)]);
+    };
+
+    const handleDocumentDeleted = (documentId: string) => {
+        setSavedDocuments(prev => prev.filter(d => d.id !== documentId));
+        setSelectedDocs(prev => {
+            const newSet = new Set(prev);
+            newSet.delete(`document-${documentId}`);
+            return newSet;
+        });
+        setEditingDraft(null);
+        setViewMode('list');
+    };
+
     const selectedDocDetails = useMemo(() => {
         return allDocuments.filter(doc => selectedDocs.has(doc.id));
     }, [selectedDocs, allDocuments]);
@@ -244,7 +311,18 @@ const DocumentCenterModal: React.FC<DocumentCenterModalProps> = ({
                                 <tr key={doc.id} className="bg-white hover:bg-slate-50 transition-colors">
                                     <td className="border border-slate-300 align-middle text-center p-2"><input type="checkbox" checked={selectedDocs.has(doc.id)} onChange={() => handleToggleSelection(doc.id)} className="w-4 h-4 accent-blue-600" /></td>
                                     <td className="border border-slate-300 p-2 font-medium text-slate-800">
-                                        {link ? <a href={link} target="_blank" rel="noopener noreferrer" className="hover:underline">{doc.name}</a> : <span>{doc.name}</span>}
+                                        {doc.source.attachment ? (
+                                            <div className="flex items-center gap-2">
+                                                {doc.source.attachment.type.startsWith('image/') && (
+                                                    <div className="w-8 h-8 flex-shrink-0 border rounded overflow-hidden">
+                                                        <AttachmentPreview attachment={doc.source.attachment} iconClassName="w-4 h-4" />
+                                                    </div>
+                                                )}
+                                                <AttachmentLink attachment={doc.source.attachment} className="hover:underline">{doc.name}</AttachmentLink>
+                                            </div>
+                                        ) : doc.document ? (
+                                            <button onClick={() => openDocument(doc.document!)} className="hover:underline text-left">{doc.name}</button>
+                                        ) : link ? <a href={link} target="_blank" rel="noopener noreferrer" className="hover:underline">{doc.name}</a> : <span>{doc.name}</span>}
                                     </td>
                                     <td className="border border-slate-300 p-2 text-slate-600"><div className="flex items-center gap-2">{getIconForType(doc.type)}<span>{doc.type}</span></div></td>
                                     <td className="border border-slate-300 p-2 text-slate-600 truncate">{doc.taskName}</td>
@@ -294,17 +372,10 @@ const DocumentCenterModal: React.FC<DocumentCenterModalProps> = ({
                         className="w-full p-3 border border-slate-300 rounded-lg shadow-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition text-sm"
                     />
                     {error && <div className="mt-2"><ErrorMessage message={error}/></div>}
-                    {generatedText && (
-                        <div className="mt-4 p-4 border rounded-lg bg-slate-50">
-                            <h5 className="font-semibold text-md text-slate-800 mb-2">生成されたテキストレポート</h5>
-                            <pre className="text-sm text-slate-700 bg-white p-3 rounded whitespace-pre-wrap max-h-60 overflow-y-auto">{generatedText}</pre>
-                            <button onClick={() => navigator.clipboard.writeText(generatedText)} className="text-xs mt-2 px-2 py-1 bg-slate-200 rounded">クリップボードにコピー</button>
-                        </div>
-                    )}
                 </div>
             </main>
              <footer className="flex-shrink-0 p-4 bg-white border-t flex justify-between items-center rounded-b-xl">
-                 <button onClick={() => { setViewMode('list'); setGeneratedText(null); }} className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-slate-700 bg-slate-100 border border-slate-300 rounded-md shadow-sm hover:bg-slate-200">
+                 <button onClick={() => setViewMode('list')} className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-slate-700 bg-slate-100 border border-slate-300 rounded-md shadow-sm hover:bg-slate-200">
                     <ArrowLeftIcon className="w-4 h-4" />
                     資料選択に戻る
                  </button>
@@ -329,9 +400,29 @@ const DocumentCenterModal: React.FC<DocumentCenterModalProps> = ({
                     </button>
                 </header>
 
-                {viewMode === 'list' ? renderListView() : renderGenerateView()}
+                {viewMode === 'list' && renderListView()}
+                {viewMode === 'generate' && renderGenerateView()}
+                {viewMode === 'edit' && editingDraft && (
+                    <TextReportEditor
+                        key={editingDraft.id || 'draft'}
+                        draft={editingDraft}
+                        images={imageOptions}
+                        projectId={projectId}
+                        canEdit={canEdit}
+                        onSaved={handleDocumentSaved}
+                        onDeleted={handleDocumentDeleted}
+                        onBack={() => { setEditingDraft(null); setViewMode('list'); }}
+                    />
+                )}
 
             </div>
+            {isLoading && (
+                <GenerationProgressIndicator
+                    label={reportFormat === 'slides' ? 'カスタムスライドを生成中' : 'テキストレポートを生成中'}
+                    progress={progress}
+                    onCancel={() => abortControllerRef.current?.abort()}
+                />
+            )}
         </div>
     );
 };
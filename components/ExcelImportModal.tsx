@@ -0,0 +1,188 @@
+import React, { useState, useMemo } from 'react';
+import { WbsSheet, WbsField, WbsColumnMapping, WBS_FIELDS, guessColumnMapping, importWbsSheet, ExcelImportResult } from '../services/excelWbs';
+import { XIcon, UploadIcon } from './icons';
+import ErrorMessage from './ErrorMessage';
+
+interface ExcelImportModalProps {
+  fileName: string;
+  sheets: WbsSheet[];
+  onImport: (result: ExcelImportResult) => void;
+  onClose: () => void;
+}
+
+const PREVIEW_ROWS = 5;
+
+const ExcelImportModal: React.FC<ExcelImportModalProps> = ({ fileName, sheets, onImport, onClose }) => {
+  const [sheetIndex, setSheetIndex] = useState(0);
+  const [mapping, setMapping] = useState<WbsColumnMapping>(() => guessColumnMapping(sheets[0]?.headers || []));
+  const [projectGoal, setProjectGoal] = useState('');
+  const [targetDate, setTargetDate] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const sheet: WbsSheet | undefined = sheets[sheetIndex];
+  const mappedColumns = useMemo(() => new Set(Object.values(mapping)), [mapping]);
+
+  const handleSheetChange = (index: number) => {
+    setSheetIndex(index);
+    setMapping(guessColumnMapping(sheets[index].headers));
+    setError(null);
+  };
+
+  const handleMappingChange = (field: WbsField, value: string) => {
+    setMapping(prev => {
+      const next = { ...prev };
+      if (value === '') delete next[field];
+      else next[field] = Number(value);
+      return next;
+    });
+  };
+
+  const handleImport = () => {
+    if (!sheet) return;
+    try {
+      onImport(importWbsSheet(sheet, mapping, { fileName, projectGoal: projectGoal.trim(), targetDate }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Excelファイルの取り込みに失敗しました。');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-70 backdrop-blur-sm flex items-center justify-center p-4 z-[110]">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-4xl max-h-[90vh] flex flex-col">
+        <header className="flex items-center justify-between p-6 border-b border-slate-200">
+          <div>
+            <h3 className="text-xl font-bold text-slate-800">ExcelからWBSを取り込む</h3>
+            <p className="text-sm text-slate-500 mt-1">{fileName}</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-slate-500 hover:text-slate-700 transition-colors p-1 rounded-full hover:bg-slate-100"
+          >
+            <XIcon className="w-6 h-6" />
+          </button>
+        </header>
+
+        <div className="flex-grow p-6 overflow-y-auto space-y-5">
+          {error && <ErrorMessage message={error} />}
+
+          {!sheet ? (
+            <p className="text-center text-sm text-slate-500 py-8">データが含まれたシートがありません。</p>
+          ) : (
+            <>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
+                <label className="block">
+                  <span className="text-slate-700 font-medium">シート</span>
+                  <select
+                    value={sheetIndex}
+                    onChange={(e) => handleSheetChange(Number(e.target.value))}
+                    className="mt-1 w-full px-2 py-2 border border-slate-300 rounded-md bg-white text-slate-700"
+                  >
+                    {sheets.map((s: WbsSheet, index: number) => <option key={s.name} value={index}>{s.name}（{s.rows.length}行）</option>)}
+                  </select>
+                </label>
+                <label className="block">
+                  <span className="text-slate-700 font-medium">事業目的</span>
+                  <input
+                    type="text"
+                    value={projectGoal}
+                    onChange={(e) => setProjectGoal(e.target.value)}
+                    placeholder={fileName.replace(/\.[^.]+$/, '')}
+                    className="mt-1 w-full px-3 py-2 border border-slate-300 rounded-md"
+                  />
+                </label>
+                <label className="block">
+                  <span className="text-slate-700 font-medium">目標日</span>
+                  <input
+                    type="date"
+                    value={targetDate}
+                    onChange={(e) => setTargetDate(e.target.value)}
+                    className="mt-1 w-full px-3 py-2 border border-slate-300 rounded-md"
+                  />
+                  <span className="text-xs text-slate-500">未入力の場合は最も遅い期日</span>
+                </label>
+              </div>
+
+              <div>
+                <h4 className="font-semibold text-slate-800 mb-1">列の対応付け</h4>
+                <p className="text-xs text-slate-500 mb-3">
+                  階層はWBS番号（例: 1.2.3）、階層レベルの列、または名称の先頭の字下げ（空白2文字で1階層）から判断します。
+                  第1階層がタスク、第2階層がサブステップ、第3階層がアクションアイテムになります。
+                </p>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-2">
+                  {WBS_FIELDS.map(({ field, label }) => (
+                    <label key={field} className="flex items-center justify-between gap-3 text-sm">
+                      <span className="text-slate-700">
+                        {label}{field === 'name' && <span className="text-red-500 ml-0.5">*</span>}
+                      </span>
+                      <select
+                        value={mapping[field] ?? ''}
+                        onChange={(e) => handleMappingChange(field, e.target.value)}
+                        className="w-48 px-2 py-1 border border-slate-300 rounded-md bg-white text-slate-700"
+                      >
+                        <option value="">（使用しない）</option>
+                        {sheet.headers.map((header: string, index: number) => <option key={index} value={index}>{header}</option>)}
+                      </select>
+                    </label>
+                  ))}
+                </div>
+              </div>
+
+              <div>
+                <h4 className="font-semibold text-slate-800 mb-2">プレビュー</h4>
+                <div className="overflow-x-auto border border-slate-200 rounded-md">
+                  <table className="min-w-full text-xs">
+                    <thead className="bg-slate-50">
+                      <tr>
+                        {sheet.headers.map((header: string, index: number) => (
+                          <th
+                            key={index}
+                            className={`px-2 py-1.5 text-left font-semibold whitespace-nowrap ${mappedColumns.has(index) ? 'text-blue-700 bg-blue-50' : 'text-slate-400'}`}
+                          >
+                            {header}
+                          </th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {sheet.rows.slice(0, PREVIEW_ROWS).map((row, rowIndex: number) => (
+                        <tr key={rowIndex} className="border-t border-slate-100">
+                          {sheet.headers.map((_header: string, index: number) => (
+                            <td key={index} className={`px-2 py-1 whitespace-nowrap ${mappedColumns.has(index) ? 'text-slate-800' : 'text-slate-400'}`}>
+                              {row[index]?.text || ''}
+                            </td>
+                          ))}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+                {sheet.rows.length > PREVIEW_ROWS && (
+                  <p className="text-xs text-slate-500 mt-1">ほか {sheet.rows.length - PREVIEW_ROWS} 行</p>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+
+        <footer className="flex justify-end gap-3 p-6 border-t border-slate-200">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 border border-slate-300 text-sm font-medium rounded-md text-slate-700 bg-white hover:bg-slate-50"
+          >
+            キャンセル
+          </button>
+          <button
+            onClick={handleImport}
+            disabled={!sheet || mapping.name === undefined}
+            className="inline-flex items-center gap-2 px-4 py-2 text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:bg-slate-400"
+          >
+            <UploadIcon className="w-4 h-4" />
+            取り込む
+          </button>
+        </footer>
+      </div>
+    </div>
+  );
+};
+
+export default ExcelImportModal;
@@ -1,8 +1,11 @@
 import React, { useMemo, useState, useEffect, useCallback, useRef } from 'react';
 import * as htmlToImage from 'html-to-image';
-import { GanttItem } from '../types';
-import { XIcon, RefreshIcon, ChevronDownIcon, CheckSquareIcon, SquareIcon, DownloadIcon } from './icons';
+import { GanttItem, GanttBaseline } from '../types';
+import { XIcon, RefreshIcon, ChevronDownIcon, CheckSquareIcon, SquareIcon, DownloadIcon, CalendarIcon } from './icons';
 import LoadingSpinner from './LoadingSpinner';
+import { summarizeGanttSchedule } from '../services/scheduler';
+import { GanttEdit, addDays, daysBetween } from '../services/ganttEditing';
+import { compareWithBaseline, formatSlip } from '../services/scheduleVariance';
 
 interface GanttChartViewProps {
   data: GanttItem[];
@@ -10,16 +13,30 @@ interface GanttChartViewProps {
   onItemClick?: (item: GanttItem) => void;
   onRegenerate: () => Promise<void>;
   isRegenerating: boolean;
+  onReschedule?: () => void; // Recalculates the chart with the local critical-path scheduler
+  targetDate?: string;
+  scheduleWarnings?: string[];
+  onEdit?: (edit: GanttEdit) => void; // Enables drag-to-reschedule, dependency linking and progress editing
+  baselines?: GanttBaseline[];
+  onCreateBaseline?: (name: string) => Promise<void>;
+  onDeleteBaseline?: (baselineId: string) => Promise<void>;
+  baselineUnavailableReason?: string; // Shown instead of the baseline controls, e.g. for unsaved projects
 }
 
+type BarDragMode = 'move' | 'start' | 'end';
+
 const ROW_HEIGHT = 40;
 const HEADER_HEIGHT = 64;
 const TASK_LIST_WIDTH = 320;
 const TASK_COLORS = ['#3B82F6', '#F59E0B', '#10B981', '#EF4444', '#6B7280', '#6366F1', '#EC4899', '#8B5CF6'];
+const CRITICAL_COLOR = '#DC2626';
 type ZoomLevel = 'day' | 'week' | 'month';
 
-const GanttChartView: React.FC<GanttChartViewProps> = ({ data, onClose, onItemClick, onRegenerate, isRegenerating }) => {
+const GanttChartView: React.FC<GanttChartViewProps> = ({ data, onClose, onItemClick, onRegenerate, isRegenerating, onReschedule, targetDate, scheduleWarnings = [], onEdit,
+  baselines = [], onCreateBaseline, onDeleteBaseline, baselineUnavailableReason,
+}) => {
   const [showDependencies, setShowDependencies] = useState(true);
+  const [showCriticalPath, setShowCriticalPath] = useState(true);
   const [expandedItems, setExpandedItems] = useState<Set<string>>(new Set());
   const [actionFilter, setActionFilter] = useState<'all' | 'completed' | 'pending'>('all');
   const ganttContentRef = useRef<HTMLDivElement>(null);
@@ -53,6 +70,122 @@ const GanttChartView: React.FC<GanttChartViewProps> = ({ data, onClose, onItemCl
 
   const dataMap = useMemo(() => new Map(data.map(item => [item.id, item])), [data]);
 
+  const hasCriticalInfo = useMemo(() => data.some(item => item.isCritical !== undefined), [data]);
+  const scheduleSummary = useMemo(() => summarizeGanttSchedule(data, targetDate), [data, targetDate]);
+  const highlightCritical = showCriticalPath && hasCriticalInfo;
+
+  // --- Baselines ---
+  const [selectedBaselineId, setSelectedBaselineId] = useState<string>('');
+  const [isSavingBaseline, setIsSavingBaseline] = useState(false);
+  const selectedBaseline = baselines.find(b => b.id === selectedBaselineId) || null;
+  const variance = useMemo(() => selectedBaseline ? compareWithBaseline(data, selectedBaseline.items) : null, [data, selectedBaseline]);
+
+  useEffect(() => {
+    if (selectedBaselineId && !baselines.some(b => b.id === selectedBaselineId)) setSelectedBaselineId('');
+  }, [baselines, selectedBaselineId]);
+
+  const handleCreateBaseline = async () => {
+    if (!onCreateBaseline) return;
+    const name = prompt('ベースライン名を入力してください:', `ベースライン ${new Date().toLocaleDateString('ja-JP')}`);
+    if (!name?.trim()) return;
+    setIsSavingBaseline(true);
+    try {
+      await onCreateBaseline(name.trim());
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'ベースラインの保存に失敗しました。');
+    } finally {
+      setIsSavingBaseline(false);
+    }
+  };
+
+  const handleDeleteBaseline = async () => {
+    if (!onDeleteBaseline || !selectedBaseline) return;
+    if (!confirm(`ベースライン「${selectedBaseline.name}」を削除しますか？`)) return;
+    try {
+      await onDeleteBaseline(selectedBaseline.id);
+      setSelectedBaselineId('');
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'ベースラインの削除に失敗しました。');
+    }
+  };
+
+  // --- Interactive editing ---
+  const isEditable = !!onEdit;
+  const [barDrag, setBarDrag] = useState<{ itemId: string; mode: BarDragMode; originX: number; deltaDays: number } | null>(null);
+  const [linkDrag, setLinkDrag] = useState<{ fromId: string; fromX: number; fromY: number; x: number; y: number } | null>(null);
+  const linkTargetRef = useRef<string | null>(null);
+  const [selectedItemId, setSelectedItemId] = useState<string | null>(null);
+  const selectedItem = selectedItemId ? dataMap.get(selectedItemId) || null : null;
+  const [progressDraft, setProgressDraft] = useState<number | null>(null);
+
+  useEffect(() => setProgressDraft(null), [selectedItemId, data]);
+
+  const getDraggedDates = (item: GanttItem, mode: BarDragMode, deltaDays: number): { start: string; end: string } => {
+    if (mode === 'move') return { start: addDays(item.start, deltaDays), end: addDays(item.end, deltaDays) };
+    if (mode === 'start') {
+      const start = addDays(item.start, deltaDays);
+      return { start: daysBetween(start, item.end) < 0 ? item.end : start, end: item.end };
+    }
+    const end = addDays(item.end, deltaDays);
+    return { start: item.start, end: daysBetween(item.start, end) < 0 ? item.start : end };
+  };
+
+  useEffect(() => {
+    if (!barDrag && !linkDrag) return;
+
+    const handleMouseMove = (e: MouseEvent) => {
+      if (barDrag) {
+        const deltaDays = Math.round((e.clientX - barDrag.originX) / dayWidth);
+        if (deltaDays !== barDrag.deltaDays) setBarDrag({ ...barDrag, deltaDays });
+      } else if (linkDrag) {
+        setLinkDrag({ ...linkDrag, x: e.clientX, y: e.clientY });
+      }
+    };
+
+    const handleMouseUp = () => {
+      if (barDrag) {
+        const item = dataMap.get(barDrag.itemId);
+        if (item && barDrag.deltaDays !== 0) {
+          onEdit?.({ kind: 'reschedule', itemId: item.id, ...getDraggedDates(item, barDrag.mode, barDrag.deltaDays) });
+        } else if (item) {
+          setSelectedItemId(item.id);
+        }
+        setBarDrag(null);
+      } else if (linkDrag) {
+        const targetId = linkTargetRef.current;
+        if (targetId && targetId !== linkDrag.fromId) onEdit?.({ kind: 'addDependency', fromId: linkDrag.fromId, toId: targetId });
+        setLinkDrag(null);
+      }
+    };
+
+    window.addEventListener('mousemove', handleMouseMove);
+    window.addEventListener('mouseup', handleMouseUp);
+    return () => {
+      window.removeEventListener('mousemove', handleMouseMove);
+      window.removeEventListener('mouseup', handleMouseUp);
+    };
+  }, [barDrag, linkDrag, dayWidth, dataMap, onEdit]);
+
+  const startBarDrag = (e: React.MouseEvent, itemId: string, mode: BarDragMode) => {
+    if (!isEditable || e.button !== 0) return;
+    e.preventDefault();
+    e.stopPropagation();
+    setBarDrag({ itemId, mode, originX: e.clientX, deltaDays: 0 });
+  };
+
+  const startLinkDrag = (e: React.MouseEvent, itemId: string) => {
+    if (!isEditable || e.button !== 0) return;
+    e.preventDefault();
+    e.stopPropagation();
+    setLinkDrag({ fromId: itemId, fromX: e.clientX, fromY: e.clientY, x: e.clientX, y: e.clientY });
+  };
+
+  const commitProgress = () => {
+    if (selectedItem && progressDraft !== null && progressDraft !== selectedItem.progress) {
+      onEdit?.({ kind: 'progress', itemId: selectedItem.id, progress: progressDraft });
+    }
+  };
+
   const getItemColor = useCallback((item: GanttItem): string => {
       const rootId = getRootTaskId(item, dataMap);
       return rootId ? taskColorMap.get(rootId) || '#9CA3AF' : '#9CA3AF';
@@ -107,8 +240,9 @@ const GanttChartView: React.FC<GanttChartViewProps> = ({ data, onClose, onItemCl
       const today = new Date();
       return { timelineStart: today, totalDays: 30 };
     }
-    const startDates = data.map(d => new Date(d.start)).filter(d => !isNaN(d.getTime()));
-    const endDates = data.map(d => new Date(d.end)).filter(d => !isNaN(d.getTime()));
+    const rangeItems = selectedBaseline ? [...data, ...selectedBaseline.items] : data;
+    const startDates = rangeItems.map(d => new Date(d.start)).filter(d => !isNaN(d.getTime()));
+    const endDates = rangeItems.map(d => new Date(d.end)).filter(d => !isNaN(d.getTime()));
 
     let projectMinDate: Date, projectMaxDate: Date;
 
@@ -133,7 +267,7 @@ const GanttChartView: React.FC<GanttChartViewProps> = ({ data, onClose, onItemCl
 
     const totalDaysValue = (viewEndDate.getTime() - viewStartDate.getTime()) / (1000 * 3600 * 24);
     return { timelineStart: viewStartDate, totalDays: Math.ceil(totalDaysValue) };
-  }, [data, dateRange]);
+  }, [data, dateRange, selectedBaseline]);
 
   const timelineHeaders = useMemo(() => {
     const getWeekNumber = (d: Date) => {
@@ -276,7 +410,30 @@ const GanttChartView: React.FC<GanttChartViewProps> = ({ data, onClose, onItemCl
                 <button onClick={() => setActionFilter('pending')} className={`px-3 py-1 text-xs rounded-full ${actionFilter === 'pending' ? 'bg-white shadow-sm' : ''}`}>未完了</button>
                 <button onClick={() => setActionFilter('completed')} className={`px-3 py-1 text-xs rounded-full ${actionFilter === 'completed' ? 'bg-white shadow-sm' : ''}`}>完了</button>
             </div>
+             {scheduleSummary.projectedFinish && (
+                <div className="flex items-center gap-2 text-sm text-slate-700">
+                    <CalendarIcon className="w-4 h-4 text-slate-500" />
+                    <span>完了予定: <span className="font-semibold">{scheduleSummary.projectedFinish}</span></span>
+                    {targetDate && <span className="text-slate-500">/ 目標: {targetDate}</span>}
+                    {scheduleSummary.varianceDays !== null && (
+                        <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${scheduleSummary.varianceDays > 0 ? 'bg-red-100 text-red-700' : 'bg-green-100 text-green-700'}`}>
+                            {scheduleSummary.varianceDays > 0 ? `${scheduleSummary.varianceDays}日 遅延` : `${-scheduleSummary.varianceDays}日 余裕`}
+                        </span>
+                    )}
+                </div>
+             )}
              <div className="flex items-center gap-4">
+                 {onReschedule && (
+                    <button
+                        onClick={onReschedule}
+                        disabled={isRegenerating}
+                        title="依存関係・期日・見積工数からスケジュールを計算します（チャートで移動した項目はその開始日より前には配置されません）"
+                        className="inline-flex items-center gap-2 px-3 py-1.5 text-sm font-semibold text-white bg-slate-700 rounded-md hover:bg-slate-800 disabled:bg-slate-400"
+                    >
+                        <CalendarIcon className="w-4 h-4" />
+                        スケジュール自動計算
+                    </button>
+                 )}
                  <button
                     onClick={onRegenerate}
                     disabled={isRegenerating}
@@ -289,8 +446,112 @@ const GanttChartView: React.FC<GanttChartViewProps> = ({ data, onClose, onItemCl
                   <input type="checkbox" checked={showDependencies} onChange={() => setShowDependencies(p => !p)} className="w-4 h-4 mr-2 accent-blue-600" />
                   依存関係
                 </label>
+                {hasCriticalInfo && (
+                    <label className="flex items-center text-sm text-slate-600 cursor-pointer">
+                      <input type="checkbox" checked={showCriticalPath} onChange={() => setShowCriticalPath(p => !p)} className="w-4 h-4 mr-2 accent-red-600" />
+                      クリティカルパス
+                    </label>
+                )}
              </div>
         </div>
+        <div className="flex-shrink-0 px-4 py-2 border-b flex flex-wrap items-center gap-x-4 gap-y-2 text-sm">
+            <span className="font-medium text-slate-600">ベースライン:</span>
+            {baselineUnavailableReason ? (
+                <span className="text-xs text-slate-500">{baselineUnavailableReason}</span>
+            ) : (
+                <>
+                    <select value={selectedBaselineId} onChange={e => setSelectedBaselineId(e.target.value)} className="p-1 border rounded-md text-sm bg-white">
+                        <option value="">表示しない</option>
+                        {baselines.map(b => (
+                            <option key={b.id} value={b.id}>{b.name}（{new Date(b.createdAt).toLocaleDateString('ja-JP')}）</option>
+                        ))}
+                    </select>
+                    {onCreateBaseline && (
+                        <button onClick={handleCreateBaseline} disabled={isSavingBaseline || data.length === 0} className="text-xs px-2 py-1 bg-slate-200 rounded-md hover:bg-slate-300 disabled:opacity-50">
+                            {isSavingBaseline ? '保存中...' : '現在の計画を保存'}
+                        </button>
+                    )}
+                    {onDeleteBaseline && selectedBaseline && (
+                        <button onClick={handleDeleteBaseline} className="text-xs px-2 py-1 text-red-700 bg-red-50 border border-red-200 rounded-md hover:bg-red-100">削除</button>
+                    )}
+                </>
+            )}
+            {variance && (
+                <div className="flex flex-wrap items-center gap-2 text-xs text-slate-700">
+                    <span>計画完了日: <span className="font-semibold">{variance.summary.baselineFinish ?? '-'}</span></span>
+                    {variance.summary.finishSlipDays !== null && (
+                        <span className={`px-2 py-0.5 rounded-full font-semibold ${variance.summary.finishSlipDays > 0 ? 'bg-red-100 text-red-700' : variance.summary.finishSlipDays < 0 ? 'bg-green-100 text-green-700' : 'bg-slate-100 text-slate-700'}`}>
+                            完了日 {formatSlip(variance.summary.finishSlipDays)}
+                        </span>
+                    )}
+                    <span className="text-red-700">遅延 {variance.summary.slippedCount}件</span>
+                    <span className="text-green-700">前倒し {variance.summary.aheadCount}件</span>
+                    <span>計画通り {variance.summary.onPlanCount}件</span>
+                    {variance.summary.addedCount > 0 && <span>追加 {variance.summary.addedCount}件</span>}
+                    {variance.summary.removedCount > 0 && <span>削除 {variance.summary.removedCount}件</span>}
+                    {variance.summary.worstSlip && (
+                        <span className="text-slate-500" title={variance.summary.worstSlip.name}>
+                            最大遅延: {variance.summary.worstSlip.name.length > 20 ? `${variance.summary.worstSlip.name.substring(0, 20)}…` : variance.summary.worstSlip.name} ({formatSlip(variance.summary.worstSlip.days)})
+                        </span>
+                    )}
+                </div>
+            )}
+        </div>
+        {scheduleWarnings.length > 0 && (
+            <div className="flex-shrink-0 px-4 py-2 border-b bg-amber-50 text-xs text-amber-800 space-y-0.5 max-h-20 overflow-y-auto">
+                {scheduleWarnings.map((warning, i) => <p key={i}>⚠ {warning}</p>)}
+            </div>
+        )}
+        {isEditable && selectedItem && (
+            <div className="flex-shrink-0 px-4 py-2 border-b bg-blue-50 flex flex-wrap items-center gap-x-6 gap-y-2 text-sm">
+                <span className="font-semibold text-slate-800 truncate max-w-xs" title={selectedItem.name}>{selectedItem.name}</span>
+                <div className="flex items-center gap-2">
+                    <span className="text-slate-600">期間:</span>
+                    <input type="date" value={selectedItem.start} onChange={e => e.target.value && onEdit!({ kind: 'reschedule', itemId: selectedItem.id, start: e.target.value, end: daysBetween(e.target.value, selectedItem.end) < 0 ? e.target.value : selectedItem.end })} className="p-1 border rounded-md text-sm" />
+                    <span>-</span>
+                    <input type="date" value={selectedItem.end} min={selectedItem.start} onChange={e => e.target.value && daysBetween(selectedItem.start, e.target.value) >= 0 && onEdit!({ kind: 'reschedule', itemId: selectedItem.id, start: selectedItem.start, end: e.target.value })} className="p-1 border rounded-md text-sm" />
+                </div>
+                {selectedItem.type === 'actionitem' ? (
+                    <label className="flex items-center gap-2 text-slate-600 cursor-pointer">
+                        <input type="checkbox" checked={selectedItem.progress === 100} onChange={e => onEdit!({ kind: 'progress', itemId: selectedItem.id, progress: e.target.checked ? 100 : 0 })} className="w-4 h-4 accent-blue-600" />
+                        完了
+                    </label>
+                ) : (
+                    <div className="flex items-center gap-2">
+                        <span className="text-slate-600">進捗:</span>
+                        <input
+                            type="range" min={0} max={100} step={5}
+                            value={progressDraft ?? selectedItem.progress}
+                            onChange={e => setProgressDraft(Number(e.target.value))}
+                            onMouseUp={commitProgress}
+                            onKeyUp={commitProgress}
+                            onTouchEnd={commitProgress}
+                            className="w-32 accent-blue-600"
+                        />
+                        <span className="w-10 text-right font-semibold text-slate-700">{progressDraft ?? selectedItem.progress}%</span>
+                    </div>
+                )}
+                {selectedItem.dependencies.length > 0 && (
+                    <div className="flex items-center flex-wrap gap-1">
+                        <span className="text-slate-600">先行:</span>
+                        {selectedItem.dependencies.map(depId => (
+                            <span key={depId} className="inline-flex items-center gap-1 px-2 py-0.5 bg-white border rounded-full text-xs text-slate-700">
+                                {dataMap.get(depId)?.name || depId}
+                                <button onClick={() => onEdit!({ kind: 'removeDependency', fromId: depId, toId: selectedItem.id })} title="依存関係を削除" className="text-slate-400 hover:text-red-600">
+                                    <XIcon className="w-3 h-3" />
+                                </button>
+                            </span>
+                        ))}
+                    </div>
+                )}
+                <div className="flex items-center gap-2 ml-auto">
+                    {onItemClick && <button onClick={() => onItemClick(selectedItem)} className="text-xs px-2 py-1 bg-white border rounded-md hover:bg-slate-100">詳細を開く</button>}
+                    <button onClick={() => setSelectedItemId(null)} className="p-1 rounded-full hover:bg-blue-100" title="選択解除">
+                        <XIcon className="w-4 h-4 text-slate-500" />
+                    </button>
+                </div>
+            </div>
+        )}
         <div className="flex-grow overflow-auto relative">
             <div ref={ganttContentRef} className="grid" style={{
                 gridTemplateColumns: `${TASK_LIST_WIDTH}px 1fr`,
@@ -326,8 +587,9 @@ const GanttChartView: React.FC<GanttChartViewProps> = ({ data, onClose, onItemCl
                         return getRootTaskId(item, dataMap) !== getRootTaskId(nextItem, dataMap);
                     })();
 
-                    const startDays = getDaysFromStart(item.start);
-                    const durationDays = Math.max(0.2, getDaysFromStart(item.end) - startDays + 1);
+                    const dragged = barDrag?.itemId === item.id ? getDraggedDates(item, barDrag.mode, barDrag.deltaDays) : null;
+                    const startDays = getDaysFromStart(dragged?.start ?? item.start);
+                    const durationDays = Math.max(0.2, getDaysFromStart(dragged?.end ?? item.end) - startDays + 1);
                     const barLeft = startDays * dayWidth;
                     const barWidth = durationDays * dayWidth;
 
@@ -336,6 +598,11 @@ const GanttChartView: React.FC<GanttChartViewProps> = ({ data, onClose, onItemCl
                         substep: { height: '20px' },
                         actionitem: { height: '8px' }
                     };
+                    const isCriticalBar = highlightCritical && item.isCritical;
+                    const itemVariance = variance?.byItem.get(item.id);
+                    const baselineLeft = itemVariance ? getDaysFromStart(itemVariance.baselineStart) * dayWidth : 0;
+                    const baselineWidth = itemVariance ? Math.max(0.2, getDaysFromStart(itemVariance.baselineEnd) - getDaysFromStart(itemVariance.baselineStart) + 1) * dayWidth : 0;
+                    const slackLabel = item.slackDays !== undefined ? ` / 余裕 ${item.slackDays}日` : '';
 
                     return (
                         <React.Fragment key={item.id}>
@@ -353,23 +620,54 @@ const GanttChartView: React.FC<GanttChartViewProps> = ({ data, onClose, onItemCl
                                         ) : <div className="w-4 h-4 mr-1"></div>
                                     )}
                                     {item.type === 'actionitem' && (item.progress === 100 ? <CheckSquareIcon className="w-3.5 h-3.5 text-green-600 mr-2 flex-shrink-0" /> : <SquareIcon className="w-3.5 h-3.5 text-slate-400 mr-2 flex-shrink-0" />)}
-                                    <span onClick={() => onItemClick?.(item)} className={`truncate text-xs ${item.type === 'task' ? 'font-semibold text-slate-800' : 'text-slate-600'} ${onItemClick ? 'cursor-pointer hover:text-blue-600' : ''}`} title={item.name}>
+                                    <span onClick={() => onItemClick?.(item)} className={`truncate text-xs ${item.type === 'task' ? 'font-semibold' : ''} ${highlightCritical && item.isCritical ? 'text-red-700' : item.type === 'task' ? 'text-slate-800' : 'text-slate-600'} ${onItemClick ? 'cursor-pointer hover:text-blue-600' : ''}`} title={item.name}>
                                         {item.name}
                                     </span>
+                                    {itemVariance && itemVariance.finishSlipDays !== 0 && (
+                                        <span
+                                            className={`ml-auto mr-2 flex-shrink-0 text-[10px] font-semibold ${itemVariance.finishSlipDays > 0 ? 'text-red-600' : 'text-green-600'}`}
+                                            title={`計画: ${itemVariance.baselineStart} - ${itemVariance.baselineEnd}`}
+                                        >
+                                            {formatSlip(itemVariance.finishSlipDays)}
+                                        </span>
+                                    )}
                                 </div>
                             </div>
                             {/* Timeline Cell */}
                             <div className="relative" style={{ gridColumn: 2, gridRow: index + 2, borderBottom: isLastItemOfGroup ? `2px solid ${itemColor}` : '1px solid #e5e7eb' }}>
+                               {itemVariance && baselineLeft >= 0 && (
+                                  <div
+                                    className="absolute bottom-1 h-1.5 rounded-sm bg-slate-400 bg-opacity-70 pointer-events-none"
+                                    style={{ left: baselineLeft, width: baselineWidth }}
+                                    title={`計画: ${itemVariance.baselineStart} - ${itemVariance.baselineEnd}`}
+                                  />
+                               )}
                                {startDays >= 0 && (
                                   <div
-                                    title={`${item.name} (${item.progress}%)`}
-                                    onClick={() => onItemClick?.(item)}
+                                    title={dragged ? `${dragged.start} - ${dragged.end}` : `${item.name} (${item.progress}%)${slackLabel}${item.isCritical ? ' / クリティカル' : ''}`}
+                                    onClick={isEditable ? undefined : () => onItemClick?.(item)}
+                                    onMouseDown={e => startBarDrag(e, item.id, 'move')}
+                                    onMouseEnter={() => { linkTargetRef.current = item.id; }}
+                                    onMouseLeave={() => { if (linkTargetRef.current === item.id) linkTargetRef.current = null; }}
                                     className="absolute h-full flex items-center group"
-                                    style={{ left: barLeft, width: barWidth, cursor: onItemClick ? 'pointer' : 'default' }}
+                                    style={{ left: barLeft, width: barWidth, cursor: isEditable ? (dragged ? 'grabbing' : 'grab') : onItemClick ? 'pointer' : 'default' }}
                                   >
-                                    <div className="w-full rounded" style={{...barStyles[item.type], backgroundColor: itemColor}}>
+                                    <div className="w-full rounded" style={{
+                                        ...barStyles[item.type], backgroundColor: itemColor,
+                                        boxShadow: selectedItemId === item.id ? '0 0 0 2px #1D4ED8' : isCriticalBar ? `0 0 0 2px ${CRITICAL_COLOR}` : undefined,
+                                        opacity: dragged ? 0.8 : 1,
+                                    }}>
                                         <div className="bg-black bg-opacity-30 h-full rounded" style={{width: `${item.progress}%`}} />
                                     </div>
+                                    {isEditable && (
+                                        <>
+                                            <div onMouseDown={e => startBarDrag(e, item.id, 'start')} className="absolute left-0 top-1/4 h-1/2 w-1.5 cursor-ew-resize rounded-l bg-black bg-opacity-0 group-hover:bg-opacity-30" title="開始日を変更" />
+                                            <div onMouseDown={e => startBarDrag(e, item.id, 'end')} className="absolute right-0 top-1/4 h-1/2 w-1.5 cursor-ew-resize rounded-r bg-black bg-opacity-0 group-hover:bg-opacity-30" title="終了日を変更" />
+                                            {item.type !== 'actionitem' && (
+                                                <div onMouseDown={e => startLinkDrag(e, item.id)} className="absolute -right-3 w-2.5 h-2.5 rounded-full border-2 border-slate-500 bg-white opacity-0 group-hover:opacity-100 cursor-crosshair" title="ドラッグして後続の項目に依存関係を作成" />
+                                            )}
+                                        </>
+                                    )}
                                   </div>
                                 )}
                             </div>
@@ -384,18 +682,23 @@ const GanttChartView: React.FC<GanttChartViewProps> = ({ data, onClose, onItemCl
                     position: 'relative',
                     pointerEvents: 'none'
                 }}>
-                  {showDependencies && <DependencyLines items={visibleItems} getDaysFromStart={getDaysFromStart} dayWidth={dayWidth} />}
+                  {showDependencies && <DependencyLines items={visibleItems} getDaysFromStart={getDaysFromStart} dayWidth={dayWidth} highlightCritical={highlightCritical} />}
                 </div>
             </div>
         </div>
       </div>
+      {linkDrag && (
+        <svg className="fixed inset-0 w-full h-full pointer-events-none z-[90]">
+            <line x1={linkDrag.fromX} y1={linkDrag.fromY} x2={linkDrag.x} y2={linkDrag.y} stroke="#1D4ED8" strokeWidth="2" strokeDasharray="4 3" />
+        </svg>
+      )}
     </div>
   );
 };
 
-const DependencyLines: React.FC<{ items: GanttItem[], getDaysFromStart: (date: string) => number, dayWidth: number }> = ({ items, getDaysFromStart, dayWidth }) => {
+const DependencyLines: React.FC<{ items: GanttItem[], getDaysFromStart: (date: string) => number, dayWidth: number, highlightCritical: boolean }> = ({ items, getDaysFromStart, dayWidth, highlightCritical }) => {
     const lines = useMemo(() => {
-        const newLines: { key: string, d: string }[] = [];
+        const newLines: { key: string, d: string, critical: boolean }[] = [];
         const itemIndexMap = new Map<string, number>(items.map((item, index) => [item.id, index]));
 
         items.forEach((item, index) => {
@@ -418,12 +721,12 @@ const DependencyLines: React.FC<{ items: GanttItem[], getDaysFromStart: (date: s
                     const midX2 = toX - 20;
 
                     const d = `M ${fromX} ${fromY} C ${midX1} ${fromY}, ${midX2} ${toY}, ${toX} ${toY}`;
-                    newLines.push({ key: `${depId}-${item.id}`, d });
+                    newLines.push({ key: `${depId}-${item.id}`, d, critical: highlightCritical && !!fromItem.isCritical && !!item.isCritical });
                 }
             });
         });
         return newLines;
-    }, [items, getDaysFromStart, dayWidth]);
+    }, [items, getDaysFromStart, dayWidth, highlightCritical]);
 
     return (
         <svg className="absolute top-0 left-0 w-full h-full pointer-events-none" overflow="visible">
@@ -431,9 +734,12 @@ const DependencyLines: React.FC<{ items: GanttItem[], getDaysFromStart: (date: s
                 <marker id="gantt_arrowhead" markerWidth="5" markerHeight="4" refX="5" refY="2" orient="auto">
                     <polygon points="0 0, 5 2, 0 4" fill="#4b5563" />
                 </marker>
+                <marker id="gantt_arrowhead_critical" markerWidth="5" markerHeight="4" refX="5" refY="2" orient="auto">
+                    <polygon points="0 0, 5 2, 0 4" fill={CRITICAL_COLOR} />
+                </marker>
             </defs>
             {lines.map(line => (
-                <path key={line.key} d={line.d} stroke="#4b5563" strokeWidth="1" fill="none" markerEnd="url(#gantt_arrowhead)"/>
+                <path key={line.key} d={line.d} stroke={line.critical ? CRITICAL_COLOR : '#4b5563'} strokeWidth={line.critical ? 1.5 : 1} fill="none" markerEnd={line.critical ? 'url(#gantt_arrowhead_critical)' : 'url(#gantt_arrowhead)'}/>
             ))}
         </svg>
     );
@@ -0,0 +1,62 @@
+import React from 'react';
+import { GenerationProgress } from '../services/geminiService';
+import LoadingSpinner from './LoadingSpinner';
+import { XIcon } from './icons';
+
+interface GenerationProgressIndicatorProps {
+  label: string;
+  progress: GenerationProgress | null;
+  onCancel: () => void;
+}
+
+export const formatGenerationProgress = (progress: GenerationProgress | null): string => {
+  if (!progress) return 'AIの応答を待っています...';
+  const prefix = progress.repairAttempt > 0 ? `応答を修正中 (${progress.repairAttempt}回目): ` : '';
+  switch (progress.unit) {
+    case 'slides':
+      if (progress.completed === 0) return `${prefix}スライド構成を作成中...`;
+      return progress.total
+        ? `${prefix}スライド ${Math.min(progress.completed, progress.total)} / ${progress.total} を生成中`
+        : `${prefix}スライド ${progress.completed} 枚目を生成中`;
+    case 'items':
+      return progress.total
+        ? `${prefix}${progress.completed} / ${progress.total} 項目を解析済み`
+        : `${prefix}${progress.completed} 項目を解析済み`;
+    case 'characters':
+      return `${prefix}${progress.completed.toLocaleString()} 文字を生成済み`;
+  }
+};
+
+/**
+ * Floating status card for long-running AI generations. It sits above every modal
+ * so the user can cancel from whichever view started the request.
+ */
+const GenerationProgressIndicator: React.FC<GenerationProgressIndicatorProps> = ({ label, progress, onCancel }) => {
+  const ratio = progress?.total ? Math.min(progress.completed / progress.total, 1) : null;
+
+  return (
+    <div className="fixed bottom-6 right-6 z-[110] w-80 bg-white rounded-lg shadow-2xl border border-slate-200 p-4 no-print">
+      <div className="flex items-start gap-3">
+        <LoadingSpinner size="sm" />
+        <div className="flex-grow min-w-0">
+          <p className="text-sm font-semibold text-slate-800 truncate">{label}</p>
+          <p className="text-xs text-slate-600 mt-1">{formatGenerationProgress(progress)}</p>
+        </div>
+        <button
+          onClick={onCancel}
+          className="flex-shrink-0 inline-flex items-center px-2 py-1 text-xs font-medium rounded-md text-red-700 bg-red-50 hover:bg-red-100 border border-red-200"
+        >
+          <XIcon className="w-4 h-4 mr-1" />
+          キャンセル
+        </button>
+      </div>
+      {ratio !== null && (
+        <div className="mt-3 h-1.5 bg-slate-200 rounded-full overflow-hidden">
+          <div className="h-full bg-blue-500 transition-all duration-300" style={{ width: `${ratio * 100}%` }} />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GenerationProgressIndicator;
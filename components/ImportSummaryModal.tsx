@@ -0,0 +1,104 @@
+import React from 'react';
+import { ImportSummary } from '../types';
+import { XIcon, CheckCircleIcon, ExclamationTriangleIcon } from './icons';
+
+interface ImportSummaryModalProps {
+  summary: ImportSummary;
+  onClose: () => void;
+}
+
+const ImportSummaryModal: React.FC<ImportSummaryModalProps> = ({ summary, onClose }) => {
+  const errors = summary.errors || [];
+  const hasIssues = errors.length > 0 || summary.warnings.length > 0 || summary.unmappedFields.length > 0;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-70 backdrop-blur-sm flex items-center justify-center p-4 z-[110]">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-lg max-h-[90vh] flex flex-col">
+        <header className="flex items-center justify-between p-6 border-b border-slate-200">
+          <div>
+            <h3 className="text-xl font-bold text-slate-800">インポート結果</h3>
+            <p className="text-sm text-slate-500 mt-1">{summary.fileName}（{summary.format}）</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-slate-500 hover:text-slate-700 transition-colors p-1 rounded-full hover:bg-slate-100"
+          >
+            <XIcon className="w-6 h-6" />
+          </button>
+        </header>
+
+        <div className="flex-grow p-6 overflow-y-auto space-y-5">
+          {errors.length > 0 ? (
+            <div>
+              <h4 className="font-semibold text-red-700 mb-1 flex items-center">
+                <ExclamationTriangleIcon className="w-5 h-5 mr-2 text-red-600" />
+                取り込めませんでした
+              </h4>
+              <p className="text-xs text-slate-500 mb-2">以下の問題を修正してから、もう一度読み込んでください。</p>
+              <ul className="list-disc pl-5 space-y-1 text-sm text-red-700">
+                {errors.map((message: string, index: number) => <li key={index}>{message}</li>)}
+              </ul>
+            </div>
+          ) : (
+            <div>
+              <h4 className="font-semibold text-slate-800 mb-2 flex items-center">
+                <CheckCircleIcon className="w-5 h-5 mr-2 text-green-600" />
+                取り込んだ項目
+              </h4>
+              <ul className="grid grid-cols-2 gap-2 text-sm">
+                {summary.counts.map(({ label, count }) => (
+                  <li key={label} className="flex justify-between bg-slate-50 rounded-md px-3 py-2">
+                    <span className="text-slate-600">{label}</span>
+                    <span className="font-semibold text-slate-800">{count}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {summary.warnings.length > 0 && (
+            <div>
+              <h4 className="font-semibold text-slate-800 mb-2 flex items-center">
+                <ExclamationTriangleIcon className="w-5 h-5 mr-2 text-amber-500" />
+                注意
+              </h4>
+              <ul className="list-disc pl-5 space-y-1 text-sm text-slate-700">
+                {summary.warnings.map((warning, index) => <li key={index}>{warning}</li>)}
+              </ul>
+            </div>
+          )}
+
+          {summary.unmappedFields.length > 0 && (
+            <div>
+              <h4 className="font-semibold text-slate-800 mb-1">取り込めなかった項目</h4>
+              <p className="text-xs text-slate-500 mb-2">以下の情報はこのアプリに対応する項目がないため、取り込まれていません。</p>
+              <table className="w-full text-sm">
+                <tbody>
+                  {summary.unmappedFields.map(({ field, count }) => (
+                    <tr key={field} className="border-t border-slate-100">
+                      <td className="py-1.5 text-slate-700">{field}</td>
+                      <td className="py-1.5 text-right text-slate-500">{count}件</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {!hasIssues && <p className="text-sm text-slate-600">すべての項目を取り込みました。</p>}
+        </div>
+
+        <footer className="flex justify-end p-6 border-t border-slate-200">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700"
+          >
+            閉じる
+          </button>
+        </footer>
+      </div>
+    </div>
+  );
+};
+
+export default ImportSummaryModal;
@@ -0,0 +1,161 @@
+import React, { useState, useEffect } from 'react';
+import { MergeConflict, MergeSide } from '../services/projectMerge';
+import { formatChangeValue } from '../services/changeValues';
+import { TaskStatus } from '../types';
+import { XIcon } from './icons';
+
+interface MergeConflictModalProps {
+  isOpen: boolean;
+  conflicts: MergeConflict[];
+  autoMergedNote?: string;
+  onResolve: (resolutions: Record<string, MergeSide>) => void;
+  onCancel: () => void;
+}
+
+const ENTITY_LABELS: Record<string, string> = {
+  project: 'プロジェクト',
+  task: 'タスク',
+  substep: 'サブステップ',
+  actionitem: 'アクションアイテム',
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  goal: 'プロジェクト目標',
+  targetDate: '目標期日',
+  ganttData: 'ガントチャート',
+  title: 'タイトル',
+  description: '説明',
+  status: 'ステータス',
+  position: 'キャンバス上の位置',
+  text: '内容',
+  notes: 'メモ',
+  responsible: '担当者',
+  dueDate: '期限',
+  estimatedDays: '見積工数',
+  completed: '完了',
+  completedDate: '完了日',
+  report: '実施報告',
+  attachments: '添付ファイル',
+  'details.resources': '必要なリソース',
+  'details.responsible': '担当者',
+  'details.notes': 'メモ',
+  'details.dueDate': '期限',
+  'details.estimatedDays': '見積工数',
+  'details.numericalTarget': '数値目標',
+  'details.reportDeck': 'レポート',
+  'details.resourceMatrix': 'リソースマトリクス',
+  'details.attachments': '添付ファイル',
+  'details.decisions': '決定事項',
+  'details.subStepCanvasSize': 'キャンバスサイズ',
+};
+
+const STATUS_LABELS: Record<string, string> = {
+  [TaskStatus.NOT_STARTED]: '未着手',
+  [TaskStatus.IN_PROGRESS]: '進行中',
+  [TaskStatus.COMPLETED]: '完了',
+  [TaskStatus.BLOCKED]: '停滞中',
+};
+
+const formatValue = (field: string, value: unknown): string =>
+  formatChangeValue(value, { labels: field === 'status' ? STATUS_LABELS : undefined, objectLabel: '（変更あり）' });
+
+const describeSide = (conflict: MergeConflict, side: MergeSide) => {
+  const values = conflict[side];
+  if (values === null) return <p className="text-sm text-red-600 font-medium">削除</p>;
+  if (conflict.kind === 'deleted') return <p className="text-sm text-slate-700">編集して残す</p>;
+  return (
+    <dl className="space-y-1">
+      {conflict.fields.map(field => (
+        <div key={field} className="text-sm">
+          <dt className="text-xs text-slate-500">{FIELD_LABELS[field] || field}</dt>
+          <dd className="text-slate-800 whitespace-pre-wrap break-words">{formatValue(field, values[field])}</dd>
+        </div>
+      ))}
+    </dl>
+  );
+};
+
+const MergeConflictModal: React.FC<MergeConflictModalProps> = ({ isOpen, conflicts, autoMergedNote, onResolve, onCancel }) => {
+  const [choices, setChoices] = useState<Record<string, MergeSide>>({});
+
+  useEffect(() => {
+    if (isOpen) setChoices({});
+  }, [isOpen, conflicts]);
+
+  if (!isOpen) return null;
+
+  const chooseAll = (side: MergeSide) => setChoices(Object.fromEntries(conflicts.map(c => [c.id, side])));
+  const allChosen = conflicts.every(c => choices[c.id]);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-70 backdrop-blur-sm flex items-center justify-center p-4 z-[120]">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-4xl max-h-[90vh] flex flex-col">
+        <header className="flex items-center justify-between p-4 border-b">
+          <div>
+            <h3 className="text-xl font-bold text-slate-800">変更の競合を解決</h3>
+            <p className="text-sm text-slate-600 mt-1">
+              他のユーザーが同じ箇所を変更していました。項目ごとに残す内容を選んでください。
+              {autoMergedNote && <span className="block text-xs text-slate-500 mt-0.5">{autoMergedNote}</span>}
+            </p>
+          </div>
+          <button onClick={onCancel} className="p-2 rounded-full hover:bg-slate-100" title="キャンセル">
+            <XIcon className="w-5 h-5 text-slate-600" />
+          </button>
+        </header>
+
+        <div className="flex items-center gap-2 px-4 py-2 bg-slate-50 border-b text-sm">
+          <span className="text-slate-600 mr-auto">{conflicts.length}件の競合</span>
+          <button onClick={() => chooseAll('local')} className="px-3 py-1 rounded-md border border-blue-300 text-blue-700 hover:bg-blue-50">すべて自分の変更を採用</button>
+          <button onClick={() => chooseAll('remote')} className="px-3 py-1 rounded-md border border-slate-300 text-slate-700 hover:bg-slate-100">すべて他のユーザーの変更を採用</button>
+        </div>
+
+        <div className="flex-grow overflow-y-auto p-4 space-y-3">
+          {conflicts.map(conflict => (
+            <div key={conflict.id} className="border rounded-lg">
+              <div className="px-3 py-2 bg-slate-100 rounded-t-lg text-sm">
+                <span className="inline-block px-1.5 py-0.5 mr-2 rounded bg-slate-200 text-xs text-slate-700">{ENTITY_LABELS[conflict.entityType]}</span>
+                {conflict.parentNames.map((name, i) => <span key={i} className="text-slate-500">{name} › </span>)}
+                <span className="font-semibold text-slate-800">{conflict.entityName}</span>
+              </div>
+              <div className="grid grid-cols-2 gap-0">
+                {(['local', 'remote'] as MergeSide[]).map(side => (
+                  <label
+                    key={side}
+                    className={`p-3 cursor-pointer border-t ${side === 'remote' ? 'border-l' : ''} ${choices[conflict.id] === side ? 'bg-blue-50 ring-2 ring-inset ring-blue-400' : 'hover:bg-slate-50'}`}
+                  >
+                    <div className="flex items-center gap-2 mb-2">
+                      <input
+                        type="radio"
+                        name={conflict.id}
+                        checked={choices[conflict.id] === side}
+                        onChange={() => setChoices(prev => ({ ...prev, [conflict.id]: side }))}
+                        className="w-4 h-4 accent-blue-600"
+                      />
+                      <span className="text-sm font-semibold text-slate-700">{side === 'local' ? '自分の変更' : '他のユーザーの変更'}</span>
+                    </div>
+                    {describeSide(conflict, side)}
+                  </label>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <footer className="flex justify-end gap-2 p-4 border-t">
+          <button onClick={onCancel} className="px-4 py-2 text-sm font-medium text-slate-700 bg-white border border-slate-300 rounded-md hover:bg-slate-50">
+            キャンセル
+          </button>
+          <button
+            onClick={() => onResolve(choices)}
+            disabled={!allChosen}
+            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:bg-slate-400 disabled:cursor-not-allowed"
+          >
+            選択した内容で保存
+          </button>
+        </footer>
+      </div>
+    </div>
+  );
+};
+
+export default MergeConflictModal;
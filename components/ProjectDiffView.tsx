@@ -0,0 +1,160 @@
+import React, { useMemo, useState } from 'react';
+import { ProjectDiff, DiffEntry, DiffChangeKind, FieldChange, DATE_FIELDS } from '../services/projectDiff';
+import { formatChangeValue } from '../services/changeValues';
+
+interface ProjectDiffViewProps {
+  diff: ProjectDiff;
+  fromLabel: string;
+  toLabel: string;
+}
+
+const KIND_LABELS: Record<string, string> = {
+  added: '追加',
+  removed: '削除',
+  modified: '変更',
+};
+
+const KIND_STYLES: Record<string, string> = {
+  added: 'bg-green-100 text-green-800',
+  removed: 'bg-red-100 text-red-800',
+  modified: 'bg-blue-100 text-blue-800',
+};
+
+const ENTITY_LABELS: Record<string, string> = {
+  project: 'プロジェクト',
+  task: 'タスク',
+  substep: 'サブステップ',
+  actionitem: 'アクションアイテム',
+  decision: '決定事項',
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  goal: '目的',
+  targetDate: '目標日',
+  title: 'タイトル',
+  description: '説明',
+  status: 'ステータス',
+  nextTaskIds: 'タスクの接続',
+  nextSubStepIds: 'サブステップの接続',
+  responsible: '担当者',
+  dueDate: '期限',
+  estimatedDays: '見積工数',
+  resources: '必要なリソース',
+  notes: 'メモ',
+  numericalTarget: '数値目標',
+  resourceMatrix: 'リソースマトリクス',
+  attachments: '添付資料',
+  reportDeck: 'レポート',
+  text: '内容',
+  completed: '完了',
+  completedDate: '完了日',
+  report: '実施報告',
+  question: '質問',
+  decision: '決定内容',
+  reasoning: '理由',
+  date: '決定日',
+};
+
+const STATUS_LABELS: Record<string, string> = {
+  'Not Started': '未着手',
+  'In Progress': '進行中',
+  Completed: '完了',
+  Blocked: '停滞中',
+  decided: '決定済み',
+  undecided: '未決定',
+};
+
+type ChangeFilter = 'all' | DiffChangeKind | 'dates' | 'status';
+
+const formatValue = (field: string, value: unknown): string =>
+  formatChangeValue(value, { labels: field === 'status' ? STATUS_LABELS : undefined, maxLength: 80 });
+
+const formatShift = (days: number) => days === 0 ? '' : `（${days > 0 ? '+' : ''}${days}日）`;
+
+const hasField = (entry: DiffEntry, test: (change: FieldChange) => boolean) => entry.changes.some(test);
+
+const ProjectDiffView: React.FC<ProjectDiffViewProps> = ({ diff, fromLabel, toLabel }) => {
+  const [filter, setFilter] = useState<ChangeFilter>('all');
+
+  const counts = useMemo(() => ({
+    added: diff.entries.filter(entry => entry.kind === 'added').length,
+    removed: diff.entries.filter(entry => entry.kind === 'removed').length,
+    modified: diff.entries.filter(entry => entry.kind === 'modified').length,
+    dates: diff.entries.filter(entry => hasField(entry, change => DATE_FIELDS.has(change.field))).length,
+    status: diff.entries.filter(entry => hasField(entry, change => change.field === 'status' || change.field === 'completed')).length,
+  }), [diff]);
+
+  const visibleEntries = useMemo(() => diff.entries.filter(entry => {
+    if (filter === 'all') return true;
+    if (filter === 'dates') return hasField(entry, change => DATE_FIELDS.has(change.field));
+    if (filter === 'status') return hasField(entry, change => change.field === 'status' || change.field === 'completed');
+    return entry.kind === filter;
+  }), [diff, filter]);
+
+  const filters: { key: ChangeFilter; label: string }[] = [
+    { key: 'all', label: `すべて（${diff.entries.length}）` },
+    { key: 'added', label: `追加（${counts.added}）` },
+    { key: 'removed', label: `削除（${counts.removed}）` },
+    { key: 'modified', label: `変更（${counts.modified}）` },
+    { key: 'dates', label: `日付の変更（${counts.dates}）` },
+    { key: 'status', label: `ステータスの変更（${counts.status}）` },
+  ];
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-slate-500">{fromLabel} → {toLabel}</p>
+      <div className="flex flex-wrap gap-2">
+        {filters.map(({ key, label }) => (
+          <button
+            key={key}
+            onClick={() => setFilter(key)}
+            className={`px-2.5 py-1 rounded-full border text-xs ${filter === key ? 'bg-blue-600 border-blue-600 text-white' : 'bg-white border-slate-300 text-slate-700 hover:bg-slate-100'}`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {visibleEntries.length === 0 ? (
+        <p className="text-center text-sm text-slate-500 py-8">
+          {diff.entries.length === 0 ? '2つのバージョンに違いはありません（配置の変更を除く）。' : '該当する変更はありません。'}
+        </p>
+      ) : (
+        <ul className="space-y-2">
+          {visibleEntries.map(entry => (
+            <li key={`${entry.entityType}-${entry.id}`} className="border rounded-lg p-3">
+              <div className="flex flex-wrap items-center gap-2 text-sm">
+                <span className={`px-1.5 py-0.5 rounded text-xs font-medium ${KIND_STYLES[entry.kind]}`}>{KIND_LABELS[entry.kind]}</span>
+                <span className="px-1.5 py-0.5 rounded bg-slate-100 text-xs text-slate-700">{ENTITY_LABELS[entry.entityType]}</span>
+                <span className={`font-semibold text-slate-800 break-all ${entry.kind === 'removed' ? 'line-through' : ''}`}>{entry.name || '（名称なし）'}</span>
+              </div>
+              {entry.parentNames.length > 0 && (
+                <p className="text-xs text-slate-500 mt-1 truncate">{entry.parentNames.join(' › ')}</p>
+              )}
+              {entry.changes.length > 0 && (
+                <table className="mt-2 w-full text-xs">
+                  <tbody>
+                    {entry.changes.map(change => (
+                      <tr key={change.field} className="border-t border-slate-100">
+                        <td className="py-1 pr-2 text-slate-500 whitespace-nowrap align-top w-32">{FIELD_LABELS[change.field] || change.field}</td>
+                        <td className="py-1 pr-2 text-slate-500 line-through break-all align-top">{formatValue(change.field, change.from)}</td>
+                        <td className="py-1 text-slate-800 break-all align-top">
+                          {formatValue(change.field, change.to)}
+                          {change.dateShiftDays !== undefined && (
+                            <span className={change.dateShiftDays > 0 ? 'text-red-600' : 'text-green-700'}>{formatShift(change.dateShiftDays)}</span>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ProjectDiffView;
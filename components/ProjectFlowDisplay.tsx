@@ -1,18 +1,28 @@
-import React, { useRef, useEffect, useState, createRef, useCallback } from 'react';
-import { ProjectTask, EditableExtendedTaskDetails, ProjectHealthReport, SlideDeck, TaskStatus, GanttItem, ProjectMember } from '../types';
+import React, { useRef, useEffect, useState, createRef, useCallback, useMemo } from 'react';
+import { ProjectTask, EditableExtendedTaskDetails, ProjectHealthReport, SlideDeck, TaskStatus, GanttItem, ProjectMember, GanttBaseline, ProjectVersionSummary, TaskBlueprint } from '../types';
 import TaskCard from './TaskCard';
-import { TargetIcon, CalendarIcon, DownloadIcon, PlusCircleIcon, UploadIcon, RefreshIcon, UndoIcon, RedoIcon, ClipboardDocumentListIcon, SparklesIcon, PresentationChartBarIcon, PlusIcon as NewProjectIcon, GanttChartIcon, FolderIcon, KeyIcon, UserIcon } from './icons';
+import { TargetIcon, CalendarIcon, DownloadIcon, PlusCircleIcon, UploadIcon, RefreshIcon, UndoIcon, RedoIcon, ClipboardDocumentListIcon, SparklesIcon, PresentationChartBarIcon, PlusIcon as NewProjectIcon, GanttChartIcon, FolderIcon, KeyIcon, UserIcon, ClockIcon, ArchiveBoxIcon } from './icons';
 import FlowConnector from './FlowConnector';
 import ActionItemOverviewModal from './ActionItemOverviewModal';
 import ProjectHealthReportModal from './ProjectHealthReportModal';
 import ProjectInviteModal from './ProjectInviteModal';
-import { generateProjectHealthReport, generateProjectReportDeck, generateGanttData } from '../services/geminiService';
+import { generateProjectHealthReport, generateProjectReportDeck, generateGanttData, GenerationProgress, isGenerationCancelled } from '../services/geminiService';
 import { ProjectService } from '../services/projectService';
+import { buildSchedule } from '../services/scheduler';
+import { applyGanttEdit, GanttEdit } from '../services/ganttEditing';
+import { PresenceUser, PresenceCursor, CanvasPoint, initialsOf } from '../services/presence';
+import { CommentBoard, countUnreadByTask } from '../services/comments';
 import LoadingSpinner from './LoadingSpinner';
 import SlideEditorView from './SlideEditorView';
 import ConfirmNewProjectModal from './ConfirmNewProjectModal';
 import GanttChartView from './GanttChartView';
 import DocumentCenterModal from './DocumentCenterModal';
+import GenerationProgressIndicator from './GenerationProgressIndicator';
+import ActivityLogModal from './ActivityLogModal';
+import { VersionComparison } from '../services/projectDiff';
+import ProjectDiffView from './ProjectDiffView';
+import SaveTemplateModal from './SaveTemplateModal';
+import BlueprintLibraryModal from './BlueprintLibraryModal';
 
 interface ProjectFlowDisplayProps {
   tasks: ProjectTask[];
@@ -24,6 +34,10 @@ interface ProjectFlowDisplayProps {
   onUpdateTaskStatus: (taskId: string, status: TaskStatus) => void;
   onStartNewProject: () => void;
   onExportProject: () => void;
+  onExportMsProject?: () => void;
+  onExportExcel?: () => void;
+  onExportBundle?: () => Promise<void>;
+  onOpenCalendarExport?: () => void;
   onAddTask: () => void; 
   onRemoveTask: (taskId: string) => void;
   onImportSingleTask: (file: File) => void;
@@ -36,6 +50,7 @@ interface ProjectFlowDisplayProps {
   onUpdateTaskConnections: (sourceTaskId: string, nextTaskIds: string[]) => void;
   ganttData: GanttItem[] | null;
   setGanttData: (data: GanttItem[] | null) => void;
+  onApplyGanttEdit: (tasks: ProjectTask[], ganttData: GanttItem[]) => void;
   onCustomReportGenerated: (deck: SlideDeck) => void;
   onClearApiKey: () => void;
   onOpenProjectList: () => void;
@@ -45,6 +60,19 @@ interface ProjectFlowDisplayProps {
   projectMembers?: ProjectMember[];
   userRole?: 'owner' | 'editor' | 'viewer';
   onMembersUpdate?: () => void;
+  presenceUsers?: PresenceUser[]; // Other users who have this project open
+  commentBoard?: CommentBoard | null; // Comments of cloud projects
+  remoteCursors?: PresenceCursor[];
+  onCanvasPointerMove?: (point: CanvasPoint | null) => void;
+  onCanvasSelectionChange?: (taskId: string | null) => void;
+  onOpenVersionHistory?: () => void;
+  onInsertTaskBlueprint?: (blueprint: TaskBlueprint, anchorDate: string) => void;
+  currentUserId?: string | null;
+  archivedAt?: string | null; // Archived projects are read-only
+  previewVersion?: ProjectVersionSummary | null; // Past version shown read-only instead of the current state
+  previewComparison?: VersionComparison | null; // Highlights what changed since an earlier version
+  onRestorePreview?: () => void;
+  onExitPreview?: () => void;
 }
 
 interface ConnectorInfo {
@@ -55,16 +83,35 @@ interface ConnectorInfo {
   targetId: string;
 }
 
+const NO_PRESENCE_USERS: PresenceUser[] = [];
+
 const ProjectFlowDisplay: React.FC<ProjectFlowDisplayProps> = ({ 
   tasks, projectGoal, targetDate, onSelectTask, onUpdateTaskExtendedDetails, onUpdateTaskPosition, 
   onUpdateTaskStatus, onStartNewProject, onExportProject, onAddTask, onRemoveTask, onImportSingleTask, 
   onAutoLayout, onUndo, canUndo, onRedo, canRedo,
   generateUniqueId, onUpdateTaskConnections,
-  ganttData, setGanttData, onCustomReportGenerated, onClearApiKey,
+  ganttData, setGanttData, onApplyGanttEdit, onCustomReportGenerated, onClearApiKey,
   onOpenProjectList, onLogout, currentProjectId, onSaveProject,
   projectMembers = [],
   userRole = 'viewer',
   onMembersUpdate = () => {},
+  presenceUsers = NO_PRESENCE_USERS,
+  commentBoard,
+  remoteCursors,
+  onCanvasPointerMove,
+  onCanvasSelectionChange,
+  onOpenVersionHistory,
+  onExportMsProject,
+  onExportExcel,
+  onExportBundle,
+  onOpenCalendarExport,
+  onInsertTaskBlueprint,
+  currentUserId,
+  archivedAt,
+  previewVersion,
+  previewComparison,
+  onRestorePreview,
+  onExitPreview,
 }) => {
   const singleTaskFileInputRef = useRef<HTMLInputElement>(null);
   const flowContainerRef = useRef<HTMLDivElement>(null);
@@ -84,19 +131,50 @@ const ProjectFlowDisplay: React.FC<ProjectFlowDisplayProps> = ({
   const [projectReportDeck, setProjectReportDeck] = useState<SlideDeck | null>(null);
   const [isGeneratingProjectReport, setIsGeneratingProjectReport] = useState(false);
   const [projectReportError, setProjectReportError] = useState<string | null>(null);
+  const [projectReportProgress, setProjectReportProgress] = useState<GenerationProgress | null>(null);
+  const projectReportAbortRef = useRef<AbortController | null>(null);
   
   const [isGanttOpen, setIsGanttOpen] = useState(false);
   const [isGeneratingGantt, setIsGeneratingGantt] = useState(false);
   const [ganttError, setGanttError] = useState<string | null>(null);
+  const [ganttProgress, setGanttProgress] = useState<GenerationProgress | null>(null);
+  const ganttAbortRef = useRef<AbortController | null>(null);
+  const [scheduleWarnings, setScheduleWarnings] = useState<string[]>([]);
+  const [baselines, setBaselines] = useState<GanttBaseline[]>([]);
 
   const [isConfirmNewProjectOpen, setIsConfirmNewProjectOpen] = useState(false);
   const [isDocumentCenterOpen, setIsDocumentCenterOpen] = useState(false);
   const [isInviteModalOpen, setIsInviteModalOpen] = useState(false);
+  const [isActivityLogOpen, setIsActivityLogOpen] = useState(false);
+  const [isDiffListOpen, setIsDiffListOpen] = useState(true);
+  const [isSaveTemplateOpen, setIsSaveTemplateOpen] = useState(false);
+  const [isBlueprintLibraryOpen, setIsBlueprintLibraryOpen] = useState(false);
 
   const [connectingState, setConnectingState] = useState<{ fromId: string; fromPos: { x: number; y: number } } | null>(null);
   const [mousePos, setMousePos] = useState({ x: 0, y: 0 });
 
   const [isSaving, setIsSaving] = useState(false);
+  const [isExportingBundle, setIsExportingBundle] = useState(false);
+
+  // Collaborators who selected or opened each task, for the badges on the cards
+  const remoteUsersByTask = useMemo(() => {
+    const byTask = new Map<string, PresenceUser[]>();
+    presenceUsers.forEach(user => {
+      const taskIds = new Set([user.selectedTaskId, user.editingTaskId].filter((id): id is string => !!id));
+      taskIds.forEach(taskId => byTask.set(taskId, [...(byTask.get(taskId) || []), user]));
+    });
+    return byTask;
+  }, [presenceUsers]);
+
+  const unreadCommentsByTask = useMemo(() => (
+    commentBoard ? countUnreadByTask(commentBoard.comments, commentBoard.reads, commentBoard.currentUserId) : {}
+  ), [commentBoard]);
+
+  // 画面を離れたら実行中のAI生成を中断する
+  useEffect(() => () => {
+    projectReportAbortRef.current?.abort();
+    ganttAbortRef.current?.abort();
+  }, []);
 
   useEffect(() => {
     const newRefs = new Map<string, React.RefObject<HTMLDivElement>>();
@@ -180,6 +258,10 @@ const ProjectFlowDisplay: React.FC<ProjectFlowDisplayProps> = ({
   }, [calculateConnectors]);
 
   const handleDragCardStart = (event: React.DragEvent<HTMLDivElement>, taskId: string) => {
+    if (previewVersion || archivedAt) {
+      event.preventDefault();
+      return;
+    }
     draggedTaskIdRef.current = taskId;
     const task = tasks.find(t => t.id === taskId);
     if (flowContainerRef.current) {
@@ -238,46 +320,92 @@ const ProjectFlowDisplay: React.FC<ProjectFlowDisplayProps> = ({
       setIsProjectReportEditorOpen(true);
       return;
     }
+    const controller = new AbortController();
+    projectReportAbortRef.current = controller;
     setIsGeneratingProjectReport(true);
     setProjectReportError(null);
+    setProjectReportProgress(null);
     try {
-      const deck = await generateProjectReportDeck(tasks, projectGoal, targetDate);
+      const deck = await generateProjectReportDeck(tasks, projectGoal, targetDate, { signal: controller.signal, onProgress: setProjectReportProgress });
       setProjectReportDeck(deck);
       setIsProjectReportEditorOpen(true);
     } catch (err) {
-      setProjectReportError(err instanceof Error ? err.message : "プロジェクトレポートの生成に失敗しました。");
+      if (!isGenerationCancelled(err)) {
+        setProjectReportError(err instanceof Error ? err.message : "プロジェクトレポートの生成に失敗しました。");
+      }
     } finally {
+      projectReportAbortRef.current = null;
       setIsGeneratingProjectReport(false);
     }
   };
 
-  const handleOpenGantt = async () => {
+  const handleOpenGantt = () => {
     if (ganttData) {
       setIsGanttOpen(true);
       return;
     }
-    setIsGeneratingGantt(true);
+    // 初回はAIを使わず、依存関係と期日からローカルで計算する
+    handleRescheduleGantt();
+    setIsGanttOpen(true);
+  };
+
+  const handleRescheduleGantt = () => {
+    const schedule = buildSchedule(tasks, { targetDate });
+    setGanttData(schedule.items);
+    setScheduleWarnings(schedule.warnings);
     setGanttError(null);
+  };
+
+  // ガントチャートを開いたときに保存済みのベースラインを読み込む
+  useEffect(() => {
+    if (!isGanttOpen || !currentProjectId) {
+      setBaselines([]);
+      return;
+    }
+    let cancelled = false;
+    ProjectService.getBaselines(currentProjectId)
+      .then(result => { if (!cancelled) setBaselines(result); })
+      .catch(err => console.error('Failed to load baselines:', err));
+    return () => { cancelled = true; };
+  }, [isGanttOpen, currentProjectId]);
+
+  const handleCreateBaseline = async (name: string) => {
+    if (!currentProjectId || !ganttData) return;
+    const baseline = await ProjectService.createBaseline(currentProjectId, name, ganttData);
+    setBaselines(prev => [baseline, ...prev]);
+  };
+
+  const handleDeleteBaseline = async (baselineId: string) => {
+    await ProjectService.deleteBaseline(baselineId);
+    setBaselines(prev => prev.filter(b => b.id !== baselineId));
+  };
+
+  const handleGanttEdit = (edit: GanttEdit) => {
+    if (!ganttData) return;
     try {
-      const data = await generateGanttData(tasks, projectGoal, targetDate);
-      setGanttData(data);
-      setIsGanttOpen(true);
+      const result = applyGanttEdit(ganttData, tasks, edit);
+      onApplyGanttEdit(result.tasks, result.items);
     } catch (err) {
-      setGanttError(err instanceof Error ? err.message : "ガントチャートのデータ生成に失敗しました。");
-    } finally {
-      setIsGeneratingGantt(false);
+      alert(err instanceof Error ? err.message : 'ガントチャートの編集に失敗しました。');
     }
   };
 
   const handleRegenerateGantt = async () => {
+    const controller = new AbortController();
+    ganttAbortRef.current = controller;
     setIsGeneratingGantt(true);
     setGanttError(null);
+    setGanttProgress(null);
     try {
-      const data = await generateGanttData(tasks, projectGoal, targetDate);
+      const data = await generateGanttData(tasks, projectGoal, targetDate, { signal: controller.signal, onProgress: setGanttProgress });
       setGanttData(data);
+      setScheduleWarnings([]);
     } catch (err) {
-      setGanttError(err instanceof Error ? err.message : "ガントチャートのデータ再生成に失敗しました。");
+      if (!isGenerationCancelled(err)) {
+        setGanttError(err instanceof Error ? err.message : "ガントチャートのデータ再生成に失敗しました。");
+      }
     } finally {
+      ganttAbortRef.current = null;
       setIsGeneratingGantt(false);
     }
   };
@@ -314,7 +442,7 @@ const ProjectFlowDisplay: React.FC<ProjectFlowDisplayProps> = ({
   };
 
   const handleStartConnection = (taskId: string, event: React.MouseEvent<HTMLDivElement>) => {
-      if (!flowContainerRef.current) return;
+      if (!flowContainerRef.current || previewVersion || archivedAt) return;
       const containerRect = flowContainerRef.current.getBoundingClientRect();
       const fromPos = {
           x: event.clientX - containerRect.left + flowContainerRef.current.scrollLeft,
@@ -345,12 +473,19 @@ const ProjectFlowDisplay: React.FC<ProjectFlowDisplayProps> = ({
   };
 
   const handleMouseMove = (event: React.MouseEvent<HTMLDivElement>) => {
-    if (!connectingState || !flowContainerRef.current) return;
+    if (!flowContainerRef.current) return;
     const containerRect = flowContainerRef.current.getBoundingClientRect();
-    setMousePos({
+    const point = {
       x: event.clientX - containerRect.left + flowContainerRef.current.scrollLeft,
       y: event.clientY - containerRect.top + flowContainerRef.current.scrollTop,
-    });
+    };
+    onCanvasPointerMove?.(point);
+    if (connectingState) setMousePos(point);
+  };
+
+  const handleCanvasMouseDown = (event: React.MouseEvent<HTMLDivElement>) => {
+    const card = (event.target as HTMLElement).closest('.task-card-in-flow');
+    onCanvasSelectionChange?.(card ? card.id.replace('taskcard-', '') : null);
   };
 
   const handleMouseUp = () => {
@@ -377,8 +512,8 @@ const ProjectFlowDisplay: React.FC<ProjectFlowDisplayProps> = ({
 
   const formattedDate = targetDate ? new Date(targetDate + 'T00:00:00Z').toLocaleDateString('ja-JP', { year: 'numeric', month: 'long', day: 'numeric' }) : '未設定';
 
-  const canEdit = userRole === 'owner' || userRole === 'editor';
-  const canManageMembers = userRole === 'owner' || userRole === 'editor';
+  const canEdit = !previewVersion && !archivedAt && (userRole === 'owner' || userRole === 'editor');
+  const canManageMembers = !previewVersion && (userRole === 'owner' || userRole === 'editor');
 
   if (isProjectReportEditorOpen && projectReportDeck) {
      return <SlideEditorView 
@@ -390,6 +525,7 @@ const ProjectFlowDisplay: React.FC<ProjectFlowDisplayProps> = ({
         targetDate={targetDate}
         reportScope="project"
         generateUniqueId={generateUniqueId}
+        commentBoard={commentBoard}
      />
   }
 
@@ -397,6 +533,44 @@ const ProjectFlowDisplay: React.FC<ProjectFlowDisplayProps> = ({
     <>
     <div className="min-h-screen bg-slate-100 p-4 md:p-6 flex flex-col overflow-hidden">
       <div className="max-w-full mx-auto w-full">
+        {archivedAt && !previewVersion && (
+          <div className="flex items-center gap-3 mb-4 px-4 py-3 rounded-lg bg-amber-50 border border-amber-200 text-sm text-amber-900">
+            <ArchiveBoxIcon className="w-5 h-5 flex-shrink-0" />
+            このプロジェクトは{new Date(archivedAt).toLocaleDateString('ja-JP')}にアーカイブされたため、読み取り専用です。編集するにはプロジェクト一覧でアーカイブを解除してください。
+          </div>
+        )}
+        {previewVersion && (
+          <div className="flex flex-wrap items-center gap-3 mb-4 px-4 py-3 rounded-lg bg-indigo-50 border border-indigo-200 text-sm text-indigo-900">
+            <ClockIcon className="w-5 h-5 flex-shrink-0" />
+            <span className="flex-grow">
+              {previewComparison
+                ? `バージョン ${previewComparison.fromVersion} からバージョン ${previewVersion.version} への変更を表示しています。`
+                : `バージョン ${previewVersion.version}（${new Date(previewVersion.createdAt).toLocaleString('ja-JP')}）を表示しています。`}
+              読み取り専用のため編集できません。
+              {previewComparison && (
+                <span className="inline-flex items-center gap-3 ml-3 text-xs">
+                  <span className="inline-flex items-center gap-1"><span className="w-2.5 h-2.5 rounded-full bg-green-600" />追加</span>
+                  <span className="inline-flex items-center gap-1"><span className="w-2.5 h-2.5 rounded-full bg-blue-600" />変更</span>
+                  <span className="inline-flex items-center gap-1"><span className="w-2.5 h-2.5 rounded-full bg-red-600" />削除</span>
+                  <span>（{previewComparison.diff.entries.length}件の変更）</span>
+                </span>
+              )}
+            </span>
+            {previewComparison && (
+              <button onClick={() => setIsDiffListOpen(prev => !prev)} className="px-3 py-1.5 rounded-md bg-white border border-indigo-300 text-indigo-800 font-medium hover:bg-indigo-100">
+                {isDiffListOpen ? '変更一覧を閉じる' : '変更一覧'}
+              </button>
+            )}
+            {onRestorePreview && (
+              <button onClick={onRestorePreview} className="px-3 py-1.5 rounded-md bg-amber-600 text-white font-medium hover:bg-amber-700">
+                このバージョンに戻す
+              </button>
+            )}
+            <button onClick={onExitPreview} className="px-3 py-1.5 rounded-md bg-white border border-indigo-300 text-indigo-800 font-medium hover:bg-indigo-100">
+              現在の状態に戻る
+            </button>
+          </div>
+        )}
         <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
            <button
             onClick={() => setIsConfirmNewProjectOpen(true)}
@@ -415,7 +589,7 @@ const ProjectFlowDisplay: React.FC<ProjectFlowDisplayProps> = ({
             </button>
             <button
               onClick={handleSaveProject}
-              disabled={isSaving}
+              disabled={isSaving || !!previewVersion}
               className="inline-flex items-center px-3 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-green-600 hover:bg-green-700 disabled:bg-slate-400"
               title="プロジェクトを保存"
             >
@@ -448,10 +622,68 @@ const ProjectFlowDisplay: React.FC<ProjectFlowDisplayProps> = ({
               className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-green-600 hover:bg-green-700"
               title={!canEdit ? "編集権限が必要です" : ""}
             ><PlusCircleIcon className="w-5 h-5 mr-2" />タスク追加</button>
+            {onInsertTaskBlueprint && (
+              <button
+                onClick={() => setIsBlueprintLibraryOpen(true)}
+                disabled={!canEdit}
+                className="inline-flex items-center px-4 py-2 border border-slate-300 text-sm font-medium rounded-md shadow-sm text-slate-700 bg-white hover:bg-slate-50"
+                title={!canEdit ? "編集権限が必要です" : "保存済みのタスクを挿入"}
+              ><ClipboardDocumentListIcon className="w-5 h-5 mr-2" />ブループリントから追加</button>
+            )}
+            <button
+              onClick={() => singleTaskFileInputRef.current?.click()}
+              disabled={!canEdit}
+              className="inline-flex items-center px-4 py-2 border border-slate-300 text-sm font-medium rounded-md shadow-sm text-slate-700 bg-white hover:bg-slate-50"
+              title={!canEdit ? "編集権限が必要です" : "書き出したタスクやプロジェクトのファイル（.json）からタスクを追加"}
+            ><UploadIcon className="w-5 h-5 mr-2" />ファイルから追加</button>
+            <input
+              type="file"
+              ref={singleTaskFileInputRef}
+              accept=".json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) onImportSingleTask(file);
+                e.target.value = '';
+              }}
+            />
             <button
               onClick={onExportProject}
               className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700"
             ><DownloadIcon className="w-5 h-5 mr-2" />JSONエクスポート</button>
+            {onExportMsProject && (
+              <button
+                onClick={onExportMsProject}
+                className="inline-flex items-center px-4 py-2 border border-slate-300 text-sm font-medium rounded-md shadow-sm text-slate-700 bg-white hover:bg-slate-50"
+                title="Microsoft Project で開けるXML（MSPDI）形式で保存"
+              ><DownloadIcon className="w-5 h-5 mr-2" />MS Project XML</button>
+            )}
+            {onExportExcel && (
+              <button
+                onClick={onExportExcel}
+                className="inline-flex items-center px-4 py-2 border border-slate-300 text-sm font-medium rounded-md shadow-sm text-slate-700 bg-white hover:bg-slate-50"
+                title="WBS・タスク・アクションアイテム・決定事項・数値目標・ガントをExcelブックで保存"
+              ><DownloadIcon className="w-5 h-5 mr-2" />Excel</button>
+            )}
+            {onExportBundle && (
+              <button
+                onClick={async () => {
+                  setIsExportingBundle(true);
+                  await onExportBundle();
+                  setIsExportingBundle(false);
+                }}
+                disabled={isExportingBundle}
+                className="inline-flex items-center px-4 py-2 border border-slate-300 text-sm font-medium rounded-md shadow-sm text-slate-700 bg-white hover:bg-slate-50 disabled:opacity-60"
+                title="プロジェクトデータ・添付ファイル・レポート・ガントチャートと目次（index.html）をZIPファイルにまとめて保存"
+              >{isExportingBundle ? <span className="mr-2"><LoadingSpinner size="sm" /></span> : <DownloadIcon className="w-5 h-5 mr-2" />}ZIP</button>
+            )}
+            {onOpenCalendarExport && (
+              <button
+                onClick={onOpenCalendarExport}
+                className="inline-flex items-center px-4 py-2 border border-slate-300 text-sm font-medium rounded-md shadow-sm text-slate-700 bg-white hover:bg-slate-50"
+                title="期限を .ics ファイルや購読URLでカレンダーに追加"
+              ><CalendarIcon className="w-5 h-5 mr-2" />カレンダー</button>
+            )}
             <button
               onClick={onAutoLayout}
               disabled={!canEdit}
@@ -469,6 +701,23 @@ const ProjectFlowDisplay: React.FC<ProjectFlowDisplayProps> = ({
                   <p className="flex items-start"><TargetIcon className="w-5 h-5 mr-2 text-blue-600 flex-shrink-0 mt-1" /><strong>目的:</strong>&nbsp;<span className="break-all">{projectGoal}</span></p>
                   <p className="flex items-center"><CalendarIcon className="w-5 h-5 mr-2 text-blue-600 flex-shrink-0" /><strong>目標日:</strong>&nbsp;{formattedDate}</p>
                   {currentProjectId && <p className="text-sm text-green-600">✓ Supabaseに保存済み</p>}
+                  {presenceUsers.length > 0 && (
+                    <div className="flex items-center text-sm text-slate-600 mt-2">
+                      <span className="mr-2">閲覧中:</span>
+                      <div className="flex -space-x-2">
+                        {presenceUsers.map(user => (
+                          <span
+                            key={user.userId}
+                            title={user.editingTaskId ? `${user.name}（${tasks.find(t => t.id === user.editingTaskId)?.title || 'タスク'}を編集中）` : user.name}
+                            className="w-7 h-7 rounded-full border-2 border-white flex items-center justify-center text-[10px] font-bold text-white"
+                            style={{ backgroundColor: user.color }}
+                          >
+                            {initialsOf(user.name)}
+                          </span>
+                        ))}
+                      </div>
+                    </div>
+                  )}
                   {projectMembers.length > 1 && (
                     <div className="flex items-center text-sm text-slate-600 mt-2">
                       <UserIcon className="w-4 h-4 mr-1" />
@@ -489,6 +738,33 @@ const ProjectFlowDisplay: React.FC<ProjectFlowDisplayProps> = ({
                       メンバー管理
                    </button>
                  )}
+                 {currentProjectId && (
+                   <button
+                      onClick={() => setIsActivityLogOpen(true)}
+                      className="inline-flex items-center justify-center px-4 py-2 border border-slate-300 text-sm font-medium rounded-md shadow-sm text-slate-700 bg-white hover:bg-slate-50"
+                    >
+                      <ClockIcon className="w-5 h-5 mr-2" />
+                      変更履歴
+                   </button>
+                 )}
+                 {currentProjectId && onOpenVersionHistory && !previewVersion && (
+                   <button
+                      onClick={onOpenVersionHistory}
+                      className="inline-flex items-center justify-center px-4 py-2 border border-slate-300 text-sm font-medium rounded-md shadow-sm text-slate-700 bg-white hover:bg-slate-50"
+                    >
+                      <ClockIcon className="w-5 h-5 mr-2" />
+                      バージョン履歴
+                   </button>
+                 )}
+                 {!previewVersion && (
+                   <button
+                      onClick={() => setIsSaveTemplateOpen(true)}
+                      className="inline-flex items-center justify-center px-4 py-2 border border-slate-300 text-sm font-medium rounded-md shadow-sm text-slate-700 bg-white hover:bg-slate-50"
+                    >
+                      <PlusCircleIcon className="w-5 h-5 mr-2" />
+                      テンプレートとして保存
+                   </button>
+                 )}
                  <button
                     onClick={() => setIsActionItemOverviewOpen(true)}
                     className="inline-flex items-center justify-center px-4 py-2 border border-slate-300 text-sm font-medium rounded-md shadow-sm text-slate-700 bg-white hover:bg-slate-50"
@@ -544,6 +820,8 @@ const ProjectFlowDisplay: React.FC<ProjectFlowDisplayProps> = ({
         onDrop={handleDrop}
         onMouseMove={handleMouseMove}
         onMouseUp={handleMouseUp}
+        onMouseDownCapture={handleCanvasMouseDown}
+        onMouseLeave={() => onCanvasPointerMove?.(null)}
       >
         <div className="relative w-full h-full min-w-[1200px] min-h-[800px]">
             {tasks.map((task, index) => (
@@ -559,14 +837,35 @@ const ProjectFlowDisplay: React.FC<ProjectFlowDisplayProps> = ({
                 onEndConnection={handleEndConnection}
                 index={index}
                 canEdit={canEdit}
+                remoteUsers={remoteUsersByTask.get(task.id)}
+                unreadComments={unreadCommentsByTask[task.id]}
+                diffState={previewComparison?.diff.taskStates[task.id]}
               />
             ))}
             {connectors.map(conn => (
-              <FlowConnector key={conn.id} from={conn.from} to={conn.to} id={conn.id} onDelete={() => handleDeleteConnection(conn.sourceId, conn.targetId)}/>
+              <FlowConnector key={conn.id} from={conn.from} to={conn.to} id={conn.id} onDelete={previewVersion || archivedAt ? undefined : () => handleDeleteConnection(conn.sourceId, conn.targetId)}/>
             ))}
             {connectingState && (
                 <FlowConnector from={connectingState.fromPos} to={mousePos} id="preview-connector" />
             )}
+            {(remoteCursors || []).map((cursor: PresenceCursor) => {
+              const owner = presenceUsers.find(user => user.userId === cursor.userId);
+              if (!owner) return null;
+              return (
+                <div
+                  key={cursor.userId}
+                  className="absolute pointer-events-none z-30"
+                  style={{ left: cursor.x, top: cursor.y, transition: 'left 80ms linear, top 80ms linear' }}
+                >
+                  <svg width="18" height="18" viewBox="0 0 18 18" className="drop-shadow">
+                    <path d="M1 1 L1 15 L5 11 L8 17 L10.5 16 L7.5 10 L13 10 Z" fill={owner.color} stroke="white" strokeWidth="1" />
+                  </svg>
+                  <span className="ml-3 px-1.5 py-0.5 rounded text-[10px] font-medium text-white whitespace-nowrap" style={{ backgroundColor: owner.color }}>
+                    {owner.name}
+                  </span>
+                </div>
+              );
+            })}
         </div>
         {tasks.length === 0 && (
           <div className="text-center py-10 flex-grow flex items-center justify-center">
@@ -582,6 +881,28 @@ const ProjectFlowDisplay: React.FC<ProjectFlowDisplayProps> = ({
         onItemClick={handleGanttItemClick} 
         onRegenerate={handleRegenerateGantt}
         isRegenerating={isGeneratingGantt}
+        onReschedule={handleRescheduleGantt}
+        onEdit={!currentProjectId || canEdit ? handleGanttEdit : undefined}
+        baselines={baselines}
+        onCreateBaseline={canEdit ? handleCreateBaseline : undefined}
+        onDeleteBaseline={canEdit ? handleDeleteBaseline : undefined}
+        baselineUnavailableReason={currentProjectId ? undefined : 'ベースラインを使うには、プロジェクトをクラウドに保存してください。'}
+        targetDate={targetDate}
+        scheduleWarnings={scheduleWarnings}
+      />
+    }
+    {isGeneratingProjectReport &&
+      <GenerationProgressIndicator
+        label="プロジェクトレポートを作成中"
+        progress={projectReportProgress}
+        onCancel={() => projectReportAbortRef.current?.abort()}
+      />
+    }
+    {isGeneratingGantt &&
+      <GenerationProgressIndicator
+        label="ガントチャートを生成中"
+        progress={ganttProgress}
+        onCancel={() => ganttAbortRef.current?.abort()}
       />
     }
     {isDocumentCenterOpen && 
@@ -594,6 +915,8 @@ const ProjectFlowDisplay: React.FC<ProjectFlowDisplayProps> = ({
         onClose={() => setIsDocumentCenterOpen(false)}
         onReportGenerated={handleCustomReport}
         generateUniqueId={generateUniqueId}
+        projectId={currentProjectId}
+        canEdit={canEdit}
       />
     }
     {isActionItemOverviewOpen && <ActionItemOverviewModal tasks={tasks} onClose={() => setIsActionItemOverviewOpen(false)} />}
@@ -619,6 +942,44 @@ const ProjectFlowDisplay: React.FC<ProjectFlowDisplayProps> = ({
             onMembersUpdate={onMembersUpdate}
         />
     )}
+    {previewVersion && previewComparison && isDiffListOpen && (
+        <div className="fixed top-24 right-4 z-40 w-96 max-w-[calc(100vw-2rem)] max-h-[75vh] overflow-y-auto bg-white rounded-xl shadow-2xl border border-slate-200 p-4">
+            <div className="flex items-center justify-between mb-2">
+                <h4 className="font-bold text-slate-800">変更一覧</h4>
+                <button onClick={() => setIsDiffListOpen(false)} className="text-sm text-slate-500 hover:text-slate-700">閉じる</button>
+            </div>
+            <ProjectDiffView
+                diff={previewComparison.diff}
+                fromLabel={`バージョン ${previewComparison.fromVersion}`}
+                toLabel={`バージョン ${previewVersion.version}`}
+            />
+        </div>
+    )}
+    {isBlueprintLibraryOpen && onInsertTaskBlueprint && (
+        <BlueprintLibraryModal
+            kind="task"
+            onClose={() => setIsBlueprintLibraryOpen(false)}
+            onInsert={onInsertTaskBlueprint}
+            defaultAnchorDate={targetDate}
+            currentUserId={currentUserId}
+        />
+    )}
+    {isSaveTemplateOpen && (
+        <SaveTemplateModal
+            isOpen={isSaveTemplateOpen}
+            onClose={() => setIsSaveTemplateOpen(false)}
+            projectGoal={projectGoal}
+            targetDate={targetDate}
+            tasks={tasks}
+        />
+    )}
+    {isActivityLogOpen && currentProjectId && (
+        <ActivityLogModal
+            isOpen={isActivityLogOpen}
+            onClose={() => setIsActivityLogOpen(false)}
+            projectId={currentProjectId}
+        />
+    )}
     </>
   );
 };
@@ -1,12 +1,15 @@
 import React, { useState, useRef } from 'react';
 import LoadingSpinner from './LoadingSpinner';
-import { TargetIcon, CalendarIcon, UploadIcon, FolderIcon, KeyIcon } from './icons';
+import { TargetIcon, CalendarIcon, UploadIcon, FolderIcon, KeyIcon, TrashIcon } from './icons';
+import { ProjectTemplate } from '../types';
+import { ProjectService } from '../services/projectService';
+import { BUILT_IN_TEMPLATES } from '../services/projectTemplates';
 
 interface ProjectInputFormProps {
   onSubmit: (goal: string, date: string) => void;
   isLoading: boolean;
   onImportProject: (file: File) => void;
-  onLoadTemplate: (templateName: 'process-design' | 'process-change' | 'new-product-eval' | 'improvement-project' | 'equipment-modification', goal: string, date: string) => void;
+  onLoadTemplate: (template: ProjectTemplate, values: Record<string, string>, goal: string, date: string) => void;
   initialGoal?: string;
   initialDate?: string;
   onOpenProjectList: () => void;
@@ -14,8 +17,6 @@ interface ProjectInputFormProps {
   user: any;
 }
 
-type TemplateName = 'process-design' | 'process-change' | 'new-product-eval' | 'improvement-project' | 'equipment-modification';
-
 const ProjectInputForm: React.FC<ProjectInputFormProps> = ({ 
   onSubmit, 
   isLoading, 
@@ -30,6 +31,11 @@ const ProjectInputForm: React.FC<ProjectInputFormProps> = ({
   const [goal, setGoal] = useState<string>(initialGoal);
   const [targetDate, setTargetDate] = useState<string>(initialDate);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const [userTemplates, setUserTemplates] = useState<ProjectTemplate[]>([]);
+  const [isLoadingTemplates, setIsLoadingTemplates] = useState(false);
+  const [templateError, setTemplateError] = useState<string | null>(null);
+  const [selectedTemplate, setSelectedTemplate] = useState<ProjectTemplate | null>(null);
+  const [variableValues, setVariableValues] = useState<Record<string, string>>({});
 
   React.useEffect(() => {
     setGoal(initialGoal);
@@ -39,6 +45,18 @@ const ProjectInputForm: React.FC<ProjectInputFormProps> = ({
     setTargetDate(initialDate);
   }, [initialDate]);
 
+  React.useEffect(() => {
+    if (!user) return;
+    setIsLoadingTemplates(true);
+    ProjectService.getProjectTemplates()
+      .then(templates => {
+        setUserTemplates(templates);
+        setTemplateError(null);
+      })
+      .catch(err => setTemplateError(err instanceof Error ? err.message : 'テンプレートの取得に失敗しました'))
+      .finally(() => setIsLoadingTemplates(false));
+  }, [user?.id]);
+
   const today = new Date().toISOString().split('T')[0];
 
   const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
@@ -62,25 +80,40 @@ const ProjectInputForm: React.FC<ProjectInputFormProps> = ({
     }
   };
 
-  const handleTemplateClick = (templateName: TemplateName) => {
-    if (!goal.trim() || !targetDate) {
-      alert('テンプレートから開始するには、まずプロジェクトの目的と目標の日付を入力してください。');
+  const handleTemplateClick = (template: ProjectTemplate) => {
+    if (!targetDate) {
+      alert('テンプレートから開始するには、まず目標の日付を入力してください。');
       return;
     }
-    onLoadTemplate(templateName, goal, targetDate);
+    if (template.variables.length > 0) {
+      setSelectedTemplate(template);
+      setVariableValues(Object.fromEntries(template.variables.map(variable => [variable.key, variable.defaultValue || ''])));
+      return;
+    }
+    onLoadTemplate(template, {}, goal, targetDate);
   };
 
-  const TemplateButton: React.FC<{template: TemplateName, title: string, description: string, disabled: boolean}> = ({template, title, description, disabled}) => (
-    <button
-      type="button"
-      onClick={() => handleTemplateClick(template)}
-      disabled={disabled}
-      className="text-left p-4 bg-purple-600 hover:bg-purple-700 disabled:bg-slate-400 text-white rounded-lg shadow-md hover:shadow-lg focus:outline-none focus:ring-2 focus:ring-purple-500 focus:ring-offset-2 transition duration-150 ease-in-out transform hover:scale-105"
-    >
-        <div className="font-semibold text-md">{title}</div>
-        <div className="text-xs text-purple-200 mt-1">{description}</div>
-    </button>
-  );
+  const handleStartSelectedTemplate = () => {
+    if (!selectedTemplate) return;
+    if (!targetDate) {
+      alert('テンプレートから開始するには、まず目標の日付を入力してください。');
+      return;
+    }
+    onLoadTemplate(selectedTemplate, variableValues, goal, targetDate);
+  };
+
+  const handleDeleteTemplate = async (template: ProjectTemplate) => {
+    if (!confirm(`テンプレート「${template.name}」を削除しますか？`)) return;
+    try {
+      await ProjectService.deleteProjectTemplate(template.id);
+      setUserTemplates(prev => prev.filter(t => t.id !== template.id));
+      if (selectedTemplate?.id === template.id) setSelectedTemplate(null);
+    } catch (err) {
+      setTemplateError(err instanceof Error ? err.message : 'テンプレートの削除に失敗しました');
+    }
+  };
+
+  const templates = [...userTemplates, ...BUILT_IN_TEMPLATES];
 
   return (
     <div className="min-h-screen flex flex-col items-center justify-center bg-gradient-to-br from-slate-900 to-slate-700 p-4">
@@ -164,51 +197,81 @@ const ProjectInputForm: React.FC<ProjectInputFormProps> = ({
               className="w-full bg-green-600 hover:bg-green-700 disabled:bg-slate-400 text-white font-semibold py-3 px-4 rounded-lg shadow-md hover:shadow-lg focus:outline-none focus:ring-2 focus:ring-green-500 focus:ring-offset-2 transition duration-150 ease-in-out transform hover:scale-105 flex items-center justify-center text-md"
             >
               <UploadIcon className="w-5 h-5 mr-2" />
-              計画をインポート (.json)
+              計画をインポート (.json / .zip / .xml / .xlsx)
             </button>
             <input
               type="file"
               ref={fileInputRef}
               onChange={handleFileChange}
-              accept=".json"
+              accept=".json,.zip,.xml,.xlsx,.xls,.csv"
               className="hidden"
               aria-hidden="true"
             />
           </div>
           <div className="sm:col-span-2 pt-4">
             <p className="text-center text-sm font-semibold text-slate-600 mb-3">または、テンプレートから開始:</p>
+            {templateError && <p className="text-center text-xs text-red-600 mb-2">{templateError}</p>}
+            {isLoadingTemplates && (
+              <div className="flex justify-center mb-2"><LoadingSpinner size="sm" /></div>
+            )}
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3">
-               <TemplateButton 
-                template="process-design"
-                disabled={isLoading}
-                title="工程設計 (APQP)"
-                description="新製品の工程をAPQPに基づき計画から量産まで設計します。"
-              />
-              <TemplateButton 
-                template="process-change"
-                disabled={isLoading}
-                title="工程変更 (ISO/IATF)"
-                description="既存工程の変更を影響分析、承認、検証を含めて管理します。"
-              />
-               <TemplateButton 
-                template="new-product-eval"
-                disabled={isLoading}
-                title="新製品の設備評価"
-                description="顧客要求に基づき、既存設備での実現可能性を評価・報告します。"
-              />
-              <TemplateButton 
-                template="improvement-project"
-                disabled={isLoading}
-                title="生産性・コスト改善"
-                description="DMAICフレームワークに基づき、既存プロセスの問題を解決し、改善します。"
-              />
-              <TemplateButton 
-                template="equipment-modification"
-                disabled={isLoading}
-                title="社内設備改造"
-                description="社内設備・治具の改造・改善を計画・実行・評価します。"
-              />
+              {templates.map((template: ProjectTemplate) => (
+                <div key={template.id} className="relative">
+                  <button
+                    type="button"
+                    onClick={() => handleTemplateClick(template)}
+                    disabled={isLoading}
+                    className={`w-full h-full text-left p-4 ${template.isBuiltIn ? 'bg-purple-600 hover:bg-purple-700' : 'bg-indigo-600 hover:bg-indigo-700'} disabled:bg-slate-400 text-white rounded-lg shadow-md hover:shadow-lg focus:outline-none focus:ring-2 focus:ring-purple-500 focus:ring-offset-2 transition duration-150 ease-in-out transform hover:scale-105 ${selectedTemplate?.id === template.id ? 'ring-2 ring-offset-2 ring-indigo-400' : ''}`}
+                  >
+                    <div className="font-semibold text-md pr-5">{template.name}</div>
+                    {template.description && <div className="text-xs text-purple-200 mt-1">{template.description}</div>}
+                  </button>
+                  {!template.isBuiltIn && template.createdBy === user?.id && (
+                    <button
+                      type="button"
+                      onClick={() => handleDeleteTemplate(template)}
+                      className="absolute top-2 right-2 p-1 text-indigo-200 hover:text-white"
+                      title="テンプレートを削除"
+                    >
+                      <TrashIcon className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+              ))}
             </div>
+            {selectedTemplate && (
+              <div className="mt-4 p-4 border border-indigo-200 bg-indigo-50 rounded-lg space-y-3">
+                <p className="text-sm font-semibold text-indigo-900">「{selectedTemplate.name}」の変数を入力してください</p>
+                {selectedTemplate.variables.map(variable => (
+                  <div key={variable.key}>
+                    <label className="block text-xs font-medium text-slate-700 mb-1">{variable.label}</label>
+                    <input
+                      type="text"
+                      value={variableValues[variable.key] || ''}
+                      onChange={(e) => setVariableValues(prev => ({ ...prev, [variable.key]: e.target.value }))}
+                      className="w-full px-3 py-2 border border-slate-300 rounded-md text-sm"
+                    />
+                  </div>
+                ))}
+                <div className="flex justify-end gap-2">
+                  <button
+                    type="button"
+                    onClick={() => setSelectedTemplate(null)}
+                    className="px-3 py-1.5 text-sm text-slate-700 bg-white border border-slate-300 rounded-md hover:bg-slate-50"
+                  >
+                    キャンセル
+                  </button>
+                  <button
+                    type="button"
+                    onClick={handleStartSelectedTemplate}
+                    disabled={isLoading}
+                    className="px-3 py-1.5 text-sm text-white bg-indigo-600 rounded-md hover:bg-indigo-700 disabled:bg-slate-400"
+                  >
+                    このテンプレートで開始
+                  </button>
+                </div>
+              </div>
+            )}
           </div>
         </form>
       </div>
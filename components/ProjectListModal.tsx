@@ -1,6 +1,8 @@
-import React, { useState, useEffect } from 'react';
-import { ProjectService, ProjectData } from '../services/projectService';
-import { XIcon, PlusIcon, TrashIcon, CalendarIcon, TargetIcon, DownloadIcon } from './icons';
+import React, { useState, useEffect, useMemo } from 'react';
+import { ProjectService, ProjectData, TRASH_RETENTION_DAYS } from '../services/projectService';
+import { listOfflineProjects } from '../services/offlineStore';
+import { createProjectFile } from '../services/projectFile';
+import { XIcon, PlusIcon, TrashIcon, CalendarIcon, TargetIcon, DownloadIcon, ArchiveBoxIcon, UndoIcon } from './icons';
 import LoadingSpinner from './LoadingSpinner';
 import ErrorMessage from './ErrorMessage';
 
@@ -9,26 +11,54 @@ interface ProjectListModalProps {
   onClose: () => void;
   onSelectProject: (project: ProjectData) => void;
   onCreateNew: () => void;
+  onProjectRemoved?: (projectId: string) => void; // Called when a project is moved to the trash or purged
 }
 
+type ProjectFilter = 'active' | 'archived' | 'trash';
+
+const FILTER_LABELS: Record<string, string> = {
+  active: '進行中',
+  archived: 'アーカイブ',
+  trash: 'ゴミ箱',
+};
+
+const filterOf = (project: ProjectData): ProjectFilter =>
+  project.deletedAt ? 'trash' : project.archivedAt ? 'archived' : 'active';
+
+const daysUntilPurge = (deletedAt: string): number =>
+  Math.max(0, TRASH_RETENTION_DAYS - Math.floor((Date.now() - new Date(deletedAt).getTime()) / 86400000));
+
 const ProjectListModal: React.FC<ProjectListModalProps> = ({
   isOpen,
   onClose,
   onSelectProject,
   onCreateNew,
+  onProjectRemoved,
 }) => {
   const [projects, setProjects] = useState<ProjectData[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [isOffline, setIsOffline] = useState(false);
+  const [filter, setFilter] = useState<ProjectFilter>('active');
 
   const loadProjects = async () => {
     setIsLoading(true);
     setError(null);
     try {
+      // 保管期間を過ぎたゴミ箱のプロジェクトを片付けてから読み込む
+      await ProjectService.purgeExpiredProjects().catch(err => console.error(err));
       const projectList = await ProjectService.getProjects();
       setProjects(projectList);
+      setIsOffline(false);
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'プロジェクトの読み込みに失敗しました');
+      // オフライン時は、この端末に保存されているプロジェクトを表示する
+      const offlineProjects = await listOfflineProjects().catch(() => []);
+      if (offlineProjects.length > 0) {
+        setProjects(offlineProjects);
+        setIsOffline(true);
+      } else {
+        setError(err instanceof Error ? err.message : 'プロジェクトの読み込みに失敗しました');
+      }
     } finally {
       setIsLoading(false);
     }
@@ -40,27 +70,79 @@ const ProjectListModal: React.FC<ProjectListModalProps> = ({
     }
   }, [isOpen]);
 
-  const handleDeleteProject = async (projectId: string, e: React.MouseEvent) => {
-    e.stopPropagation();
-    if (!confirm('このプロジェクトを削除しますか？この操作は取り消せません。')) {
-      return;
-    }
+  const counts = useMemo(() => {
+    const result: Record<string, number> = { active: 0, archived: 0, trash: 0 };
+    projects.forEach(project => { result[filterOf(project)] += 1; });
+    return result;
+  }, [projects]);
 
+  const visibleProjects = useMemo(() => isOffline ? projects : projects.filter(project => filterOf(project) === filter), [projects, filter, isOffline]);
+
+  const runAction = async (action: () => Promise<void>, fallbackMessage: string) => {
     try {
-      await ProjectService.deleteProject(projectId);
+      await action();
       await loadProjects();
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'プロジェクトの削除に失敗しました');
+      setError(err instanceof Error ? err.message : fallbackMessage);
     }
   };
 
-  const downloadJson = (project: ProjectData) => {
-    const content = {
+  const handleDeleteProject = (projectId: string, e: React.MouseEvent) => {
+    e.stopPropagation();
+    if (!confirm(`このプロジェクトをゴミ箱に移動しますか？${TRASH_RETENTION_DAYS}日以内であればゴミ箱から元に戻せます。`)) {
+      return;
+    }
+    runAction(async () => {
+      await ProjectService.deleteProject(projectId);
+      onProjectRemoved?.(projectId);
+    }, 'プロジェクトの削除に失敗しました');
+  };
+
+  const handleArchiveProject = (project: ProjectData, e: React.MouseEvent) => {
+    e.stopPropagation();
+    const archive = !project.archivedAt;
+    runAction(() => ProjectService.setProjectArchived(project.id, archive), archive ? 'アーカイブに失敗しました' : 'アーカイブの解除に失敗しました');
+  };
+
+  const handleRestoreProject = (projectId: string, e: React.MouseEvent) => {
+    e.stopPropagation();
+    runAction(() => ProjectService.restoreProject(projectId), 'プロジェクトの復元に失敗しました');
+  };
+
+  const handlePurgeProject = (project: ProjectData, e: React.MouseEvent) => {
+    e.stopPropagation();
+    if (!confirm(`「${project.title}」を完全に削除しますか？タスク・履歴・添付ファイルもすべて削除され、この操作は取り消せません。`)) {
+      return;
+    }
+    runAction(async () => {
+      await ProjectService.purgeProject(project.id);
+      onProjectRemoved?.(project.id);
+    }, 'プロジェクトの完全削除に失敗しました');
+  };
+
+  const handleOpenProject = (project: ProjectData) => {
+    if (project.deletedAt) {
+      alert('ゴミ箱にあるプロジェクトは開けません。開くには先に元に戻してください。');
+      return;
+    }
+    onSelectProject(project);
+  };
+
+  const downloadJson = async (listedProject: ProjectData) => {
+    // The list does not include task trees, so fetch the full project first
+    let project: ProjectData;
+    try {
+      project = await ProjectService.getProject(listedProject.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'プロジェクトの読み込みに失敗しました');
+      return;
+    }
+    const content = createProjectFile({
       projectGoal: project.goal,
       targetDate: project.targetDate,
       tasks: project.tasks,
       ganttData: project.ganttData,
-    };
+    });
     const jsonString = JSON.stringify(content, null, 2);
     const blob = new Blob([jsonString], { type: 'application/json' });
     const url = URL.createObjectURL(blob);
@@ -99,11 +181,38 @@ const ProjectListModal: React.FC<ProjectListModalProps> = ({
 
         <div className="flex-grow p-6 overflow-y-auto">
           {error && <ErrorMessage message={error} />}
+          {isOffline && (
+            <p className="mb-4 p-3 rounded-md bg-amber-50 border border-amber-200 text-sm text-amber-800">
+              サーバーに接続できないため、この端末に保存されているプロジェクトだけを表示しています。オフラインでも開いて編集でき、変更は接続が戻ると同期されます。
+            </p>
+          )}
+          {!isOffline && (
+            <div className="flex items-center gap-1 mb-4 border-b border-slate-200">
+              {(Object.keys(FILTER_LABELS) as ProjectFilter[]).map(key => (
+                <button
+                  key={key}
+                  onClick={() => setFilter(key)}
+                  className={`px-4 py-2 -mb-px border-b-2 text-sm ${filter === key ? 'border-blue-600 text-blue-700 font-semibold' : 'border-transparent text-slate-600 hover:text-slate-800'}`}
+                >
+                  {FILTER_LABELS[key]}（{counts[key]}）
+                </button>
+              ))}
+            </div>
+          )}
+          {!isOffline && filter === 'trash' && visibleProjects.length > 0 && (
+            <p className="mb-4 text-sm text-slate-500">
+              ゴミ箱のプロジェクトは{TRASH_RETENTION_DAYS}日後に完全に削除されます。元に戻す・完全に削除する操作はオーナーのみ行えます。
+            </p>
+          )}
           
           {isLoading ? (
             <div className="flex items-center justify-center py-12">
               <LoadingSpinner size="lg" text="プロジェクトを読み込み中..." />
             </div>
+          ) : projects.length > 0 && visibleProjects.length === 0 ? (
+            <p className="text-center text-slate-500 py-12">
+              {filter === 'archived' ? 'アーカイブしたプロジェクトはありません' : filter === 'trash' ? 'ゴミ箱は空です' : '進行中のプロジェクトはありません'}
+            </p>
           ) : projects.length === 0 ? (
             <div className="text-center py-12">
               <p className="text-slate-500 text-lg mb-4">プロジェクトがありません</p>
@@ -117,34 +226,67 @@ const ProjectListModal: React.FC<ProjectListModalProps> = ({
             </div>
           ) : (
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-              {projects.map((project) => (
+              {visibleProjects.map((project) => (
                 <div
                   key={project.id}
-                  onClick={() => onSelectProject(project)}
-                  className="bg-slate-50 rounded-lg p-4 cursor-pointer hover:bg-slate-100 transition-colors border border-slate-200 hover:border-blue-300"
+                  onClick={() => handleOpenProject(project)}
+                  className={`bg-slate-50 rounded-lg p-4 transition-colors border border-slate-200 ${project.deletedAt ? 'opacity-75' : 'cursor-pointer hover:bg-slate-100 hover:border-blue-300'}`}
                 >
                   <div className="flex items-start justify-between mb-3">
                     <h4 className="font-semibold text-slate-800 truncate flex-grow">
                       {project.title}
                     </h4>
                     <div className="flex items-center gap-1 ml-2">
-                      <button
-                        onClick={(e) => {
-                          e.stopPropagation();
-                          downloadJson(project);
-                        }}
-                        className="p-1 text-slate-500 hover:text-blue-600 rounded"
-                        title="JSONでダウンロード"
-                      >
-                        <DownloadIcon className="w-4 h-4" />
-                      </button>
-                      <button
-                        onClick={(e) => handleDeleteProject(project.id, e)}
-                        className="p-1 text-slate-500 hover:text-red-600 rounded"
-                        title="削除"
-                      >
-                        <TrashIcon className="w-4 h-4" />
-                      </button>
+                      {!isOffline && !project.deletedAt && (
+                        <>
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              downloadJson(project);
+                            }}
+                            className="p-1 text-slate-500 hover:text-blue-600 rounded"
+                            title="JSONでダウンロード"
+                          >
+                            <DownloadIcon className="w-4 h-4" />
+                          </button>
+                          {project.userRole !== 'viewer' && (
+                            <button
+                              onClick={(e) => handleArchiveProject(project, e)}
+                              className="p-1 text-slate-500 hover:text-amber-600 rounded"
+                              title={project.archivedAt ? 'アーカイブを解除' : 'アーカイブ'}
+                            >
+                              <ArchiveBoxIcon className="w-4 h-4" />
+                            </button>
+                          )}
+                          {project.userRole === 'owner' && (
+                            <button
+                              onClick={(e) => handleDeleteProject(project.id, e)}
+                              className="p-1 text-slate-500 hover:text-red-600 rounded"
+                              title="ゴミ箱に移動"
+                            >
+                              <TrashIcon className="w-4 h-4" />
+                            </button>
+                          )}
+                        </>
+                      )}
+                      {!isOffline && project.deletedAt && project.userRole === 'owner' && (
+                        <>
+                          <button
+                            onClick={(e) => handleRestoreProject(project.id, e)}
+                            className="p-1 text-slate-500 hover:text-blue-600 rounded"
+                            title="元に戻す"
+                          >
+                            <UndoIcon className="w-4 h-4" />
+                          </button>
+                          <button
+                            onClick={(e) => handlePurgeProject(project, e)}
+                            className="p-1 text-slate-500 hover:text-red-600 rounded"
+                            title="完全に削除"
+                          >
+                            <XIcon className="w-4 h-4" />
+                          </button>
+                        </>
+                      )}
                     </div>
                   </div>
                   
@@ -162,9 +304,19 @@ const ProjectListModal: React.FC<ProjectListModalProps> = ({
                       })}
                     </p>
                     <p className="text-xs text-slate-500">
-                      タスク数: {project.tasks.length} | 
+                      タスク数: {project.taskCount ?? project.tasks.length} | 
                       更新: {new Date(project.updatedAt).toLocaleDateString('ja-JP')}
                     </p>
+                    {project.archivedAt && !project.deletedAt && (
+                      <p className="text-xs text-amber-700">
+                        {new Date(project.archivedAt).toLocaleDateString('ja-JP')}にアーカイブ（読み取り専用）
+                      </p>
+                    )}
+                    {project.deletedAt && (
+                      <p className="text-xs text-red-600">
+                        あと{daysUntilPurge(project.deletedAt)}日で完全に削除されます
+                      </p>
+                    )}
                   </div>
                 </div>
               ))}
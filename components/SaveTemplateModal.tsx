@@ -0,0 +1,198 @@
+import React, { useState, useMemo } from 'react';
+import { ProjectTask } from '../types';
+import { ProjectService } from '../services/projectService';
+import { createTemplateContent, findTemplateVariables } from '../services/projectTemplates';
+import { XIcon, PlusIcon, TrashIcon } from './icons';
+import LoadingSpinner from './LoadingSpinner';
+import ErrorMessage from './ErrorMessage';
+
+interface SaveTemplateModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  projectGoal: string;
+  targetDate: string;
+  tasks: ProjectTask[];
+}
+
+interface VariableRow {
+  key: string;
+  text: string; // Text of this project replaced by the variable
+}
+
+const SaveTemplateModal: React.FC<SaveTemplateModalProps> = ({ isOpen, onClose, projectGoal, targetDate, tasks }) => {
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [variableRows, setVariableRows] = useState<VariableRow[]>([{ key: '製品名', text: '' }]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const content = useMemo(() => {
+    const replacements = Object.fromEntries(variableRows.map(row => [row.key, row.text]));
+    return createTemplateContent({ goal: projectGoal, targetDate, tasks }, replacements);
+  }, [projectGoal, targetDate, tasks, variableRows]);
+
+  const variableKeys = useMemo(() => findTemplateVariables(content.goal, content.tasks), [content]);
+
+  const counts = useMemo(() => {
+    const subSteps = tasks.flatMap((task: ProjectTask) => task.extendedDetails?.subSteps || []);
+    return {
+      tasks: tasks.length,
+      subSteps: subSteps.length,
+      actionItems: subSteps.reduce((sum, subStep) => sum + (subStep.actionItems?.length || 0), 0),
+      decisions: tasks.reduce((sum: number, task: ProjectTask) => sum + (task.extendedDetails?.decisions?.length || 0), 0),
+      dates: Object.keys(content.dueDateOffsets).length,
+    };
+  }, [tasks, content]);
+
+  const updateRow = (index: number, updates: Partial<VariableRow>) => {
+    setVariableRows(prev => prev.map((row, i) => i === index ? { ...row, ...updates } : row));
+  };
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      setError('テンプレート名を入力してください');
+      return;
+    }
+    if (variableRows.some(row => row.text.trim() && !row.key.trim())) {
+      setError('置き換える文字列には変数名を入力してください');
+      return;
+    }
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      await ProjectService.createProjectTemplate({
+        name: name.trim(),
+        description: description.trim(),
+        goal: content.goal,
+        tasks: content.tasks,
+        dueDateOffsets: content.dueDateOffsets,
+        variables: variableKeys.map(key => ({ key, label: key })),
+      });
+      alert('テンプレートを保存しました。新しいプロジェクトの作成画面から利用できます。');
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'テンプレートの保存に失敗しました');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-70 backdrop-blur-sm flex items-center justify-center p-4 z-[110]">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-2xl max-h-[90vh] flex flex-col">
+        <header className="flex items-center justify-between p-6 border-b border-slate-200">
+          <div>
+            <h3 className="text-xl font-bold text-slate-800">テンプレートとして保存</h3>
+            <p className="text-sm text-slate-500 mt-1">このプロジェクトの構成を、新しいプロジェクトの出発点として再利用できます。</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-slate-500 hover:text-slate-700 transition-colors p-1 rounded-full hover:bg-slate-100"
+          >
+            <XIcon className="w-6 h-6" />
+          </button>
+        </header>
+
+        <div className="flex-grow p-6 overflow-y-auto space-y-5">
+          {error && <ErrorMessage message={error} />}
+
+          <div className="space-y-3">
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="テンプレート名（例: 新製品立上げ）"
+              className="w-full px-3 py-2 border border-slate-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+              disabled={isSaving}
+            />
+            <textarea
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="説明（任意）"
+              rows={2}
+              className="w-full px-3 py-2 border border-slate-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+              disabled={isSaving}
+            />
+          </div>
+
+          <div>
+            <h4 className="font-semibold text-slate-800 mb-1">変数</h4>
+            <p className="text-xs text-slate-500 mb-3">
+              プロジェクト内の文字列を <code>{'{{変数名}}'}</code> に置き換え、テンプレートの利用時に入力できるようにします。
+            </p>
+            <div className="space-y-2">
+              {variableRows.map((row, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <input
+                    type="text"
+                    value={row.key}
+                    onChange={(e) => updateRow(index, { key: e.target.value.replace(/[{}]/g, '') })}
+                    placeholder="変数名"
+                    className="w-40 px-3 py-2 border border-slate-300 rounded-md text-sm"
+                    disabled={isSaving}
+                  />
+                  <input
+                    type="text"
+                    value={row.text}
+                    onChange={(e) => updateRow(index, { text: e.target.value })}
+                    placeholder="置き換える文字列（例: ABC-100）"
+                    className="flex-grow px-3 py-2 border border-slate-300 rounded-md text-sm"
+                    disabled={isSaving}
+                  />
+                  <button
+                    onClick={() => setVariableRows(prev => prev.filter((_, i) => i !== index))}
+                    className="p-2 text-slate-400 hover:text-red-600"
+                    title="削除"
+                    disabled={isSaving}
+                  >
+                    <TrashIcon className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+            </div>
+            <button
+              onClick={() => setVariableRows(prev => [...prev, { key: '', text: '' }])}
+              className="mt-2 inline-flex items-center gap-1 text-sm text-blue-600 hover:text-blue-800"
+              disabled={isSaving}
+            >
+              <PlusIcon className="w-4 h-4" />
+              変数を追加
+            </button>
+            {variableKeys.length > 0 && (
+              <p className="mt-3 text-xs text-slate-600">利用時に入力する変数: {variableKeys.join('、')}</p>
+            )}
+          </div>
+
+          <div className="bg-slate-50 rounded-lg p-4 text-sm text-slate-700 space-y-1">
+            <p>タスク {counts.tasks}件・サブステップ {counts.subSteps}件・アクションアイテム {counts.actionItems}件・決定事項 {counts.decisions}件を含みます。</p>
+            <p>期限 {counts.dates}件は目標日からの相対日数として保存し、利用時の目標日から計算します。</p>
+            <p className="text-xs text-slate-500">進捗状況・実施報告・決定内容・添付ファイルは保存されません。</p>
+          </div>
+        </div>
+
+        <footer className="flex justify-end gap-3 p-6 border-t border-slate-200">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 border border-slate-300 text-sm font-medium rounded-md text-slate-700 bg-white hover:bg-slate-50"
+            disabled={isSaving}
+          >
+            キャンセル
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={isSaving}
+            className="inline-flex items-center gap-2 px-4 py-2 text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:bg-slate-400"
+          >
+            {isSaving && <LoadingSpinner size="sm" color="border-white" />}
+            保存
+          </button>
+        </footer>
+      </div>
+    </div>
+  );
+};
+
+export default SaveTemplateModal;
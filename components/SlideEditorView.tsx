@@ -2,9 +2,14 @@
 import React, { useState, useEffect, useCallback, useRef, ChangeEvent, useMemo } from 'react';
 import { ProjectTask, SlideDeck, Slide, SlideElement, TextboxElement, ChartElement, ChartType, SubStep, ActionItem, ImageElement, TableElement, FlowchartElement, SubStepStatus } from '../types';
 import { XIcon, PrinterIcon, LightBulbIcon, DownloadIcon, RefreshIcon, LockClosedIcon, LockOpenIcon } from './icons';
-import { regenerateSlideDeck, optimizeSlideLayout, regenerateProjectReportDeck } from '../services/geminiService';
+import { regenerateSlideDeck, optimizeSlideLayout, regenerateProjectReportDeck, GenerationProgress, GenerationOptions, isGenerationCancelled } from '../services/geminiService';
 import LoadingSpinner from './LoadingSpinner';
 import FlowConnector from './FlowConnector';
+import GenerationProgressIndicator from './GenerationProgressIndicator';
+import { AttachmentImage } from './AttachmentPreview';
+import { exportSlideDeckPptx } from '../services/pptxExport';
+import { CommentBoard } from '../services/comments';
+import { CommentButton } from './CommentThreadModal';
 
 // --- Chart Rendering Components ---
 const getCoordinatesForPercent = (percent: number) => {
@@ -244,10 +249,11 @@ interface SlideEditorViewProps {
   projectGoal: string;
   targetDate: string;
   reportScope: 'task' | 'project';
+  commentBoard?: CommentBoard | null;
 }
 
 const SlideEditorView: React.FC<SlideEditorViewProps> = ({ 
-  tasks, initialDeck, onSave, onClose, generateUniqueId, projectGoal, targetDate, reportScope 
+  tasks, initialDeck, onSave, onClose, generateUniqueId, projectGoal, targetDate, reportScope, commentBoard
 }) => {
     const [deck, setDeck] = useState(initialDeck);
     const [selectedSlideIndex, setSelectedSlideIndex] = useState(0);
@@ -256,6 +262,23 @@ const SlideEditorView: React.FC<SlideEditorViewProps> = ({
     const [error, setError] = useState<string|null>(null);
     const [isDownloadMenuOpen, setDownloadMenuOpen] = useState(false);
     const downloadButtonRef = useRef<HTMLDivElement>(null);
+    const [progress, setProgress] = useState<{ label: string; value: GenerationProgress | null } | null>(null);
+    const abortControllerRef = useRef<AbortController | null>(null);
+
+    useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+    const startGeneration = (label: string): GenerationOptions => {
+        const controller = new AbortController();
+        abortControllerRef.current = controller;
+        setProgress({ label, value: null });
+        return { signal: controller.signal, onProgress: value => setProgress({ label, value }) };
+    };
+
+    const finishGeneration = () => {
+        abortControllerRef.current = null;
+        setProgress(null);
+        setIsLoading(false);
+    };
 
     const updateSlide = (slideId: string, updates: Partial<Slide> | ((s:Slide) => Partial<Slide>)) => {
         setDeck(prev => ({ ...prev, slides: prev.slides.map(s => s.id === slideId ? {...s, ...(typeof updates === 'function' ? updates(s) : s)} : s) }));
@@ -275,14 +298,14 @@ const SlideEditorView: React.FC<SlideEditorViewProps> = ({
         setError(null);
         try {
             const deckToOptimize = { ...deck, slides: deck.slides.map(s => s.isLocked ? s : ({...s, isLocked: undefined})) }; // Don't send lock status for optimization
-            const optimized = await optimizeSlideLayout(deckToOptimize);
+            const optimized = await optimizeSlideLayout(deckToOptimize, startGeneration('レイアウトを最適化中'));
             // Re-apply lock status from original deck
             const finalDeck = { ...optimized, slides: optimized.slides.map((s, i) => ({ ...s, isLocked: deck.slides[i].isLocked }))};
             setDeck(finalDeck);
         } catch (err) {
-            setError(err instanceof Error ? err.message : "最適化に失敗しました。");
+            if (!isGenerationCancelled(err)) setError(err instanceof Error ? err.message : "最適化に失敗しました。");
         } finally {
-            setIsLoading(false);
+            finishGeneration();
         }
     };
     
@@ -290,17 +313,18 @@ const SlideEditorView: React.FC<SlideEditorViewProps> = ({
         setIsLoading(true);
         setError(null);
         try {
+            const generation = startGeneration('レポートを再生成中');
             let regenerated: SlideDeck;
             if (reportScope === 'project') {
-                regenerated = await regenerateProjectReportDeck(deck, tasks, projectGoal, targetDate);
+                regenerated = await regenerateProjectReportDeck(deck, tasks, projectGoal, targetDate, generation);
             } else {
-                regenerated = await regenerateSlideDeck(deck, tasks[0], projectGoal);
+                regenerated = await regenerateSlideDeck(deck, tasks[0], projectGoal, generation);
             }
             setDeck(regenerated);
         } catch (err) {
-            setError(err instanceof Error ? err.message : "レポートの再生成に失敗しました。");
+            if (!isGenerationCancelled(err)) setError(err instanceof Error ? err.message : "レポートの再生成に失敗しました。");
         } finally {
-            setIsLoading(false);
+            finishGeneration();
         }
     };
 
@@ -328,7 +352,7 @@ const SlideEditorView: React.FC<SlideEditorViewProps> = ({
                 const imgEl = el as ImageElement;
                 const actionItem = findActionItem(imgEl.subStepId, imgEl.actionItemId);
                 const imgAttachment = actionItem?.report?.attachments?.find(a => a.id === imgEl.attachmentId);
-                return imgAttachment ? <img src={imgAttachment.dataUrl} className="w-full h-full object-contain" alt={imgAttachment.name} /> : <div className="bg-slate-200 flex items-center justify-center text-xs text-slate-500">画像が見つかりません</div>;
+                return imgAttachment ? <AttachmentImage attachment={imgAttachment} className="w-full h-full object-contain" /> : <div className="bg-slate-200 flex items-center justify-center text-xs text-slate-500">画像が見つかりません</div>;
             }
             case 'table': {
                 const tblEl = el as TableElement;
@@ -362,10 +386,9 @@ const SlideEditorView: React.FC<SlideEditorViewProps> = ({
     };
 
     const handlePrint = () => window.print();
+    const editorTitle = reportScope === 'project' ? `プロジェクト全体レポート: ${projectGoal}` : `タスクレポート: ${tasks[0].title}`;
 
-    const downloadJson = (data: unknown, filename: string) => {
-        const jsonString = JSON.stringify(data, null, 2);
-        const blob = new Blob([jsonString], { type: 'application/json' });
+    const downloadFile = (blob: Blob, filename: string) => {
         const url = URL.createObjectURL(blob);
         const a = document.createElement('a');
         a.href = url;
@@ -376,18 +399,27 @@ const SlideEditorView: React.FC<SlideEditorViewProps> = ({
         URL.revokeObjectURL(url);
     };
 
-    const handleDownload = (format: 'pdf' | 'json') => {
+    const handleDownload = async (format: 'pdf' | 'json' | 'pptx') => {
+        setDownloadMenuOpen(false);
         if (format === 'pdf') {
             handlePrint();
+        } else if (format === 'json') {
+            downloadFile(new Blob([JSON.stringify(deck, null, 2)], { type: 'application/json' }), 'report-deck.json');
         } else {
-            downloadJson(deck, 'report-deck.json');
+            setIsLoading(true);
+            setError(null);
+            try {
+                downloadFile(await exportSlideDeckPptx(deck, tasks, editorTitle), 'report-deck.pptx');
+            } catch (err) {
+                setError(err instanceof Error ? err.message : "PowerPointファイルの作成に失敗しました。");
+            } finally {
+                setIsLoading(false);
+            }
         }
-        setDownloadMenuOpen(false);
     };
 
     const handleSaveAndClose = () => { onSave(deck); onClose(); };
     const currentSlide = deck.slides[selectedSlideIndex];
-    const editorTitle = reportScope === 'project' ? `プロジェクト全体レポート: ${projectGoal}` : `タスクレポート: ${tasks[0].title}`;
 
     return (
         <>
@@ -402,10 +434,24 @@ const SlideEditorView: React.FC<SlideEditorViewProps> = ({
                     <button onClick={handleOptimize} disabled={isLoading} className="flex items-center gap-2 px-3 py-1.5 text-xs font-semibold text-white bg-purple-600 rounded-md hover:bg-purple-700 disabled:bg-slate-400">
                         <LightBulbIcon className="w-4 h-4"/> {isLoading ? "処理中..." : "AIでレイアウト最適化"}
                     </button>
+                    {currentSlide && (
+                        <CommentButton
+                            target={{
+                                type: 'slide',
+                                id: currentSlide.id,
+                                taskId: reportScope === 'task' ? tasks[0]?.id ?? null : null,
+                                label: `${editorTitle} - スライド ${selectedSlideIndex + 1}`,
+                            }}
+                            board={commentBoard}
+                            label="コメント"
+                            className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-semibold text-white bg-slate-600 rounded-md hover:bg-slate-500"
+                        />
+                    )}
                     <div className="relative" ref={downloadButtonRef}>
                       <button onClick={() => setDownloadMenuOpen(prev => !prev)} className="p-2 bg-slate-600 text-white rounded-md hover:bg-slate-500" title="ダウンロード"><DownloadIcon className="w-5 h-5"/></button>
-                      {isDownloadMenuOpen && <div className="absolute right-0 mt-2 w-32 bg-white rounded-md shadow-lg z-10">
+                      {isDownloadMenuOpen && <div className="absolute right-0 mt-2 w-44 bg-white rounded-md shadow-lg z-10">
                         <button onClick={() => handleDownload('pdf')} className="block w-full text-left px-4 py-2 text-sm text-slate-700 hover:bg-slate-100">PDFとして保存</button>
+                        <button onClick={() => handleDownload('pptx')} className="block w-full text-left px-4 py-2 text-sm text-slate-700 hover:bg-slate-100">PowerPointとして保存</button>
                         <button onClick={() => handleDownload('json')} className="block w-full text-left px-4 py-2 text-sm text-slate-700 hover:bg-slate-100">JSONとして保存</button>
                       </div>}
                     </div>
@@ -465,6 +511,13 @@ const SlideEditorView: React.FC<SlideEditorViewProps> = ({
                 </div>
             ))}
         </div>
+        {progress && (
+            <GenerationProgressIndicator
+                label={progress.label}
+                progress={progress.value}
+                onCancel={() => abortControllerRef.current?.abort()}
+            />
+        )}
         </>
     );
 };
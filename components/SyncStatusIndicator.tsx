@@ -0,0 +1,78 @@
+import React, { useState, useEffect } from 'react';
+import { SyncStatus, subscribeSyncStatus, processSyncQueue, discardFailedOperation } from '../services/syncQueue';
+
+interface SyncStatusIndicatorProps {
+  isCloudProject: boolean; // false while the project only exists in this browser
+}
+
+const SyncStatusIndicator: React.FC<SyncStatusIndicatorProps> = ({ isCloudProject }) => {
+  const [status, setStatus] = useState<SyncStatus | null>(null);
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  useEffect(() => subscribeSyncStatus(setStatus), []);
+
+  if (!status) return null;
+
+  const pendingText = status.pending > 0 ? `${status.pending}件の変更を保留中` : '';
+  let dotClass = 'bg-green-500';
+  let label = isCloudProject ? '同期済み' : 'この端末に保存済み';
+
+  if (status.state === 'syncing') {
+    dotClass = 'bg-blue-500 animate-pulse';
+    label = `同期中…${status.pending > 0 ? `（残り${status.pending}件）` : ''}`;
+  } else if (status.state === 'offline') {
+    dotClass = 'bg-amber-500';
+    label = `オフライン${pendingText ? ` – ${pendingText}` : ' – 変更はこの端末に保存されます'}`;
+  } else if (status.state === 'error') {
+    dotClass = 'bg-red-500';
+    label = `同期エラー${pendingText ? ` – ${pendingText}` : ''}`;
+  }
+
+  const lastSynced = status.lastSyncedAt
+    ? new Date(status.lastSyncedAt).toLocaleTimeString('ja-JP', { hour: '2-digit', minute: '2-digit' })
+    : null;
+
+  return (
+    <div className="fixed bottom-4 left-4 z-40 max-w-sm">
+      <button
+        onClick={() => setIsExpanded(prev => !prev)}
+        className="flex items-center gap-2 px-3 py-1.5 rounded-full bg-white shadow-md border border-slate-200 text-xs font-medium text-slate-700 hover:bg-slate-50"
+        title={lastSynced ? `最終同期: ${lastSynced}` : undefined}
+      >
+        <span className={`w-2.5 h-2.5 rounded-full ${dotClass}`} />
+        {label}
+      </button>
+
+      {isExpanded && (status.state === 'error' || status.state === 'offline') && (
+        <div className="mt-2 p-3 rounded-lg bg-white shadow-lg border border-slate-200 text-xs text-slate-700 space-y-2">
+          {status.state === 'offline' && (
+            <p>接続が戻ると、保留中の変更が自動的にSupabaseへ送信されます。このタブを閉じても変更は失われません。</p>
+          )}
+          {status.state === 'error' && (
+            <>
+              <p className="text-red-600 break-words">{status.lastError}</p>
+              <p>この変更を送信できないため、以降の変更の同期も止まっています。</p>
+            </>
+          )}
+          <div className="flex justify-end gap-2">
+            {status.state === 'error' && (
+              <button
+                onClick={() => {
+                  if (confirm('送信できなかった変更を破棄しますか？この端末の表示は元に戻りません。')) discardFailedOperation();
+                }}
+                className="px-2 py-1 rounded border border-red-300 text-red-700 hover:bg-red-50"
+              >
+                この変更を破棄
+              </button>
+            )}
+            <button onClick={() => processSyncQueue()} className="px-2 py-1 rounded bg-blue-600 text-white hover:bg-blue-700">
+              再試行
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SyncStatusIndicator;
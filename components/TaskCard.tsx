@@ -1,7 +1,10 @@
 
 import React, { memo, useState, useRef, useEffect } from 'react';
 import { ProjectTask, NumericalTargetStatus, TaskStatus } from '../types';
-import { InfoIcon, TrashIcon, GaugeIcon, ClockIcon, CircleIcon, PlayCircleIcon, CheckCircleIcon as CompletedIcon, XCircleIcon } from './icons';
+import { PresenceUser } from '../services/presence';
+import { DiffChangeKind } from '../services/projectDiff';
+import { UnreadCount } from '../services/comments';
+import { InfoIcon, TrashIcon, GaugeIcon, ClockIcon, CircleIcon, PlayCircleIcon, CheckCircleIcon as CompletedIcon, XCircleIcon, ChatBubbleIcon } from './icons';
 
 interface TaskCardProps {
   task: ProjectTask;
@@ -14,8 +17,19 @@ interface TaskCardProps {
   onStartConnection: (taskId: string, event: React.MouseEvent<HTMLDivElement>) => void;
   onEndConnection: (taskId: string) => void;
   canEdit?: boolean;
+  remoteUsers?: PresenceUser[]; // Collaborators who selected this task or have it open
+  diffState?: DiffChangeKind; // Set while comparing two versions
+  unreadComments?: UnreadCount; // Unread comments on the task and everything in it
 }
 
+const NO_REMOTE_USERS: PresenceUser[] = [];
+
+const DIFF_STYLES: Record<string, { color: string; label: string; badge: string }> = {
+  added: { color: '#16a34a', label: '追加', badge: 'bg-green-600' },
+  removed: { color: '#dc2626', label: '削除', badge: 'bg-red-600' },
+  modified: { color: '#2563eb', label: '変更', badge: 'bg-blue-600' },
+};
+
 const getStatusStyles = (status?: TaskStatus): { icon: JSX.Element, color: string, text: string, bgColor: string } => {
   switch (status) {
     case TaskStatus.IN_PROGRESS:
@@ -42,6 +56,9 @@ const TaskCard: React.FC<TaskCardProps> = ({
   onStartConnection,
   onEndConnection,
   canEdit = true,
+  remoteUsers = NO_REMOTE_USERS,
+  diffState,
+  unreadComments,
 }) => {
   const [isStatusDropdownOpen, setIsStatusDropdownOpen] = useState(false);
   const statusRef = useRef<HTMLDivElement>(null);
@@ -92,15 +109,31 @@ const TaskCard: React.FC<TaskCardProps> = ({
       draggable="true"
       onDragStart={(e) => onDragCardStart(e, task.id)}
       onMouseUp={() => onEndConnection(task.id)}
-      className={`${cardBaseClasses} ${highlightClass}`}
+      className={`${cardBaseClasses} ${highlightClass} ${diffState === 'removed' ? 'opacity-60' : ''}`}
       style={{ 
         position: 'absolute', 
         left: task.position?.x || 0, 
         top: task.position?.y || 0,
         touchAction: 'none', 
+        ...(remoteUsers.length ? { boxShadow: `0 0 0 3px ${remoteUsers[0].color}` } : {}),
+        ...(diffState ? { boxShadow: `0 0 0 4px ${DIFF_STYLES[diffState].color}` } : {}),
       }}
     >
       <div className="p-5 relative">
+        {diffState && (
+          <span className={`absolute top-2 right-12 px-1.5 py-0.5 rounded text-[10px] font-bold text-white ${DIFF_STYLES[diffState].badge}`}>
+            {DIFF_STYLES[diffState].label}
+          </span>
+        )}
+        {remoteUsers.length > 0 && (
+          <div className="flex flex-wrap gap-1 mb-2">
+            {remoteUsers.map(user => (
+              <span key={user.userId} className="px-1.5 py-0.5 rounded text-[10px] font-medium text-white" style={{ backgroundColor: user.color }}>
+                {user.name}{user.editingTaskId === task.id ? ' が編集中' : ' が選択中'}
+              </span>
+            ))}
+          </div>
+        )}
         <div 
             onMouseDown={handleMouseDownOnConnector}
             className="absolute right-[-6px] top-1/2 -translate-y-1/2 w-4 h-4 bg-blue-500 border-2 border-white rounded-full cursor-crosshair hover:scale-125 transition-transform z-10"
@@ -119,6 +152,19 @@ const TaskCard: React.FC<TaskCardProps> = ({
             </div>
           </div>
           <div className="flex space-x-1 flex-shrink-0 items-center">
+            {unreadComments && unreadComments.count > 0 && (
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onSelectTask(task);
+                }}
+                className={`flex items-center gap-0.5 px-1.5 py-0.5 rounded-full text-[10px] font-bold text-white ${unreadComments.mentioned ? 'bg-amber-500' : 'bg-red-500'}`}
+                title={`未読コメント ${unreadComments.count}件${unreadComments.mentioned ? '（あなたへのメンションあり）' : ''}`}
+              >
+                <ChatBubbleIcon className="w-3 h-3" />
+                {unreadComments.mentioned && '@'}{unreadComments.count}
+              </button>
+            )}
             {numericalTarget && (
               <GaugeIcon className={`w-5 h-5 ${targetColorClass}`} title={`数値目標: ${numericalTarget.description} (${numericalTarget.status})`} />
             )}
@@ -1,7 +1,7 @@
 import React, { useEffect, useState, ChangeEvent, useRef, useCallback, useMemo } from 'react';
 import { 
   ProjectTask, SubStep, EditableExtendedTaskDetails, TaskStatus,
-  SubStepStatus, Attachment, SlideDeck, ActionItem, ActionItemReport, Decision
+  SubStepStatus, Attachment, SlideDeck, ActionItem, ActionItemReport, Decision, TaskBlueprint, TaskBlueprintKind
 } from '../types';
 import LoadingSpinner from './LoadingSpinner';
 import ErrorMessage from './ErrorMessage';
@@ -18,8 +18,16 @@ import ProposalReviewModal from './ProposalReviewModal';
 import ActionItemReportModal from './ActionItemReportModal';
 import MatrixEditor from './MatrixEditor';
 import DecisionModal from './DecisionModal';
+import AttachmentPreview from './AttachmentPreview';
+import { uploadAttachment } from '../services/attachmentStorage';
+import { PresenceUser } from '../services/presence';
+import { CommentBoard, describeCommentTarget } from '../services/comments';
+import { CommentButton } from './CommentThreadModal';
 import ActionItemTableModal from './ActionItemTableModal';
 import CustomTaskReportModal from './CustomTaskReportModal';
+import ActivityLogModal from './ActivityLogModal';
+import BlueprintLibraryModal from './BlueprintLibraryModal';
+import { instantiateBlueprint } from '../services/taskBlueprints';
 
 // --- Helper Input Component ---
 const DetailInput: React.FC<{label: string, name: string, value: any, onChange: (e: ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => void, type?: string, placeholder?: string, rows?: number, disabled?: boolean, icon?: React.ReactNode, required?: boolean}> = 
@@ -40,6 +48,12 @@ const DetailInput: React.FC<{label: string, name: string, value: any, onChange:
   </div>
 );
 
+// 空欄や0以下は「見積なし」として扱う
+const parseEstimatedDays = (value: string): number | undefined => {
+  const days = parseFloat(value);
+  return isNaN(days) || days <= 0 ? undefined : days;
+};
+
 // --- SubStep Card Component ---
 const SubStepCard: React.FC<{ subStep: SubStep; onRemove: () => void; onDragStart: (event: React.DragEvent<HTMLDivElement>, subStepId: string) => void; onClick: () => void; cardRef?: React.RefObject<HTMLDivElement>; isSelected?: boolean; onStartConnection: (subStepId: string, event: React.MouseEvent<HTMLDivElement>) => void; onEndConnection: (subStepId: string) => void; }> = React.memo(({ subStep, onRemove, onDragStart, onClick, cardRef, isSelected, onStartConnection, onEndConnection }) => {
   const getStatusBorder = (status?: SubStepStatus) => {
@@ -117,7 +131,8 @@ const ActionItemChecklist: React.FC<{
     onRemove: (itemId: string) => void;
     onOpenReport: (item: ActionItem) => void;
     onOpenTable: () => void;
-}> = React.memo(({ items, onToggle, onAdd, onUpdate, onRemove, onOpenReport, onOpenTable }) => {
+    renderComments?: (item: ActionItem) => React.ReactNode;
+}> = React.memo(({ items, onToggle, onAdd, onUpdate, onRemove, onOpenReport, onOpenTable, renderComments }) => {
   return (
     <div className="space-y-2 mt-2">
        <div className="flex justify-between items-center">
@@ -142,6 +157,7 @@ const ActionItemChecklist: React.FC<{
                                 className={`w-full text-sm bg-transparent outline-none p-1 rounded-sm focus:ring-1 focus:ring-blue-500 focus:bg-white ${item.completed ? 'line-through text-slate-500' : 'text-slate-800'}`}
                             />
                         </div>
+                        {renderComments?.(item)}
                         <button onClick={() => onRemove(item.id)} className="ml-2 text-red-400 opacity-0 group-hover:opacity-100 transition-opacity">
                             <TrashIcon className="w-4 h-4" />
                         </button>
@@ -167,6 +183,21 @@ const ActionItemChecklist: React.FC<{
                               disabled={item.completed}
                           />
                         </div>
+                        <div className="flex items-center">
+                            <label htmlFor={`estimated-days-${item.id}`} className="mr-1">工数:</label>
+                            <input
+                                type="number"
+                                min="0"
+                                id={`estimated-days-${item.id}`}
+                                value={item.estimatedDays ?? ''}
+                                onChange={(e) => onUpdate(item.id, { estimatedDays: parseEstimatedDays(e.target.value) })}
+                                className="bg-transparent border-b border-dotted border-slate-400 outline-none p-0.5 w-12 focus:border-solid focus:border-blue-500 disabled:border-none disabled:text-slate-400"
+                                placeholder="1"
+                                title="見積工数（日）"
+                                disabled={item.completed}
+                            />
+                            <span className="ml-0.5">日</span>
+                        </div>
                         <div className="flex items-center">
                             <label htmlFor={`due-date-${item.id}`} className="mr-1">期日:</label>
                             <input
@@ -202,9 +233,13 @@ interface TaskDetailModalProps {
   generateUniqueId: (prefix: string) => string;
   projectGoal: string;
   targetDate: string;
+  lockedBy?: PresenceUser | null; // Another user who opened this task first and is editing it
+  projectId?: string | null; // Set for cloud projects, which keep an activity log
+  currentUserId?: string | null;
+  commentBoard?: CommentBoard | null;
 }
 
-const TaskDetailModal: React.FC<TaskDetailModalProps> = ({ task, onClose, onUpdateTaskCoreInfo, onUpdateExtendedDetails, generateUniqueId, projectGoal, targetDate }) => {
+const TaskDetailModal: React.FC<TaskDetailModalProps> = ({ task, onClose, onUpdateTaskCoreInfo, onUpdateExtendedDetails, generateUniqueId, projectGoal, targetDate, lockedBy, projectId, currentUserId, commentBoard }) => {
   if (!task) return null;
 
   // Main state
@@ -218,6 +253,8 @@ const TaskDetailModal: React.FC<TaskDetailModalProps> = ({ task, onClose, onUpda
   const [isActionReportModalOpen, setIsActionReportModalOpen] = useState(false);
   const [isDecisionModalOpen, setIsDecisionModalOpen] = useState(false);
   const [isCustomReportModalOpen, setIsCustomReportModalOpen] = useState(false);
+  const [isActivityLogOpen, setIsActivityLogOpen] = useState(false);
+  const [blueprintLibraryKind, setBlueprintLibraryKind] = useState<TaskBlueprintKind | null>(null);
   const [activeActionItem, setActiveActionItem] = useState<ActionItem | null>(null);
   const [isActionTableModalOpen, setIsActionTableModalOpen] = useState(false);
   const [isTaskActionItemTableOpen, setIsTaskActionItemTableOpen] = useState(false);
@@ -389,6 +426,15 @@ const TaskDetailModal: React.FC<TaskDetailModalProps> = ({ task, onClose, onUpda
     setSelectedSubStepId(newSubStep.id);
   };
   
+  const handleInsertSubStepBlueprint = (blueprint: TaskBlueprint, anchorDate: string) => {
+    const { subStep } = instantiateBlueprint(blueprint, anchorDate, generateUniqueId);
+    if (!subStep) return;
+    const i = editableTask.extendedDetails?.subSteps?.length || 0;
+    const newSubStep: SubStep = { ...subStep, status: SubStepStatus.NOT_STARTED, attachments: [], position: { x: 10 + (i % 4) * 210, y: Math.floor(i / 4) * 90 + 10 } };
+    updateExtended(d => ({ subSteps: [...(d.subSteps || []), newSubStep] }));
+    setSelectedSubStepId(newSubStep.id);
+  };
+
   const handleUpdateSubStep = useCallback((subStepId: string, updates: Partial<SubStep> | ((ss: SubStep) => Partial<SubStep>)) => {
      updateExtended(d => ({ subSteps: (d.subSteps || []).map(ss => ss.id === subStepId ? {...ss, ...(typeof updates === 'function' ? updates(ss) : updates)} : ss)}));
   }, [updateExtended]);
@@ -552,7 +598,7 @@ const TaskDetailModal: React.FC<TaskDetailModalProps> = ({ task, onClose, onUpda
     setIsActionReportModalOpen(true);
   };
 
-  const handleAttachmentChange = (
+  const handleAttachmentChange = async (
     event: ChangeEvent<HTMLInputElement>,
     target: 'task' | 'substep'
   ) => {
@@ -567,33 +613,22 @@ const TaskDetailModal: React.FC<TaskDetailModalProps> = ({ task, onClose, onUpda
         if (event.target) event.target.value = '';
         return;
     }
+    if(event.target) event.target.value = ''; // Reset file input to allow re-uploading the same file
 
-    const reader = new FileReader();
-    reader.onload = (e) => {
-        if (typeof e.target?.result === 'string') {
-            const newAttachment: Attachment = {
-                id: generateUniqueId('attach'),
-                name: file.name,
-                type: file.type,
-                dataUrl: e.target.result,
-            };
-
-            if (target === 'task') {
-                updateExtended(d => ({ attachments: [...(d.attachments || []), newAttachment] }));
-            } else if (target === 'substep' && selectedSubStepId) {
-                handleUpdateSubStep(selectedSubStepId, ss => ({
-                    attachments: [...(ss.attachments || []), newAttachment]
-                }));
-            }
-        } else {
-            alert('ファイルの読み込みに失敗しました。');
+    const subStepId = selectedSubStepId; // The selection may change while uploading
+    try {
+        const newAttachment = await uploadAttachment(file, generateUniqueId('attach'));
+
+        if (target === 'task') {
+            updateExtended(d => ({ attachments: [...(d.attachments || []), newAttachment] }));
+        } else if (target === 'substep' && subStepId) {
+            handleUpdateSubStep(subStepId, ss => ({
+                attachments: [...(ss.attachments || []), newAttachment]
+            }));
         }
-    };
-    reader.onerror = () => {
-      alert('ファイルの読み込み中にエラーが発生しました。');
-    };
-    reader.readAsDataURL(file);
-    if(event.target) event.target.value = ''; // Reset file input to allow re-uploading the same file
+    } catch (err) {
+        alert(err instanceof Error ? err.message : 'ファイルの読み込み中にエラーが発生しました。');
+    }
   };
   
   const handleRemoveAttachment = (id: string, target: 'task' | 'substep') => {
@@ -706,11 +741,16 @@ const TaskDetailModal: React.FC<TaskDetailModalProps> = ({ task, onClose, onUpda
   const handleAddActionItem = (subStepId: string) => {
     handleUpdateSubStep(subStepId, ss => ({ actionItems: [...(ss.actionItems || []), { id: generateUniqueId('action'), text: '新しいアクション', completed: false }] }));
   };
+  const handleInsertChecklistBlueprint = (subStepId: string, blueprint: TaskBlueprint, anchorDate: string) => {
+    const { actionItems } = instantiateBlueprint(blueprint, anchorDate, generateUniqueId);
+    handleUpdateSubStep(subStepId, ss => ({ actionItems: [...(ss.actionItems || []), ...(actionItems || [])] }));
+  };
   const handleRemoveActionItem = (subStepId: string, itemId: string) => {
      handleUpdateSubStep(subStepId, ss => ({ actionItems: ss.actionItems?.filter(item => item.id !== itemId) }));
   };
   
   const handleSaveChanges = () => {
+    if (lockedBy) return;
     onUpdateTaskCoreInfo(editableTask.id, { title: editableTask.title, description: editableTask.description, status: editableTask.status! });
     onUpdateExtendedDetails(editableTask.id, editableTask.extendedDetails!);
     onClose(); 
@@ -759,15 +799,7 @@ const TaskDetailModal: React.FC<TaskDetailModalProps> = ({ task, onClose, onUpda
       ) : (
         attachments.map(att => (
           <div key={att.id} className="relative group border rounded-md overflow-hidden bg-white shadow-sm h-20">
-            <a href={att.dataUrl} download={att.name} className="block w-full h-full" aria-label={`Download ${att.name}`}>
-                {att.type.startsWith('image/') ? (
-                  <img src={att.dataUrl} alt={att.name} className="w-full h-full object-cover" />
-                ) : (
-                  <div className="w-full h-full bg-slate-100 flex flex-col items-center justify-center p-1 hover:bg-slate-200">
-                    <PaperClipIcon className="w-8 h-8 text-slate-500" />
-                  </div>
-                )}
-            </a>
+            <AttachmentPreview attachment={att} />
             <div className="absolute bottom-0 w-full bg-black bg-opacity-60 p-1 pointer-events-none">
                <p className="text-white text-[10px] truncate" title={att.name}>{att.name}</p>
             </div>
@@ -791,6 +823,7 @@ const TaskDetailModal: React.FC<TaskDetailModalProps> = ({ task, onClose, onUpda
         projectGoal={projectGoal}
         targetDate={targetDate}
         reportScope="task"
+        commentBoard={commentBoard}
     />;
   }
   
@@ -814,13 +847,36 @@ const TaskDetailModal: React.FC<TaskDetailModalProps> = ({ task, onClose, onUpda
           <div className="flex items-center justify-between p-4 sm:p-5 w-full max-w-screen-2xl mx-auto">
             <h3 className="text-lg sm:text-xl font-bold text-slate-800 truncate pr-2">{editableTask.title} - 詳細計画</h3>
             <div className="flex items-center space-x-2 sm:space-x-4">
+                <CommentButton
+                  target={{ type: 'task', id: task.id, taskId: task.id, label: editableTask.title }}
+                  board={commentBoard}
+                  includeTaskItems
+                  describeTarget={(comment) => describeCommentTarget(comment, editableTask)}
+                  label="コメント"
+                  className="flex items-center gap-1.5 px-3 sm:px-5 py-2 bg-white border border-slate-300 text-slate-700 text-sm font-medium rounded-md hover:bg-slate-50"
+                />
+                {projectId && (
+                  <button onClick={() => setIsActivityLogOpen(true)} className="px-3 sm:px-5 py-2 bg-white border border-slate-300 text-slate-700 text-sm font-medium rounded-md hover:bg-slate-50">変更履歴</button>
+                )}
+                <button onClick={() => setBlueprintLibraryKind('task')} className="px-3 sm:px-5 py-2 bg-white border border-slate-300 text-slate-700 text-sm font-medium rounded-md hover:bg-slate-50">ブループリントとして保存</button>
                 <button onClick={handleAttemptClose} className="px-3 sm:px-5 py-2 bg-slate-200 text-slate-700 text-sm font-medium rounded-md hover:bg-slate-300">フローに戻る</button>
-                <button onClick={handleSaveChanges} className="px-3 sm:px-5 py-2 bg-blue-600 text-white text-sm font-semibold rounded-md hover:bg-blue-700">計画の変更を保存</button>
+                <button
+                  onClick={handleSaveChanges}
+                  disabled={!!lockedBy}
+                  title={lockedBy ? `${lockedBy.name}さんが編集中のため保存できません` : ''}
+                  className="px-3 sm:px-5 py-2 bg-blue-600 text-white text-sm font-semibold rounded-md hover:bg-blue-700 disabled:bg-slate-400 disabled:cursor-not-allowed"
+                >計画の変更を保存</button>
                 <button onClick={handleOpenReportEditor} className="px-3 sm:px-5 py-2 bg-purple-600 text-white text-sm font-semibold rounded-md hover:bg-purple-700">
                     レポート作成
                 </button>
             </div>
           </div>
+          {lockedBy && (
+            <div className="flex items-center gap-2 px-4 sm:px-5 py-2 text-sm text-amber-800 bg-amber-50 border-t border-amber-200">
+              <span className="w-2.5 h-2.5 rounded-full flex-shrink-0" style={{ backgroundColor: lockedBy.color }} />
+              {lockedBy.name}さんがこのタスクを編集中です。編集が終わるまで変更は保存できません（閲覧のみ）。
+            </div>
+          )}
         </header>
 
         <main className="flex-grow p-4 sm:p-6 overflow-hidden w-full max-w-screen-2xl mx-auto">
@@ -841,6 +897,7 @@ const TaskDetailModal: React.FC<TaskDetailModalProps> = ({ task, onClose, onUpda
                     <DetailInput label="タスク説明" name="description" value={editableTask.description} onChange={e => updateTask({description: e.target.value})} type="textarea" rows={3} required />
                     <DetailInput icon={<ResponsibleIcon />} label="担当者/チーム" name="responsible" value={editableTask.extendedDetails!.responsible} onChange={e => updateExtended({responsible: e.target.value})} />
                     <DetailInput icon={<ClockIcon />} label="このタスクの期日" name="dueDate" type="date" value={editableTask.extendedDetails!.dueDate || ''} onChange={e => updateExtended({dueDate: e.target.value})} />
+                    <DetailInput icon={<ClockIcon />} label="見積工数（日）" name="estimatedDays" type="number" placeholder="未設定の場合はサブステップから算出" value={editableTask.extendedDetails!.estimatedDays ?? ''} onChange={e => updateExtended({estimatedDays: parseEstimatedDays(e.target.value)})} />
                     
                     <div>
                       <DetailInput icon={<ResourcesIcon />} label="必要なリソース" name="resources" value={editableTask.extendedDetails!.resources} onChange={e => updateExtended({resources: e.target.value})} type="textarea" />
@@ -905,6 +962,7 @@ const TaskDetailModal: React.FC<TaskDetailModalProps> = ({ task, onClose, onUpda
                         <button onClick={handleLocalUndo} disabled={localHistory.length === 0} className="text-xs px-2 py-1 bg-slate-200 text-slate-700 rounded-md hover:bg-slate-300 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-1" title="元に戻す"><UndoIcon className="w-3 h-3"/></button>
                         <button onClick={handleLocalRedo} disabled={localRedoHistory.length === 0} className="text-xs px-2 py-1 bg-slate-200 text-slate-700 rounded-md hover:bg-slate-300 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-1" title="やり直し"><RedoIcon className="w-3 h-3"/></button>
                         <button onClick={handleAddSubStep} className="text-xs px-2 py-1 bg-blue-500 text-white rounded-md hover:bg-blue-600 flex items-center gap-1"><PlusIcon className="w-3 h-3"/>追加</button>
+                        <button onClick={() => setBlueprintLibraryKind('substep')} className="text-xs px-2 py-1 bg-slate-200 text-slate-700 rounded-md hover:bg-slate-300 flex items-center gap-1" title="サブステップのブループリント"><ClipboardDocumentListIcon className="w-3 h-3"/>ライブラリ</button>
                         <button onClick={handleAutoLayoutSubSteps} className="text-xs px-2 py-1 bg-slate-200 text-slate-700 rounded-md hover:bg-slate-300 flex items-center gap-1" title="自動整列"><RefreshIcon className="w-3 h-3"/>整列</button>
                         <button onClick={() => setFocus(focus === 'canvas' ? 'none' : 'canvas')} className="p-1 text-slate-500 hover:text-blue-600" title={focus === 'canvas' ? '元に戻す' : '最大化'}>
                             {focus === 'canvas' ? <ArrowsPointingInIcon className="w-5 h-5"/> : <ArrowsPointingOutIcon className="w-5 h-5"/>}
@@ -939,6 +997,14 @@ const TaskDetailModal: React.FC<TaskDetailModalProps> = ({ task, onClose, onUpda
                     </div>
                   <div className="flex items-center justify-between border-b pb-2">
                     <h5 className="text-lg font-semibold text-slate-800">サブステップ詳細</h5>
+                    {selectedSubStep && (
+                      <CommentButton
+                        target={{ type: 'substep', id: selectedSubStep.id, taskId: task.id, label: `${editableTask.title} / ${selectedSubStep.text}` }}
+                        board={commentBoard}
+                        label="コメント"
+                        className="ml-auto mr-2 flex items-center gap-1 px-2 py-1 text-xs text-slate-600 bg-slate-100 rounded-md hover:bg-slate-200"
+                      />
+                    )}
                     <button onClick={() => setFocus(focus === 'details' ? 'none' : 'details')} disabled={!selectedSubStep} className="p-1 text-slate-500 hover:text-blue-600 disabled:text-slate-300 disabled:cursor-not-allowed" title={focus === 'details' ? '元に戻す' : '最大化'}>
                       {focus === 'details' ? <ArrowsPointingInIcon className="w-5 h-5"/> : <ArrowsPointingOutIcon className="w-5 h-5"/>}
                     </button>
@@ -949,6 +1015,7 @@ const TaskDetailModal: React.FC<TaskDetailModalProps> = ({ task, onClose, onUpda
                           <DetailInput label="テキスト" name="text" value={selectedSubStep.text} onChange={(e) => handleUpdateSubStep(selectedSubStep.id, {text: e.target.value})} type="textarea" />
                           <DetailInput label="担当者" name="responsible" value={selectedSubStep.responsible || ''} onChange={(e) => handleUpdateSubStep(selectedSubStep.id, {responsible: e.target.value})} />
                           <DetailInput label="期日" name="dueDate" type="date" value={selectedSubStep.dueDate || ''} onChange={(e) => handleUpdateSubStep(selectedSubStep.id, {dueDate: e.target.value})} />
+                          <DetailInput label="見積工数（日）" name="estimatedDays" type="number" placeholder="未設定の場合はアクションアイテムから算出" value={selectedSubStep.estimatedDays ?? ''} onChange={(e) => handleUpdateSubStep(selectedSubStep.id, {estimatedDays: parseEstimatedDays(e.target.value)})} />
                           <div><label className="block text-sm font-medium text-slate-700 mb-1">ステータス</label>
                             <select value={selectedSubStep.status || SubStepStatus.NOT_STARTED} onChange={(e) => handleUpdateSubStep(selectedSubStep.id, {status: e.target.value as SubStepStatus})} className="w-full p-2 border rounded-md text-sm bg-white text-slate-900">
                               {Object.values(SubStepStatus).map(s => <option key={s} value={s}>{s}</option>)}</select></div>
@@ -961,7 +1028,17 @@ const TaskDetailModal: React.FC<TaskDetailModalProps> = ({ task, onClose, onUpda
                               onRemove={(itemId) => handleRemoveActionItem(selectedSubStep.id, itemId)}
                               onOpenReport={handleOpenActionReport}
                               onOpenTable={() => setIsActionTableModalOpen(true)}
+                              renderComments={commentBoard ? (item) => (
+                                <CommentButton
+                                  target={{ type: 'actionitem', id: item.id, taskId: task.id, label: `${selectedSubStep.text} / ${item.text}` }}
+                                  board={commentBoard}
+                                />
+                              ) : undefined}
                           />
+                          <button onClick={() => setBlueprintLibraryKind('checklist')} className="text-xs text-blue-600 hover:text-blue-800 font-medium flex items-center gap-1">
+                            <ClipboardDocumentListIcon className="w-4 h-4" />
+                            チェックリストのライブラリ
+                          </button>
                           <div>
                             <label className="flex items-center justify-between text-sm font-medium text-slate-700 mb-1">
                                 このサブステップの添付資料
@@ -990,6 +1067,7 @@ const TaskDetailModal: React.FC<TaskDetailModalProps> = ({ task, onClose, onUpda
               onClose={() => setIsDecisionModalOpen(false)}
               onSave={handleSaveDecisions}
               generateUniqueId={generateUniqueId}
+              commentBoard={commentBoard}
           />
       )}
       {isTaskActionItemTableOpen && (
@@ -1016,6 +1094,46 @@ const TaskDetailModal: React.FC<TaskDetailModalProps> = ({ task, onClose, onUpda
             onReportGenerated={handleCustomReportGenerated}
         />
       )}
+      {blueprintLibraryKind === 'task' && (
+        <BlueprintLibraryModal
+            kind="task"
+            onClose={() => setBlueprintLibraryKind(null)}
+            source={{ task: editableTask }}
+            sourceName={editableTask.title}
+            currentUserId={currentUserId}
+        />
+      )}
+      {blueprintLibraryKind === 'substep' && (
+        <BlueprintLibraryModal
+            kind="substep"
+            onClose={() => setBlueprintLibraryKind(null)}
+            source={selectedSubStep ? { subStep: selectedSubStep } : null}
+            sourceName={selectedSubStep?.text}
+            onInsert={handleInsertSubStepBlueprint}
+            defaultAnchorDate={editableTask.extendedDetails?.dueDate || targetDate}
+            currentUserId={currentUserId}
+        />
+      )}
+      {blueprintLibraryKind === 'checklist' && selectedSubStep && (
+        <BlueprintLibraryModal
+            kind="checklist"
+            onClose={() => setBlueprintLibraryKind(null)}
+            source={(selectedSubStep.actionItems || []).length > 0 ? { actionItems: selectedSubStep.actionItems } : null}
+            sourceName={selectedSubStep.text}
+            onInsert={(blueprint, anchorDate) => handleInsertChecklistBlueprint(selectedSubStep.id, blueprint, anchorDate)}
+            defaultAnchorDate={selectedSubStep.dueDate || editableTask.extendedDetails?.dueDate || targetDate}
+            currentUserId={currentUserId}
+        />
+      )}
+      {isActivityLogOpen && projectId && (
+        <ActivityLogModal
+            isOpen={isActivityLogOpen}
+            onClose={() => setIsActivityLogOpen(false)}
+            projectId={projectId}
+            taskId={task.id}
+            title={editableTask.title}
+        />
+      )}
     </>
   );
 };
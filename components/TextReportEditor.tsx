@@ -0,0 +1,302 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { Attachment, ProjectDocument } from '../types';
+import { ProjectService } from '../services/projectService';
+import { resolveAttachmentUrl } from '../services/attachmentStorage';
+import { renderMarkdownHtml, attachmentImageMarkdown, exportReportMarkdown, exportReportHtml, exportReportDocx } from '../services/markdownReport';
+import { ArrowLeftIcon, DownloadIcon, TrashIcon } from './icons';
+import LoadingSpinner from './LoadingSpinner';
+import ErrorMessage from './ErrorMessage';
+import AttachmentPreview from './AttachmentPreview';
+
+export interface TextReportDraft {
+  id?: string; // Set once the report is saved as a project document
+  title: string;
+  content: string;
+  attachments: Attachment[];
+}
+
+export interface ReportImageOption {
+  attachment: Attachment;
+  location: string; // Task / sub-step / action item the image belongs to
+}
+
+interface TextReportEditorProps {
+  draft: TextReportDraft;
+  images: ReportImageOption[]; // Image attachments of the project
+  projectId: string | null; // Documents can only be saved in projects saved to the cloud
+  canEdit: boolean;
+  onSaved: (document: ProjectDocument) => void;
+  onDeleted: (documentId: string) => void;
+  onBack: () => void;
+}
+
+const MARKDOWN_STYLE = `
+.markdown-body { color: #1e293b; line-height: 1.7; font-size: 14px; }
+.markdown-body h1 { font-size: 1.6em; font-weight: 700; margin: 1em 0 .5em; border-bottom: 2px solid #e2e8f0; padding-bottom: .2em; }
+.markdown-body h2 { font-size: 1.35em; font-weight: 700; margin: 1em 0 .5em; border-bottom: 1px solid #e2e8f0; padding-bottom: .2em; }
+.markdown-body h3 { font-size: 1.15em; font-weight: 700; margin: 1em 0 .4em; }
+.markdown-body h4, .markdown-body h5, .markdown-body h6 { font-weight: 700; margin: .8em 0 .3em; }
+.markdown-body p { margin: .5em 0; }
+.markdown-body ul { list-style: disc; padding-left: 1.5em; margin: .5em 0; }
+.markdown-body ol { list-style: decimal; padding-left: 1.5em; margin: .5em 0; }
+.markdown-body table { border-collapse: collapse; margin: .8em 0; }
+.markdown-body th, .markdown-body td { border: 1px solid #cbd5e1; padding: 4px 10px; }
+.markdown-body th { background: #f1f5f9; font-weight: 600; }
+.markdown-body blockquote { border-left: 4px solid #cbd5e1; padding-left: 12px; color: #475569; margin: .8em 0; }
+.markdown-body code { background: #f1f5f9; padding: 1px 4px; border-radius: 3px; font-size: .9em; }
+.markdown-body pre code { display: block; padding: 12px; overflow-x: auto; }
+.markdown-body img { max-width: 100%; margin: .5em 0; }
+.markdown-body a { color: #2563eb; text-decoration: underline; }
+.markdown-body hr { border-color: #e2e8f0; margin: 1em 0; }
+.markdown-body .missing-image { color: #64748b; font-size: .9em; }
+`;
+
+const downloadFile = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+const TextReportEditor: React.FC<TextReportEditorProps> = ({ draft, images, projectId, canEdit, onSaved, onDeleted, onBack }) => {
+  const [documentId, setDocumentId] = useState<string | undefined>(draft.id);
+  const [title, setTitle] = useState(draft.title);
+  const [content, setContent] = useState(draft.content);
+  const [selectedImages, setSelectedImages] = useState<Attachment[]>(draft.attachments);
+  const [tab, setTab] = useState<'edit' | 'preview'>('preview');
+  const [imageUrls, setImageUrls] = useState<Record<string, string>>({});
+  const [busy, setBusy] = useState<'save' | 'delete' | 'markdown' | 'html' | 'docx' | null>(null);
+  const [isDirty, setIsDirty] = useState(!draft.id);
+  const [error, setError] = useState<string | null>(null);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const requestedImages = useRef(new Set<string>());
+
+  // Images referenced in the text can come from outside the selection, e.g. after pasting
+  const referencedImages = useMemo(
+    () => images.map((option: ReportImageOption) => option.attachment).filter((attachment: Attachment) => content.includes(`attachment:${attachment.id})`)),
+    [images, content],
+  );
+
+  useEffect(() => {
+    [...selectedImages, ...referencedImages]
+      .filter(attachment => !requestedImages.current.has(attachment.id))
+      .forEach(attachment => {
+        requestedImages.current.add(attachment.id);
+        resolveAttachmentUrl(attachment)
+          .then(url => setImageUrls(prev => ({ ...prev, [attachment.id]: url })))
+          .catch(err => console.error(`Failed to load ${attachment.name}:`, err));
+      });
+  }, [selectedImages, referencedImages]);
+
+  const previewHtml = useMemo(() => renderMarkdownHtml(content, id => imageUrls[id]), [content, imageUrls]);
+
+  const reportAttachments = () => {
+    const ids = new Set(selectedImages.map(attachment => attachment.id));
+    return [...selectedImages, ...referencedImages.filter(attachment => !ids.has(attachment.id))];
+  };
+
+  const updateContent = (value: string) => {
+    setContent(value);
+    setIsDirty(true);
+  };
+
+  const toggleImage = (attachment: Attachment) => {
+    setSelectedImages(prev => (prev.some(a => a.id === attachment.id) ? prev.filter(a => a.id !== attachment.id) : [...prev, attachment]));
+    setIsDirty(true);
+  };
+
+  const insertImage = (attachment: Attachment) => {
+    const textarea = textareaRef.current;
+    const position = textarea ? textarea.selectionStart : content.length;
+    const snippet = `\n\n${attachmentImageMarkdown(attachment)}\n\n`;
+    updateContent(content.slice(0, position) + snippet + content.slice(position));
+    setTab('edit');
+    if (!selectedImages.some(a => a.id === attachment.id)) setSelectedImages(prev => [...prev, attachment]);
+  };
+
+  const handleSave = async () => {
+    if (!projectId) return;
+    setBusy('save');
+    setError(null);
+    try {
+      const saved = await ProjectService.saveProjectDocument({
+        id: documentId,
+        projectId,
+        title: title.trim() || '無題のレポート',
+        content,
+        attachments: reportAttachments(),
+      });
+      setDocumentId(saved.id);
+      setIsDirty(false);
+      onSaved(saved);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'ドキュメントの保存に失敗しました');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!documentId || !confirm(`「${title}」を削除しますか？`)) return;
+    setBusy('delete');
+    try {
+      await ProjectService.deleteProjectDocument(documentId);
+      onDeleted(documentId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'ドキュメントの削除に失敗しました');
+      setBusy(null);
+    }
+  };
+
+  const handleExport = async (format: 'markdown' | 'html' | 'docx') => {
+    const reportTitle = title.trim() || 'レポート';
+    const fileName = reportTitle.replace(/[\\/:*?"<>|]/g, '_').slice(0, 60);
+    setBusy(format);
+    setError(null);
+    try {
+      if (format === 'markdown') {
+        const markdown = await exportReportMarkdown(reportTitle, content, reportAttachments());
+        downloadFile(new Blob([markdown], { type: 'text/markdown' }), `${fileName}.md`);
+      } else if (format === 'html') {
+        const html = await exportReportHtml(reportTitle, content, reportAttachments());
+        downloadFile(new Blob([html], { type: 'text/html' }), `${fileName}.html`);
+      } else {
+        downloadFile(await exportReportDocx(reportTitle, content, reportAttachments()), `${fileName}.docx`);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'レポートの書き出しに失敗しました');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleBack = () => {
+    if (isDirty && !confirm('保存していない変更があります。破棄して戻りますか？')) return;
+    onBack();
+  };
+
+  const exportButton = (format: 'markdown' | 'html' | 'docx', label: string) => (
+    <button
+      onClick={() => handleExport(format)}
+      disabled={busy !== null}
+      className="flex items-center gap-2 px-3 py-2 text-sm font-medium text-slate-700 bg-white border border-slate-300 rounded-md shadow-sm hover:bg-slate-50 disabled:opacity-60"
+    >
+      {busy === format ? <LoadingSpinner size="sm" /> : <DownloadIcon className="w-4 h-4" />}
+      {label}
+    </button>
+  );
+
+  return (
+    <>
+      <style>{MARKDOWN_STYLE}</style>
+      <main className="flex-grow p-6 overflow-hidden grid grid-cols-1 lg:grid-cols-[1fr_280px] gap-6 min-h-0">
+        <div className="flex flex-col min-h-0">
+          <input
+            type="text"
+            value={title}
+            onChange={(e) => { setTitle(e.target.value); setIsDirty(true); }}
+            placeholder="レポートのタイトル"
+            className="w-full px-3 py-2 mb-3 border border-slate-300 rounded-md text-lg font-semibold text-slate-800"
+          />
+          {error && <div className="mb-3"><ErrorMessage message={error} /></div>}
+          <div className="flex gap-1 mb-2">
+            {(['preview', 'edit'] as const).map(value => (
+              <button
+                key={value}
+                onClick={() => setTab(value)}
+                className={`px-4 py-1.5 text-sm font-medium rounded-md ${tab === value ? 'bg-white text-blue-700 shadow-sm border border-slate-300' : 'text-slate-600 hover:bg-slate-200'}`}
+              >
+                {value === 'preview' ? 'プレビュー' : '編集（Markdown）'}
+              </button>
+            ))}
+          </div>
+          {tab === 'edit' ? (
+            <textarea
+              ref={textareaRef}
+              value={content}
+              onChange={(e) => updateContent(e.target.value)}
+              className="flex-grow min-h-[300px] w-full p-4 border border-slate-300 rounded-lg font-mono text-sm leading-relaxed resize-none"
+              spellCheck={false}
+            />
+          ) : (
+            <div
+              className="markdown-body flex-grow min-h-[300px] overflow-y-auto bg-white border border-slate-200 rounded-lg p-6"
+              dangerouslySetInnerHTML={{ __html: previewHtml }}
+            />
+          )}
+        </div>
+
+        <aside className="flex flex-col min-h-0">
+          <h4 className="font-semibold text-slate-800 mb-1">画像</h4>
+          <p className="text-xs text-slate-500 mb-2">チェックした画像は書き出すファイルに埋め込まれます。本文で参照していない画像は末尾にまとめて入ります。</p>
+          <div className="flex-grow overflow-y-auto space-y-2 pr-1">
+            {images.length === 0 ? (
+              <p className="text-sm text-slate-500">このプロジェクトには画像の添付ファイルがありません。</p>
+            ) : images.map(({ attachment, location }: ReportImageOption) => (
+              <div key={attachment.id} className="flex items-center gap-2 bg-white border border-slate-200 rounded-md p-2">
+                <input
+                  type="checkbox"
+                  checked={selectedImages.some(a => a.id === attachment.id)}
+                  onChange={() => toggleImage(attachment)}
+                  className="w-4 h-4 accent-blue-600 flex-shrink-0"
+                />
+                <div className="w-10 h-10 flex-shrink-0 border rounded overflow-hidden">
+                  <AttachmentPreview attachment={attachment} iconClassName="w-4 h-4" />
+                </div>
+                <div className="min-w-0 flex-grow">
+                  <p className="text-xs font-medium text-slate-800 truncate" title={attachment.name}>{attachment.name}</p>
+                  <p className="text-[11px] text-slate-500 truncate" title={location}>{location}</p>
+                </div>
+                <button
+                  onClick={() => insertImage(attachment)}
+                  className="text-xs px-2 py-1 text-blue-700 bg-blue-50 rounded hover:bg-blue-100 flex-shrink-0"
+                  title="カーソルの位置に画像を挿入"
+                >
+                  挿入
+                </button>
+              </div>
+            ))}
+          </div>
+        </aside>
+      </main>
+      <footer className="flex-shrink-0 p-4 bg-white border-t flex flex-wrap justify-between items-center gap-3 rounded-b-xl">
+        <div className="flex items-center gap-2">
+          <button onClick={handleBack} className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-slate-700 bg-slate-100 border border-slate-300 rounded-md shadow-sm hover:bg-slate-200">
+            <ArrowLeftIcon className="w-4 h-4" />
+            資料一覧に戻る
+          </button>
+          {documentId && canEdit && (
+            <button
+              onClick={handleDelete}
+              disabled={busy !== null}
+              className="p-2 text-slate-400 hover:text-red-600"
+              title="ドキュメントを削除"
+            >
+              <TrashIcon className="w-5 h-5" />
+            </button>
+          )}
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          {exportButton('docx', 'Word')}
+          {exportButton('markdown', 'Markdown')}
+          {exportButton('html', 'HTML')}
+          <button
+            onClick={handleSave}
+            disabled={busy !== null || !projectId || !canEdit}
+            className="flex items-center gap-2 px-6 py-2 text-sm font-medium text-white bg-blue-600 rounded-md shadow-sm hover:bg-blue-700 disabled:bg-slate-400"
+            title={!projectId ? 'プロジェクトを保存するとドキュメントを保存できます' : !canEdit ? '編集権限が必要です' : 'プロジェクトのドキュメントとして保存'}
+          >
+            {busy === 'save' && <LoadingSpinner size="sm" color="border-white" />}
+            {documentId ? (isDirty ? '変更を保存' : '保存済み') : 'プロジェクトに保存'}
+          </button>
+        </div>
+      </footer>
+    </>
+  );
+};
+
+export default TextReportEditor;
@@ -0,0 +1,326 @@
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { ProjectTask, ProjectVersion, ProjectVersionSummary } from '../types';
+import { ProjectService } from '../services/projectService';
+import { VersionComparison, diffProjects } from '../services/projectDiff';
+import ProjectDiffView from './ProjectDiffView';
+import { XIcon, RefreshIcon } from './icons';
+import LoadingSpinner from './LoadingSpinner';
+import ErrorMessage from './ErrorMessage';
+
+interface VersionHistoryModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  projectId: string;
+  currentTasks: ProjectTask[];
+  canRestore: boolean;
+  onPreview: (version: ProjectVersion, comparison?: VersionComparison) => void;
+  onRestore: (version: ProjectVersion) => void;
+  onRestoreTasks: (version: ProjectVersion, taskIds: string[]) => void;
+}
+
+const PAGE_SIZE = 50;
+
+type TaskComparison = 'unchanged' | 'changed' | 'deleted';
+
+const COMPARISON_LABELS: Record<string, string> = {
+  unchanged: '現在と同じ',
+  changed: '変更あり',
+  deleted: '削除済み',
+};
+
+const COMPARISON_STYLES: Record<string, string> = {
+  unchanged: 'bg-slate-100 text-slate-600',
+  changed: 'bg-blue-100 text-blue-800',
+  deleted: 'bg-red-100 text-red-800',
+};
+
+const STATUS_LABELS: Record<string, string> = {
+  'Not Started': '未着手',
+  'In Progress': '進行中',
+  Completed: '完了',
+  Blocked: '停滞中',
+};
+
+const formatDateTime = (value: string) =>
+  new Date(value).toLocaleString('ja-JP', { year: 'numeric', month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit' });
+
+const VersionHistoryModal: React.FC<VersionHistoryModalProps> = ({
+  isOpen, onClose, projectId, currentTasks, canRestore, onPreview, onRestore, onRestoreTasks,
+}) => {
+  const [versions, setVersions] = useState<ProjectVersionSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [hasMore, setHasMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [selected, setSelected] = useState<ProjectVersion | null>(null);
+  const [isLoadingVersion, setIsLoadingVersion] = useState(false);
+  const [selectedTaskIds, setSelectedTaskIds] = useState<string[]>([]);
+  const [view, setView] = useState<'tasks' | 'changes'>('tasks');
+  const [compareVersion, setCompareVersion] = useState<number | null>(null);
+  const [comparison, setComparison] = useState<VersionComparison | null>(null);
+  const [isComparing, setIsComparing] = useState(false);
+  const loadedVersionsRef = useRef(new Map<number, ProjectVersion>());
+
+  const fetchVersion = useCallback(async (version: number) => {
+    const cached = loadedVersionsRef.current.get(version);
+    if (cached) return cached;
+    const loaded = await ProjectService.getProjectVersion(projectId, version);
+    loadedVersionsRef.current.set(version, loaded);
+    return loaded;
+  }, [projectId]);
+
+  const load = useCallback(async (beforeVersion?: number) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const page = await ProjectService.getProjectVersions(projectId, beforeVersion, PAGE_SIZE);
+      setVersions(prev => beforeVersion !== undefined ? [...prev, ...page] : page);
+      setHasMore(page.length === PAGE_SIZE);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'バージョン履歴の取得に失敗しました');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    if (isOpen) load();
+  }, [isOpen, load]);
+
+  const handleSelectVersion = async (summary: ProjectVersionSummary) => {
+    setIsLoadingVersion(true);
+    setError(null);
+    setSelectedTaskIds([]);
+    // Compare with the version saved just before, if it is in the list
+    setCompareVersion(versions.find(version => version.version < summary.version)?.version ?? null);
+    try {
+      setSelected(await fetchVersion(summary.version));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'バージョンの取得に失敗しました');
+    } finally {
+      setIsLoadingVersion(false);
+    }
+  };
+
+  useEffect(() => {
+    setComparison(null);
+    if (view !== 'changes' || !selected || compareVersion === null) return;
+
+    let cancelled = false;
+    setIsComparing(true);
+    setError(null);
+    fetchVersion(compareVersion)
+      .then(from => {
+        if (!cancelled) setComparison({ fromVersion: from.version, diff: diffProjects(from, selected) });
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'バージョンの取得に失敗しました');
+      })
+      .finally(() => {
+        if (!cancelled) setIsComparing(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [view, selected, compareVersion, fetchVersion]);
+
+  const comparisons = useMemo(() => {
+    const result = new Map<string, TaskComparison>();
+    if (!selected) return result;
+    const currentById = new Map(currentTasks.map((task: ProjectTask) => [task.id, task]));
+    selected.tasks.forEach(task => {
+      const current = currentById.get(task.id);
+      if (!current) result.set(task.id, 'deleted');
+      else result.set(task.id, JSON.stringify(current) === JSON.stringify(task) ? 'unchanged' : 'changed');
+    });
+    return result;
+  }, [selected, currentTasks]);
+
+  const toggleTask = (taskId: string) => {
+    setSelectedTaskIds(prev => prev.includes(taskId) ? prev.filter(id => id !== taskId) : [...prev, taskId]);
+  };
+
+  const handleRestore = () => {
+    if (!selected) return;
+    if (!confirm(`プロジェクト全体をバージョン ${selected.version} の状態に戻しますか？現在の内容も履歴に残るため、後から元に戻せます。`)) return;
+    onRestore(selected);
+  };
+
+  const handleRestoreTasks = () => {
+    if (!selected || selectedTaskIds.length === 0) return;
+    onRestoreTasks(selected, selectedTaskIds);
+    setSelectedTaskIds([]);
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-70 backdrop-blur-sm flex items-center justify-center p-4 z-[110]">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-5xl h-[85vh] flex flex-col">
+        <header className="flex items-center justify-between p-4 border-b">
+          <div>
+            <h3 className="text-xl font-bold text-slate-800">バージョン履歴</h3>
+            <p className="text-sm text-slate-500">保存ごとの状態を確認し、プロジェクト全体または個別のタスクを復元できます。</p>
+          </div>
+          <div className="flex items-center gap-2">
+            <button onClick={() => load()} className="p-2 rounded-full hover:bg-slate-100" title="再読み込み">
+              <RefreshIcon className="w-5 h-5 text-slate-600" />
+            </button>
+            <button onClick={onClose} className="p-2 rounded-full hover:bg-slate-100" title="閉じる">
+              <XIcon className="w-5 h-5 text-slate-600" />
+            </button>
+          </div>
+        </header>
+
+        {error && <div className="px-4 pt-3"><ErrorMessage message={error} /></div>}
+
+        <div className="flex flex-grow min-h-0">
+          <aside className="w-72 flex-shrink-0 border-r overflow-y-auto">
+            {!isLoading && versions.length === 0 && (
+              <p className="text-center text-sm text-slate-500 py-12 px-4">保存されたバージョンはまだありません。</p>
+            )}
+            <ol>
+              {versions.map(version => (
+                <li key={version.id}>
+                  <button
+                    onClick={() => handleSelectVersion(version)}
+                    className={`w-full text-left px-4 py-3 border-b hover:bg-slate-50 ${selected?.version === version.version ? 'bg-blue-50' : ''}`}
+                  >
+                    <div className="flex items-center justify-between text-sm">
+                      <span className="font-semibold text-slate-800">バージョン {version.version}</span>
+                      {version === versions[0] && <span className="text-xs px-1.5 py-0.5 rounded bg-green-100 text-green-800">最新</span>}
+                    </div>
+                    <p className="text-xs text-slate-500 mt-0.5">{formatDateTime(version.createdAt)}</p>
+                    <p className="text-xs text-slate-500 truncate">{version.createdByEmail || '不明なユーザー'}</p>
+                  </button>
+                </li>
+              ))}
+            </ol>
+            {isLoading && <div className="flex justify-center py-6"><LoadingSpinner size="md" text="読み込み中..." /></div>}
+            {!isLoading && hasMore && (
+              <div className="flex justify-center p-3">
+                <button onClick={() => load(versions[versions.length - 1]?.version)} className="px-3 py-1.5 text-sm border border-slate-300 rounded-md text-slate-700 hover:bg-slate-50">
+                  さらに読み込む
+                </button>
+              </div>
+            )}
+          </aside>
+
+          <section className="flex-grow flex flex-col min-w-0">
+            {isLoadingVersion ? (
+              <div className="flex-grow flex items-center justify-center"><LoadingSpinner size="md" text="読み込み中..." /></div>
+            ) : !selected ? (
+              <div className="flex-grow flex items-center justify-center text-sm text-slate-500">左の一覧からバージョンを選択してください。</div>
+            ) : (
+              <>
+                <div className="p-4 border-b space-y-1 text-sm text-slate-700">
+                  <p className="font-semibold text-slate-800">{selected.title}</p>
+                  <p><strong>目的:</strong> {selected.goal}</p>
+                  <p><strong>目標日:</strong> {selected.targetDate || '未設定'}</p>
+                  <p className="text-xs text-slate-500">{formatDateTime(selected.createdAt)}・{selected.createdByEmail || '不明なユーザー'}・タスク {selected.tasks.length}件</p>
+                </div>
+                <div className="flex items-center gap-1 px-4 pt-3 border-b text-sm">
+                  {([['tasks', 'タスク'], ['changes', '変更点']] as const).map(([key, label]) => (
+                    <button
+                      key={key}
+                      onClick={() => setView(key)}
+                      className={`px-3 py-1.5 -mb-px border-b-2 ${view === key ? 'border-blue-600 text-blue-700 font-semibold' : 'border-transparent text-slate-600 hover:text-slate-800'}`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                  {view === 'changes' && (
+                    <label className="ml-auto flex items-center gap-2 pb-1 text-xs text-slate-600">
+                      比較対象
+                      <select
+                        value={compareVersion ?? ''}
+                        onChange={e => setCompareVersion(e.target.value ? Number(e.target.value) : null)}
+                        className="px-2 py-1 border border-slate-300 rounded-md bg-white text-slate-700"
+                      >
+                        <option value="">選択してください</option>
+                        {versions.filter(version => version.version !== selected.version).map(version => (
+                          <option key={version.id} value={version.version}>バージョン {version.version}（{formatDateTime(version.createdAt)}）</option>
+                        ))}
+                      </select>
+                    </label>
+                  )}
+                </div>
+                <div className="flex-grow overflow-y-auto p-4">
+                  {view === 'changes' ? (
+                    compareVersion === null ? (
+                      <p className="text-center text-sm text-slate-500 py-8">比較するバージョンを選択してください。</p>
+                    ) : isComparing || !comparison ? (
+                      <div className="flex justify-center py-8"><LoadingSpinner size="md" text="比較中..." /></div>
+                    ) : (
+                      <ProjectDiffView
+                        diff={comparison.diff}
+                        fromLabel={`バージョン ${comparison.fromVersion}`}
+                        toLabel={`バージョン ${selected.version}`}
+                      />
+                    )
+                  ) : selected.tasks.length === 0 ? (
+                    <p className="text-center text-sm text-slate-500 py-8">このバージョンにはタスクがありません。</p>
+                  ) : (
+                    <ul className="space-y-2">
+                      {selected.tasks.map(task => {
+                        const comparison = comparisons.get(task.id) || 'changed';
+                        return (
+                          <li key={task.id} className="flex items-center gap-3 border rounded-lg px-3 py-2">
+                            {canRestore && (
+                              <input
+                                type="checkbox"
+                                checked={selectedTaskIds.includes(task.id)}
+                                onChange={() => toggleTask(task.id)}
+                                disabled={comparison === 'unchanged'}
+                                className="h-4 w-4 rounded border-slate-300 text-blue-600"
+                              />
+                            )}
+                            <div className="min-w-0 flex-grow">
+                              <p className="text-sm font-medium text-slate-800 truncate">{task.title}</p>
+                              <p className="text-xs text-slate-500">
+                                {STATUS_LABELS[task.status || 'Not Started']}・サブステップ {task.extendedDetails?.subSteps?.length || 0}件
+                              </p>
+                            </div>
+                            <span className={`px-1.5 py-0.5 rounded text-xs font-medium whitespace-nowrap ${COMPARISON_STYLES[comparison]}`}>
+                              {COMPARISON_LABELS[comparison]}
+                            </span>
+                          </li>
+                        );
+                      })}
+                    </ul>
+                  )}
+                </div>
+                <footer className="flex flex-wrap justify-end gap-2 p-4 border-t bg-slate-50">
+                  {view === 'changes' && comparison ? (
+                    <button onClick={() => onPreview(selected, comparison)} className="px-4 py-2 text-sm border border-slate-300 rounded-md bg-white text-slate-700 hover:bg-slate-100">
+                      差分をフローで表示
+                    </button>
+                  ) : (
+                    <button onClick={() => onPreview(selected)} className="px-4 py-2 text-sm border border-slate-300 rounded-md bg-white text-slate-700 hover:bg-slate-100">
+                      フローでプレビュー
+                    </button>
+                  )}
+                  {canRestore && view === 'tasks' && (
+                    <>
+                      <button
+                        onClick={handleRestoreTasks}
+                        disabled={selectedTaskIds.length === 0}
+                        className="px-4 py-2 text-sm rounded-md bg-blue-600 text-white hover:bg-blue-700 disabled:bg-slate-400"
+                      >
+                        選択したタスクを復元{selectedTaskIds.length > 0 ? `（${selectedTaskIds.length}件）` : ''}
+                      </button>
+                      <button onClick={handleRestore} className="px-4 py-2 text-sm rounded-md bg-amber-600 text-white hover:bg-amber-700">
+                        このバージョンに戻す
+                      </button>
+                    </>
+                  )}
+                </footer>
+              </>
+            )}
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VersionHistoryModal;
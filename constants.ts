@@ -1,2 +1,2 @@
-
-export const GEMINI_MODEL_TEXT = 'gemini-2.5-flash-preview-04-17';
\ No newline at end of file
+export const GEMINI_MODEL_TEXT = 'gemini-2.5-flash-preview-04-17';
+export const OPENAI_COMPATIBLE_DEFAULT_MODEL = 'gpt-4o-mini';
@@ -1,7 +1,7 @@
 import { createClient } from '@supabase/supabase-js';
 
-const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
-const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
+export const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
+export const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
 
 if (!supabaseUrl || !supabaseAnonKey) {
   throw new Error('Supabase環境変数が設定されていません');
@@ -25,6 +25,11 @@ export type Database = {
           updated_at: string;
           last_modified_by: string;
           version: number;
+          tasks_migrated_at: string | null;
+          archived_at: string | null;
+          archived_by: string | null;
+          deleted_at: string | null;
+          deleted_by: string | null;
         };
         Insert: {
           id?: string;
@@ -38,6 +43,11 @@ export type Database = {
           updated_at?: string;
           last_modified_by?: string;
           version?: number;
+          tasks_migrated_at?: string | null;
+          archived_at?: string | null;
+          archived_by?: string | null;
+          deleted_at?: string | null;
+          deleted_by?: string | null;
         };
         Update: {
           id?: string;
@@ -51,6 +61,11 @@ export type Database = {
           updated_at?: string;
           last_modified_by?: string;
           version?: number;
+          tasks_migrated_at?: string | null;
+          archived_at?: string | null;
+          archived_by?: string | null;
+          deleted_at?: string | null;
+          deleted_by?: string | null;
         };
       };
       project_members: {
@@ -123,6 +138,529 @@ export type Database = {
           used_at?: string;
         };
       };
+      project_baselines: {
+        Row: {
+          id: string;
+          project_id: string;
+          name: string;
+          gantt_data: any;
+          created_by: string;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          project_id: string;
+          name: string;
+          gantt_data?: any;
+          created_by?: string;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          project_id?: string;
+          name?: string;
+          gantt_data?: any;
+          created_by?: string;
+          created_at?: string;
+        };
+      };
+      project_templates: {
+        Row: {
+          id: string;
+          name: string;
+          description: string;
+          goal: string;
+          tasks_data: any;
+          due_date_offsets: any;
+          variables: any;
+          created_by: string;
+          created_by_email: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          name: string;
+          description?: string;
+          goal?: string;
+          tasks_data?: any;
+          due_date_offsets?: any;
+          variables?: any;
+          created_by: string;
+          created_by_email?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          name?: string;
+          description?: string;
+          goal?: string;
+          tasks_data?: any;
+          due_date_offsets?: any;
+          variables?: any;
+        };
+      };
+      task_blueprints: {
+        Row: {
+          id: string;
+          kind: 'task' | 'substep' | 'checklist';
+          name: string;
+          description: string;
+          content: any;
+          due_date_offsets: any;
+          created_by: string;
+          created_by_email: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          kind: 'task' | 'substep' | 'checklist';
+          name: string;
+          description?: string;
+          content: any;
+          due_date_offsets?: any;
+          created_by: string;
+          created_by_email?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          name?: string;
+          description?: string;
+          content?: any;
+          due_date_offsets?: any;
+        };
+      };
+      calendar_feeds: {
+        Row: {
+          id: string;
+          user_id: string;
+          token: string;
+          name: string;
+          responsible: string | null;
+          project_id: string | null;
+          app_url: string;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          token?: string;
+          name: string;
+          responsible?: string | null;
+          project_id?: string | null;
+          app_url: string;
+          created_at?: string;
+        };
+        Update: never;
+      };
+      project_documents: {
+        Row: {
+          id: string;
+          project_id: string;
+          title: string;
+          content: string;
+          attachments: any;
+          created_by: string | null;
+          updated_by: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          project_id: string;
+          title: string;
+          content?: string;
+          attachments?: any;
+          created_by?: string | null;
+          updated_by?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          title?: string;
+          content?: string;
+          attachments?: any;
+          updated_by?: string | null;
+          updated_at?: string;
+        };
+      };
+      project_comments: {
+        Row: {
+          id: string;
+          project_id: string;
+          target_type: string;
+          target_id: string;
+          task_id: string | null;
+          parent_id: string | null;
+          body: string;
+          mentions: string[];
+          author_id: string | null;
+          author_name: string | null;
+          resolved_at: string | null;
+          resolved_by: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          project_id: string;
+          target_type: string;
+          target_id: string;
+          task_id?: string | null;
+          parent_id?: string | null;
+          body: string;
+          mentions?: string[];
+          author_id?: string | null;
+          author_name?: string | null;
+          resolved_at?: string | null;
+          resolved_by?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          body?: string;
+          mentions?: string[];
+          resolved_at?: string | null;
+          resolved_by?: string | null;
+          updated_at?: string;
+        };
+      };
+      project_comment_reads: {
+        Row: {
+          user_id: string;
+          project_id: string;
+          target_type: string;
+          target_id: string;
+          last_read_at: string;
+        };
+        Insert: {
+          user_id: string;
+          project_id: string;
+          target_type: string;
+          target_id: string;
+          last_read_at?: string;
+        };
+        Update: {
+          last_read_at?: string;
+        };
+      };
+      project_versions: {
+        Row: {
+          id: string;
+          project_id: string;
+          version: number;
+          title: string;
+          goal: string;
+          target_date: string | null;
+          tasks_data: any;
+          gantt_data: any;
+          created_by: string | null;
+          created_by_email: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          project_id: string;
+          version: number;
+          title: string;
+          goal: string;
+          target_date?: string | null;
+          tasks_data?: any;
+          gantt_data?: any;
+          created_by?: string | null;
+          created_by_email?: string | null;
+          created_at?: string;
+        };
+        Update: never;
+      };
+      project_tasks: {
+        Row: {
+          project_id: string;
+          id: string;
+          sort_order: number;
+          title: string;
+          description: string;
+          status: string | null;
+          next_task_ids: string[];
+          canvas_position: any;
+          has_details: boolean;
+          resources: string | null;
+          responsible: string | null;
+          notes: string | null;
+          due_date: string | null;
+          estimated_days: number | null;
+          numerical_target: any;
+          report_deck: any;
+          resource_matrix: any;
+          sub_step_canvas_size: any;
+          extra: any;
+          updated_at: string;
+        };
+        Insert: {
+          project_id: string;
+          id: string;
+          sort_order?: number;
+          title?: string;
+          description?: string;
+          status?: string | null;
+          next_task_ids?: string[];
+          canvas_position?: any;
+          has_details?: boolean;
+          resources?: string | null;
+          responsible?: string | null;
+          notes?: string | null;
+          due_date?: string | null;
+          estimated_days?: number | null;
+          numerical_target?: any;
+          report_deck?: any;
+          resource_matrix?: any;
+          sub_step_canvas_size?: any;
+          extra?: any;
+          updated_at?: string;
+        };
+        Update: {
+          project_id?: string;
+          id?: string;
+          sort_order?: number;
+          title?: string;
+          description?: string;
+          status?: string | null;
+          next_task_ids?: string[];
+          canvas_position?: any;
+          has_details?: boolean;
+          resources?: string | null;
+          responsible?: string | null;
+          notes?: string | null;
+          due_date?: string | null;
+          estimated_days?: number | null;
+          numerical_target?: any;
+          report_deck?: any;
+          resource_matrix?: any;
+          sub_step_canvas_size?: any;
+          extra?: any;
+          updated_at?: string;
+        };
+      };
+      project_sub_steps: {
+        Row: {
+          project_id: string;
+          task_id: string;
+          id: string;
+          sort_order: number;
+          text: string;
+          notes: string | null;
+          next_sub_step_ids: string[];
+          canvas_position: any;
+          responsible: string | null;
+          due_date: string | null;
+          estimated_days: number | null;
+          status: string | null;
+          extra: any;
+          updated_at: string;
+        };
+        Insert: {
+          project_id: string;
+          task_id: string;
+          id: string;
+          sort_order?: number;
+          text?: string;
+          notes?: string | null;
+          next_sub_step_ids?: string[];
+          canvas_position?: any;
+          responsible?: string | null;
+          due_date?: string | null;
+          estimated_days?: number | null;
+          status?: string | null;
+          extra?: any;
+          updated_at?: string;
+        };
+        Update: {
+          project_id?: string;
+          task_id?: string;
+          id?: string;
+          sort_order?: number;
+          text?: string;
+          notes?: string | null;
+          next_sub_step_ids?: string[];
+          canvas_position?: any;
+          responsible?: string | null;
+          due_date?: string | null;
+          estimated_days?: number | null;
+          status?: string | null;
+          extra?: any;
+          updated_at?: string;
+        };
+      };
+      project_action_items: {
+        Row: {
+          project_id: string;
+          task_id: string;
+          sub_step_id: string;
+          id: string;
+          sort_order: number;
+          text: string;
+          completed: boolean;
+          due_date: string | null;
+          completed_date: string | null;
+          responsible: string | null;
+          estimated_days: number | null;
+          has_report: boolean;
+          report_notes: string | null;
+          report_matrix: any;
+          extra: any;
+          updated_at: string;
+        };
+        Insert: {
+          project_id: string;
+          task_id: string;
+          sub_step_id: string;
+          id: string;
+          sort_order?: number;
+          text?: string;
+          completed?: boolean;
+          due_date?: string | null;
+          completed_date?: string | null;
+          responsible?: string | null;
+          estimated_days?: number | null;
+          has_report?: boolean;
+          report_notes?: string | null;
+          report_matrix?: any;
+          extra?: any;
+          updated_at?: string;
+        };
+        Update: {
+          project_id?: string;
+          task_id?: string;
+          sub_step_id?: string;
+          id?: string;
+          sort_order?: number;
+          text?: string;
+          completed?: boolean;
+          due_date?: string | null;
+          completed_date?: string | null;
+          responsible?: string | null;
+          estimated_days?: number | null;
+          has_report?: boolean;
+          report_notes?: string | null;
+          report_matrix?: any;
+          extra?: any;
+          updated_at?: string;
+        };
+      };
+      project_decisions: {
+        Row: {
+          project_id: string;
+          task_id: string;
+          id: string;
+          sort_order: number;
+          question: string;
+          decision: string | null;
+          reasoning: string | null;
+          decided_on: string | null;
+          status: 'decided' | 'undecided';
+          updated_at: string;
+        };
+        Insert: {
+          project_id: string;
+          task_id: string;
+          id: string;
+          sort_order?: number;
+          question?: string;
+          decision?: string | null;
+          reasoning?: string | null;
+          decided_on?: string | null;
+          status?: 'decided' | 'undecided';
+          updated_at?: string;
+        };
+        Update: {
+          project_id?: string;
+          task_id?: string;
+          id?: string;
+          sort_order?: number;
+          question?: string;
+          decision?: string | null;
+          reasoning?: string | null;
+          decided_on?: string | null;
+          status?: 'decided' | 'undecided';
+          updated_at?: string;
+        };
+      };
+      project_attachments: {
+        Row: {
+          project_id: string;
+          task_id: string;
+          sub_step_id: string;
+          action_item_id: string;
+          id: string;
+          sort_order: number;
+          name: string;
+          mime_type: string;
+          size_bytes: number | null;
+          sha256: string | null;
+          storage: string | null;
+          storage_path: string | null;
+          uploaded_by: string | null;
+          uploaded_at: string | null;
+          data_url: string | null;
+          updated_at: string;
+        };
+        Insert: {
+          project_id: string;
+          task_id: string;
+          sub_step_id?: string;
+          action_item_id?: string;
+          id: string;
+          sort_order?: number;
+          name?: string;
+          mime_type?: string;
+          size_bytes?: number | null;
+          sha256?: string | null;
+          storage?: string | null;
+          storage_path?: string | null;
+          uploaded_by?: string | null;
+          uploaded_at?: string | null;
+          data_url?: string | null;
+          updated_at?: string;
+        };
+        Update: {
+          project_id?: string;
+          task_id?: string;
+          sub_step_id?: string;
+          action_item_id?: string;
+          id?: string;
+          sort_order?: number;
+          name?: string;
+          mime_type?: string;
+          size_bytes?: number | null;
+          sha256?: string | null;
+          storage?: string | null;
+          storage_path?: string | null;
+          uploaded_by?: string | null;
+          uploaded_at?: string | null;
+          data_url?: string | null;
+          updated_at?: string;
+        };
+      };
+      project_activity: {
+        Row: {
+          id: number;
+          project_id: string;
+          actor_id: string | null;
+          actor_email: string | null;
+          entity_type: 'task' | 'substep' | 'actionitem' | 'decision' | 'member';
+          entity_id: string;
+          task_id: string | null;
+          sub_step_id: string | null;
+          entity_name: string | null;
+          action: 'created' | 'updated' | 'deleted';
+          changes: any;
+          created_at: string;
+        };
+        Insert: never; // Written by database triggers only
+        Update: never;
+      };
     };
   };
 };
\ No newline at end of file
@@ -0,0 +1,301 @@
+import { GoogleGenAI } from "@google/genai";
+import { GEMINI_MODEL_TEXT, OPENAI_COMPATIBLE_DEFAULT_MODEL } from '../constants';
+
+export type AiProviderKind = 'gemini' | 'openai' | 'mock';
+
+/**
+ * Identifies which generator issued a request. Providers that talk to a real
+ * model ignore it; the mock provider uses it to pick a canned response.
+ */
+export type AiOperation =
+  | 'projectPlan'
+  | 'stepProposals'
+  | 'decisions'
+  | 'initialSlideDeck'
+  | 'regenerateSlideDeck'
+  | 'optimizeSlideLayout'
+  | 'projectHealthReport'
+  | 'projectReportDeck'
+  | 'regenerateProjectReportDeck'
+  | 'customSlideDeck'
+  | 'customTextReport'
+  | 'ganttData';
+
+export type AiContentPart =
+  | { text: string }
+  | { inlineData: { mimeType: string; data: string } };
+
+export interface AiGenerateRequest {
+  operation: AiOperation;
+  contents: string | AiContentPart[];
+  responseMimeType?: 'application/json' | 'text/plain';
+}
+
+export interface AiCallOptions {
+  signal?: AbortSignal;
+  /** When set, the provider streams the response and reports the accumulated text after each chunk. */
+  onChunk?: (textSoFar: string) => void;
+}
+
+export interface AiProvider {
+  readonly kind: AiProviderKind;
+  generateText(request: AiGenerateRequest, options?: AiCallOptions): Promise<string>;
+}
+
+export const createAbortError = (): Error => new DOMException('The operation was aborted.', 'AbortError');
+
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof Error && error.name === 'AbortError';
+
+const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw createAbortError();
+};
+
+export interface AiProviderConfig {
+  kind: AiProviderKind;
+  apiKey: string;
+  baseUrl?: string; // OpenAI-compatible endpoint, e.g. http://localhost:8000/v1
+  model?: string;
+}
+
+export const AI_PROVIDER_LABELS: Record<AiProviderKind, string> = {
+  gemini: 'Google Gemini',
+  openai: 'OpenAI互換 (オンプレミス等)',
+  mock: 'モック (オフライン・テスト用)',
+};
+
+// --- Gemini ---
+
+export class GeminiProvider implements AiProvider {
+  readonly kind = 'gemini' as const;
+  private client: GoogleGenAI;
+  private model: string;
+
+  constructor(apiKey: string, model: string = GEMINI_MODEL_TEXT) {
+    this.client = new GoogleGenAI({ apiKey });
+    this.model = model;
+  }
+
+  async generateText(request: AiGenerateRequest, options: AiCallOptions = {}): Promise<string> {
+    throwIfAborted(options.signal);
+    const params = {
+      model: this.model,
+      contents: typeof request.contents === 'string' ? request.contents : { parts: request.contents },
+      config: { responseMimeType: request.responseMimeType, abortSignal: options.signal },
+    };
+
+    if (!options.onChunk) {
+      const response = await this.client.models.generateContent(params);
+      return response.text ?? '';
+    }
+
+    const stream = await this.client.models.generateContentStream(params);
+    let text = '';
+    for await (const chunk of stream) {
+      throwIfAborted(options.signal);
+      text += chunk.text ?? '';
+      options.onChunk(text);
+    }
+    return text;
+  }
+}
+
+// --- OpenAI-compatible HTTP (chat completions) ---
+
+export class OpenAiCompatibleProvider implements AiProvider {
+  readonly kind = 'openai' as const;
+  private apiKey: string;
+  private baseUrl: string;
+  private model: string;
+
+  constructor(apiKey: string, baseUrl: string, model: string = OPENAI_COMPATIBLE_DEFAULT_MODEL) {
+    this.apiKey = apiKey;
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+    this.model = model;
+  }
+
+  async generateText(request: AiGenerateRequest, options: AiCallOptions = {}): Promise<string> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.apiKey) headers['Authorization'] = `Bearer ${this.apiKey}`;
+    const stream = !!options.onChunk;
+
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers,
+      signal: options.signal,
+      body: JSON.stringify({
+        model: this.model,
+        messages: [{ role: 'user', content: toOpenAiContent(request.contents) }],
+        stream,
+      }),
+    });
+
+    if (!response.ok) {
+      const body = await response.text().catch(() => '');
+      throw new Error(`HTTP ${response.status}: ${body.substring(0, 300)}`);
+    }
+
+    if (stream && response.body) {
+      return readServerSentDeltas(response.body, options);
+    }
+
+    const json = await response.json();
+    const content = json?.choices?.[0]?.message?.content;
+    if (typeof content !== 'string') {
+      throw new Error('OpenAI-compatible endpoint returned no message content.');
+    }
+    return content;
+  }
+}
+
+/**
+ * Reads an OpenAI-style SSE stream ("data: {...}" lines, terminated by "data: [DONE]")
+ * and accumulates the delta contents.
+ */
+const readServerSentDeltas = async (body: ReadableStream<Uint8Array>, options: AiCallOptions): Promise<string> => {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let text = '';
+
+  while (true) {
+    throwIfAborted(options.signal);
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+
+    for (const line of lines) {
+      const trimmed = line.trim();
+      if (!trimmed.startsWith('data:')) continue;
+      const payload = trimmed.slice(5).trim();
+      if (payload === '[DONE]') continue;
+      try {
+        const delta = JSON.parse(payload)?.choices?.[0]?.delta?.content;
+        if (typeof delta === 'string' && delta) {
+          text += delta;
+          options.onChunk?.(text);
+        }
+      } catch {
+        // Ignore keep-alive comments and partial frames.
+      }
+    }
+  }
+  return text;
+};
+
+// Message content parts of the Chat Completions API
+type OpenAiContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string } };
+
+const toOpenAiContent = (contents: string | AiContentPart[]): string | OpenAiContentPart[] => {
+  if (typeof contents === 'string') return contents;
+  return contents.map((part): OpenAiContentPart => 'text' in part
+    ? { type: 'text', text: part.text }
+    : { type: 'image_url', image_url: { url: `data:${part.inlineData.mimeType};base64,${part.inlineData.data}` } });
+};
+
+// --- Deterministic mock ---
+
+const MOCK_SLIDE_DECK = {
+  slideCount: 2, // streaming progress hint; stripped before validation
+  theme: 'business',
+  slides: [
+    {
+      id: 'mock-slide-1', layout: 'title_slide', isLocked: false,
+      elements: [{ id: 'mock-el-1', type: 'textbox', position: { x: 10, y: 35, width: 80, height: 20 }, content: 'モックレポート', fontSize: 'title', fontWeight: 'bold', textAlign: 'center' }],
+    },
+    {
+      id: 'mock-slide-2', layout: 'title_and_content', isLocked: false,
+      elements: [
+        { id: 'mock-el-2', type: 'textbox', position: { x: 5, y: 5, width: 90, height: 15 }, content: '概要', fontSize: 'large', fontWeight: 'bold' },
+        { id: 'mock-el-3', type: 'textbox', position: { x: 5, y: 25, width: 90, height: 65 }, content: 'これはモックプロバイダーが生成した固定のスライドです。', fontSize: 'medium' },
+      ],
+    },
+  ],
+};
+
+const MOCK_RESPONSES: Record<AiOperation, unknown> = {
+  projectPlan: [
+    { id: 'mock-task-1', title: '要件定義', description: 'プロジェクトの要件を整理し、関係者と合意する。' },
+    { id: 'mock-task-2', title: '設計', description: '要件に基づいて設計を行い、レビューを実施する。' },
+    { id: 'mock-task-3', title: '実施・検証', description: '設計に従って実施し、結果を検証する。' },
+  ],
+  stepProposals: [
+    { title: '現状調査', description: '現状の課題とデータを収集する。' },
+    { title: '計画立案', description: '調査結果から実施計画を作成する。' },
+    { title: 'レビュー', description: '計画を関係者とレビューする。' },
+  ],
+  decisions: [
+    { id: 'NEW', question: 'モックの決定事項', decision: '', reasoning: 'モックプロバイダーによる固定の応答です。', date: '', status: 'undecided' },
+  ],
+  initialSlideDeck: MOCK_SLIDE_DECK,
+  regenerateSlideDeck: MOCK_SLIDE_DECK,
+  optimizeSlideLayout: MOCK_SLIDE_DECK,
+  projectHealthReport: {
+    overallStatus: 'On Track',
+    summary: 'モックプロバイダーによる固定の診断結果です。',
+    positivePoints: ['タスクが定義されています。'],
+    areasOfConcern: [],
+    suggestions: ['実際のAIプロバイダーで再診断してください。'],
+  },
+  projectReportDeck: MOCK_SLIDE_DECK,
+  regenerateProjectReportDeck: MOCK_SLIDE_DECK,
+  customSlideDeck: MOCK_SLIDE_DECK,
+  customTextReport: '# モックレポート\n\nこれはモックプロバイダーが生成した固定のテキストレポートです。',
+  ganttData: [],
+};
+
+const MOCK_STREAM_CHUNKS = 8;
+const MOCK_STREAM_DELAY_MS = 80;
+
+/**
+ * Returns a fixed response per operation without any network access.
+ * Individual responses can be overridden, e.g. to feed malformed output in tests.
+ */
+export class MockAiProvider implements AiProvider {
+  readonly kind = 'mock' as const;
+  private overrides: Partial<Record<AiOperation, string | ((request: AiGenerateRequest) => string)>>;
+
+  constructor(overrides: Partial<Record<AiOperation, string | ((request: AiGenerateRequest) => string)>> = {}) {
+    this.overrides = overrides;
+  }
+
+  async generateText(request: AiGenerateRequest, options: AiCallOptions = {}): Promise<string> {
+    throwIfAborted(options.signal);
+    const text = this.resolveResponse(request);
+    if (!options.onChunk) return text;
+
+    // Simulate streaming in fixed-size chunks so progress UIs can be exercised offline.
+    const chunkSize = Math.max(1, Math.ceil(text.length / MOCK_STREAM_CHUNKS));
+    for (let end = chunkSize; end < text.length + chunkSize; end += chunkSize) {
+      await new Promise(resolve => setTimeout(resolve, MOCK_STREAM_DELAY_MS));
+      throwIfAborted(options.signal);
+      options.onChunk(text.substring(0, end));
+    }
+    return text;
+  }
+
+  private resolveResponse(request: AiGenerateRequest): string {
+    const override = this.overrides[request.operation];
+    if (typeof override === 'function') return override(request);
+    if (typeof override === 'string') return override;
+    const canned = MOCK_RESPONSES[request.operation];
+    return typeof canned === 'string' ? canned : JSON.stringify(canned, null, 2);
+  }
+}
+
+export const createAiProvider = (config: AiProviderConfig): AiProvider => {
+  switch (config.kind) {
+    case 'gemini':
+      if (!config.apiKey) throw new Error('Gemini APIキーが必要です。');
+      return new GeminiProvider(config.apiKey, config.model || GEMINI_MODEL_TEXT);
+    case 'openai':
+      if (!config.baseUrl) throw new Error('OpenAI互換エンドポイントのURLが必要です。');
+      return new OpenAiCompatibleProvider(config.apiKey, config.baseUrl, config.model || OPENAI_COMPATIBLE_DEFAULT_MODEL);
+    case 'mock':
+      return new MockAiProvider();
+  }
+};
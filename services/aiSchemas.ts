@@ -0,0 +1,317 @@
+import { ProjectTask } from '../types';
+
+/**
+ * Lightweight runtime schemas for AI responses.
+ * Each validator returns a list of field-level issues; an empty list means the
+ * value can be trusted by the UI. Issue messages are written for the model, since
+ * they are sent back verbatim in the repair prompt.
+ */
+
+export interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+type Check = (value: unknown, path: string, issues: ValidationIssue[]) => void;
+
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+
+export const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const str = (opts: { nonEmpty?: boolean; date?: boolean } = {}): Check => (value, path, issues) => {
+  if (typeof value !== 'string') {
+    issues.push({ path, message: `must be a string, got ${value === null ? 'null' : typeof value}` });
+    return;
+  }
+  if (opts.nonEmpty && !value.trim()) issues.push({ path, message: 'must not be empty' });
+  if (opts.date && value !== '' && (!DATE_REGEX.test(value) || isNaN(new Date(value).getTime()))) {
+    issues.push({ path, message: `must be a date in YYYY-MM-DD format, got "${value}"` });
+  }
+};
+
+const num = (opts: { min?: number; max?: number } = {}): Check => (value, path, issues) => {
+  if (typeof value !== 'number' || !isFinite(value)) {
+    issues.push({ path, message: `must be a number, got ${JSON.stringify(value)}` });
+    return;
+  }
+  if (opts.min !== undefined && value < opts.min) issues.push({ path, message: `must be >= ${opts.min}, got ${value}` });
+  if (opts.max !== undefined && value > opts.max) issues.push({ path, message: `must be <= ${opts.max}, got ${value}` });
+};
+
+const bool = (): Check => (value, path, issues) => {
+  if (typeof value !== 'boolean') issues.push({ path, message: `must be a boolean, got ${JSON.stringify(value)}` });
+};
+
+const oneOf = (allowed: readonly string[]): Check => (value, path, issues) => {
+  if (typeof value !== 'string' || !allowed.includes(value)) {
+    issues.push({ path, message: `must be one of ${allowed.map(a => `'${a}'`).join(', ')}, got ${JSON.stringify(value)}` });
+  }
+};
+
+const nullable = (check: Check): Check => (value, path, issues) => {
+  if (value !== null) check(value, path, issues);
+};
+
+const optional = (check: Check): Check => (value, path, issues) => {
+  if (value !== undefined && value !== null) check(value, path, issues);
+};
+
+const arrayOf = (check: Check, opts: { nonEmpty?: boolean } = {}): Check => (value, path, issues) => {
+  if (!Array.isArray(value)) {
+    issues.push({ path, message: 'must be an array' });
+    return;
+  }
+  if (opts.nonEmpty && value.length === 0) issues.push({ path, message: 'must contain at least one item' });
+  value.forEach((item, i) => check(item, `${path}[${i}]`, issues));
+};
+
+const object = (shape: Record<string, Check>): Check => (value, path, issues) => {
+  if (!isObject(value)) {
+    issues.push({ path, message: 'must be an object' });
+    return;
+  }
+  Object.entries(shape).forEach(([key, check]) => check(value[key], `${path}.${key}`, issues));
+};
+
+const run = (check: Check, value: unknown): ValidationIssue[] => {
+  const issues: ValidationIssue[] = [];
+  check(value, '$', issues);
+  return issues;
+};
+
+const checkUniqueIds = (items: { id?: unknown }[], path: string, issues: ValidationIssue[]) => {
+  const seen = new Set<unknown>();
+  items.forEach((item, i) => {
+    if (seen.has(item.id)) issues.push({ path: `${path}[${i}].id`, message: `duplicate id "${item.id}"` });
+    seen.add(item.id);
+  });
+};
+
+// --- ProjectTask[] (project plan) ---
+
+const projectTaskCheck = object({
+  id: str({ nonEmpty: true }),
+  title: str({ nonEmpty: true }),
+  description: str({ nonEmpty: true }),
+  nextTaskIds: optional(arrayOf(str())),
+});
+
+export const validateProjectTasks = (value: unknown): ValidationIssue[] => {
+  const issues = run(arrayOf(projectTaskCheck, { nonEmpty: true }), value);
+  if (issues.length > 0) return issues;
+
+  const tasks = value as ProjectTask[];
+  checkUniqueIds(tasks, '$', issues);
+  const ids = new Set(tasks.map(t => t.id));
+  tasks.forEach((task, i) => {
+    (task.nextTaskIds || []).forEach((nextId, j) => {
+      if (!ids.has(nextId)) issues.push({ path: `$[${i}].nextTaskIds[${j}]`, message: `references unknown task id "${nextId}"` });
+    });
+  });
+  return issues;
+};
+
+// --- Step proposals ---
+
+export const validateStepProposals = (value: unknown): ValidationIssue[] =>
+  run(arrayOf(object({ title: str({ nonEmpty: true }), description: str({ nonEmpty: true }) }), { nonEmpty: true }), value);
+
+// --- Decision[] ---
+
+const decisionCheck = object({
+  id: str({ nonEmpty: true }),
+  question: str({ nonEmpty: true }),
+  decision: optional(str()),
+  reasoning: optional(str()),
+  date: optional(str({ date: true })),
+  status: oneOf(['decided', 'undecided']),
+});
+
+/**
+ * @param existingIds IDs the model is allowed to reuse; anything else must be 'NEW'.
+ */
+export const validateDecisions = (value: unknown, existingIds?: string[]): ValidationIssue[] => {
+  const issues = run(arrayOf(decisionCheck), value);
+  if (issues.length > 0 || !existingIds) return issues;
+
+  const allowed = new Set(existingIds);
+  (value as { id: string }[]).forEach((d, i) => {
+    if (d.id !== 'NEW' && !allowed.has(d.id)) {
+      issues.push({ path: `$[${i}].id`, message: `unknown id "${d.id}"; use an existing decision id or 'NEW'` });
+    }
+  });
+  checkUniqueIds((value as { id: string }[]).filter(d => d.id !== 'NEW'), '$', issues);
+  return issues;
+};
+
+// --- SlideDeck ---
+
+const positionCheck = object({
+  x: num({ min: 0, max: 100 }),
+  y: num({ min: 0, max: 100 }),
+  width: num({ min: 0, max: 100 }),
+  height: num({ min: 0, max: 100 }),
+});
+
+const elementShapes: Record<string, Record<string, Check>> = {
+  textbox: {
+    content: str(),
+    fontSize: optional(oneOf(['small', 'medium', 'large', 'title'])),
+    fontWeight: optional(oneOf(['normal', 'bold'])),
+    textAlign: optional(oneOf(['left', 'center', 'right'])),
+  },
+  image: { subStepId: str({ nonEmpty: true }), actionItemId: str({ nonEmpty: true }), attachmentId: str({ nonEmpty: true }) },
+  table: { subStepId: str({ nonEmpty: true }), actionItemId: str({ nonEmpty: true }) },
+  chart: { subStepId: str({ nonEmpty: true }), actionItemId: str({ nonEmpty: true }), chartType: oneOf(['bar', 'pie', 'line']), title: str() },
+  flowchart: { data: object({ subSteps: arrayOf(object({ id: str({ nonEmpty: true }), text: str() })) }) },
+};
+
+const slideElementCheck: Check = (value, path, issues) => {
+  if (!isObject(value)) {
+    issues.push({ path, message: 'must be an object' });
+    return;
+  }
+  str({ nonEmpty: true })(value.id, `${path}.id`, issues);
+  positionCheck(value.position, `${path}.position`, issues);
+  const shape = typeof value.type === 'string' ? elementShapes[value.type] : undefined;
+  if (!shape) {
+    oneOf(Object.keys(elementShapes))(value.type, `${path}.type`, issues);
+    return;
+  }
+  object(shape)(value, path, issues);
+};
+
+const slideCheck: Check = (value, path, issues) => {
+  if (!isObject(value)) {
+    issues.push({ path, message: 'must be an object' });
+    return;
+  }
+  str({ nonEmpty: true })(value.id, `${path}.id`, issues);
+  optional(bool())(value.isLocked, `${path}.isLocked`, issues);
+  optional(str())(value.notes, `${path}.notes`, issues);
+  // Locked slides are sent to the model as summaries and may come back without a layout.
+  if (value.isLocked !== true) {
+    oneOf(['title_slide', 'title_and_content', 'section_header', 'two_column', 'blank'])(value.layout, `${path}.layout`, issues);
+  }
+  arrayOf(slideElementCheck)(value.elements, `${path}.elements`, issues);
+};
+
+const slideDeckCheck = object({
+  slides: arrayOf(slideCheck, { nonEmpty: true }),
+  theme: optional(oneOf(['light', 'dark', 'business'])),
+});
+
+/**
+ * @param tasks When given, image/table/chart elements must point at action items
+ * (and attachments) that actually exist in these tasks.
+ */
+export const validateSlideDeck = (value: unknown, tasks?: ProjectTask[]): ValidationIssue[] => {
+  const issues = run(slideDeckCheck, value);
+  if (issues.length > 0) return issues;
+
+  const deck = value as { slides: { id: string; elements: any[] }[] };
+  checkUniqueIds(deck.slides, '$.slides', issues);
+  if (!tasks) return issues;
+
+  const actionItems = new Map<string, { attachmentIds: Set<string>; hasMatrix: boolean }>();
+  tasks.forEach(task => task.extendedDetails?.subSteps?.forEach(ss => ss.actionItems?.forEach(item => {
+    actionItems.set(`${ss.id}/${item.id}`, {
+      attachmentIds: new Set((item.report?.attachments || []).map(a => a.id)),
+      hasMatrix: !!item.report?.matrixData,
+    });
+  })));
+
+  deck.slides.forEach((slide, i) => slide.elements.forEach((el, j) => {
+    if (el.type !== 'image' && el.type !== 'table' && el.type !== 'chart') return;
+    const path = `$.slides[${i}].elements[${j}]`;
+    const target = actionItems.get(`${el.subStepId}/${el.actionItemId}`);
+    if (!target) {
+      issues.push({ path, message: `references unknown sub-step/action item "${el.subStepId}"/"${el.actionItemId}"` });
+    } else if (el.type === 'image' && !target.attachmentIds.has(el.attachmentId)) {
+      issues.push({ path: `${path}.attachmentId`, message: `references unknown attachment "${el.attachmentId}"` });
+    } else if (el.type !== 'image' && !target.hasMatrix) {
+      issues.push({ path, message: `action item "${el.actionItemId}" has no matrixData to render a ${el.type}` });
+    }
+  }));
+  return issues;
+};
+
+// --- GanttItem[] ---
+
+const ganttItemCheck = object({
+  id: str({ nonEmpty: true }),
+  name: str({ nonEmpty: true }),
+  start: str({ nonEmpty: true, date: true }),
+  end: str({ nonEmpty: true, date: true }),
+  progress: num({ min: 0, max: 100 }),
+  dependencies: arrayOf(str()),
+  type: oneOf(['task', 'substep', 'actionitem']),
+  parentId: nullable(str()),
+});
+
+const EXPECTED_PARENT_TYPE: Record<string, string | null> = { task: null, substep: 'task', actionitem: 'substep' };
+
+export const validateGanttItems = (value: unknown): ValidationIssue[] => {
+  const issues = run(arrayOf(ganttItemCheck), value);
+  if (issues.length > 0) return issues;
+
+  const items = value as { id: string; start: string; end: string; dependencies: string[]; type: string; parentId: string | null }[];
+  checkUniqueIds(items, '$', issues);
+  const byId = new Map(items.map(item => [item.id, item]));
+
+  items.forEach((item, i) => {
+    if (item.end < item.start) issues.push({ path: `$[${i}].end`, message: `end "${item.end}" is before start "${item.start}"` });
+
+    const expectedParent = EXPECTED_PARENT_TYPE[item.type];
+    if (expectedParent === null) {
+      if (item.parentId !== null) issues.push({ path: `$[${i}].parentId`, message: 'must be null for items of type \'task\'' });
+    } else {
+      const parent = item.parentId ? byId.get(item.parentId) : undefined;
+      if (!parent) {
+        issues.push({ path: `$[${i}].parentId`, message: `references unknown item "${item.parentId}"` });
+      } else if (parent.type !== expectedParent) {
+        issues.push({ path: `$[${i}].parentId`, message: `parent of a '${item.type}' must be a '${expectedParent}', got '${parent.type}'` });
+      }
+    }
+
+    item.dependencies.forEach((depId, j) => {
+      const dep = byId.get(depId);
+      if (!dep) {
+        issues.push({ path: `$[${i}].dependencies[${j}]`, message: `references unknown item "${depId}"` });
+      } else if (dep.type !== item.type || dep.parentId !== item.parentId) {
+        issues.push({ path: `$[${i}].dependencies[${j}]`, message: `"${depId}" must have the same type and parentId as "${item.id}"` });
+      }
+    });
+  });
+  return issues;
+};
+
+// --- ProjectHealthReport ---
+
+const healthReportCheck = object({
+  overallStatus: oneOf(['On Track', 'At Risk', 'Off Track', 'Unknown']),
+  summary: str({ nonEmpty: true }),
+  positivePoints: arrayOf(str()),
+  areasOfConcern: arrayOf(object({ description: str({ nonEmpty: true }), relatedTaskIds: arrayOf(str()) })),
+  suggestions: arrayOf(str()),
+});
+
+export const validateProjectHealthReport = (value: unknown, taskIds?: string[]): ValidationIssue[] => {
+  const issues = run(healthReportCheck, value);
+  if (issues.length > 0 || !taskIds) return issues;
+
+  const known = new Set(taskIds);
+  (value as { areasOfConcern: { relatedTaskIds: string[] }[] }).areasOfConcern.forEach((concern, i) => {
+    concern.relatedTaskIds.forEach((id, j) => {
+      if (!known.has(id)) issues.push({ path: `$.areasOfConcern[${i}].relatedTaskIds[${j}]`, message: `references unknown task id "${id}"` });
+    });
+  });
+  return issues;
+};
+
+export const formatValidationIssues = (issues: ValidationIssue[], limit = 20): string => {
+  const lines = issues.slice(0, limit).map(issue => `- ${issue.path}: ${issue.message}`);
+  if (issues.length > limit) lines.push(`- ...and ${issues.length - limit} more`);
+  return lines.join('\n');
+};
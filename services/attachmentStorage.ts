@@ -0,0 +1,300 @@
+import { supabase } from '../lib/supabase';
+import { Attachment, ProjectTask } from '../types';
+
+/**
+ * Stores attachment files outside the task data.
+ *
+ * Attachments only carry a reference (`storage` + `storagePath`) and metadata. Files of projects
+ * saved in the cloud go to the Supabase Storage bucket below; files of projects that only exist in
+ * this browser go to IndexedDB, and are moved to the bucket when the project is saved.
+ * Paths are `<projectId or "local">/<sha256>.<extension>`, so the same file is only stored once.
+ * Storage keys only allow a limited character set, so the file name is kept in the attachment only.
+ */
+
+export type AttachmentStorageKind = NonNullable<Attachment['storage']>;
+
+export interface AttachmentStorageAdapter {
+  kind: AttachmentStorageKind;
+  put: (path: string, file: Blob) => Promise<void>;
+  getBlob: (path: string) => Promise<Blob>;
+  getUrl: (path: string) => Promise<string>;
+}
+
+export const ATTACHMENT_BUCKET = 'attachments';
+const SIGNED_URL_SECONDS = 60 * 60;
+
+const supabaseAdapter: AttachmentStorageAdapter = {
+  kind: 'supabase',
+  put: async (path, file) => {
+    const { error } = await supabase.storage
+      .from(ATTACHMENT_BUCKET)
+      .upload(path, file, { contentType: file.type || 'application/octet-stream', upsert: true });
+
+    if (error) {
+      throw new Error(`ファイルのアップロードに失敗しました: ${error.message}`);
+    }
+  },
+  getBlob: async (path) => {
+    const { data, error } = await supabase.storage.from(ATTACHMENT_BUCKET).download(path);
+
+    if (error || !data) {
+      throw new Error(`ファイルの取得に失敗しました: ${error?.message ?? path}`);
+    }
+    return data;
+  },
+  getUrl: async (path) => {
+    const { data, error } = await supabase.storage.from(ATTACHMENT_BUCKET).createSignedUrl(path, SIGNED_URL_SECONDS);
+
+    if (error || !data) {
+      throw new Error(`ファイルURLの取得に失敗しました: ${error?.message ?? path}`);
+    }
+    return data.signedUrl;
+  },
+};
+
+const LOCAL_DB_NAME = 'ai-project-planner-files';
+const LOCAL_STORE = 'files';
+
+const openLocalDb = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(LOCAL_DB_NAME, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(LOCAL_STORE);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(new Error('ローカルのファイル保存領域を開けませんでした。'));
+  });
+
+const localRequest = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openLocalDb();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = run(db.transaction(LOCAL_STORE, mode).objectStore(LOCAL_STORE));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+const localAdapter: AttachmentStorageAdapter = {
+  kind: 'local',
+  put: async (path, file) => {
+    await localRequest('readwrite', store => store.put(file, path));
+  },
+  getBlob: async (path) => {
+    const blob = await localRequest<Blob | undefined>('readonly', store => store.get(path));
+    if (!blob) {
+      throw new Error('このファイルは別の端末で追加されたため、この端末では表示できません。');
+    }
+    return blob;
+  },
+  getUrl: async (path) => URL.createObjectURL(await localAdapter.getBlob(path)),
+};
+
+const adapters: Record<AttachmentStorageKind, AttachmentStorageAdapter> = {
+  supabase: supabaseAdapter,
+  local: localAdapter,
+};
+
+interface StorageContext {
+  projectId: string | null; // null while the project has not been saved to the cloud
+  userId: string | null;
+}
+
+let context: StorageContext = { projectId: null, userId: null };
+
+/**
+ * Tells the storage layer which project new uploads belong to. Called by App when the
+ * current project or user changes.
+ */
+export const setAttachmentStorageContext = (next: StorageContext): void => {
+  context = next;
+};
+
+const sha256 = async (file: Blob): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer());
+  return Array.from(new Uint8Array(digest)).map(byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+const storagePathFor = (projectId: string | null, hash: string, name: string): string => {
+  const extension = /\.([A-Za-z0-9]{1,10})$/.exec(name)?.[1]?.toLowerCase();
+  return `${projectId ?? 'local'}/${hash}${extension ? `.${extension}` : ''}`;
+};
+
+const storeFile = async (
+  file: Blob,
+  meta: { id: string; name: string; uploadedBy?: string; uploadedAt?: string },
+  projectId: string | null,
+): Promise<Attachment> => {
+  const adapter = projectId ? supabaseAdapter : localAdapter;
+  const hash = await sha256(file);
+  const storagePath = storagePathFor(projectId, hash, meta.name);
+  await adapter.put(storagePath, file);
+
+  return {
+    id: meta.id,
+    name: meta.name,
+    type: file.type,
+    size: file.size,
+    hash,
+    storage: adapter.kind,
+    storagePath,
+    uploadedBy: meta.uploadedBy ?? context.userId ?? undefined,
+    uploadedAt: meta.uploadedAt ?? new Date().toISOString(),
+  };
+};
+
+/**
+ * Stores a file picked by the user and returns the attachment that references it.
+ */
+export const uploadAttachment = (file: File, id: string): Promise<Attachment> =>
+  storeFile(file, { id, name: file.name }, context.projectId);
+
+/**
+ * Stores a file read back from a project bundle, keeping the attachment's id.
+ * The importing user becomes the uploader: ids from the exporting instance may not exist here.
+ */
+export const storeImportedAttachment = (file: Blob, attachment: Attachment): Promise<Attachment> =>
+  storeFile(file, { id: attachment.id, name: attachment.name }, context.projectId);
+
+const urlCache = new Map<string, Promise<string>>();
+
+/**
+ * Resolves a URL that can be used for previews and downloads.
+ * Signed URLs and object URLs are cached for the lifetime of the page.
+ */
+export const resolveAttachmentUrl = (attachment: Attachment): Promise<string> => {
+  if (attachment.dataUrl) return Promise.resolve(attachment.dataUrl);
+  if (!attachment.storage || !attachment.storagePath) {
+    return Promise.reject(new Error('ファイルの保存場所が不明です。'));
+  }
+
+  const key = `${attachment.storage}:${attachment.storagePath}`;
+  if (!urlCache.has(key)) {
+    const pending = adapters[attachment.storage].getUrl(attachment.storagePath);
+    pending.catch(() => urlCache.delete(key)); // Allow a retry after a failure
+    urlCache.set(key, pending);
+  }
+  return urlCache.get(key)!;
+};
+
+export const getAttachmentBlob = async (attachment: Attachment): Promise<Blob> => {
+  if (attachment.dataUrl) return (await fetch(attachment.dataUrl)).blob();
+  if (!attachment.storage || !attachment.storagePath) {
+    throw new Error('ファイルの保存場所が不明です。');
+  }
+  return adapters[attachment.storage].getBlob(attachment.storagePath);
+};
+
+export const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result));
+    reader.onerror = () => reject(new Error('ファイルの読み込み中にエラーが発生しました。'));
+    reader.readAsDataURL(blob);
+  });
+
+const TEXT_TYPES = /^(text\/|application\/(json|xml|csv|x-yaml))/;
+
+/**
+ * Loads attachment contents for an AI prompt: images as base64, text files as text.
+ * Other files are described by their metadata only.
+ */
+export const readAttachmentForAI = async (
+  attachment: Attachment,
+): Promise<{ kind: 'image'; mimeType: string; data: string } | { kind: 'text'; text: string } | { kind: 'binary' }> => {
+  if (attachment.type.startsWith('image/')) {
+    const blob = await getAttachmentBlob(attachment);
+    return { kind: 'image', mimeType: blob.type || attachment.type, data: (await blobToDataUrl(blob)).split(',')[1] || '' };
+  }
+  if (TEXT_TYPES.test(attachment.type)) {
+    return { kind: 'text', text: await (await getAttachmentBlob(attachment)).text() };
+  }
+  return { kind: 'binary' };
+};
+
+export const formatFileSize = (bytes?: number): string => {
+  if (bytes === undefined) return '';
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const mapAttachments = async (
+  tasks: ProjectTask[],
+  transform: (attachment: Attachment) => Promise<Attachment>,
+): Promise<ProjectTask[]> => {
+  const all = (list?: Attachment[]) => (list ? Promise.all(list.map(transform)) : Promise.resolve(list));
+
+  return Promise.all(tasks.map(async task => {
+    const details = task.extendedDetails;
+    if (!details) return task;
+
+    const subSteps = await Promise.all(details.subSteps.map(async subStep => ({
+      ...subStep,
+      attachments: await all(subStep.attachments),
+      actionItems: subStep.actionItems && await Promise.all(subStep.actionItems.map(async item => (
+        item.report ? { ...item, report: { ...item.report, attachments: (await all(item.report.attachments)) || [] } } : item
+      ))),
+    })));
+
+    return { ...task, extendedDetails: { ...details, subSteps, attachments: await all(details.attachments) } };
+  }));
+};
+
+const needsCloudCopy = (attachment: Attachment): boolean =>
+  !!attachment.dataUrl || attachment.storage === 'local';
+
+export const hasAttachmentsToUpload = (tasks: ProjectTask[]): boolean => {
+  let found = false;
+  const check = (list?: Attachment[]) => { if (list?.some(needsCloudCopy)) found = true; };
+  for (const task of tasks) {
+    check(task.extendedDetails?.attachments);
+    for (const subStep of task.extendedDetails?.subSteps || []) {
+      check(subStep.attachments);
+      subStep.actionItems?.forEach(item => check(item.report?.attachments));
+    }
+  }
+  return found;
+};
+
+/**
+ * Copies inline base64 attachments (created before object storage) and files kept in this
+ * browser into the project's storage folder, and returns the tasks with updated references.
+ */
+export const uploadAttachmentsToProject = (tasks: ProjectTask[], projectId: string): Promise<ProjectTask[]> =>
+  mapAttachments(tasks, async attachment => {
+    if (!needsCloudCopy(attachment)) return attachment;
+    const blob = await getAttachmentBlob(attachment);
+    const typed = blob.type ? blob : new Blob([blob], { type: attachment.type });
+    return storeFile(typed, attachment, projectId);
+  });
+
+/**
+ * Removes every file stored for a project, e.g. when it is permanently deleted.
+ */
+export const deleteProjectFiles = async (projectId: string): Promise<void> => {
+  const bucket = supabase.storage.from(ATTACHMENT_BUCKET);
+  const { data: entries, error } = await bucket.list(projectId, { limit: 1000 });
+
+  if (error) {
+    throw new Error(`ファイルの一覧取得に失敗しました: ${error.message}`);
+  }
+
+  // Files sit directly under the project; folders (no id) hold files stored under the older `<sha256>/<file name>` keys
+  const paths = (entries || []).filter(entry => entry.id).map(file => `${projectId}/${file.name}`);
+  for (const folder of (entries || []).filter(entry => !entry.id)) {
+    const { data: files, error: listError } = await bucket.list(`${projectId}/${folder.name}`, { limit: 1000 });
+    if (listError) {
+      throw new Error(`ファイルの一覧取得に失敗しました: ${listError.message}`);
+    }
+    (files || []).forEach(file => paths.push(`${projectId}/${folder.name}/${file.name}`));
+  }
+
+  for (let i = 0; i < paths.length; i += 100) {
+    const { error: removeError } = await bucket.remove(paths.slice(i, i + 100));
+    if (removeError) {
+      throw new Error(`ファイルの削除に失敗しました: ${removeError.message}`);
+    }
+  }
+};
@@ -0,0 +1,21 @@
+/**
+ * Display text for field values in change lists: merge conflicts, the activity log and version diffs.
+ */
+
+export interface ChangeValueFormat {
+  labels?: Record<string, string>; // Display names of enumerated values, e.g. statuses
+  objectLabel?: string; // Shown for objects other than canvas positions
+  maxLength?: number; // Longer text is cut off with an ellipsis
+}
+
+const isPoint = (value: object): value is { x: number; y: number } =>
+  typeof (value as { x?: unknown }).x === 'number' && typeof (value as { y?: unknown }).y === 'number';
+
+export const formatChangeValue = (value: unknown, format: ChangeValueFormat = {}): string => {
+  if (value === null || value === undefined || value === '') return '（なし）';
+  if (typeof value === 'boolean') return value ? 'はい' : 'いいえ';
+  if (Array.isArray(value)) return `${value.length}件`;
+  if (typeof value === 'object') return isPoint(value) ? `(${Math.round(value.x)}, ${Math.round(value.y)})` : format.objectLabel ?? '（内容あり）';
+  const text = format.labels?.[String(value)] ?? String(value);
+  return format.maxLength && text.length > format.maxLength ? `${text.slice(0, format.maxLength)}…` : text;
+};
@@ -0,0 +1,213 @@
+import { CommentTarget, CommentTargetType, ProjectComment, ProjectMember, ProjectTask } from '../types';
+
+/**
+ * Comment threads on tasks, sub-steps, action items, decisions and slides.
+ *
+ * A thread is its first comment plus the replies pointing at it. Members are mentioned as
+ * `@handle`, where the handle is their name (or the part of their email before the @) without
+ * spaces; mentions are resolved to user ids when a comment is posted. A comment is unread when
+ * someone else posted it after the time the user last read the comments of its item.
+ */
+
+export interface CommentRead {
+  type: CommentTargetType;
+  id: string;
+  readAt: string; // Posting time of the newest comment that was read
+}
+
+// Shared state of the open project's comments, passed to everything that shows comment buttons
+export interface CommentBoard {
+  projectId: string;
+  currentUserId: string;
+  userRole: 'owner' | 'editor' | 'viewer';
+  members: ProjectMember[];
+  comments: ProjectComment[];
+  reads: Record<string, string>; // Target key → readAt
+  onCommentSaved: (comment: ProjectComment) => void;
+  onCommentDeleted: (commentId: string) => void;
+  onRead: (reads: CommentRead[]) => void;
+}
+
+export interface CommentThread {
+  root: ProjectComment;
+  replies: ProjectComment[];
+}
+
+export interface UnreadCount {
+  count: number;
+  mentioned: boolean; // One of the unread comments mentions the user
+}
+
+export interface MentionCandidate {
+  userId: string;
+  handle: string;
+  label: string; // Name and email shown in the suggestion list
+}
+
+export interface MentionSegment {
+  text: string;
+  userId?: string; // Set when the segment is a mention
+}
+
+export const commentTargetKey = (target: { type: string; id: string }): string => `${target.type}:${target.id}`;
+
+export const commentKeyOf = (comment: ProjectComment): string =>
+  commentTargetKey({ type: comment.targetType, id: comment.targetId });
+
+const timeOf = (iso: string | undefined): number => (iso ? Date.parse(iso) || 0 : 0);
+
+/**
+ * Comments on `target`. With `includeTaskItems` a task's comments include those on its sub-steps,
+ * action items, decisions and report slides.
+ */
+export const commentsFor = (comments: ProjectComment[], target: CommentTarget, includeTaskItems = false): ProjectComment[] =>
+  comments.filter(comment =>
+    (comment.targetType === target.type && comment.targetId === target.id)
+    || (includeTaskItems && target.type === 'task' && comment.taskId === target.id));
+
+/**
+ * Where in a task a comment was posted, for the task-wide list of threads.
+ */
+export const describeCommentTarget = (comment: ProjectComment, task: ProjectTask): string => {
+  const subSteps = task.extendedDetails?.subSteps || [];
+  switch (comment.targetType) {
+    case 'task':
+      return 'タスク';
+    case 'substep': {
+      const subStep = subSteps.find(ss => ss.id === comment.targetId);
+      return subStep ? `サブステップ: ${subStep.text}` : 'サブステップ（削除済み）';
+    }
+    case 'actionitem': {
+      const item = subSteps.flatMap(ss => ss.actionItems || []).find(ai => ai.id === comment.targetId);
+      return item ? `アクションアイテム: ${item.text}` : 'アクションアイテム（削除済み）';
+    }
+    case 'decision': {
+      const decision = task.extendedDetails?.decisions?.find(d => d.id === comment.targetId);
+      return decision ? `決定事項: ${decision.question}` : '決定事項（削除済み）';
+    }
+    case 'slide': {
+      const index = task.extendedDetails?.reportDeck?.slides.findIndex(slide => slide.id === comment.targetId) ?? -1;
+      return index >= 0 ? `レポート: スライド ${index + 1}` : 'レポートのスライド（削除済み）';
+    }
+  }
+};
+
+/**
+ * Groups comments into threads, oldest first. Replies whose thread was deleted are dropped.
+ */
+export const buildThreads = (comments: ProjectComment[]): CommentThread[] => {
+  const sorted = [...comments].sort((a, b) => timeOf(a.createdAt) - timeOf(b.createdAt));
+  const threads = new Map<string, CommentThread>();
+  sorted.filter(comment => !comment.parentId).forEach(root => threads.set(root.id, { root, replies: [] }));
+  sorted.filter(comment => comment.parentId).forEach(reply => threads.get(reply.parentId!)?.replies.push(reply));
+  return [...threads.values()];
+};
+
+// --- Unread ---
+
+export const isCommentUnread = (comment: ProjectComment, reads: Record<string, string>, userId: string): boolean =>
+  comment.authorId !== userId && timeOf(comment.createdAt) > timeOf(reads[commentKeyOf(comment)]);
+
+export const countUnread = (comments: ProjectComment[], reads: Record<string, string>, userId: string): UnreadCount => {
+  const unread = comments.filter(comment => isCommentUnread(comment, reads, userId));
+  return { count: unread.length, mentioned: unread.some(comment => comment.mentions.includes(userId)) };
+};
+
+/**
+ * Unread comments per task, counting the comments on the task's sub-steps, action items,
+ * decisions and report slides too.
+ */
+export const countUnreadByTask = (comments: ProjectComment[], reads: Record<string, string>, userId: string): Record<string, UnreadCount> => {
+  const counts: Record<string, UnreadCount> = {};
+  comments.forEach(comment => {
+    if (!comment.taskId || !isCommentUnread(comment, reads, userId)) return;
+    const count = counts[comment.taskId] || (counts[comment.taskId] = { count: 0, mentioned: false });
+    count.count += 1;
+    count.mentioned = count.mentioned || comment.mentions.includes(userId);
+  });
+  return counts;
+};
+
+/**
+ * The reads that mark `comments` as read, one per item, at the newest comment of each item.
+ */
+export const readsFor = (comments: ProjectComment[]): CommentRead[] => {
+  const newest = new Map<string, ProjectComment>();
+  comments.forEach(comment => {
+    const key = commentKeyOf(comment);
+    const current = newest.get(key);
+    if (!current || timeOf(comment.createdAt) > timeOf(current.createdAt)) newest.set(key, comment);
+  });
+  return [...newest.values()].map(comment => ({ type: comment.targetType, id: comment.targetId, readAt: comment.createdAt }));
+};
+
+// --- Mentions ---
+
+export const mentionCandidates = (members: ProjectMember[]): MentionCandidate[] => {
+  const used = new Set<string>();
+  return members
+    .filter(member => member.status === 'accepted')
+    .map(member => {
+      const base = (member.userName || member.userEmail?.split('@')[0] || member.userId.slice(0, 8)).replace(/\s+/g, '');
+      let handle = base;
+      for (let n = 2; used.has(handle.toLowerCase()); n++) handle = `${base}${n}`;
+      used.add(handle.toLowerCase());
+      const label = member.userName && member.userEmail ? `${member.userName} (${member.userEmail})` : member.userName || member.userEmail || handle;
+      return { userId: member.userId, handle, label };
+    });
+};
+
+// ASCII handles continue with these characters, so "@tan" is not a mention inside "@tanaka"
+const HANDLE_CONTINUATION = /[A-Za-z0-9_.-]/;
+
+/**
+ * Splits a comment into text and mentions. At each @ the longest matching handle wins.
+ */
+export const splitMentions = (body: string, candidates: MentionCandidate[]): MentionSegment[] => {
+  const byLength = [...candidates].sort((a, b) => b.handle.length - a.handle.length);
+  const segments: MentionSegment[] = [];
+  let text = '';
+  let i = 0;
+  while (i < body.length) {
+    const match = body[i] === '@' && (i === 0 || !HANDLE_CONTINUATION.test(body[i - 1]))
+      ? byLength.find(candidate => {
+        const end = i + 1 + candidate.handle.length;
+        return body.slice(i + 1, end).toLowerCase() === candidate.handle.toLowerCase()
+          && !(HANDLE_CONTINUATION.test(candidate.handle.slice(-1)) && HANDLE_CONTINUATION.test(body[end] || ''));
+      })
+      : undefined;
+    if (match) {
+      if (text) segments.push({ text });
+      text = '';
+      segments.push({ text: body.slice(i, i + 1 + match.handle.length), userId: match.userId });
+      i += 1 + match.handle.length;
+    } else {
+      text += body[i];
+      i += 1;
+    }
+  }
+  if (text) segments.push({ text });
+  return segments;
+};
+
+export const findMentions = (body: string, candidates: MentionCandidate[]): string[] =>
+  [...new Set(splitMentions(body, candidates).filter(segment => segment.userId).map(segment => segment.userId!))];
+
+/**
+ * The partial handle being typed at the caret, e.g. "yam" in "…@yam|", or null when the caret
+ * is not in a mention. An @ inside a word (an email address) does not start a mention.
+ */
+export const activeMentionQuery = (text: string, caret: number): { start: number; query: string } | null => {
+  const before = text.slice(0, caret);
+  const at = before.lastIndexOf('@');
+  if (at < 0 || (at > 0 && HANDLE_CONTINUATION.test(before[at - 1]))) return null;
+  const query = before.slice(at + 1);
+  if (/\s/.test(query) || query.length > 30) return null;
+  return { start: at, query };
+};
+
+export const filterCandidates = (candidates: MentionCandidate[], query: string): MentionCandidate[] => {
+  const lower = query.toLowerCase();
+  return candidates.filter(candidate =>
+    candidate.handle.toLowerCase().includes(lower) || candidate.label.toLowerCase().includes(lower)).slice(0, 8);
+};
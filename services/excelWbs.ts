@@ -0,0 +1,546 @@
+import * as XLSX from 'xlsx';
+import { ProjectTask, SubStep, ActionItem, GanttItem, TaskStatus, SubStepStatus, NumericalTargetStatus, ProjectFileContent, ImportSummary } from '../types';
+import { buildSchedule } from './scheduler';
+import { parseDay, formatDay } from './projectTemplates';
+
+/**
+ * Conversion between projects and Excel workbooks.
+ *
+ * Import reads a work breakdown structure from one sheet, one row per item. The user maps the
+ * sheet's columns onto project fields; the outline level of each row comes from its WBS number
+ * ("1.2.3"), a level column, or leading spaces in the name. Level 1 rows are tasks, level 2 rows
+ * are sub-steps and level 3 rows are action items; deeper rows are flattened into level 3.
+ *
+ * Export writes a workbook with one sheet per kind of data. Its first sheet is a WBS in the same
+ * layout the importer guesses, so an exported workbook can be edited and imported again.
+ */
+
+export type WbsField = 'id' | 'wbs' | 'level' | 'name' | 'notes' | 'responsible' | 'start' | 'due' | 'estimatedDays' | 'status' | 'predecessors';
+
+// Column index in the sheet for each mapped field
+export type WbsColumnMapping = Partial<Record<WbsField, number>>;
+
+export const WBS_FIELDS: { field: WbsField; label: string; aliases: string[] }[] = [
+  { field: 'wbs', label: 'WBS番号', aliases: ['wbs', 'wbs番号', 'wbsコード', 'no', 'no.', '番号', 'アウトライン番号', 'outline number'] },
+  { field: 'level', label: '階層レベル', aliases: ['レベル', '階層', 'level', 'outline level', 'アウトラインレベル'] },
+  { field: 'name', label: '名称', aliases: ['名称', 'タスク名', '作業名', '項目', 'タスク', 'name', 'task', 'task name', '件名'] },
+  { field: 'notes', label: '説明・メモ', aliases: ['説明', 'メモ', '備考', '詳細', 'notes', 'description'] },
+  { field: 'responsible', label: '担当者', aliases: ['担当者', '担当', '責任者', 'owner', 'responsible', 'assignee', 'resource names', 'リソース名'] },
+  { field: 'start', label: '開始日', aliases: ['開始日', '開始', '着手日', 'start', 'start date'] },
+  { field: 'due', label: '期日', aliases: ['期日', '期限', '終了日', '終了', '完了予定日', 'due', 'due date', 'finish', 'end', 'end date'] },
+  { field: 'estimatedDays', label: '工数（日）', aliases: ['工数', '工数（日）', '工数(日)', '期間', '日数', 'duration', 'days', 'estimated days'] },
+  { field: 'status', label: '状況・進捗率', aliases: ['状況', 'ステータス', '状態', '進捗', '進捗率', '進捗(%)', 'status', 'progress', '% complete', '達成率'] },
+  { field: 'predecessors', label: '先行項目', aliases: ['先行', '先行項目', '先行タスク', '依存', 'predecessors', 'depends on'] },
+  { field: 'id', label: 'ID（再インポート用）', aliases: ['id', 'planner id'] },
+];
+
+export interface WbsCell {
+  value: string | number | boolean | null; // Raw cell value; dates are Excel serial numbers
+  text: string; // Value as displayed in Excel
+}
+
+export interface WbsSheet {
+  name: string;
+  headers: string[];
+  rows: WbsCell[][];
+}
+
+export interface ExcelImportResult extends ProjectFileContent {
+  summary: ImportSummary;
+}
+
+// Day 0 of `parseDay` (1970-01-01) as an Excel date serial
+const EXCEL_EPOCH_OFFSET = 25569;
+const DATE_FORMAT = 'yyyy-mm-dd';
+
+const STATUS_LABELS: Record<string, string> = {
+  [TaskStatus.NOT_STARTED]: '未着手',
+  [TaskStatus.IN_PROGRESS]: '進行中',
+  [TaskStatus.COMPLETED]: '完了',
+  [TaskStatus.BLOCKED]: '停滞中',
+};
+
+const TARGET_STATUS_LABELS: Record<string, string> = {
+  [NumericalTargetStatus.PENDING]: '未評価',
+  [NumericalTargetStatus.ACHIEVED]: '達成',
+  [NumericalTargetStatus.MISSED]: '未達',
+};
+
+const TYPE_LABELS: Record<string, string> = {
+  task: 'タスク',
+  substep: 'サブステップ',
+  actionitem: 'アクションアイテム',
+};
+
+const normalizeHeader = (header: string) => header.trim().toLowerCase().replace(/\s+/g, ' ');
+
+// --- Reading ---
+
+// CSV saved by Excel in Japan is usually Shift_JIS; fall back to it when the file is not valid UTF-8
+const decodeCsv = (data: ArrayBuffer): string => {
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(data);
+  } catch {
+    return new TextDecoder('shift_jis').decode(data);
+  }
+};
+
+/**
+ * Reads every non-empty sheet of an .xlsx / .xls / .csv file.
+ * The first non-empty row of a sheet is its header row.
+ */
+export const readWbsWorkbook = (data: ArrayBuffer, fileName: string): WbsSheet[] => {
+  const workbook = /\.csv$/i.test(fileName)
+    ? XLSX.read(decodeCsv(data), { type: 'string' })
+    : XLSX.read(data, { type: 'array' });
+  return workbook.SheetNames.flatMap(name => {
+    const worksheet = workbook.Sheets[name];
+    if (!worksheet?.['!ref']) return [];
+    const range = XLSX.utils.decode_range(worksheet['!ref']);
+    const rows: WbsCell[][] = [];
+    for (let r = range.s.r; r <= range.e.r; r++) {
+      const row: WbsCell[] = [];
+      for (let c = range.s.c; c <= range.e.c; c++) {
+        const cell = worksheet[XLSX.utils.encode_cell({ r, c })];
+        const value = cell?.v ?? null;
+        row.push({ value: value instanceof Date ? null : value, text: cell ? String(cell.w ?? cell.v ?? '').trim() : '' });
+      }
+      rows.push(row);
+    }
+    const headerIndex = rows.findIndex(row => row.some(cell => cell.text));
+    if (headerIndex < 0) return [];
+    return [{
+      name,
+      headers: rows[headerIndex].map((cell, index) => cell.text || `列${index + 1}`),
+      rows: rows.slice(headerIndex + 1).filter(row => row.some(cell => cell.text)),
+    }];
+  });
+};
+
+/**
+ * Maps columns whose header matches a known field name. Each column is used for one field at most.
+ */
+export const guessColumnMapping = (headers: string[]): WbsColumnMapping => {
+  const mapping: WbsColumnMapping = {};
+  const used = new Set<number>();
+  WBS_FIELDS.forEach(({ field, aliases }) => {
+    const index = headers.findIndex((header, i) => !used.has(i) && aliases.includes(normalizeHeader(header)));
+    if (index >= 0) {
+      mapping[field] = index;
+      used.add(index);
+    }
+  });
+  return mapping;
+};
+
+// --- Cell conversion ---
+
+// Excel serial numbers, "2025-07-01", "2025/7/1" and "2025年7月1日"
+const cellToDate = (cell: WbsCell | undefined): string | null | undefined => {
+  if (!cell || !cell.text) return undefined;
+  if (typeof cell.value === 'number') return cell.value > 0 ? formatDay(Math.floor(cell.value) - EXCEL_EPOCH_OFFSET) : null;
+  const match = /^(\d{4})[-/.年](\d{1,2})[-/.月](\d{1,2})日?/.exec(cell.text);
+  if (!match) return null;
+  const date = `${match[1]}-${match[2].padStart(2, '0')}-${match[3].padStart(2, '0')}`;
+  return parseDay(date) === null ? null : date;
+};
+
+// Percentages ("50%", 0.5 in a percent-formatted cell, 50) or status names
+const cellToProgress = (cell: WbsCell | undefined): number | null | undefined => {
+  if (!cell || !cell.text) return undefined;
+  if (cell.text.endsWith('%')) {
+    const percent = parseFloat(cell.text);
+    return isNaN(percent) ? null : Math.max(0, Math.min(100, percent));
+  }
+  if (typeof cell.value === 'number') return Math.max(0, Math.min(100, cell.value));
+  const text = cell.text.toLowerCase();
+  if (['完了', '済', '完了済み', 'completed', 'done'].includes(text)) return 100;
+  if (['進行中', '実施中', '対応中', 'in progress'].includes(text)) return 50;
+  if (['未着手', '未実施', 'not started', 'todo'].includes(text)) return 0;
+  if (['停滞中', '保留', 'blocked'].includes(text)) return -1;
+  return null;
+};
+
+const cellToNumber = (cell: WbsCell | undefined): number | undefined => {
+  if (!cell || !cell.text) return undefined;
+  const value = typeof cell.value === 'number' ? cell.value : parseFloat(cell.text);
+  return isNaN(value) || value <= 0 ? undefined : Math.round(value * 10) / 10;
+};
+
+// --- Import ---
+
+interface ImportedRow {
+  id: string;
+  type: GanttItem['type'];
+  parentId: string | null;
+  taskId: string;
+  wbs: string;
+  start: string | null;
+  due: string | null;
+  progress: number;
+  predecessors: string[];
+}
+
+/**
+ * Builds a project from one sheet using the column mapping chosen by the user.
+ * `targetDate` defaults to the latest due date in the sheet.
+ * @throws Error when no column is mapped to the name or the sheet has no rows with a name.
+ */
+export const importWbsSheet = (
+  sheet: WbsSheet,
+  mapping: WbsColumnMapping,
+  options: { fileName: string; projectGoal: string; targetDate: string },
+): ExcelImportResult => {
+  if (mapping.name === undefined) throw new Error('「名称」に対応する列を選択してください。');
+
+  const cellOf = (row: WbsCell[], field: WbsField) => (mapping[field] === undefined ? undefined : row[mapping[field]!]);
+  const textOf = (row: WbsCell[], field: WbsField) => cellOf(row, field)?.text || '';
+
+  const warnings: string[] = [];
+  const tasks: ProjectTask[] = [];
+  const imported: ImportedRow[] = [];
+  const usedIds = new Set<string>();
+  let currentTask: ProjectTask | null = null;
+  let currentSubStep: SubStep | null = null;
+  let skippedRows = 0;
+  let flattened = 0;
+  let orphans = 0;
+  let invalidDates = 0;
+  let invalidStatuses = 0;
+  let actionItemNotes = 0;
+  let subStepCount = 0;
+  let actionItemCount = 0;
+
+  sheet.rows.forEach((row, index) => {
+    const rawName = cellOf(row, 'name')?.value;
+    const name = textOf(row, 'name');
+    if (!name) {
+      skippedRows++;
+      return;
+    }
+
+    const wbs = textOf(row, 'wbs').replace(/\.$/, '');
+    let level = 1;
+    if (wbs) level = wbs.split('.').length;
+    else if (mapping.level !== undefined) level = Math.max(1, Math.floor(Number(textOf(row, 'level'))) || 1);
+    else if (typeof rawName === 'string') {
+      const indent = /^[ 　]*/.exec(rawName)![0];
+      level = 1 + Math.floor(indent.replace(/　/g, '  ').length / 2);
+    }
+
+    const notes = textOf(row, 'notes');
+    const responsible = textOf(row, 'responsible');
+    const estimatedDays = cellToNumber(cellOf(row, 'estimatedDays'));
+    const start = cellToDate(cellOf(row, 'start'));
+    const due = cellToDate(cellOf(row, 'due'));
+    if (start === null) invalidDates++;
+    if (due === null) invalidDates++;
+    const parsedProgress = cellToProgress(cellOf(row, 'status'));
+    if (parsedProgress === null) invalidStatuses++;
+    const progress = parsedProgress ?? 0;
+
+    let id = textOf(row, 'id') || `xls_${index + 1}`;
+    if (usedIds.has(id)) id = `xls_${index + 1}`;
+    usedIds.add(id);
+
+    const predecessors = textOf(row, 'predecessors').split(/[,，、;；\s]+/).map(token => token.trim()).filter(Boolean);
+    const record = (type: GanttItem['type'], parentId: string | null, taskId: string) => imported.push({
+      id, type, parentId, taskId, wbs, start: start || null, due: due || null, progress: Math.max(0, progress), predecessors,
+    });
+
+    if (level === 1 || !currentTask) {
+      if (level > 1) orphans++;
+      currentTask = {
+        id,
+        title: name,
+        description: notes,
+        status: progress < 0 ? TaskStatus.BLOCKED
+          : progress >= 100 ? TaskStatus.COMPLETED : progress > 0 ? TaskStatus.IN_PROGRESS : TaskStatus.NOT_STARTED,
+        nextTaskIds: [],
+        extendedDetails: { subSteps: [], resources: '', responsible, notes: '', dueDate: due || undefined, estimatedDays },
+      };
+      currentSubStep = null;
+      tasks.push(currentTask);
+      record('task', null, id);
+      return;
+    }
+
+    const subSteps = currentTask.extendedDetails!.subSteps;
+    if (level === 2 || !currentSubStep) {
+      const position = subSteps.length;
+      currentSubStep = {
+        id,
+        text: name,
+        notes: notes || undefined,
+        responsible: responsible || undefined,
+        dueDate: due || undefined,
+        estimatedDays,
+        status: progress >= 100 ? SubStepStatus.COMPLETED : progress > 0 ? SubStepStatus.IN_PROGRESS : SubStepStatus.NOT_STARTED,
+        nextSubStepIds: [],
+        actionItems: [],
+        position: { x: 10 + (position % 4) * 210, y: Math.floor(position / 4) * 90 + 10 },
+      };
+      subSteps.push(currentSubStep);
+      subStepCount++;
+      record('substep', currentTask.id, currentTask.id);
+      return;
+    }
+
+    if (level > 3) flattened++;
+    if (notes) actionItemNotes++;
+    const item: ActionItem = {
+      id,
+      text: name,
+      completed: progress >= 100,
+      completedDate: progress >= 100 ? due || undefined : undefined,
+      responsible: responsible || undefined,
+      dueDate: due || undefined,
+      estimatedDays,
+    };
+    currentSubStep.actionItems = [...(currentSubStep.actionItems || []), item];
+    actionItemCount++;
+    record('actionitem', currentSubStep.id, currentTask.id);
+  });
+
+  if (tasks.length === 0) throw new Error('名称が入力された行がありません。');
+
+  // Predecessors are referenced by WBS number or ID; only links between tasks, or between sub-steps of the same task, are kept
+  const byReference = new Map<string, ImportedRow>();
+  imported.forEach(row => {
+    byReference.set(row.id, row);
+    if (row.wbs && !byReference.has(row.wbs)) byReference.set(row.wbs, row);
+  });
+  const taskById = new Map(tasks.map(task => [task.id, task]));
+  const subStepById = new Map(tasks.flatMap(task => task.extendedDetails!.subSteps).map(subStep => [subStep.id, subStep]));
+  const dependencies = new Map<string, string[]>();
+  let unresolvedLinks = 0;
+  let crossLevelLinks = 0;
+  let typedLinks = 0;
+  imported.forEach(successor => successor.predecessors.forEach(token => {
+    // "3FS+2d" -> "3"
+    const reference = token.replace(/(FS|SS|FF|SF)([+-].*)?$/i, '');
+    if (reference !== token) typedLinks++;
+    const predecessor = byReference.get(reference);
+    if (!predecessor || predecessor === successor) {
+      unresolvedLinks++;
+      return;
+    }
+    const sameLevel = predecessor.type === successor.type && successor.type !== 'actionitem'
+      && (successor.type === 'task' || predecessor.taskId === successor.taskId);
+    if (!sameLevel) {
+      crossLevelLinks++;
+      return;
+    }
+    if (successor.type === 'task') {
+      const task = taskById.get(predecessor.id)!;
+      task.nextTaskIds = [...(task.nextTaskIds || []), successor.id];
+    } else {
+      const subStep = subStepById.get(predecessor.id)!;
+      subStep.nextSubStepIds = [...(subStep.nextSubStepIds || []), successor.id];
+    }
+    dependencies.set(successor.id, [...(dependencies.get(successor.id) || []), predecessor.id]);
+  }));
+
+  if (skippedRows > 0) warnings.push(`名称が空の ${skippedRows} 行は読み飛ばしました。`);
+  if (orphans > 0) warnings.push(`上位の項目がない ${orphans} 行は、タスクとして取り込みました。`);
+  if (flattened > 0) warnings.push(`第4階層以下の ${flattened} 行は、アクションアイテムとして取り込みました。`);
+  if (invalidDates > 0) warnings.push(`日付として読み取れなかったセル ${invalidDates} 件は空欄として取り込みました。`);
+  if (invalidStatuses > 0) warnings.push(`状況・進捗率として読み取れなかったセル ${invalidStatuses} 件は「未着手」として取り込みました。`);
+  if (typedLinks > 0) warnings.push(`種類・ラグ付きの依存関係 ${typedLinks} 件は、終了-開始として取り込みました。`);
+  if (unresolvedLinks > 0) warnings.push(`参照先が見つからない先行項目 ${unresolvedLinks} 件は取り込めませんでした。`);
+  if (crossLevelLinks > 0) warnings.push(`階層の異なる項目間やアクションアイテムの依存関係 ${crossLevelLinks} 件は取り込めませんでした。`);
+
+  // Columns that were not mapped to any field, with the number of filled cells
+  const mappedColumns = new Set(Object.values(mapping));
+  const unmappedFields = sheet.headers
+    .map((header, index) => ({ field: header, count: mappedColumns.has(index) ? 0 : sheet.rows.filter(row => row[index]?.text).length }))
+    .filter(({ count }) => count > 0);
+  if (actionItemNotes > 0) unmappedFields.push({ field: 'アクションアイテムの説明・メモ', count: actionItemNotes });
+
+  const ganttData: GanttItem[] = imported
+    .filter(row => row.start || row.due)
+    .map(row => {
+      const start = row.start || row.due!;
+      return {
+        id: row.id,
+        name: '',
+        start,
+        end: row.due && row.due >= start ? row.due : start,
+        progress: Math.min(100, row.progress),
+        dependencies: dependencies.get(row.id) || [],
+        type: row.type,
+        parentId: row.parentId,
+      };
+    });
+
+  const dueDays = imported.map(row => parseDay(row.due)).filter((day): day is number => day !== null);
+  const targetDate = options.targetDate
+    || (dueDays.length > 0 ? formatDay(Math.max(...dueDays)) : new Date().toISOString().split('T')[0]);
+
+  return {
+    projectGoal: options.projectGoal || options.fileName.replace(/\.[^.]+$/, ''),
+    targetDate,
+    tasks,
+    ganttData: ganttData.length > 0 ? ganttData : null,
+    summary: {
+      format: `Excel（${sheet.name}）`,
+      fileName: options.fileName,
+      counts: [
+        { label: 'タスク', count: tasks.length },
+        { label: 'サブステップ', count: subStepCount },
+        { label: 'アクションアイテム', count: actionItemCount },
+        { label: '依存関係', count: Array.from(dependencies.values()).reduce((sum, ids) => sum + ids.length, 0) },
+      ],
+      warnings,
+      unmappedFields,
+    },
+  };
+};
+
+// --- Export ---
+
+type ExportCell = string | number | XLSX.CellObject;
+
+const dateCell = (date: string | undefined | null): ExportCell => {
+  const day = parseDay(date ? date.slice(0, 10) : null);
+  return day === null ? '' : { t: 'n', v: day + EXCEL_EPOCH_OFFSET, z: DATE_FORMAT };
+};
+
+// Full-width characters count double so Japanese columns are not cut off
+const displayWidth = (cell: ExportCell): number => {
+  const text = typeof cell === 'object' ? (cell.z === DATE_FORMAT ? DATE_FORMAT : String(cell.v ?? '')) : String(cell);
+  return Array.from(text).reduce((width, char) => width + (char.charCodeAt(0) > 0xff ? 2 : 1), 0);
+};
+
+const appendSheet = (workbook: XLSX.WorkBook, name: string, headers: string[], rows: ExportCell[][]) => {
+  const worksheet = XLSX.utils.aoa_to_sheet([headers, ...rows]);
+  worksheet['!cols'] = headers.map((header, index) => ({
+    wch: Math.min(60, Math.max(8, ...[header, ...rows.map(row => row[index] ?? '')].map(displayWidth)) + 2),
+  }));
+  if (rows.length > 0) {
+    worksheet['!autofilter'] = { ref: XLSX.utils.encode_range({ s: { r: 0, c: 0 }, e: { r: rows.length, c: headers.length - 1 } }) };
+  }
+  XLSX.utils.book_append_sheet(workbook, worksheet, name);
+};
+
+/**
+ * Writes the project as an .xlsx workbook: a re-importable WBS, then tasks, sub-steps, action items,
+ * decisions, numerical targets and the Gantt chart. Gantt rows come from the chart when there is one,
+ * otherwise from the local scheduler.
+ */
+export const exportProjectWorkbook = (project: ProjectFileContent): ArrayBuffer => {
+  const schedule = buildSchedule(project.tasks, { targetDate: project.targetDate });
+  const ganttItems = project.ganttData && project.ganttData.length > 0 ? project.ganttData : schedule.items;
+  const ganttById = new Map(ganttItems.map(item => [item.id, item]));
+
+  // WBS numbers and names of every item, used to reference predecessors and parents
+  const wbsNumbers = new Map<string, string>();
+  const names = new Map<string, string>();
+  project.tasks.forEach((task, taskIndex) => {
+    wbsNumbers.set(task.id, `${taskIndex + 1}`);
+    names.set(task.id, task.title);
+    (task.extendedDetails?.subSteps || []).forEach((subStep, subStepIndex) => {
+      wbsNumbers.set(subStep.id, `${taskIndex + 1}.${subStepIndex + 1}`);
+      names.set(subStep.id, subStep.text);
+      (subStep.actionItems || []).forEach((item, itemIndex) => {
+        wbsNumbers.set(item.id, `${taskIndex + 1}.${subStepIndex + 1}.${itemIndex + 1}`);
+        names.set(item.id, item.text);
+      });
+    });
+  });
+  const predecessors = new Map<string, string[]>();
+  const addPredecessor = (id: string, nextIds: string[] | undefined) => (nextIds || []).forEach(nextId => {
+    if (wbsNumbers.has(nextId)) predecessors.set(nextId, [...(predecessors.get(nextId) || []), wbsNumbers.get(id)!]);
+  });
+  project.tasks.forEach(task => {
+    addPredecessor(task.id, task.nextTaskIds);
+    (task.extendedDetails?.subSteps || []).forEach(subStep => addPredecessor(subStep.id, subStep.nextSubStepIds));
+  });
+  const predecessorText = (id: string) => (predecessors.get(id) || []).join(', ');
+
+  const wbsRows: ExportCell[][] = [];
+  const taskRows: ExportCell[][] = [];
+  const subStepRows: ExportCell[][] = [];
+  const actionItemRows: ExportCell[][] = [];
+  const decisionRows: ExportCell[][] = [];
+  const targetRows: ExportCell[][] = [];
+
+  project.tasks.forEach(task => {
+    const details = task.extendedDetails;
+    const subSteps = details?.subSteps || [];
+    const actionItems = subSteps.flatMap(subStep => subStep.actionItems || []);
+    const status = STATUS_LABELS[task.status || TaskStatus.NOT_STARTED];
+    const taskNumber = wbsNumbers.get(task.id)!;
+    wbsRows.push([task.id, taskNumber, task.title, details?.responsible || '', dateCell(ganttById.get(task.id)?.start),
+      dateCell(details?.dueDate), details?.estimatedDays ?? '', status, predecessorText(task.id), task.description]);
+    taskRows.push([taskNumber, task.title, task.description, status, details?.responsible || '', details?.resources || '',
+      dateCell(details?.dueDate), details?.estimatedDays ?? '', subSteps.length, actionItems.length,
+      actionItems.length > 0 ? { t: 'n', v: actionItems.filter(item => item.completed).length / actionItems.length, z: '0%' } : '',
+      details?.notes || '']);
+
+    subSteps.forEach(subStep => {
+      const subStepNumber = wbsNumbers.get(subStep.id)!;
+      const subStepStatus = STATUS_LABELS[subStep.status || SubStepStatus.NOT_STARTED];
+      wbsRows.push([subStep.id, subStepNumber, subStep.text, subStep.responsible || '', dateCell(ganttById.get(subStep.id)?.start),
+        dateCell(subStep.dueDate), subStep.estimatedDays ?? '', subStepStatus, predecessorText(subStep.id), subStep.notes || '']);
+      subStepRows.push([subStepNumber, task.title, subStep.text, subStepStatus, subStep.responsible || '', dateCell(subStep.dueDate),
+        subStep.estimatedDays ?? '', (subStep.actionItems || []).length, subStep.notes || '']);
+
+      (subStep.actionItems || []).forEach(item => {
+        const itemNumber = wbsNumbers.get(item.id)!;
+        wbsRows.push([item.id, itemNumber, item.text, item.responsible || '', dateCell(ganttById.get(item.id)?.start),
+          dateCell(item.dueDate), item.estimatedDays ?? '', item.completed ? '完了' : '未着手', '', '']);
+        actionItemRows.push([itemNumber, task.title, subStep.text, item.text, item.responsible || '', dateCell(item.dueDate),
+          item.completed ? '完了' : '未完了', dateCell(item.completedDate), item.estimatedDays ?? '', item.report?.notes || '']);
+      });
+    });
+
+    (details?.decisions || []).forEach(decision => {
+      decisionRows.push([taskNumber, task.title, decision.question, decision.status === 'decided' ? '決定済み' : '未決定',
+        decision.decision || '', decision.reasoning || '', dateCell(decision.date)]);
+    });
+
+    const target = details?.numericalTarget;
+    if (target) {
+      targetRows.push([taskNumber, task.title, target.description, target.targetValue, target.unit, target.currentValue ?? '',
+        TARGET_STATUS_LABELS[target.status || NumericalTargetStatus.PENDING], target.testNotes || '']);
+    }
+  });
+
+  const ganttRows: ExportCell[][] = ganttItems.map(item => [
+    wbsNumbers.get(item.id) || '',
+    names.get(item.id) || item.name,
+    TYPE_LABELS[item.type],
+    dateCell(item.start),
+    dateCell(item.end),
+    { t: 'n', v: Math.round(item.progress) / 100, z: '0%' },
+    item.dependencies.map(id => wbsNumbers.get(id) || id).join(', '),
+    item.isCritical ? '○' : '',
+  ]);
+
+  const workbook = XLSX.utils.book_new();
+  appendSheet(workbook, 'WBS',
+    ['ID', 'WBS番号', '名称', '担当者', '開始日', '期日', '工数（日）', '状況', '先行項目', '説明'], wbsRows);
+  appendSheet(workbook, 'タスク',
+    ['WBS番号', 'タスク', '説明', '状況', '担当者', 'リソース', '期日', '工数（日）', 'サブステップ数', 'アクションアイテム数', '完了率', 'メモ'], taskRows);
+  appendSheet(workbook, 'サブステップ',
+    ['WBS番号', 'タスク', 'サブステップ', '状況', '担当者', '期日', '工数（日）', 'アクションアイテム数', 'メモ'], subStepRows);
+  appendSheet(workbook, 'アクションアイテム',
+    ['WBS番号', 'タスク', 'サブステップ', 'アクションアイテム', '担当者', '期日', '完了', '完了日', '工数（日）', '実施メモ'], actionItemRows);
+  appendSheet(workbook, '決定事項',
+    ['WBS番号', 'タスク', '決定すべき項目', 'ステータス', '決定した内容', '理由・重要性', '日付'], decisionRows);
+  appendSheet(workbook, '数値目標',
+    ['WBS番号', 'タスク', '目標', '目標値', '単位', '現在値', '評価', 'テストメモ'], targetRows);
+  appendSheet(workbook, 'ガントチャート',
+    ['WBS番号', '名称', '種別', '開始日', '終了日', '進捗率', '先行項目', 'クリティカルパス'], ganttRows);
+  appendSheet(workbook, '概要', ['項目', '内容'], [
+    ['事業目的', project.projectGoal],
+    ['目標日', dateCell(project.targetDate)],
+    ['予測完了日', dateCell(schedule.projectedFinish)],
+    ['タスク数', project.tasks.length],
+    ['サブステップ数', subStepRows.length],
+    ['アクションアイテム数', actionItemRows.length],
+  ]);
+
+  return XLSX.write(workbook, { type: 'array', bookType: 'xlsx' }) as ArrayBuffer;
+};
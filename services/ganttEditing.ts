@@ -0,0 +1,245 @@
+import { ProjectTask, GanttItem, SubStep, ActionItem, TaskStatus, SubStepStatus } from '../types';
+import { annotateCriticalPath } from './scheduler';
+
+/**
+ * Edits made directly on the Gantt chart, and how they are written back to the project.
+ *
+ * Rescheduling only ever pushes work later: when an item ends on or after the start of a
+ * dependent, the dependent (with its children) moves forward by the overlap, and parents grow
+ * to cover children that now end later. Moving items earlier leaves dependents where they are.
+ */
+
+export type GanttEdit =
+  | { kind: 'reschedule'; itemId: string; start: string; end: string }
+  | { kind: 'addDependency'; fromId: string; toId: string }
+  | { kind: 'removeDependency'; fromId: string; toId: string }
+  | { kind: 'progress'; itemId: string; progress: number };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toDay = (date: string): number => Math.floor(Date.parse(`${date}T00:00:00Z`) / DAY_MS);
+const fromDay = (day: number): string => new Date(day * DAY_MS).toISOString().split('T')[0];
+
+export const addDays = (date: string, days: number): string => fromDay(toDay(date) + days);
+export const daysBetween = (from: string, to: string): number => toDay(to) - toDay(from);
+
+const descendantIds = (items: GanttItem[], id: string): string[] => {
+  const result: string[] = [];
+  const queue = [id];
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    for (const item of items) {
+      if (item.parentId === current) {
+        result.push(item.id);
+        queue.push(item.id);
+      }
+    }
+  }
+  return result;
+};
+
+/**
+ * Returns true if `fromId` already depends (directly or transitively) on `toId`,
+ * i.e. adding "toId depends on fromId" would close a cycle.
+ */
+const dependsOn = (byId: Map<string, GanttItem>, fromId: string, toId: string): boolean => {
+  const seen = new Set<string>();
+  const stack = [fromId];
+  while (stack.length > 0) {
+    const id = stack.pop()!;
+    if (id === toId) return true;
+    if (seen.has(id)) continue;
+    seen.add(id);
+    stack.push(...(byId.get(id)?.dependencies || []));
+  }
+  return false;
+};
+
+/**
+ * Pushes dependents and parents so that no item starts before a dependency ends.
+ * Mutates the items in `byId` (callers pass copies) and records every moved id in `changed`.
+ */
+const propagate = (items: GanttItem[], byId: Map<string, GanttItem>, startIds: string[], changed: Set<string>): void => {
+  const queue = [...startIds];
+  let guard = items.length * items.length + 10; // dependencies are acyclic, this only protects against bad data
+
+  const shift = (id: string, days: number) => {
+    for (const targetId of [id, ...descendantIds(items, id)]) {
+      const target = byId.get(targetId)!;
+      target.start = addDays(target.start, days);
+      target.end = addDays(target.end, days);
+      changed.add(targetId);
+      queue.push(targetId);
+    }
+  };
+
+  while (queue.length > 0 && guard-- > 0) {
+    const id = queue.shift()!;
+    const item = byId.get(id)!;
+
+    for (const dependent of items) {
+      if (!dependent.dependencies.includes(id)) continue;
+      const current = byId.get(dependent.id)!;
+      const overlap = daysBetween(current.start, item.end) + 1;
+      if (overlap > 0) shift(dependent.id, overlap);
+    }
+
+    const parent = item.parentId ? byId.get(item.parentId) : undefined;
+    if (parent && (daysBetween(parent.end, item.end) > 0 || daysBetween(item.start, parent.start) > 0)) {
+      if (daysBetween(parent.end, item.end) > 0) parent.end = item.end;
+      if (daysBetween(item.start, parent.start) > 0) parent.start = item.start;
+      changed.add(parent.id);
+      queue.push(parent.id);
+    }
+  }
+};
+
+const progressToTaskStatus = (progress: number, current?: TaskStatus): TaskStatus => {
+  if (progress >= 100) return TaskStatus.COMPLETED;
+  if (progress <= 0) return TaskStatus.NOT_STARTED;
+  return current === TaskStatus.BLOCKED ? TaskStatus.BLOCKED : TaskStatus.IN_PROGRESS;
+};
+
+const progressToSubStepStatus = (progress: number): SubStepStatus => {
+  if (progress >= 100) return SubStepStatus.COMPLETED;
+  if (progress <= 0) return SubStepStatus.NOT_STARTED;
+  return SubStepStatus.IN_PROGRESS;
+};
+
+/**
+ * Writes Gantt dates, dependencies and progress back into the task tree.
+ * Dates become `startDate` (the bar start, which the scheduler treats as start-no-earlier-than)
+ * and `estimatedDays` (the bar length), so the local scheduler reproduces the edited chart when it
+ * is recalculated. `dueDate` is a deadline, not a bar end: it is kept as is, and only set (to the
+ * bar end) on the rescheduled item itself when it had none.
+ */
+const writeBack = (tasks: ProjectTask[], byId: Map<string, GanttItem>, changed: Set<string>, edit: GanttEdit): ProjectTask[] => {
+  const datesOf = (id: string, dueDate: string | undefined) => {
+    const item = byId.get(id)!;
+    const dates = { startDate: item.start, estimatedDays: daysBetween(item.start, item.end) + 1 };
+    return !dueDate && edit.kind === 'reschedule' && edit.itemId === id ? { ...dates, dueDate: item.end } : dates;
+  };
+  const today = new Date().toISOString().split('T')[0];
+
+  const updateActionItem = (item: ActionItem): ActionItem => {
+    let updated = changed.has(item.id) ? { ...item, ...datesOf(item.id, item.dueDate) } : item;
+    if (edit.kind === 'progress' && edit.itemId === item.id) {
+      const completed = edit.progress >= 100;
+      updated = { ...updated, completed, completedDate: completed ? (item.completedDate || today) : undefined };
+    }
+    return updated;
+  };
+
+  const updateSubStep = (subStep: SubStep): SubStep => {
+    let updated: SubStep = { ...subStep, actionItems: subStep.actionItems?.map(updateActionItem) };
+    if (changed.has(subStep.id)) updated = { ...updated, ...datesOf(subStep.id, subStep.dueDate) };
+    if (edit.kind === 'progress' && edit.itemId === subStep.id) updated.status = progressToSubStepStatus(edit.progress);
+    return updated;
+  };
+
+  return tasks.map(task => {
+    let updated: ProjectTask = task;
+    if (task.extendedDetails) {
+      let subSteps = task.extendedDetails.subSteps.map(updateSubStep);
+      if (edit.kind === 'addDependency' || edit.kind === 'removeDependency') {
+        subSteps = subSteps.map(ss => ss.id === edit.fromId ? { ...ss, nextSubStepIds: relink(ss.nextSubStepIds, edit) } : ss);
+      }
+      updated = { ...updated, extendedDetails: { ...task.extendedDetails, subSteps } };
+      if (changed.has(task.id)) updated = { ...updated, extendedDetails: { ...updated.extendedDetails!, ...datesOf(task.id, task.extendedDetails.dueDate) } };
+    } else if (changed.has(task.id)) {
+      updated = {
+        ...updated,
+        extendedDetails: { subSteps: [], resources: '', responsible: '', notes: '', ...datesOf(task.id, undefined) },
+      };
+    }
+    if ((edit.kind === 'addDependency' || edit.kind === 'removeDependency') && edit.fromId === task.id) {
+      updated = { ...updated, nextTaskIds: relink(task.nextTaskIds, edit) };
+    }
+    if (edit.kind === 'progress' && edit.itemId === task.id) {
+      updated = { ...updated, status: progressToTaskStatus(edit.progress, task.status) };
+    }
+    return updated;
+  });
+};
+
+const relink = (nextIds: string[] | undefined, edit: GanttEdit): string[] => {
+  const current = nextIds || [];
+  if (edit.kind === 'addDependency') return current.includes(edit.toId) ? current : [...current, edit.toId];
+  if (edit.kind === 'removeDependency') return current.filter(id => id !== edit.toId);
+  return current;
+};
+
+// Keep the critical path current for charts that came from the scheduler.
+const withCriticalPath = (original: GanttItem[], edited: GanttItem[]): GanttItem[] =>
+  original.some(item => item.isCritical !== undefined) ? annotateCriticalPath(edited) : edited;
+
+/**
+ * Applies one chart edit to both the Gantt data and the task tree.
+ * Throws an Error with a user-facing message when the edit is not allowed.
+ */
+export const applyGanttEdit = (items: GanttItem[], tasks: ProjectTask[], edit: GanttEdit): { items: GanttItem[]; tasks: ProjectTask[] } => {
+  const copies = items.map(item => ({ ...item, dependencies: [...item.dependencies] }));
+  const byId = new Map(copies.map(item => [item.id, item]));
+  const changed = new Set<string>();
+
+  switch (edit.kind) {
+    case 'reschedule': {
+      const item = byId.get(edit.itemId);
+      if (!item) throw new Error('対象の項目が見つかりません。');
+      if (daysBetween(edit.start, edit.end) < 0) throw new Error('終了日は開始日以降にしてください。');
+      const startDelta = daysBetween(item.start, edit.start);
+      const endDelta = daysBetween(item.end, edit.end);
+      if (startDelta === endDelta && startDelta !== 0) {
+        // Moving a whole bar carries its children with it.
+        for (const childId of descendantIds(copies, item.id)) {
+          const child = byId.get(childId)!;
+          child.start = addDays(child.start, startDelta);
+          child.end = addDays(child.end, startDelta);
+          changed.add(childId);
+        }
+      }
+      item.start = edit.start;
+      item.end = edit.end;
+      changed.add(item.id);
+      propagate(copies, byId, [item.id, ...Array.from(changed)], changed);
+      break;
+    }
+    case 'addDependency': {
+      const from = byId.get(edit.fromId);
+      const to = byId.get(edit.toId);
+      if (!from || !to || from.id === to.id) throw new Error('依存関係を作成できません。');
+      if (from.type !== to.type || from.parentId !== to.parentId) {
+        throw new Error('依存関係は同じ階層・同じ親を持つ項目どうしでのみ作成できます。');
+      }
+      if (from.type === 'actionitem') {
+        throw new Error('アクションアイテムはリストの順番で実施されるため、依存関係を追加できません。');
+      }
+      if (to.dependencies.includes(from.id)) return { items, tasks };
+      if (dependsOn(byId, from.id, to.id)) throw new Error('この依存関係を追加すると循環が発生します。');
+      to.dependencies.push(from.id);
+      propagate(copies, byId, [from.id], changed);
+      break;
+    }
+    case 'removeDependency': {
+      const to = byId.get(edit.toId);
+      if (!to) throw new Error('対象の項目が見つかりません。');
+      to.dependencies = to.dependencies.filter(id => id !== edit.fromId);
+      break;
+    }
+    case 'progress': {
+      const item = byId.get(edit.itemId);
+      if (!item) throw new Error('対象の項目が見つかりません。');
+      const progress = Math.max(0, Math.min(100, Math.round(edit.progress)));
+      item.progress = item.type === 'actionitem' ? (progress >= 100 ? 100 : 0) : progress;
+      if (item.type === 'actionitem' && item.parentId) {
+        // Sub-step progress is derived from its action items.
+        const siblings = copies.filter(i => i.type === 'actionitem' && i.parentId === item.parentId);
+        const parent = byId.get(item.parentId);
+        if (parent) parent.progress = Math.round(siblings.filter(i => i.progress === 100).length / siblings.length * 100);
+      }
+      return { items: withCriticalPath(items, copies), tasks: writeBack(tasks, byId, changed, { ...edit, progress: item.progress }) };
+    }
+  }
+
+  return { items: withCriticalPath(items, copies), tasks: writeBack(tasks, byId, changed, edit) };
+};
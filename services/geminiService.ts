@@ -1,19 +1,39 @@
 
-import { GoogleGenAI, GenerateContentResponse } from "@google/genai";
-import { ProjectTask, SubStep, SlideDeck, ActionItem, TextboxElement, Slide, ProjectHealthReport, GanttItem, FlowchartElement, Decision } from '../types';
-import { GEMINI_MODEL_TEXT } from '../constants';
+import { ProjectTask, SubStep, SlideDeck, ActionItem, Slide, ProjectHealthReport, GanttItem, FlowchartElement, Decision, Attachment } from '../types';
+import { AiProvider, AiProviderConfig, AiContentPart, AiGenerateRequest, createAiProvider, isAbortError } from './aiProvider';
+import { readAttachmentForAI, formatFileSize } from './attachmentStorage';
+import { ValidationIssue, isObject, formatValidationIssues, validateProjectTasks, validateStepProposals, validateDecisions, validateSlideDeck, validateGanttItems, validateProjectHealthReport } from './aiSchemas';
 
-let ai: GoogleGenAI | null = null;
+let ai: AiProvider | null = null;
 
-export const initializeGemini = (apiKey: string) => {
-  if (!apiKey) {
+/**
+ * Incremental progress of a streamed generation. 'completed' counts units that
+ * have started streaming so far; 'total' is known only when the prompt or the
+ * input lets us predict it.
+ */
+export interface GenerationProgress {
+  unit: 'slides' | 'items' | 'characters';
+  completed: number;
+  total?: number;
+  repairAttempt: number; // 0 for the first response, >0 while the model repairs an invalid one
+}
+
+export interface GenerationOptions {
+  signal?: AbortSignal;
+  onProgress?: (progress: GenerationProgress) => void;
+}
+
+export const isGenerationCancelled = (error: unknown): boolean => isAbortError(error);
+
+export const initializeAiProvider = (config: AiProviderConfig | null) => {
+  if (!config) {
     ai = null;
     return;
   }
   try {
-    ai = new GoogleGenAI({ apiKey });
+    ai = createAiProvider(config);
   } catch (error) {
-    console.error("Failed to initialize Gemini AI:", error);
+    console.error("Failed to initialize AI provider:", error);
     ai = null;
   }
 };
@@ -225,18 +245,24 @@ const parseJsonFromText = <T,>(text: string): T | null => {
 };
 
 /**
- * Centralized error handler for Gemini API calls.
+ * Centralized error handler for AI provider calls.
  * @param error The error object caught from the API call.
  * @param context A string describing the context of the call (e.g., 'project plan generation').
  */
 const handleGeminiError = (error: unknown, context: string): never => {
-    console.error(`Error in Gemini API call during ${context}:`, error);
+    if (isAbortError(error)) {
+        // Cancellation is user-initiated; keep the AbortError so callers can tell it apart.
+        const cancelled = new Error('AI生成がキャンセルされました。');
+        cancelled.name = 'AbortError';
+        throw cancelled;
+    }
+    console.error(`Error in AI provider call during ${context}:`, error);
     
     let finalMessage = `AIとの通信中に不明なエラーが発生しました (${context})。`;
     
     if (error instanceof Error) {
         const errorMessage = error.message.toLowerCase();
-        if (errorMessage.includes('api key not valid') || errorMessage.includes('api key is invalid')) {
+        if (errorMessage.includes('api key not valid') || errorMessage.includes('api key is invalid') || errorMessage.includes('http 401')) {
             finalMessage = 'APIキーが無効です。キーを確認して再度設定してください。(API key not valid. Please pass a valid API key.)';
         } else if (errorMessage.includes('quota')) {
             finalMessage = "API利用上限に達しました。Google AI Platformのプランと請求情報を確認してください。(You have exceeded your API quota.)";
@@ -248,6 +274,117 @@ const handleGeminiError = (error: unknown, context: string): never => {
     throw new Error(finalMessage);
 };
 
+const MAX_REPAIR_ATTEMPTS = 2;
+
+const countMatches = (text: string, regex: RegExp): number => (text.match(regex) || []).length;
+
+/**
+ * Counts slides seen so far in a partially streamed deck. Every slide (locked or not)
+ * carries an "elements" key, and flowchart sub-steps do not, so it is a safe marker.
+ * @param knownTotal The expected slide count, if the caller already knows it.
+ */
+const measureSlideProgress = (knownTotal?: number) => (textSoFar: string): Omit<GenerationProgress, 'repairAttempt'> => {
+    const hinted = textSoFar.match(/"slideCount"\s*:\s*(\d+)/);
+    return {
+        unit: 'slides',
+        completed: countMatches(textSoFar, /"elements"\s*:/g),
+        total: knownTotal ?? (hinted ? parseInt(hinted[1], 10) : undefined),
+    };
+};
+
+const SLIDE_COUNT_HINT = 'Begin the JSON object with a "slideCount" field holding the number of slides you will produce, followed by "slides".';
+
+const countGanttSourceItems = (tasks: ProjectTask[]): number =>
+    tasks.reduce((sum, task) => sum + 1 + (task.extendedDetails?.subSteps || []).reduce(
+        (subSum, ss) => subSum + 1 + (ss.actionItems?.length || 0), 0), 0);
+
+/**
+ * Appends the rejected response and its validation errors to the original request,
+ * asking the model to return a corrected version.
+ */
+const buildRepairContents = (contents: string | AiContentPart[], previousText: string, issues: ValidationIssue[]): string | AiContentPart[] => {
+    const repairText = `
+      --- YOUR PREVIOUS RESPONSE (REJECTED) ---
+      ${previousText.substring(0, 6000)}
+      --- VALIDATION ERRORS ---
+      ${formatValidationIssues(issues)}
+      --- REPAIR INSTRUCTIONS ---
+      Your previous response did not pass validation. Fix every error listed above and return the COMPLETE corrected JSON.
+      Paths use '$' for the root value. Keep all valid content unchanged. Respond with the JSON only, without markdown or explanations.
+    `;
+    return typeof contents === 'string' ? `${contents}\n${repairText}` : [...contents, { text: repairText }];
+};
+
+/**
+ * Requests JSON from the AI provider and validates it against a runtime schema.
+ * Invalid responses are sent back to the model with field-level errors, up to
+ * MAX_REPAIR_ATTEMPTS times, before giving up.
+ * @param extras.normalize Optional fix-ups for known harmless deviations, applied before validation.
+ * @param extras.generation Cancellation signal and progress callback from the caller.
+ * @param extras.measureProgress Derives progress from the partially streamed text; streaming is only used when both this and onProgress are set.
+ */
+const generateValidatedJson = async <T,>(
+    request: AiGenerateRequest,
+    validate: (data: unknown) => ValidationIssue[],
+    extras: {
+        normalize?: (data: unknown) => unknown;
+        generation?: GenerationOptions;
+        measureProgress?: (textSoFar: string) => Omit<GenerationProgress, 'repairAttempt'>;
+    } = {},
+): Promise<T> => {
+    if (!ai) throw new Error("AI Service not initialized. Please set an API Key.");
+    const { normalize, generation, measureProgress } = extras;
+    let contents = request.contents;
+    let issues: ValidationIssue[] = [];
+
+    for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+        const onProgress = generation?.onProgress;
+        const text = await ai.generateText(
+            { ...request, contents, responseMimeType: 'application/json' },
+            {
+                signal: generation?.signal,
+                onChunk: onProgress && measureProgress
+                    ? textSoFar => onProgress({ ...measureProgress(textSoFar), repairAttempt: attempt })
+                    : undefined,
+            },
+        );
+        let data: unknown = null;
+        try {
+            data = parseJsonFromText<unknown>(text);
+            if (normalize) data = normalize(data);
+            issues = validate(data);
+        } catch (e) {
+            issues = [{ path: '$', message: `response is not valid JSON (${e instanceof Error ? e.message.substring(0, 200) : 'parse error'})` }];
+        }
+        if (issues.length === 0) return data as T;
+
+        console.warn(`AI response for ${request.operation} failed validation (attempt ${attempt + 1}):`, issues);
+        contents = buildRepairContents(request.contents, text, issues);
+    }
+
+    throw new Error(`AI response failed validation after ${MAX_REPAIR_ATTEMPTS} repair attempts:\n${formatValidationIssues(issues, 5)}`);
+};
+
+/**
+ * Older prompts and some models emit a "text" field for textboxes; the editor reads "content".
+ * Also drops the "slideCount" hint that streaming prompts ask for up front.
+ */
+const normalizeSlideDeck = (deck: unknown): unknown => {
+    if (!isObject(deck)) return deck;
+    delete deck.slideCount;
+    if (!Array.isArray(deck.slides)) return deck;
+    deck.slides.forEach((slide: unknown) => {
+        if (!isObject(slide) || !Array.isArray(slide.elements)) return;
+        slide.elements.forEach((el: unknown) => {
+            if (isObject(el) && el.type === 'textbox' && typeof el.text !== 'undefined' && typeof el.content === 'undefined') {
+                el.content = el.text;
+                delete el.text;
+            }
+        });
+    });
+    return deck;
+};
+
 
 export const generateProjectPlan = async (goal: string, date: string): Promise<ProjectTask[]> => {
   if (!ai) throw new Error("AI Service not initialized. Please set an API Key.");
@@ -265,14 +402,7 @@ export const generateProjectPlan = async (goal: string, date: string): Promise<P
   `;
 
   try {
-    const response: GenerateContentResponse = await ai.models.generateContent({
-      model: GEMINI_MODEL_TEXT, contents: prompt, config: { responseMimeType: "application/json" },
-    });
-    const tasks = parseJsonFromText<ProjectTask[]>(response.text);
-    if (!tasks || !Array.isArray(tasks) || tasks.some(task => !task.id || !task.title || !task.description)) {
-        throw new Error("AI returned an unexpected format for project tasks.");
-    }
-    return tasks;
+    return await generateValidatedJson<ProjectTask[]>({ operation: 'projectPlan', contents: prompt }, validateProjectTasks);
   } catch (error) {
     handleGeminiError(error, 'project plan generation');
   }
@@ -295,17 +425,7 @@ export const generateStepProposals = async (task: ProjectTask): Promise<{ title:
     6.  The JSON structure for each item must be: { "title": "...", "description": "..." }
   `;
   try {
-    const response: GenerateContentResponse = await ai.models.generateContent({
-      model: GEMINI_MODEL_TEXT, contents: prompt, config: { responseMimeType: "application/json" },
-    });
-    const proposals = parseJsonFromText<{ title: string; description: string; }[]>(response.text);
-    if (!proposals || !Array.isArray(proposals) || proposals.some(p => !p.title || !p.description)) {
-        throw new Error("AI returned an unexpected format for step proposals.");
-    }
-    if (proposals.length === 0) {
-        throw new Error("AI did not generate any proposals. The task might be too abstract.");
-    }
-    return proposals;
+    return await generateValidatedJson<{ title: string; description: string; }[]>({ operation: 'stepProposals', contents: prompt }, validateStepProposals);
   } catch (error) {
     handleGeminiError(error, 'step proposal generation');
   }
@@ -347,14 +467,11 @@ export const generateDecisions = async (task: ProjectTask, existingDecisions: De
     `;
 
     try {
-        const response: GenerateContentResponse = await ai.models.generateContent({
-            model: GEMINI_MODEL_TEXT, contents: prompt, config: { responseMimeType: "application/json" },
-        });
-        const decisions = parseJsonFromText<Decision[]>(response.text);
-        if (!decisions || !Array.isArray(decisions) || decisions.some(d => !d.question || !d.status || !d.id)) {
-            throw new Error("AI returned an unexpected format for decisions. Expected fields: id, question, status.");
-        }
-        return decisions;
+        const existingIds = existingDecisions.map(d => d.id);
+        return await generateValidatedJson<Decision[]>(
+            { operation: 'decisions', contents: prompt },
+            data => validateDecisions(data, existingIds),
+        );
     } catch (error) {
         handleGeminiError(error, 'decision generation');
     }
@@ -384,29 +501,17 @@ export const generateInitialSlideDeck = async (task: ProjectTask, projectGoal: s
         8.  Position elements logically. Do not let them overlap.
     `;
     try {
-        const response: GenerateContentResponse = await ai.models.generateContent({
-            model: GEMINI_MODEL_TEXT, contents: prompt, config: { responseMimeType: "application/json" },
-        });
-        const deck = parseJsonFromText<SlideDeck>(response.text);
-        if (!deck || !Array.isArray(deck.slides)) {
-            throw new Error("AI returned an invalid format for the slide deck.");
-        }
-        // Validate that textboxes use 'content', not 'text'
-        deck.slides.forEach(slide => {
-          slide.elements.forEach(el => {
-            if (el.type === 'textbox' && typeof (el as any).text !== 'undefined') {
-              (el as TextboxElement).content = (el as any).text;
-              delete (el as any).text;
-            }
-          })
-        });
-        return deck;
+        return await generateValidatedJson<SlideDeck>(
+            { operation: 'initialSlideDeck', contents: prompt },
+            data => validateSlideDeck(data, [task]),
+            { normalize: normalizeSlideDeck },
+        );
     } catch (error) {
         handleGeminiError(error, 'initial slide deck generation');
     }
 };
 
-export const regenerateSlideDeck = async (existingDeck: SlideDeck, task: ProjectTask, projectGoal: string): Promise<SlideDeck> => {
+export const regenerateSlideDeck = async (existingDeck: SlideDeck, task: ProjectTask, projectGoal: string, options?: GenerationOptions): Promise<SlideDeck> => {
     if (!ai) throw new Error("AI Service not initialized. Please set an API Key.");
     const prompt = `
       You are a presentation designer and project analyst. Your task is to update a project status report slide deck based on new data, while preserving slides that have been manually locked by the user.
@@ -424,21 +529,18 @@ export const regenerateSlideDeck = async (existingDeck: SlideDeck, task: Project
       6.  Follow the same JSON structure and rules as the initial generation.
     `;
     try {
-        const response: GenerateContentResponse = await ai.models.generateContent({
-            model: GEMINI_MODEL_TEXT, contents: prompt, config: { responseMimeType: "application/json" },
-        });
-        const deck = parseJsonFromText<SlideDeck>(response.text);
-        if (!deck || !Array.isArray(deck.slides)) {
-            throw new Error("AI returned an invalid format for the regenerated slide deck.");
-        }
-        return deck;
+        return await generateValidatedJson<SlideDeck>(
+            { operation: 'regenerateSlideDeck', contents: prompt },
+            data => validateSlideDeck(data, [task]),
+            { normalize: normalizeSlideDeck, generation: options, measureProgress: measureSlideProgress(existingDeck.slides.length) },
+        );
     } catch (error) {
         handleGeminiError(error, 'slide deck regeneration');
     }
 };
 
 
-export const optimizeSlideLayout = async (deck: SlideDeck): Promise<SlideDeck> => {
+export const optimizeSlideLayout = async (deck: SlideDeck, options?: GenerationOptions): Promise<SlideDeck> => {
     if (!ai) throw new Error("AI Service not initialized. Please set an API Key.");
     const prompt = `
         You are an expert presentation designer. The following JSON represents a slide deck.
@@ -451,14 +553,11 @@ export const optimizeSlideLayout = async (deck: SlideDeck): Promise<SlideDeck> =
         ${JSON.stringify(pruneSlideDeckForAI(deck))}
     `;
     try {
-        const response: GenerateContentResponse = await ai.models.generateContent({
-            model: GEMINI_MODEL_TEXT, contents: prompt, config: { responseMimeType: "application/json" },
-        });
-        const optimizedDeck = parseJsonFromText<SlideDeck>(response.text);
-        if (!optimizedDeck || !Array.isArray(optimizedDeck.slides)) {
-            throw new Error("AI returned an invalid format for the optimized slide deck.");
-        }
-        return optimizedDeck;
+        return await generateValidatedJson<SlideDeck>(
+            { operation: 'optimizeSlideLayout', contents: prompt },
+            data => validateSlideDeck(data),
+            { normalize: normalizeSlideDeck, generation: options, measureProgress: measureSlideProgress(deck.slides.length) },
+        );
     } catch (error) {
         handleGeminiError(error, 'slide layout optimization');
     }
@@ -495,20 +594,17 @@ export const generateProjectHealthReport = async (tasks: ProjectTask[], projectG
     `;
 
     try {
-        const response: GenerateContentResponse = await ai.models.generateContent({
-            model: GEMINI_MODEL_TEXT, contents: prompt, config: { responseMimeType: "application/json" },
-        });
-        const report = parseJsonFromText<ProjectHealthReport>(response.text);
-        if (!report || !report.overallStatus || !report.summary) {
-            throw new Error("AI returned an invalid format for the project health report.");
-        }
-        return report;
+        const taskIds = tasks.map(t => t.id);
+        return await generateValidatedJson<ProjectHealthReport>(
+            { operation: 'projectHealthReport', contents: prompt },
+            data => validateProjectHealthReport(data, taskIds),
+        );
     } catch (error) {
         handleGeminiError(error, 'project health report generation');
     }
 };
 
-export const generateProjectReportDeck = async (tasks: ProjectTask[], projectGoal: string, targetDate: string): Promise<SlideDeck> => {
+export const generateProjectReportDeck = async (tasks: ProjectTask[], projectGoal: string, targetDate: string, options?: GenerationOptions): Promise<SlideDeck> => {
     if (!ai) throw new Error("AI Service not initialized. Please set an API Key.");
     const prompt = `
         You are a senior project analyst AI. Your task is to create a comprehensive slide deck summarizing the ENTIRE project status.
@@ -527,23 +623,21 @@ export const generateProjectReportDeck = async (tasks: ProjectTask[], projectGoa
             - **Key Achievements & Risks**: Create dedicated slides for significant achievements and project-level risks.
             - **Conclusion**: A final slide summarizing the project's outlook and next steps.
         5.  Use the standard JSON format for slides and elements. Remember "content" for textboxes.
+        6.  ${SLIDE_COUNT_HINT}
     `;
     try {
-        const response: GenerateContentResponse = await ai.models.generateContent({
-            model: GEMINI_MODEL_TEXT, contents: prompt, config: { responseMimeType: "application/json" },
-        });
-        const deck = parseJsonFromText<SlideDeck>(response.text);
-        if (!deck || !Array.isArray(deck.slides)) {
-            throw new Error("AI returned an invalid format for the project slide deck.");
-        }
-        return deck;
+        return await generateValidatedJson<SlideDeck>(
+            { operation: 'projectReportDeck', contents: prompt },
+            data => validateSlideDeck(data, tasks),
+            { normalize: normalizeSlideDeck, generation: options, measureProgress: measureSlideProgress() },
+        );
     } catch (error) {
         handleGeminiError(error, 'project report deck generation');
     }
 };
 
 
-export const regenerateProjectReportDeck = async (existingDeck: SlideDeck, tasks: ProjectTask[], projectGoal: string, targetDate: string): Promise<SlideDeck> => {
+export const regenerateProjectReportDeck = async (existingDeck: SlideDeck, tasks: ProjectTask[], projectGoal: string, targetDate: string, options?: GenerationOptions): Promise<SlideDeck> => {
     if (!ai) throw new Error("AI Service not initialized. Please set an API Key.");
     const prompt = `
       You are a senior project analyst AI. Your task is to update a project-wide status report slide deck based on new data, while preserving slides that have been manually locked by the user.
@@ -562,14 +656,11 @@ export const regenerateProjectReportDeck = async (existingDeck: SlideDeck, tasks
       6.  The output language MUST be Japanese.
     `;
     try {
-        const response: GenerateContentResponse = await ai.models.generateContent({
-            model: GEMINI_MODEL_TEXT, contents: prompt, config: { responseMimeType: "application/json" },
-        });
-        const deck = parseJsonFromText<SlideDeck>(response.text);
-        if (!deck || !Array.isArray(deck.slides)) {
-            throw new Error("AI returned an invalid format for the regenerated project slide deck.");
-        }
-        return deck;
+        return await generateValidatedJson<SlideDeck>(
+            { operation: 'regenerateProjectReportDeck', contents: prompt },
+            data => validateSlideDeck(data, tasks),
+            { normalize: normalizeSlideDeck, generation: options, measureProgress: measureSlideProgress(existingDeck.slides.length) },
+        );
     } catch (error) {
         handleGeminiError(error, 'project report deck regeneration');
     }
@@ -588,14 +679,33 @@ export interface CustomSource {
   name: string;
   type: 'json' | 'image' | 'text';
   content: any;
+  attachment?: Attachment; // File contents are loaded from storage when the prompt is built
 }
 
-const buildSourceParts = (sources: CustomSource[]): any[] => {
+const buildAttachmentParts = async (attachment: Attachment): Promise<AiContentPart[]> => {
+    try {
+        const loaded = await readAttachmentForAI(attachment);
+        if (loaded.kind === 'image') {
+            return [{ inlineData: { mimeType: loaded.mimeType, data: loaded.data } }];
+        }
+        if (loaded.kind === 'text') {
+            return [{ text: `Type: Text\nContent: ${loaded.text}` }];
+        }
+        return [{ text: `Type: File (${attachment.type || 'unknown'}${attachment.size !== undefined ? `, ${formatFileSize(attachment.size)}` : ''})\n[Binary content is not included]` }];
+    } catch (error) {
+        console.warn(`Could not load attachment "${attachment.name}" for the AI prompt:`, error);
+        return [{ text: "[Attachment could not be loaded]" }];
+    }
+};
+
+const buildSourceParts = async (sources: CustomSource[]): Promise<AiContentPart[]> => {
     if (!ai) throw new Error("AI Service not initialized. Please set an API Key.");
-    const parts: any[] = [];
+    const parts: AiContentPart[] = [];
     for (const source of sources) {
         parts.push({ text: `\n--- START OF SOURCE: ${source.name} ---\n` });
-        if (source.type === 'image' && typeof source.content === 'string') {
+        if (source.attachment) {
+            parts.push(...await buildAttachmentParts(source.attachment));
+        } else if (source.type === 'image' && typeof source.content === 'string') {
             const imageData = getBase64FromDataUrl(source.content);
             if (imageData) {
                 parts.push({
@@ -618,7 +728,7 @@ const buildSourceParts = (sources: CustomSource[]): any[] => {
     return parts;
 };
 
-export const generateCustomSlideDeck = async (sources: CustomSource[], userPrompt: string): Promise<SlideDeck> => {
+export const generateCustomSlideDeck = async (sources: CustomSource[], userPrompt: string, options?: GenerationOptions): Promise<SlideDeck> => {
     if (!ai) throw new Error("AI Service not initialized. Please set an API Key.");
     const promptHeader = `
         You are a professional presentation designer AI. Your task is to create a slide deck based on a user's objective and provided source materials.
@@ -685,32 +795,27 @@ export const generateCustomSlideDeck = async (sources: CustomSource[], userPromp
             *   Do not just copy-paste. Interpret, summarize, and visualize the information effectively.
         4.  **Language**: The output language MUST be Japanese.
         5.  **IDs**: Generate unique string IDs for all 'id' fields in slides and elements.
+        6.  **Slide Count**: ${SLIDE_COUNT_HINT}
 
         **SOURCE MATERIALS FOLLOW**:
     `;
 
-    const parts: any[] = [{ text: promptHeader }, ...buildSourceParts(sources)];    
+    const parts: AiContentPart[] = [{ text: promptHeader }, ...(await buildSourceParts(sources))];    
     parts.push({ text: `\nReminder: Create the slide deck now based on the objective and all the sources provided above. The response must be only the JSON object.`});
 
     try {
-        const response = await ai.models.generateContent({
-            model: GEMINI_MODEL_TEXT,
-            contents: { parts },
-            config: { responseMimeType: "application/json" }
-        });
-
-        const deck = parseJsonFromText<SlideDeck>(response.text);
-        if (!deck || !Array.isArray(deck.slides)) {
-            throw new Error("AI returned an invalid format for the custom slide deck.");
-        }
-        return deck;
+        return await generateValidatedJson<SlideDeck>(
+            { operation: 'customSlideDeck', contents: parts },
+            data => validateSlideDeck(data),
+            { normalize: normalizeSlideDeck, generation: options, measureProgress: measureSlideProgress() },
+        );
     } catch (error) {
         handleGeminiError(error, 'custom slide deck generation');
     }
 };
 
 
-export const generateCustomTextReport = async (sources: CustomSource[], userPrompt: string): Promise<string> => {
+export const generateCustomTextReport = async (sources: CustomSource[], userPrompt: string, options?: GenerationOptions): Promise<string> => {
     if (!ai) throw new Error("AI Service not initialized. Please set an API Key.");
     const promptHeader = `
         You are an expert project analyst. Your task is to write a text-based report based on a specific user objective and a collection of source materials.
@@ -726,22 +831,25 @@ export const generateCustomTextReport = async (sources: CustomSource[], userProm
         SOURCE MATERIALS FOLLOW:
     `;
 
-    const parts: any[] = [{ text: promptHeader }, ...buildSourceParts(sources)];
+    const parts: AiContentPart[] = [{ text: promptHeader }, ...(await buildSourceParts(sources))];
     parts.push({ text: `\nReminder: Write the report now based on the objective and all the sources provided above. The response must be only the text report.`});
     
     try {
-        const response = await ai.models.generateContent({
-            model: GEMINI_MODEL_TEXT,
-            contents: { parts },
-        });
-        return response.text;
+        const onProgress = options?.onProgress;
+        return await ai.generateText(
+            { operation: 'customTextReport', contents: parts },
+            {
+                signal: options?.signal,
+                onChunk: onProgress ? textSoFar => onProgress({ unit: 'characters', completed: textSoFar.length, repairAttempt: 0 }) : undefined,
+            },
+        );
     } catch (error) {
         handleGeminiError(error, 'custom text report generation');
     }
 };
 
 
-export const generateGanttData = async (tasks: ProjectTask[], projectGoal: string, targetDate: string): Promise<GanttItem[]> => {
+export const generateGanttData = async (tasks: ProjectTask[], projectGoal: string, targetDate: string, options?: GenerationOptions): Promise<GanttItem[]> => {
     if (!ai) throw new Error("AI Service not initialized. Please set an API Key.");
     const prompt = `
       You are a project management assistant AI. Your task is to convert a project structure into data for a Gantt chart.
@@ -774,14 +882,15 @@ export const generateGanttData = async (tasks: ProjectTask[], projectGoal: strin
     `;
 
     try {
-        const response: GenerateContentResponse = await ai.models.generateContent({
-            model: GEMINI_MODEL_TEXT, contents: prompt, config: { responseMimeType: "application/json" },
-        });
-        const ganttData = parseJsonFromText<GanttItem[]>(response.text);
-        if (!ganttData || !Array.isArray(ganttData)) {
-            throw new Error("AI returned an invalid format for the Gantt chart data.");
-        }
-        return ganttData;
+        const total = countGanttSourceItems(tasks);
+        return await generateValidatedJson<GanttItem[]>(
+            { operation: 'ganttData', contents: prompt },
+            validateGanttItems,
+            {
+                generation: options,
+                measureProgress: textSoFar => ({ unit: 'items', completed: Math.min(countMatches(textSoFar, /"progress"\s*:/g), total), total }),
+            },
+        );
     } catch (error) {
         handleGeminiError(error, 'Gantt chart data generation');
     }
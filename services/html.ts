@@ -0,0 +1,8 @@
+/**
+ * Escapes text for HTML (and SVG) element content and quoted attribute values.
+ */
+export const escapeHtml = (text: string | number | undefined | null): string => String(text ?? '')
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
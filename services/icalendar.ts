@@ -0,0 +1,153 @@
+import { ProjectTask, TaskStatus, SubStepStatus } from '../types';
+
+/**
+ * iCalendar (.ics) export of due dates.
+ *
+ * Every task, sub-step and action item with a due date becomes an all-day event; task due dates
+ * are marked as milestones and the project's target date is added when no person filter is set.
+ * Events link back to the task through `?project=<id>&task=<id>`, which App opens on startup.
+ * The subscribable feed in supabase/migrations/20250723090000_calendar_feeds.sql builds the same
+ * events on the server, so UIDs match and a downloaded file and a feed do not create duplicates.
+ */
+
+export interface CalendarExportOptions {
+  projectId?: string | null; // Needed for links back to the task; local projects get no links
+  projectTitle: string;
+  appUrl: string;
+  responsible?: string; // Only items whose responsible field includes this name
+}
+
+interface CalendarEvent {
+  uid: string;
+  date: string;
+  summary: string;
+  description: string;
+  url?: string;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}/;
+
+// Rejects dates such as 2025-13-45 or 2025-02-30 (Date.parse rolls the latter over), like try_parse_date in the feed
+const isValidDate = (date: string): boolean => {
+  const day = date.slice(0, 10);
+  const time = Date.parse(`${day}T00:00:00Z`);
+  return DATE_PATTERN.test(date) && !isNaN(time) && new Date(time).toISOString().startsWith(day);
+};
+
+const escapeText = (text: string) => text
+  .replace(/\\/g, '\\\\')
+  .replace(/;/g, '\\;')
+  .replace(/,/g, '\\,')
+  .replace(/\r/g, '')
+  .replace(/\n/g, '\\n');
+
+// Lines longer than 75 octets are folded (RFC 5545 3.1)
+const foldLine = (line: string): string => {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  for (const char of line) {
+    const limit = parts.length === 0 ? 75 : 74;
+    if (encoder.encode(current + char).length > limit) {
+      parts.push(current);
+      current = '';
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+const toIcsDate = (date: string) => date.slice(0, 10).replace(/-/g, '');
+
+const nextDay = (date: string) => {
+  const day = new Date(`${date.slice(0, 10)}T00:00:00Z`);
+  day.setUTCDate(day.getUTCDate() + 1);
+  return day.toISOString().slice(0, 10);
+};
+
+export const splitResponsible = (responsible: string | undefined): string[] =>
+  (responsible || '').split(/[、,，/]/).map(name => name.trim()).filter(Boolean);
+
+const includesResponsible = (responsible: string | undefined, name: string) =>
+  splitResponsible(responsible).some(part => part.toLowerCase() === name.trim().toLowerCase());
+
+// Names in the responsible fields of the project, for the person filter
+export const collectResponsibleNames = (tasks: ProjectTask[]): string[] => {
+  const names = new Set<string>();
+  tasks.forEach(task => {
+    splitResponsible(task.extendedDetails?.responsible).forEach(name => names.add(name));
+    (task.extendedDetails?.subSteps || []).forEach(subStep => {
+      splitResponsible(subStep.responsible).forEach(name => names.add(name));
+      (subStep.actionItems || []).forEach(item => splitResponsible(item.responsible).forEach(name => names.add(name)));
+    });
+  });
+  return Array.from(names).sort((a, b) => a.localeCompare(b, 'ja'));
+};
+
+const collectEvents = (goal: string, targetDate: string, tasks: ProjectTask[], options: CalendarExportOptions): CalendarEvent[] => {
+  const events: CalendarEvent[] = [];
+  const projectKey = options.projectId || 'local';
+  const baseUrl = options.appUrl.replace(/\/+$/, '');
+  const linkTo = (taskId?: string) => options.projectId
+    ? `${baseUrl}/?project=${options.projectId}${taskId ? `&task=${encodeURIComponent(taskId)}` : ''}`
+    : undefined;
+  const add = (uid: string, date: string | undefined, summary: string, description: string, responsible: string | undefined, taskId?: string) => {
+    if (!date || !isValidDate(date)) return;
+    if (options.responsible && !includesResponsible(responsible, options.responsible)) return;
+    const url = linkTo(taskId);
+    const details = [description, responsible ? `担当: ${responsible}` : '', url || ''].filter(Boolean).join('\n');
+    events.push({ uid: `${uid}@ai-project-planner`, date, summary, description: details, url });
+  };
+
+  if (!options.responsible) {
+    add(`project-${projectKey}`, targetDate, `【目標日】${options.projectTitle}`, goal, undefined);
+  }
+  tasks.forEach(task => {
+    const details = task.extendedDetails;
+    add(`task-${projectKey}-${task.id}`, details?.dueDate,
+      `◆ ${task.title}${task.status === TaskStatus.COMPLETED ? '（完了）' : ''}`,
+      `${options.projectTitle}\n${task.description || ''}`, details?.responsible, task.id);
+    (details?.subSteps || []).forEach(subStep => {
+      add(`substep-${projectKey}-${task.id}-${subStep.id}`, subStep.dueDate,
+        `${subStep.text}${subStep.status === SubStepStatus.COMPLETED ? '（完了）' : ''}`,
+        `${options.projectTitle} / ${task.title}${subStep.notes ? `\n${subStep.notes}` : ''}`, subStep.responsible, task.id);
+      (subStep.actionItems || []).forEach(item => {
+        add(`action-${projectKey}-${task.id}-${subStep.id}-${item.id}`, item.dueDate,
+          `${item.text}${item.completed ? '（完了）' : ''}`,
+          `${options.projectTitle} / ${task.title} / ${subStep.text}`, item.responsible, task.id);
+      });
+    });
+  });
+  return events.sort((a, b) => a.date.localeCompare(b.date) || a.uid.localeCompare(b.uid));
+};
+
+/**
+ * Builds an .ics file with the due dates of the project.
+ */
+export const exportProjectIcs = (goal: string, targetDate: string, tasks: ProjectTask[], options: CalendarExportOptions): string => {
+  const stamp = new Date().toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+  const calendarName = options.responsible ? `${options.projectTitle}（${options.responsible}）` : options.projectTitle;
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//AI Project Planner//Calendar Export//JA',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(calendarName)}`,
+    ...collectEvents(goal, targetDate, tasks, options).flatMap(event => [
+      'BEGIN:VEVENT',
+      `UID:${event.uid}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;VALUE=DATE:${toIcsDate(event.date)}`,
+      `DTEND;VALUE=DATE:${toIcsDate(nextDay(event.date))}`,
+      `SUMMARY:${escapeText(event.summary)}`,
+      `DESCRIPTION:${escapeText(event.description)}`,
+      ...(event.url ? [`URL:${event.url}`] : []),
+      'TRANSP:TRANSPARENT',
+      'END:VEVENT',
+    ]),
+    'END:VCALENDAR',
+  ];
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
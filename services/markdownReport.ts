@@ -0,0 +1,304 @@
+import { Marked, Token, Tokens } from 'marked';
+import {
+  Document, Packer, Paragraph, TextRun, ImageRun, ExternalHyperlink, HeadingLevel, Table, TableRow, TableCell,
+  WidthType, AlignmentType, LevelFormat, ShadingType, BorderStyle, ParagraphChild,
+} from 'docx';
+import { Attachment } from '../types';
+import { getAttachmentBlob, blobToDataUrl } from './attachmentStorage';
+import { escapeHtml } from './html';
+
+/**
+ * Markdown text reports: preview rendering and export to Markdown, HTML and Word (.docx).
+ *
+ * Images from project attachments are written as `![name](attachment:<attachment id>)` so the
+ * report keeps working when files move between storage locations. Exports embed the image data:
+ * data URLs in Markdown and HTML, image parts in DOCX. Selected images that the text does not
+ * reference are added at the end under their own heading.
+ */
+
+const ATTACHMENT_SCHEME = 'attachment:';
+const FONT_FACE = 'Meiryo';
+const MAX_IMAGE_WIDTH = 600; // Pixels; about the text width of an A4 page in Word
+
+export const isReportImage = (attachment: Attachment) => attachment.type.startsWith('image/');
+
+export const attachmentImageMarkdown = (attachment: Attachment) =>
+  `![${attachment.name.replace(/[[\]]/g, '')}](${ATTACHMENT_SCHEME}${attachment.id})`;
+
+const attachmentIdOf = (href: string) => (href.startsWith(ATTACHMENT_SCHEME) ? href.slice(ATTACHMENT_SCHEME.length) : null);
+
+// Links and images may only use these schemes; anything else (javascript:, vbscript:, data:text/html...) is dropped
+const SAFE_URL = /^(https?:|mailto:|attachment:)/i;
+const SAFE_IMAGE_URL = /^(https?:|attachment:|data:image\/)/i;
+
+// Appends the selected images that are not referenced in the text
+const withAttachedImages = (markdown: string, attachments: Attachment[]): string => {
+  const unreferenced = attachments.filter(attachment => isReportImage(attachment) && !markdown.includes(`${ATTACHMENT_SCHEME}${attachment.id})`));
+  if (unreferenced.length === 0) return markdown;
+  return `${markdown.trimEnd()}\n\n## 添付画像\n\n${unreferenced.map(attachmentImageMarkdown).join('\n\n')}\n`;
+};
+
+/**
+ * Renders Markdown to HTML. Raw HTML in the text is shown as text, not interpreted.
+ * `resolveImage` returns the URL of an attachment image, or undefined while it is loading.
+ */
+export const renderMarkdownHtml = (markdown: string, resolveImage: (attachmentId: string) => string | undefined): string => {
+  const marked = new Marked({ gfm: true, breaks: true });
+  marked.use({
+    renderer: {
+      html: ({ text }) => escapeHtml(text),
+      image: ({ href, title, text }) => {
+        const attachmentId = attachmentIdOf(href);
+        const src = attachmentId ? resolveImage(attachmentId) : SAFE_IMAGE_URL.test(href.trim()) ? href : undefined;
+        if (!src) return `<span class="missing-image">［画像: ${escapeHtml(text)}］</span>`;
+        return `<img src="${escapeHtml(src)}" alt="${escapeHtml(text)}"${title ? ` title="${escapeHtml(title)}"` : ''}>`;
+      },
+      link: ({ href, title, tokens }) => {
+        const text = marked.Parser.parseInline(tokens);
+        if (!SAFE_URL.test(href.trim())) return `<span>${text}</span>`;
+        return `<a href="${escapeHtml(href)}"${title ? ` title="${escapeHtml(title)}"` : ''} target="_blank" rel="noopener noreferrer">${text}</a>`;
+      },
+    },
+  });
+  return marked.parse(markdown, { async: false }) as string;
+};
+
+// --- Embedded images ---
+
+interface LoadedImage {
+  blob: Blob;
+  dataUrl: string;
+  width: number;
+  height: number;
+}
+
+// Word only embeds PNG, JPEG, GIF and BMP; other formats (WebP, SVG...) are converted to PNG
+const WORD_IMAGE_TYPES: Record<string, 'png' | 'jpg' | 'gif' | 'bmp'> = {
+  'image/png': 'png', 'image/jpeg': 'jpg', 'image/gif': 'gif', 'image/bmp': 'bmp',
+};
+
+const loadImages = async (attachments: Attachment[]): Promise<Map<string, LoadedImage>> => {
+  const images = new Map<string, LoadedImage>();
+  for (const attachment of attachments.filter(isReportImage)) {
+    try {
+      let blob = await getAttachmentBlob(attachment);
+      if (!blob.type) blob = new Blob([blob], { type: attachment.type });
+      const bitmap = await createImageBitmap(blob);
+      const { width, height } = bitmap;
+      if (!WORD_IMAGE_TYPES[blob.type]) {
+        const canvas = document.createElement('canvas');
+        canvas.width = width;
+        canvas.height = height;
+        canvas.getContext('2d')?.drawImage(bitmap, 0, 0);
+        blob = await new Promise<Blob>((resolve, reject) =>
+          canvas.toBlob(png => (png ? resolve(png) : reject(new Error('画像を変換できませんでした。'))), 'image/png'));
+      }
+      bitmap.close();
+      images.set(attachment.id, { blob, dataUrl: await blobToDataUrl(blob), width, height });
+    } catch (error) {
+      console.error(`Failed to load report image ${attachment.name}:`, error);
+    }
+  }
+  return images;
+};
+
+// --- Markdown and HTML ---
+
+/**
+ * Markdown with images embedded as data URLs, so the file is self-contained.
+ */
+export const exportReportMarkdown = async (title: string, markdown: string, attachments: Attachment[]): Promise<string> => {
+  const images = await loadImages(attachments);
+  const body = withAttachedImages(markdown, attachments).replace(
+    /\]\(attachment:([^)\s]+)\)/g,
+    (match, attachmentId: string) => (images.has(attachmentId) ? `](${images.get(attachmentId)!.dataUrl})` : match),
+  );
+  return `# ${title}\n\n${body.trim()}\n`;
+};
+
+const REPORT_STYLE = `
+body { font-family: "${FONT_FACE}", sans-serif; max-width: 860px; margin: 0 auto; padding: 32px 24px; color: #1e293b; line-height: 1.7; }
+h1, h2, h3 { line-height: 1.3; } h1 { border-bottom: 2px solid #e2e8f0; padding-bottom: 6px; } h2 { border-bottom: 1px solid #e2e8f0; padding-bottom: 4px; }
+table { border-collapse: collapse; margin: 12px 0; } th, td { border: 1px solid #cbd5e1; padding: 4px 10px; } th { background: #f1f5f9; }
+img { max-width: 100%; } blockquote { margin: 12px 0; padding-left: 12px; border-left: 4px solid #cbd5e1; color: #475569; }
+code { background: #f1f5f9; padding: 1px 4px; border-radius: 3px; } pre code { display: block; padding: 12px; overflow-x: auto; }
+`;
+
+/**
+ * Standalone HTML page with images embedded as data URLs.
+ */
+export const exportReportHtml = async (title: string, markdown: string, attachments: Attachment[]): Promise<string> => {
+  const images = await loadImages(attachments);
+  const body = renderMarkdownHtml(withAttachedImages(markdown, attachments), attachmentId => images.get(attachmentId)?.dataUrl);
+  return `<!DOCTYPE html>
+<html lang="ja">
+<head><meta charset="UTF-8"><title>${escapeHtml(title)}</title><style>${REPORT_STYLE}</style></head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+${body}
+</body>
+</html>
+`;
+};
+
+// --- Word ---
+
+interface RunStyle {
+  bold?: boolean;
+  italics?: boolean;
+  strike?: boolean;
+}
+
+const HEADING_LEVELS = [HeadingLevel.HEADING_1, HeadingLevel.HEADING_2, HeadingLevel.HEADING_3, HeadingLevel.HEADING_4, HeadingLevel.HEADING_5, HeadingLevel.HEADING_6];
+const BULLET_REFERENCE = 'report-bullets';
+const NUMBER_REFERENCE = 'report-numbers';
+const CELL_BORDER = { style: BorderStyle.SINGLE, size: 4, color: 'CBD5E1' };
+
+class DocxWriter {
+  private numberInstance = 0;
+
+  constructor(private images: Map<string, LoadedImage>) {}
+
+  private imageRun(href: string, alt: string): ParagraphChild {
+    const image = this.images.get(attachmentIdOf(href) || '');
+    if (!image) return new TextRun({ text: `［画像: ${alt}］`, color: '64748B' });
+    const scale = Math.min(1, MAX_IMAGE_WIDTH / image.width);
+    return new ImageRun({
+      type: WORD_IMAGE_TYPES[image.blob.type] || 'png',
+      data: image.dataUrl,
+      transformation: { width: Math.round(image.width * scale), height: Math.round(image.height * scale) },
+      altText: { name: alt, description: alt, title: alt },
+    });
+  }
+
+  inline(tokens: Token[] | undefined, style: RunStyle = {}): ParagraphChild[] {
+    return (tokens || []).flatMap((token): ParagraphChild[] => {
+      switch (token.type) {
+        case 'strong': return this.inline(token.tokens, { ...style, bold: true });
+        case 'em': return this.inline(token.tokens, { ...style, italics: true });
+        case 'del': return this.inline(token.tokens, { ...style, strike: true });
+        case 'codespan': return [new TextRun({ ...style, text: token.text, font: 'Consolas', shading: { type: ShadingType.CLEAR, fill: 'F1F5F9', color: 'auto' } })];
+        case 'br': return [new TextRun({ break: 1 })];
+        case 'image': return [this.imageRun(token.href, token.text)];
+        case 'link':
+          return SAFE_URL.test(token.href.trim())
+            ? [new ExternalHyperlink({ link: token.href, children: this.inline(token.tokens, { ...style }) })]
+            : this.inline(token.tokens, style);
+        case 'text':
+          return token.tokens ? this.inline(token.tokens, style) : [new TextRun({ ...style, text: token.text })];
+        default:
+          return [new TextRun({ ...style, text: 'text' in token ? String(token.text) : token.raw })];
+      }
+    });
+  }
+
+  // Paragraphs inside block quotes are indented with a bar on the left
+  private quoteStyle(quoteDepth: number) {
+    return quoteDepth > 0
+      ? { indent: { left: 360 * quoteDepth }, border: { left: { style: BorderStyle.SINGLE, size: 12, color: 'CBD5E1', space: 8 } } }
+      : {};
+  }
+
+  blocks(tokens: Token[], listLevel = 0, quoteDepth = 0): (Paragraph | Table)[] {
+    return tokens.flatMap((token): (Paragraph | Table)[] => {
+      switch (token.type) {
+        case 'heading':
+          return [new Paragraph({ heading: HEADING_LEVELS[Math.min(token.depth, 6) - 1], children: this.inline(token.tokens), ...this.quoteStyle(quoteDepth) })];
+        case 'paragraph':
+        case 'text':
+          return [new Paragraph({
+            children: token.tokens ? this.inline(token.tokens) : [new TextRun({ text: token.text })],
+            spacing: { after: 120 },
+            ...this.quoteStyle(quoteDepth),
+          })];
+        case 'list':
+          return this.list(token as Tokens.List, listLevel);
+        case 'table':
+          return [this.table(token as Tokens.Table), new Paragraph({})];
+        case 'blockquote':
+          return this.blocks(token.tokens || [], listLevel, quoteDepth + 1);
+        case 'code':
+          return String(token.text).split('\n').map(line => new Paragraph({
+            children: [new TextRun({ text: line, font: 'Consolas', size: 18 })],
+            shading: { type: ShadingType.CLEAR, fill: 'F1F5F9', color: 'auto' },
+          }));
+        case 'hr':
+          return [new Paragraph({ border: { bottom: { style: BorderStyle.SINGLE, size: 6, color: 'CBD5E1', space: 1 } } })];
+        case 'space':
+          return [];
+        default:
+          return [new Paragraph({ children: [new TextRun({ text: token.raw.trim() })] })];
+      }
+    });
+  }
+
+  private list(list: Tokens.List, level: number): (Paragraph | Table)[] {
+    const instance = ++this.numberInstance;
+    return list.items.flatMap(item => {
+      const [first, ...rest] = item.tokens;
+      const inlineTokens = first && (first.type === 'text' || first.type === 'paragraph') ? (first.tokens || []) : [];
+      const checkbox = item.task ? [new TextRun({ text: item.checked ? '☑ ' : '☐ ' })] : [];
+      const paragraph = new Paragraph({
+        children: [...checkbox, ...this.inline(inlineTokens)],
+        numbering: list.ordered
+          ? { reference: NUMBER_REFERENCE, level: Math.min(level, 8), instance }
+          : { reference: BULLET_REFERENCE, level: Math.min(level, 8) },
+      });
+      const remaining = inlineTokens.length > 0 ? rest : item.tokens;
+      return [paragraph, ...this.blocks(remaining.filter(token => token.type !== 'checkbox'), level + 1)];
+    });
+  }
+
+  private table(table: Tokens.Table): Table {
+    const alignment = (align: Tokens.TableCell['align']) =>
+      align === 'center' ? AlignmentType.CENTER : align === 'right' ? AlignmentType.RIGHT : AlignmentType.LEFT;
+    const cell = (tableCell: Tokens.TableCell, header: boolean) => new TableCell({
+      children: [new Paragraph({ alignment: alignment(tableCell.align), children: this.inline(tableCell.tokens, header ? { bold: true } : {}) })],
+      shading: header ? { type: ShadingType.CLEAR, fill: 'F1F5F9', color: 'auto' } : undefined,
+      borders: { top: CELL_BORDER, bottom: CELL_BORDER, left: CELL_BORDER, right: CELL_BORDER },
+      margins: { top: 40, bottom: 40, left: 100, right: 100 },
+    });
+    return new Table({
+      width: { size: 100, type: WidthType.PERCENTAGE },
+      rows: [
+        new TableRow({ tableHeader: true, children: table.header.map(headerCell => cell(headerCell, true)) }),
+        ...table.rows.map(row => new TableRow({ children: row.map(rowCell => cell(rowCell, false)) })),
+      ],
+    });
+  }
+}
+
+const listLevels = (format: (typeof LevelFormat)[keyof typeof LevelFormat], text: (level: number) => string) =>
+  Array.from({ length: 9 }, (_, level) => ({
+    level,
+    format,
+    text: text(level),
+    alignment: AlignmentType.LEFT,
+    style: { paragraph: { indent: { left: 420 * (level + 1), hanging: 300 } } },
+  }));
+
+/**
+ * Word document with headings, lists, tables and embedded images.
+ */
+export const exportReportDocx = async (title: string, markdown: string, attachments: Attachment[]): Promise<Blob> => {
+  const writer = new DocxWriter(await loadImages(attachments));
+  const tokens = new Marked({ gfm: true, breaks: true }).lexer(withAttachedImages(markdown, attachments));
+
+  const document = new Document({
+    title,
+    styles: { default: { document: { run: { font: FONT_FACE, size: 21 } } } },
+    numbering: {
+      config: [
+        { reference: BULLET_REFERENCE, levels: listLevels(LevelFormat.BULLET, level => ['●', '○', '■'][level % 3]) },
+        { reference: NUMBER_REFERENCE, levels: listLevels(LevelFormat.DECIMAL, level => `%${level + 1}.`) },
+      ],
+    },
+    sections: [{
+      children: [
+        new Paragraph({ heading: HeadingLevel.TITLE, children: [new TextRun({ text: title })] }),
+        ...writer.blocks(tokens),
+      ],
+    }],
+  });
+  return Packer.toBlob(document);
+};
@@ -0,0 +1,459 @@
+import { ProjectTask, SubStep, ActionItem, GanttItem, TaskStatus, SubStepStatus, ProjectFileContent, ImportSummary } from '../types';
+import { buildSchedule } from './scheduler';
+
+/**
+ * Conversion between projects and Microsoft Project XML (MSPDI).
+ *
+ * Outline levels map onto the project hierarchy: level 1 tasks are project tasks, level 2 tasks
+ * are sub-steps and level 3 tasks are action items; anything deeper is flattened into level 3.
+ * Finish dates become due dates, durations become effort estimates, percent complete becomes
+ * status, and assigned resources become the responsible person. Finish-to-start links between
+ * tasks of the same level map onto `nextTaskIds` / `nextSubStepIds`.
+ * Everything else in the file (costs, calendars, constraints, baselines, ...) is counted in the
+ * import summary instead of being silently dropped.
+ */
+
+const MSPDI_NAMESPACE = 'http://schemas.microsoft.com/project';
+const PLANNER_ID_ALIAS = 'PlannerId';
+const PLANNER_ID_FIELD = '188743731'; // Text1
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_MINUTES_PER_DAY = 480;
+const FINISH_TO_START = '1';
+
+// "PT16H0M0S" -> 16
+const parseDurationHours = (value: string): number | null => {
+  const match = /^-?P(?:(\d+(?:\.\d+)?)D)?(?:T(?:(\d+(?:\.\d+)?)H)?(?:(\d+(?:\.\d+)?)M)?(?:(\d+(?:\.\d+)?)S)?)?$/.exec(value);
+  if (!match) return null;
+  const [days, hours, minutes, seconds] = match.slice(1).map(part => Number(part) || 0);
+  return days * 24 + hours + minutes / 60 + seconds / 3600;
+};
+
+// Task fields that have no counterpart in the project, reported when set to a non-default value
+const UNMAPPED_TASK_FIELDS: { element: string; label: string; isDefault: (value: string) => boolean }[] = [
+  { element: 'Cost', label: 'コスト (Cost)', isDefault: value => Number(value) === 0 },
+  { element: 'FixedCost', label: '固定コスト (FixedCost)', isDefault: value => Number(value) === 0 },
+  { element: 'Work', label: '作業時間 (Work)', isDefault: value => parseDurationHours(value) === 0 },
+  { element: 'ConstraintType', label: '制約の種類 (ConstraintType)', isDefault: value => value === '0' },
+  { element: 'Deadline', label: '期限 (Deadline)', isDefault: value => !value },
+  { element: 'Priority', label: '優先度 (Priority)', isDefault: value => value === '500' },
+  { element: 'CalendarUID', label: 'タスクカレンダー (CalendarUID)', isDefault: value => value === '-1' },
+  { element: 'Hyperlink', label: 'ハイパーリンク (Hyperlink)', isDefault: value => !value },
+  { element: 'Contact', label: '連絡先 (Contact)', isDefault: value => !value },
+  { element: 'Baseline', label: 'ベースライン (Baseline)', isDefault: () => false },
+];
+
+// --- XML helpers ---
+
+const escapeXml = (text: string) => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&apos;');
+
+const element = (name: string, value: string | number | undefined | null): string =>
+  value === undefined || value === null || value === '' ? '' : `<${name}>${escapeXml(String(value))}</${name}>`;
+
+const children = (parent: Element | null | undefined, name: string): Element[] =>
+  parent ? Array.from(parent.children).filter(child => child.localName === name) : [];
+
+const childText = (parent: Element | null | undefined, name: string): string =>
+  children(parent, name)[0]?.textContent?.trim() || '';
+
+// --- Date helpers (calendar days, as in the scheduler) ---
+
+const parseDay = (date: string | undefined | null): number | null => {
+  if (!date) return null;
+  const ms = Date.parse(`${date.slice(0, 10)}T00:00:00Z`);
+  return isNaN(ms) ? null : Math.floor(ms / DAY_MS);
+};
+
+const formatDay = (day: number): string => new Date(day * DAY_MS).toISOString().split('T')[0];
+
+const splitResponsible = (responsible: string | undefined): string[] =>
+  (responsible || '').split(/[、,，/]/).map(name => name.trim()).filter(Boolean);
+
+// --- Export ---
+
+interface ExportRow {
+  uid: number;
+  plannerId: string;
+  name: string;
+  level: number;
+  outlineNumber: string;
+  notes: string;
+  start: string;
+  finish: string;
+  progress: number;
+  isSummary: boolean;
+  responsible: string[];
+  predecessorIds: string[];
+}
+
+const taskProgress = (status: TaskStatus | undefined) =>
+  status === TaskStatus.COMPLETED ? 100 : status === TaskStatus.IN_PROGRESS ? 50 : 0;
+
+/**
+ * Serializes the project as an MSPDI document that Microsoft Project can open.
+ * Dates come from the Gantt chart when it has the item, otherwise from the local scheduler.
+ */
+export const exportMsProjectXml = (project: ProjectFileContent): string => {
+  const schedule = buildSchedule(project.tasks, { targetDate: project.targetDate });
+  const scheduled = new Map(schedule.items.map(item => [item.id, item]));
+  const charted = new Map((project.ganttData || []).map(item => [item.id, item]));
+  const datesFor = (id: string) => charted.get(id) || scheduled.get(id);
+
+  const rows: ExportRow[] = [];
+  const addRow = (
+    plannerId: string, name: string, level: number, outlineNumber: string, notes: string,
+    progress: number | undefined, isSummary: boolean, responsible: string | undefined, predecessorIds: string[],
+  ) => {
+    const item = datesFor(plannerId);
+    const start = item?.start || project.targetDate;
+    rows.push({
+      uid: rows.length + 1, plannerId, name, level, outlineNumber, notes,
+      start, finish: item?.end || start,
+      progress: Math.round(item?.progress ?? progress ?? 0),
+      isSummary, responsible: splitResponsible(responsible), predecessorIds,
+    });
+  };
+
+  const predecessorsOf = <T extends { id: string }>(items: T[], next: (item: T) => string[] | undefined) => {
+    const preds = new Map<string, string[]>();
+    items.forEach(item => (next(item) || []).forEach(nextId => {
+      preds.set(nextId, [...(preds.get(nextId) || []), item.id]);
+    }));
+    return preds;
+  };
+
+  const taskPreds = predecessorsOf(project.tasks, task => task.nextTaskIds);
+  project.tasks.forEach((task, taskIndex) => {
+    const subSteps = task.extendedDetails?.subSteps || [];
+    const taskNumber = `${taskIndex + 1}`;
+    addRow(task.id, task.title, 1, taskNumber, task.description, taskProgress(task.status), subSteps.length > 0,
+      task.extendedDetails?.responsible, taskPreds.get(task.id) || []);
+
+    const subStepPreds = predecessorsOf(subSteps, subStep => subStep.nextSubStepIds);
+    subSteps.forEach((subStep, subStepIndex) => {
+      const actionItems = subStep.actionItems || [];
+      const subStepNumber = `${taskNumber}.${subStepIndex + 1}`;
+      addRow(subStep.id, subStep.text, 2, subStepNumber, subStep.notes || '',
+        subStep.status === SubStepStatus.COMPLETED ? 100 : subStep.status === SubStepStatus.IN_PROGRESS ? 50 : 0,
+        actionItems.length > 0, subStep.responsible, subStepPreds.get(subStep.id) || []);
+      actionItems.forEach((item, itemIndex) => {
+        addRow(item.id, item.text, 3, `${subStepNumber}.${itemIndex + 1}`, '', item.completed ? 100 : 0, false, item.responsible, []);
+      });
+    });
+  });
+
+  const uidByPlannerId = new Map(rows.map(row => [row.plannerId, row.uid]));
+  const resourceNames = Array.from(new Set(rows.flatMap(row => row.responsible)));
+  const resourceUid = new Map(resourceNames.map((name, index) => [name, index + 1]));
+
+  const days = rows.flatMap(row => [parseDay(row.start), parseDay(row.finish)]).filter((day): day is number => day !== null);
+  const targetDay = parseDay(project.targetDate);
+  const projectStart = days.length > 0 ? formatDay(Math.min(...days)) : project.targetDate;
+  const projectFinish = days.length > 0 ? formatDay(Math.max(...days, targetDay ?? -Infinity)) : project.targetDate;
+
+  const taskXml = rows.map(row => {
+    const durationDays = Math.max(1, (parseDay(row.finish) ?? 0) - (parseDay(row.start) ?? 0) + 1);
+    const duration = `PT${durationDays * 8}H0M0S`;
+    return [
+      '<Task>',
+      element('UID', row.uid),
+      element('ID', row.uid),
+      element('Name', row.name),
+      element('Manual', 1),
+      element('WBS', row.outlineNumber),
+      element('OutlineNumber', row.outlineNumber),
+      element('OutlineLevel', row.level),
+      element('Start', `${row.start}T08:00:00`),
+      element('Finish', `${row.finish}T17:00:00`),
+      element('Duration', duration),
+      element('ManualStart', `${row.start}T08:00:00`),
+      element('ManualFinish', `${row.finish}T17:00:00`),
+      element('ManualDuration', duration),
+      element('DurationFormat', 7),
+      element('Summary', row.isSummary ? 1 : 0),
+      element('PercentComplete', row.progress),
+      element('Notes', row.notes),
+      ...row.predecessorIds
+        .filter(id => uidByPlannerId.has(id))
+        .map(id => `<PredecessorLink>${element('PredecessorUID', uidByPlannerId.get(id))}${element('Type', FINISH_TO_START)}</PredecessorLink>`),
+      `<ExtendedAttribute>${element('FieldID', PLANNER_ID_FIELD)}${element('Value', row.plannerId)}</ExtendedAttribute>`,
+      '</Task>',
+    ].join('');
+  });
+
+  const assignments = rows.flatMap(row => row.responsible.map(name => ({ taskUid: row.uid, resourceUid: resourceUid.get(name)! })));
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+    `<Project xmlns="${MSPDI_NAMESPACE}">`,
+    element('SaveVersion', 14),
+    element('Name', `${project.projectGoal.slice(0, 50)}.xml`),
+    element('Title', project.projectGoal),
+    element('ScheduleFromStart', 1),
+    element('StartDate', `${projectStart}T08:00:00`),
+    element('FinishDate', `${projectFinish}T17:00:00`),
+    element('MinutesPerDay', DEFAULT_MINUTES_PER_DAY),
+    `<ExtendedAttributes><ExtendedAttribute>${element('FieldID', PLANNER_ID_FIELD)}${element('FieldName', 'Text1')}${element('Alias', PLANNER_ID_ALIAS)}</ExtendedAttribute></ExtendedAttributes>`,
+    '<Tasks>',
+    `<Task>${element('UID', 0)}${element('ID', 0)}${element('Name', project.projectGoal)}${element('OutlineNumber', 0)}${element('OutlineLevel', 0)}${element('Summary', 1)}</Task>`,
+    ...taskXml,
+    '</Tasks>',
+    '<Resources>',
+    ...resourceNames.map(name => `<Resource>${element('UID', resourceUid.get(name))}${element('ID', resourceUid.get(name))}${element('Name', name)}${element('Type', 1)}</Resource>`),
+    '</Resources>',
+    '<Assignments>',
+    ...assignments.map((assignment, index) =>
+      `<Assignment>${element('UID', index + 1)}${element('TaskUID', assignment.taskUid)}${element('ResourceUID', assignment.resourceUid)}${element('Units', 1)}</Assignment>`),
+    '</Assignments>',
+    '</Project>',
+  ].join('\n');
+};
+
+// --- Import ---
+
+interface ImportedEntity {
+  uid: string;
+  id: string;
+  type: GanttItem['type'];
+  parentId: string | null;
+  taskId: string;
+  start: string | null;
+  finish: string | null;
+  progress: number;
+  links: { predecessorUid: string; type: string; lag: number }[];
+}
+
+export interface MsProjectImportResult extends ProjectFileContent {
+  summary: ImportSummary;
+}
+
+/**
+ * Parses an MSPDI document into project tasks and a Gantt chart.
+ * @throws Error when the text is not a Microsoft Project XML document.
+ */
+export const importMsProjectXml = (xml: string, fileName: string): MsProjectImportResult => {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  const root = doc.documentElement;
+  if (doc.getElementsByTagName('parsererror').length > 0 || root?.localName !== 'Project') {
+    throw new Error('Microsoft Project XML（MSPDI）形式のファイルではありません。');
+  }
+
+  const warnings: string[] = [];
+  const unmapped = new Map<string, number>();
+  const countUnmapped = (field: string, count = 1) => unmapped.set(field, (unmapped.get(field) || 0) + count);
+
+  const minutesPerDay = Number(childText(root, 'MinutesPerDay')) || DEFAULT_MINUTES_PER_DAY;
+  const plannerIdField = children(children(root, 'ExtendedAttributes')[0], 'ExtendedAttribute')
+    .find(attribute => childText(attribute, 'Alias') === PLANNER_ID_ALIAS);
+  const plannerIdFieldId = plannerIdField ? childText(plannerIdField, 'FieldID') : null;
+
+  // Resources and assignments
+  const resourceNames = new Map<string, string>();
+  children(children(root, 'Resources')[0], 'Resource').forEach(resource => {
+    const name = childText(resource, 'Name');
+    if (name) resourceNames.set(childText(resource, 'UID'), name);
+    if (Number(childText(resource, 'StandardRate')) > 0 || Number(childText(resource, 'Cost')) > 0) countUnmapped('リソースの単価・コスト (StandardRate / Cost)');
+  });
+  const responsibleByTask = new Map<string, string[]>();
+  children(children(root, 'Assignments')[0], 'Assignment').forEach(assignment => {
+    const name = resourceNames.get(childText(assignment, 'ResourceUID'));
+    if (!name) return;
+    const taskUid = childText(assignment, 'TaskUID');
+    responsibleByTask.set(taskUid, [...(responsibleByTask.get(taskUid) || []), name]);
+    const units = childText(assignment, 'Units');
+    if (units && Number(units) !== 1) countUnmapped('割り当て単位 (Units)');
+  });
+
+  const calendarCount = children(children(root, 'Calendars')[0], 'Calendar').length;
+  if (calendarCount > 0) countUnmapped('カレンダー・稼働日 (Calendars)', calendarCount);
+
+  const tasks: ProjectTask[] = [];
+  const entities = new Map<string, ImportedEntity>();
+  let currentTask: ProjectTask | null = null;
+  let currentSubStep: SubStep | null = null;
+  let flattened = 0;
+  let milestones = 0;
+  let actionItemNotes = 0;
+  let actionItemCount = 0;
+  let subStepCount = 0;
+  const usedIds = new Set<string>();
+
+  children(children(root, 'Tasks')[0], 'Task').forEach(taskElement => {
+    const uid = childText(taskElement, 'UID');
+    const level = Number(childText(taskElement, 'OutlineLevel') || '1');
+    if (childText(taskElement, 'IsNull') === '1' || level === 0 || uid === '0') return;
+
+    const name = childText(taskElement, 'Name') || '（名称なし）';
+    const notes = childText(taskElement, 'Notes');
+    const start = childText(taskElement, 'Start').slice(0, 10) || null;
+    const finish = childText(taskElement, 'Finish').slice(0, 10) || null;
+    const progress = Number(childText(taskElement, 'PercentComplete')) || 0;
+    const hours = parseDurationHours(childText(taskElement, 'Duration'));
+    const estimatedDays = hours ? Math.round((hours * 60 / minutesPerDay) * 10) / 10 : undefined;
+    const responsible = (responsibleByTask.get(uid) || []).join('、');
+    if (childText(taskElement, 'Milestone') === '1') milestones++;
+
+    const plannerId = plannerIdFieldId
+      ? children(taskElement, 'ExtendedAttribute').find(attribute => childText(attribute, 'FieldID') === plannerIdFieldId)
+      : undefined;
+    let id = (plannerId && childText(plannerId, 'Value')) || `msp_${uid}`;
+    if (usedIds.has(id)) id = `msp_${uid}`;
+    usedIds.add(id);
+
+    UNMAPPED_TASK_FIELDS.forEach(field => {
+      const fieldElements = children(taskElement, field.element);
+      if (fieldElements.some(fieldElement => !field.isDefault(fieldElement.textContent?.trim() || ''))) countUnmapped(field.label);
+    });
+    const customFields = children(taskElement, 'ExtendedAttribute').filter(attribute => childText(attribute, 'FieldID') !== plannerIdFieldId);
+    if (customFields.length > 0) countUnmapped('ユーザー設定フィールド (ExtendedAttribute)', customFields.length);
+
+    const links = children(taskElement, 'PredecessorLink').map(link => ({
+      predecessorUid: childText(link, 'PredecessorUID'),
+      type: childText(link, 'Type') || FINISH_TO_START,
+      lag: Number(childText(link, 'LinkLag')) || 0,
+    }));
+
+    if (level === 1 || !currentTask) {
+      if (level > 1) warnings.push(`「${name}」は上位のタスクがないため、タスクとして取り込みました。`);
+      currentTask = {
+        id,
+        title: name,
+        description: notes,
+        status: progress >= 100 ? TaskStatus.COMPLETED : progress > 0 ? TaskStatus.IN_PROGRESS : TaskStatus.NOT_STARTED,
+        nextTaskIds: [],
+        extendedDetails: { subSteps: [], resources: '', responsible, notes: '', dueDate: finish || undefined, estimatedDays },
+      };
+      currentSubStep = null;
+      tasks.push(currentTask);
+      entities.set(uid, { uid, id, type: 'task', parentId: null, taskId: id, start, finish, progress, links });
+      return;
+    }
+
+    const subSteps = currentTask.extendedDetails!.subSteps;
+    if (level === 2 || !currentSubStep) {
+      const index = subSteps.length;
+      currentSubStep = {
+        id,
+        text: name,
+        notes: notes || undefined,
+        responsible: responsible || undefined,
+        dueDate: finish || undefined,
+        estimatedDays,
+        status: progress >= 100 ? SubStepStatus.COMPLETED : progress > 0 ? SubStepStatus.IN_PROGRESS : SubStepStatus.NOT_STARTED,
+        nextSubStepIds: [],
+        actionItems: [],
+        position: { x: 10 + (index % 4) * 210, y: Math.floor(index / 4) * 90 + 10 },
+      };
+      subSteps.push(currentSubStep);
+      subStepCount++;
+      entities.set(uid, { uid, id, type: 'substep', parentId: currentTask.id, taskId: currentTask.id, start, finish, progress, links });
+      return;
+    }
+
+    if (level > 3) flattened++;
+    if (notes) actionItemNotes++;
+    const actualFinish = childText(taskElement, 'ActualFinish').slice(0, 10);
+    const item: ActionItem = {
+      id,
+      text: name,
+      completed: progress >= 100,
+      completedDate: progress >= 100 ? actualFinish || finish || undefined : undefined,
+      responsible: responsible || undefined,
+      dueDate: finish || undefined,
+      estimatedDays,
+    };
+    currentSubStep.actionItems = [...(currentSubStep.actionItems || []), item];
+    actionItemCount++;
+    entities.set(uid, { uid, id, type: 'actionitem', parentId: currentSubStep.id, taskId: currentTask.id, start, finish, progress, links });
+  });
+
+  // Links between tasks of the same level
+  const taskById = new Map(tasks.map(task => [task.id, task]));
+  const subStepById = new Map(tasks.flatMap(task => task.extendedDetails!.subSteps).map(subStep => [subStep.id, subStep]));
+  const dependencies = new Map<string, string[]>();
+  let mappedLinks = 0;
+  let crossLevelLinks = 0;
+  let otherTypeLinks = 0;
+  let laggedLinks = 0;
+  entities.forEach(successor => successor.links.forEach(link => {
+    const predecessor = entities.get(link.predecessorUid);
+    if (!predecessor) return;
+    const sameLevel = predecessor.type === successor.type && successor.type !== 'actionitem'
+      && (successor.type === 'task' || predecessor.taskId === successor.taskId);
+    if (!sameLevel) {
+      crossLevelLinks++;
+      return;
+    }
+    if (link.type !== FINISH_TO_START) otherTypeLinks++;
+    if (link.lag !== 0) laggedLinks++;
+    if (successor.type === 'task') {
+      const task = taskById.get(predecessor.id)!;
+      task.nextTaskIds = [...(task.nextTaskIds || []), successor.id];
+    } else {
+      const subStep = subStepById.get(predecessor.id)!;
+      subStep.nextSubStepIds = [...(subStep.nextSubStepIds || []), successor.id];
+    }
+    dependencies.set(successor.id, [...(dependencies.get(successor.id) || []), predecessor.id]);
+    mappedLinks++;
+  }));
+
+  if (flattened > 0) warnings.push(`第4階層以下の ${flattened} 件は、アクションアイテムとして取り込みました。`);
+  if (milestones > 0) warnings.push(`マイルストーン ${milestones} 件は通常の項目として取り込みました。`);
+  if (crossLevelLinks > 0) warnings.push(`階層の異なる項目間やアクションアイテムの依存関係 ${crossLevelLinks} 件は取り込めませんでした。`);
+  if (otherTypeLinks > 0) warnings.push(`終了-開始以外の依存関係 ${otherTypeLinks} 件は、終了-開始として取り込みました。`);
+  if (laggedLinks > 0) warnings.push(`依存関係のラグ・リード ${laggedLinks} 件は取り込めませんでした。`);
+  if (actionItemNotes > 0) countUnmapped('アクションアイテムのメモ (Notes)', actionItemNotes);
+
+  const ganttData: GanttItem[] = [];
+  entities.forEach(entity => {
+    if (!entity.start && !entity.finish) return;
+    const start = entity.start || entity.finish!;
+    ganttData.push({
+      id: entity.id,
+      name: '',
+      start,
+      end: entity.finish && entity.finish >= start ? entity.finish : start,
+      progress: Math.max(0, Math.min(100, entity.progress)),
+      dependencies: dependencies.get(entity.id) || [],
+      type: entity.type,
+      parentId: entity.parentId,
+    });
+  });
+  const names = new Map<string, string>();
+  tasks.forEach(task => {
+    names.set(task.id, task.title);
+    task.extendedDetails!.subSteps.forEach(subStep => {
+      names.set(subStep.id, subStep.text);
+      (subStep.actionItems || []).forEach(item => names.set(item.id, item.text));
+    });
+  });
+  ganttData.forEach(item => { item.name = names.get(item.id) || ''; });
+
+  const finishDays = ganttData.map(item => parseDay(item.end)).filter((day): day is number => day !== null);
+  const targetDate = childText(root, 'FinishDate').slice(0, 10)
+    || (finishDays.length > 0 ? formatDay(Math.max(...finishDays)) : '');
+
+  return {
+    projectGoal: childText(root, 'Title') || childText(root, 'Name').replace(/\.(xml|mpp)$/i, '') || fileName.replace(/\.xml$/i, ''),
+    targetDate,
+    tasks,
+    ganttData: ganttData.length > 0 ? ganttData : null,
+    summary: {
+      format: 'Microsoft Project XML',
+      fileName,
+      counts: [
+        { label: 'タスク', count: tasks.length },
+        { label: 'サブステップ', count: subStepCount },
+        { label: 'アクションアイテム', count: actionItemCount },
+        { label: '依存関係', count: mappedLinks },
+        { label: 'リソース（担当者）', count: resourceNames.size },
+      ],
+      warnings,
+      unmappedFields: Array.from(unmapped, ([field, count]) => ({ field, count })),
+    },
+  };
+};
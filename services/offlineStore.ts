@@ -0,0 +1,131 @@
+import { ProjectTask, GanttItem } from '../types';
+import { ProjectData } from './projectService';
+
+/**
+ * Local copy of the open project in IndexedDB.
+ *
+ * Every edit is written here right away, so the project survives a closed tab and can be opened
+ * while offline. Cloud projects are stored under their id; a project that has not been saved to
+ * the cloud yet is stored as the local draft. The sync queue (see syncQueue.ts) keeps its
+ * operations in the same database.
+ */
+
+export const LOCAL_DRAFT_KEY = 'local-draft';
+
+export interface OfflineProjectSnapshot {
+  key: string; // Project id, or LOCAL_DRAFT_KEY
+  project: ProjectData | null; // Metadata of a cloud project; its `tasks` are not used
+  goal: string;
+  targetDate: string;
+  tasks: ProjectTask[];
+  ganttData: GanttItem[] | null;
+  savedAt: string;
+}
+
+const DB_NAME = 'ai-project-planner-offline';
+const DB_VERSION = 1;
+export const SNAPSHOT_STORE = 'projects';
+export const QUEUE_STORE = 'syncQueue';
+const META_STORE = 'meta';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        db.createObjectStore(SNAPSHOT_STORE, { keyPath: 'key' });
+        db.createObjectStore(QUEUE_STORE, { keyPath: 'id', autoIncrement: true });
+        db.createObjectStore(META_STORE);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(new Error('ローカルの保存領域を開けませんでした。'));
+      };
+    });
+  }
+  return dbPromise;
+};
+
+export const offlineRequest = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> => {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const request = run(db.transaction(storeName, mode).objectStore(storeName));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * Runs several requests in one transaction. `run` reports its result with `finish`; the promise
+ * resolves with it once the transaction has committed.
+ */
+export const offlineTransaction = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore, finish: (result: T) => void) => void,
+): Promise<T> => {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    let result: T;
+    run(transaction.objectStore(storeName), value => { result = value; });
+    transaction.oncomplete = () => resolve(result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+export const saveProjectSnapshot = async (snapshot: Omit<OfflineProjectSnapshot, 'savedAt'>): Promise<void> => {
+  await offlineRequest(SNAPSHOT_STORE, 'readwrite', store => store.put({ ...snapshot, savedAt: new Date().toISOString() }));
+};
+
+export const getProjectSnapshot = async (key: string): Promise<OfflineProjectSnapshot | null> =>
+  (await offlineRequest<OfflineProjectSnapshot | undefined>(SNAPSHOT_STORE, 'readonly', store => store.get(key))) || null;
+
+export const deleteProjectSnapshot = async (key: string): Promise<void> => {
+  await offlineRequest(SNAPSHOT_STORE, 'readwrite', store => store.delete(key));
+};
+
+/**
+ * Cloud projects available offline, most recently edited first.
+ */
+export const listOfflineProjects = async (): Promise<ProjectData[]> => {
+  const snapshots = await offlineRequest<OfflineProjectSnapshot[]>(SNAPSHOT_STORE, 'readonly', store => store.getAll());
+  return snapshots
+    .filter(snapshot => snapshot.project)
+    .sort((a, b) => b.savedAt.localeCompare(a.savedAt))
+    .map(snapshot => ({
+      ...snapshot.project!,
+      goal: snapshot.goal,
+      targetDate: snapshot.targetDate,
+      tasks: [],
+      taskCount: snapshot.tasks.length,
+      updatedAt: snapshot.savedAt,
+    }));
+};
+
+const LAST_OPENED = 'lastOpenedProject';
+
+// The project to reopen on the next start: a project id, LOCAL_DRAFT_KEY, or null
+export const setLastOpenedProject = async (key: string | null): Promise<void> => {
+  await offlineRequest(META_STORE, 'readwrite', store => store.put(key, LAST_OPENED));
+};
+
+export const getLastOpenedProject = async (): Promise<string | null> =>
+  (await offlineRequest<string | null | undefined>(META_STORE, 'readonly', store => store.get(LAST_OPENED))) ?? null;
+
+/**
+ * Removes everything stored for the signed-in user, e.g. on logout.
+ */
+export const clearOfflineData = async (): Promise<void> => {
+  await Promise.all([SNAPSHOT_STORE, QUEUE_STORE, META_STORE].map(storeName =>
+    offlineRequest(storeName, 'readwrite', store => store.clear())));
+};
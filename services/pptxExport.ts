@@ -0,0 +1,215 @@
+import PptxGenJS from 'pptxgenjs';
+import { ProjectTask, SlideDeck, SlideElement, ActionItem, SubStep, ReportTheme, SubStepStatus } from '../types';
+import { getAttachmentBlob, blobToDataUrl } from './attachmentStorage';
+
+/**
+ * PowerPoint (.pptx) export of report slide decks.
+ *
+ * Slides use the 16:9 wide layout and element positions, which are stored as percentages of the
+ * slide, are converted to inches. Tables and charts come from the matrix data of the referenced
+ * action item; charts are native PowerPoint charts, so they can still be edited after export.
+ * Flowcharts are drawn as shapes connected by arrows, and speaker notes become slide notes.
+ */
+
+const SLIDE_WIDTH = 13.333; // Inches, LAYOUT_WIDE
+const SLIDE_HEIGHT = 7.5;
+const FONT_FACE = 'Meiryo';
+
+interface PptxTheme {
+  background: string;
+  text: string;
+  accent: string;
+  tableHeader: string;
+  tableBorder: string;
+  band?: string; // Colored band across the top of every slide
+}
+
+const THEMES: Record<ReportTheme, PptxTheme> = {
+  [ReportTheme.LIGHT]: { background: 'FFFFFF', text: '333333', accent: '4A90E2', tableHeader: 'E2E8F0', tableBorder: 'CBD5E1' },
+  [ReportTheme.DARK]: { background: '1E293B', text: 'F1F5F9', accent: '60A5FA', tableHeader: '334155', tableBorder: '475569' },
+  [ReportTheme.BUSINESS]: { background: 'FFFFFF', text: '1E293B', accent: '1E3A8A', tableHeader: 'DBEAFE', tableBorder: '93C5FD', band: '1E3A8A' },
+};
+
+const FONT_SIZES: Record<string, number> = { small: 12, medium: 16, large: 22, title: 32 };
+
+const CHART_COLORS = ['4A90E2', '50E3C2', 'F5A623', 'F8E71C', '7ED321', '9013FE'];
+
+interface Box {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+const toBox = (element: SlideElement): Box => ({
+  x: (element.position.x / 100) * SLIDE_WIDTH,
+  y: (element.position.y / 100) * SLIDE_HEIGHT,
+  w: (element.position.width / 100) * SLIDE_WIDTH,
+  h: (element.position.height / 100) * SLIDE_HEIGHT,
+});
+
+const findActionItem = (tasks: ProjectTask[], subStepId: string, actionItemId: string): ActionItem | undefined => {
+  for (const task of tasks) {
+    const item = task.extendedDetails?.subSteps?.find(ss => ss.id === subStepId)?.actionItems?.find(ai => ai.id === actionItemId);
+    if (item) return item;
+  }
+  return undefined;
+};
+
+// Fits the image inside the box keeping its aspect ratio, like object-fit: contain in the editor
+const containBox = async (blob: Blob, box: Box): Promise<Box> => {
+  try {
+    const bitmap = await createImageBitmap(blob);
+    const scale = Math.min(box.w / bitmap.width, box.h / bitmap.height);
+    const [w, h] = [bitmap.width * scale, bitmap.height * scale];
+    bitmap.close();
+    return { x: box.x + (box.w - w) / 2, y: box.y + (box.h - h) / 2, w, h };
+  } catch {
+    return box;
+  }
+};
+
+const addPlaceholder = (slide: PptxGenJS.Slide, box: Box, text: string, theme: PptxTheme) => {
+  slide.addText(text, {
+    ...box, fontFace: FONT_FACE, fontSize: 10, color: '64748B', align: 'center', valign: 'middle',
+    fill: { color: theme.tableHeader },
+  });
+};
+
+const addFlowchart = (slide: PptxGenJS.Slide, box: Box, subSteps: SubStep[], theme: PptxTheme) => {
+  if (subSteps.length === 0) return;
+  const columns = Math.min(4, subSteps.length);
+  const rows = Math.ceil(subSteps.length / columns);
+  const cellW = box.w / columns;
+  const cellH = box.h / rows;
+  const nodeW = cellW * 0.75;
+  const nodeH = Math.min(cellH * 0.6, 0.9);
+  const nodes = new Map<string, Box>();
+
+  subSteps.forEach((subStep, index) => {
+    const node = {
+      x: box.x + (index % columns) * cellW + (cellW - nodeW) / 2,
+      y: box.y + Math.floor(index / columns) * cellH + (cellH - nodeH) / 2,
+      w: nodeW,
+      h: nodeH,
+    };
+    nodes.set(subStep.id, node);
+    const completed = subStep.status === SubStepStatus.COMPLETED;
+    slide.addText(subStep.text, {
+      ...node, shape: 'roundRect', rectRadius: 0.08, fontFace: FONT_FACE, fontSize: 10,
+      color: theme.text, align: 'center', valign: 'middle', fit: 'shrink',
+      fill: { color: completed ? 'DCFCE7' : theme.background },
+      line: { color: completed ? '16A34A' : theme.accent, width: 1 },
+    });
+  });
+
+  // Straight arrows from the right edge of a step to the left edge of the next one
+  subSteps.forEach(subStep => (subStep.nextSubStepIds || []).forEach(nextId => {
+    const from = nodes.get(subStep.id);
+    const to = nodes.get(nextId);
+    if (!from || !to) return;
+    const [x1, y1] = [from.x + from.w, from.y + from.h / 2];
+    const [x2, y2] = [to.x, to.y + to.h / 2];
+    slide.addShape('line', {
+      x: Math.min(x1, x2), y: Math.min(y1, y2), w: Math.max(Math.abs(x2 - x1), 0.01), h: Math.abs(y2 - y1),
+      flipH: x2 < x1, flipV: y2 < y1,
+      line: { color: theme.accent, width: 1.25, endArrowType: 'triangle' },
+    });
+  }));
+};
+
+const addElement = async (pptx: PptxGenJS, slide: PptxGenJS.Slide, element: SlideElement, tasks: ProjectTask[], theme: PptxTheme) => {
+  const box = toBox(element);
+  switch (element.type) {
+    case 'textbox': {
+      const isTitle = element.fontSize === 'title';
+      slide.addText(element.content, {
+        ...box, fontFace: FONT_FACE, fontSize: FONT_SIZES[element.fontSize || 'medium'],
+        bold: element.fontWeight === 'bold', align: element.textAlign || 'left', valign: 'top',
+        color: isTitle && theme.band ? theme.accent : theme.text, fit: 'shrink',
+      });
+      return;
+    }
+    case 'image': {
+      const attachment = findActionItem(tasks, element.subStepId, element.actionItemId)?.report?.attachments?.find(a => a.id === element.attachmentId);
+      if (!attachment) {
+        addPlaceholder(slide, box, '画像が見つかりません', theme);
+        return;
+      }
+      try {
+        const blob = await getAttachmentBlob(attachment);
+        slide.addImage({ data: await blobToDataUrl(blob), ...(await containBox(blob, box)), altText: attachment.name });
+      } catch (error) {
+        console.error(`Failed to add image ${attachment.name}:`, error);
+        addPlaceholder(slide, box, `画像を読み込めませんでした: ${attachment.name}`, theme);
+      }
+      return;
+    }
+    case 'table': {
+      const matrix = findActionItem(tasks, element.subStepId, element.actionItemId)?.report?.matrixData;
+      if (!matrix) {
+        addPlaceholder(slide, box, 'データなし', theme);
+        return;
+      }
+      const cell = (text: string, header: boolean): PptxGenJS.TableCell => ({
+        text,
+        options: header ? { bold: true, fill: { color: theme.tableHeader } } : {},
+      });
+      slide.addTable([
+        matrix.headers.map(header => cell(header, true)),
+        ...matrix.rows.map(row => row.map(value => cell(value, false))),
+      ], {
+        ...box, fontFace: FONT_FACE, fontSize: 10, color: theme.text, autoPage: false,
+        border: { type: 'solid', pt: 0.75, color: theme.tableBorder },
+      });
+      return;
+    }
+    case 'chart': {
+      const rows = findActionItem(tasks, element.subStepId, element.actionItemId)?.report?.matrixData?.rows || [];
+      const data = rows.map(row => ({ label: row[0], value: parseFloat(row[1]) || 0 })).filter(d => d.label);
+      if (data.length === 0) {
+        addPlaceholder(slide, box, 'チャートデータなし', theme);
+        return;
+      }
+      const type = element.chartType === 'pie' ? pptx.ChartType.pie : element.chartType === 'line' ? pptx.ChartType.line : pptx.ChartType.bar;
+      slide.addChart(type, [{ name: element.title, labels: data.map(d => d.label), values: data.map(d => d.value) }], {
+        ...box,
+        showTitle: !!element.title, title: element.title, titleFontFace: FONT_FACE, titleFontSize: 12, titleColor: theme.text,
+        showLegend: element.chartType === 'pie', legendPos: 'r', legendFontFace: FONT_FACE, legendColor: theme.text,
+        catAxisLabelColor: theme.text, valAxisLabelColor: theme.text, catAxisLabelFontFace: FONT_FACE,
+        chartColors: element.chartType === 'pie' ? CHART_COLORS : [theme.accent],
+        showPercent: element.chartType === 'pie',
+      });
+      return;
+    }
+    case 'flowchart':
+      addFlowchart(slide, box, element.data?.subSteps || [], theme);
+      return;
+  }
+};
+
+/**
+ * Builds a .pptx file from a slide deck. `tasks` are the tasks the deck's images, tables and
+ * charts refer to (the task for a task report, all tasks for a project report).
+ */
+export const exportSlideDeckPptx = async (deck: SlideDeck, tasks: ProjectTask[], title: string): Promise<Blob> => {
+  const pptx = new PptxGenJS();
+  pptx.layout = 'LAYOUT_WIDE';
+  pptx.title = title;
+  pptx.theme = { headFontFace: FONT_FACE, bodyFontFace: FONT_FACE };
+  const theme = THEMES[(deck.theme as ReportTheme) || ReportTheme.LIGHT] || THEMES[ReportTheme.LIGHT];
+
+  for (const deckSlide of deck.slides) {
+    const slide = pptx.addSlide();
+    slide.background = { color: theme.background };
+    if (theme.band) {
+      slide.addShape('rect', { x: 0, y: 0, w: SLIDE_WIDTH, h: 0.18, fill: { color: theme.band }, line: { color: theme.band } });
+    }
+    for (const element of deckSlide.elements) {
+      await addElement(pptx, slide, element, tasks, theme);
+    }
+    if (deckSlide.notes) slide.addNotes(deckSlide.notes);
+  }
+
+  return await pptx.write({ outputType: 'blob' }) as Blob;
+};
@@ -0,0 +1,161 @@
+import { supabase } from '../lib/supabase';
+
+/**
+ * Who else has the project open, over a Supabase Realtime channel.
+ *
+ * Presence state (who is here, which task they selected or opened) is tracked per user and
+ * re-sent whenever it changes. Cursor positions change too often for that, so they are sent as
+ * throttled broadcast messages and are never stored.
+ */
+
+export interface CanvasPoint {
+  x: number;
+  y: number;
+}
+
+export interface PresenceUser {
+  userId: string;
+  name: string;
+  color: string;
+  joinedAt: string;
+  selectedTaskId: string | null; // Task highlighted on the flow canvas
+  editingTaskId: string | null; // Task whose detail view is open
+  editingSince: string | null; // The earliest editor of a task holds the lock
+}
+
+export interface PresenceCursor extends CanvasPoint {
+  userId: string;
+}
+
+export type PresenceUpdate = Partial<Pick<PresenceUser, 'selectedTaskId' | 'editingTaskId'>>;
+
+export interface ProjectPresence {
+  update: (changes: PresenceUpdate) => PresenceUser; // Returns the local user's new state
+  moveCursor: (point: CanvasPoint | null) => void; // null when the pointer left the canvas
+  leave: () => void;
+}
+
+interface PresenceHandlers {
+  onUsersChange: (users: PresenceUser[]) => void; // Other users only
+  onCursor: (cursor: PresenceCursor | null, userId: string) => void;
+}
+
+const CURSOR_INTERVAL_MS = 50;
+const COLORS = ['#2563eb', '#db2777', '#16a34a', '#ea580c', '#9333ea', '#0891b2', '#ca8a04', '#dc2626'];
+
+export const colorForUser = (userId: string): string => {
+  let hash = 0;
+  for (const char of userId) hash = (hash * 31 + char.charCodeAt(0)) >>> 0;
+  return COLORS[hash % COLORS.length];
+};
+
+export const initialsOf = (name: string): string => {
+  const trimmed = name.trim();
+  if (!trimmed) return '?';
+  const parts = trimmed.split(/[\s@._-]+/).filter(Boolean);
+  return parts.length > 1 ? (parts[0][0] + parts[1][0]).toUpperCase() : trimmed.slice(0, 2).toUpperCase();
+};
+
+/**
+ * Returns the user holding the edit lock on a task, or null when `self` may edit it.
+ */
+export const findTaskLockHolder = (
+  users: PresenceUser[],
+  taskId: string,
+  selfId: string,
+  selfSince: string | null,
+): PresenceUser | null => {
+  const editors = users.filter(user => user.userId !== selfId && user.editingTaskId === taskId && user.editingSince);
+  const earlier = editors.filter(user =>
+    !selfSince || user.editingSince! < selfSince || (user.editingSince === selfSince && user.userId < selfId));
+  earlier.sort((a, b) => a.editingSince!.localeCompare(b.editingSince!));
+  return earlier[0] || null;
+};
+
+export const joinProjectPresence = (
+  projectId: string,
+  self: { userId: string; name: string },
+  handlers: PresenceHandlers,
+): ProjectPresence => {
+  let state: PresenceUser = {
+    userId: self.userId,
+    name: self.name,
+    color: colorForUser(self.userId),
+    joinedAt: new Date().toISOString(),
+    selectedTaskId: null,
+    editingTaskId: null,
+    editingSince: null,
+  };
+  let subscribed = false;
+  let lastCursorSent = 0;
+  let pendingCursor: { point: CanvasPoint | null; timer: ReturnType<typeof setTimeout> } | null = null;
+
+  const channel = supabase.channel(`presence-${projectId}`, {
+    config: { presence: { key: self.userId }, broadcast: { self: false } },
+  });
+
+  const emitUsers = () => {
+    const others = Object.entries(channel.presenceState<PresenceUser>())
+      .filter(([key]) => key !== self.userId)
+      // A user with several tabs open has several entries; the most recent one wins
+      .map(([, entries]) => entries[entries.length - 1])
+      .filter(Boolean)
+      .map(({ presence_ref, ...user }) => user as PresenceUser);
+    handlers.onUsersChange(others);
+  };
+
+  channel
+    .on('presence', { event: 'sync' }, emitUsers)
+    .on('presence', { event: 'leave' }, ({ key }) => handlers.onCursor(null, key))
+    .on('broadcast', { event: 'cursor' }, ({ payload }) => {
+      handlers.onCursor(payload.point ? { userId: payload.userId, ...payload.point } : null, payload.userId);
+    })
+    .subscribe(status => {
+      if (status === 'SUBSCRIBED') {
+        subscribed = true;
+        channel.track(state);
+      }
+    });
+
+  const sendCursor = (point: CanvasPoint | null) => {
+    lastCursorSent = Date.now();
+    channel.send({ type: 'broadcast', event: 'cursor', payload: { userId: self.userId, point } });
+  };
+
+  return {
+    update: (changes) => {
+      const next = { ...state, ...changes };
+      if (changes.editingTaskId !== undefined && changes.editingTaskId !== state.editingTaskId) {
+        next.editingSince = changes.editingTaskId ? new Date().toISOString() : null;
+      }
+      state = next;
+      if (subscribed) channel.track(state);
+      return state;
+    },
+    moveCursor: (point) => {
+      if (!subscribed) return;
+      if (pendingCursor) {
+        pendingCursor.point = point;
+        return;
+      }
+      const wait = CURSOR_INTERVAL_MS - (Date.now() - lastCursorSent);
+      if (wait <= 0) {
+        sendCursor(point);
+        return;
+      }
+      pendingCursor = {
+        point,
+        timer: setTimeout(() => {
+          const latest = pendingCursor!.point;
+          pendingCursor = null;
+          sendCursor(latest);
+        }, wait),
+      };
+    },
+    leave: () => {
+      if (pendingCursor) clearTimeout(pendingCursor.timer);
+      supabase.removeChannel(channel);
+    },
+  };
+};
+
@@ -0,0 +1,445 @@
+import JSZip from 'jszip';
+import { ProjectTask, Attachment, GanttItem, SlideDeck, SlideElement, ActionItem, ImportSummary, TaskStatus, SubStepStatus } from '../types';
+import { getAttachmentBlob, storeImportedAttachment, formatFileSize } from './attachmentStorage';
+import { createProjectFile, readProjectFile, summarizeProjectFile, ProjectFileReadResult } from './projectFile';
+import { escapeHtml } from './html';
+
+/**
+ * Self-contained ZIP archive of a project, for handing over or auditing without the app.
+ *
+ *   index.html                 Readable overview with links to everything below
+ *   project.json               Project file (see projectFile.ts); attachments reference their file by `bundlePath`
+ *   gantt.svg                  Gantt chart
+ *   reports/*.html             Report decks, one page per deck with the slides drawn in order
+ *   files/<task>/<sub-step>/<action item>/<file name>
+ *                              Attachments as their original files, in folders mirroring the project
+ *
+ * Importing a bundle reads project.json and stores each attachment again, like a file picked by the user.
+ */
+
+export interface ProjectBundleInput {
+  title: string;
+  projectGoal: string;
+  targetDate: string;
+  tasks: ProjectTask[];
+  ganttData: GanttItem[] | null;
+  reportDeck: SlideDeck | null; // Project report deck
+}
+
+export interface ProjectBundleExport {
+  blob: Blob;
+  missingFiles: string[]; // Attachments that could not be downloaded and are only listed in the bundle
+}
+
+const PROJECT_JSON = 'project.json';
+
+const STATUS_LABELS: Record<string, string> = {
+  [TaskStatus.NOT_STARTED]: '未着手',
+  [TaskStatus.IN_PROGRESS]: '進行中',
+  [TaskStatus.COMPLETED]: '完了',
+  [TaskStatus.BLOCKED]: '停滞中',
+};
+
+// Folder and file names that are valid on Windows, macOS and Linux
+const safeName = (name: string, fallback: string): string => {
+  const cleaned = name.replace(/[\\/:*?"<>|\u0000-\u001f]/g, '_').replace(/[. ]+$/, '').trim().slice(0, 60);
+  return cleaned || fallback;
+};
+
+const numbered = (index: number, name: string, fallback: string) =>
+  `${String(index + 1).padStart(2, '0')}_${safeName(name, fallback)}`;
+
+const relativeUrl = (path: string, fromDepth: number) =>
+  '../'.repeat(fromDepth) + path.split('/').map(encodeURIComponent).join('/');
+
+// --- Attachments ---
+
+interface BundledAttachment {
+  attachment: Attachment;
+  path: string;
+}
+
+// Gives every attachment a path under files/ and returns the tasks with `bundlePath` references
+const assignBundlePaths = (tasks: ProjectTask[]): { tasks: ProjectTask[]; files: BundledAttachment[] } => {
+  const files: BundledAttachment[] = [];
+  const usedPaths = new Set<string>();
+
+  const place = (attachments: Attachment[] | undefined, folder: string): Attachment[] | undefined => attachments?.map(attachment => {
+    const name = safeName(attachment.name, attachment.id);
+    const dot = name.lastIndexOf('.');
+    const [base, extension] = dot > 0 ? [name.slice(0, dot), name.slice(dot)] : [name, ''];
+    let path = `${folder}/${name}`;
+    for (let n = 2; usedPaths.has(path); n++) path = `${folder}/${base} (${n})${extension}`;
+    usedPaths.add(path);
+    files.push({ attachment, path });
+    // Storage references point into this browser or the cloud project, so only the bundle path is kept
+    const { dataUrl, storage, storagePath, ...rest } = attachment;
+    return { ...rest, bundlePath: path };
+  });
+
+  const bundledTasks = tasks.map((task, taskIndex) => {
+    const details = task.extendedDetails;
+    if (!details) return task;
+    const taskFolder = `files/${numbered(taskIndex, task.title, task.id)}`;
+    return {
+      ...task,
+      extendedDetails: {
+        ...details,
+        attachments: place(details.attachments, taskFolder),
+        subSteps: details.subSteps.map((subStep, subStepIndex) => {
+          const subStepFolder = `${taskFolder}/${numbered(subStepIndex, subStep.text, subStep.id)}`;
+          return {
+            ...subStep,
+            attachments: place(subStep.attachments, subStepFolder),
+            actionItems: subStep.actionItems?.map((item, itemIndex) => item.report ? {
+              ...item,
+              report: { ...item.report, attachments: place(item.report.attachments, `${subStepFolder}/${numbered(itemIndex, item.text, item.id)}`) || [] },
+            } : item),
+          };
+        }),
+      },
+    };
+  });
+
+  return { tasks: bundledTasks, files };
+};
+
+// --- Gantt chart ---
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const GANTT_LABEL_WIDTH = 260;
+const GANTT_ROW_HEIGHT = 24;
+const GANTT_BAR_COLORS: Record<GanttItem['type'], string> = { task: '#2563eb', substep: '#0d9488', actionitem: '#94a3b8' };
+
+const renderGanttSvg = (items: GanttItem[], targetDate: string): string => {
+  const toDay = (date: string) => Math.floor(Date.parse(`${date}T00:00:00Z`) / DAY_MS);
+  const start = Math.min(...items.map(item => toDay(item.start)));
+  const end = Math.max(...items.map(item => toDay(item.end)), targetDate ? toDay(targetDate) : -Infinity);
+  const days = end - start + 1;
+  const dayWidth = Math.max(2, Math.min(24, Math.floor(1200 / days)));
+  const width = GANTT_LABEL_WIDTH + days * dayWidth + 20;
+  const height = 40 + items.length * GANTT_ROW_HEIGHT + 10;
+  const x = (day: number) => GANTT_LABEL_WIDTH + (day - start) * dayWidth;
+
+  const months: string[] = [];
+  for (let day = start; day <= end; day++) {
+    const date = new Date(day * DAY_MS);
+    if (day === start || date.getUTCDate() === 1) {
+      months.push(`<line x1="${x(day)}" y1="20" x2="${x(day)}" y2="${height}" stroke="#e2e8f0"/>`
+        + `<text x="${x(day) + 3}" y="15" font-size="11" fill="#475569">${date.getUTCFullYear()}/${date.getUTCMonth() + 1}</text>`);
+    }
+  }
+
+  const rows = items.map((item, index) => {
+    const y = 40 + index * GANTT_ROW_HEIGHT;
+    const indent = item.type === 'task' ? 0 : item.type === 'substep' ? 12 : 24;
+    const barX = x(toDay(item.start));
+    const barWidth = Math.max(dayWidth, (toDay(item.end) - toDay(item.start) + 1) * dayWidth);
+    const label = item.name.length > 24 ? `${item.name.slice(0, 23)}…` : item.name;
+    return `<text x="${8 + indent}" y="${y + 15}" font-size="12" fill="#1e293b"${item.type === 'task' ? ' font-weight="bold"' : ''}>${escapeHtml(label)}</text>`
+      + `<rect x="${barX}" y="${y + 5}" width="${barWidth}" height="14" rx="3" fill="${GANTT_BAR_COLORS[item.type]}" opacity="0.35"/>`
+      + `<rect x="${barX}" y="${y + 5}" width="${barWidth * Math.min(100, Math.max(0, item.progress)) / 100}" height="14" rx="3" fill="${GANTT_BAR_COLORS[item.type]}"/>`
+      + (item.isCritical ? `<rect x="${barX}" y="${y + 5}" width="${barWidth}" height="14" rx="3" fill="none" stroke="#dc2626" stroke-width="1.5"/>` : '')
+      + `<title>${escapeHtml(`${item.name}: ${item.start} 〜 ${item.end}（${item.progress}%）`)}</title>`;
+  });
+
+  const target = targetDate && toDay(targetDate) >= start
+    ? `<line x1="${x(toDay(targetDate))}" y1="20" x2="${x(toDay(targetDate))}" y2="${height}" stroke="#dc2626" stroke-dasharray="4 3"/>`
+      + `<text x="${x(toDay(targetDate)) + 3}" y="32" font-size="11" fill="#dc2626">目標日</text>`
+    : '';
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" font-family="sans-serif">
+<rect width="100%" height="100%" fill="#ffffff"/>
+${months.join('\n')}
+${target}
+${rows.join('\n')}
+</svg>
+`;
+};
+
+// --- Report decks ---
+
+const FONT_SIZES: Record<string, string> = { small: '1.6cqw', medium: '2.2cqw', large: '3cqw', title: '4.2cqw' };
+
+const renderChartSvg = (chartType: string, data: { label: string; value: number }[]): string => {
+  const max = Math.max(...data.map(d => d.value), 0) || 1;
+  if (chartType === 'pie') {
+    const total = data.reduce((sum, d) => sum + Math.max(0, d.value), 0) || 1;
+    let angle = -Math.PI / 2;
+    const slices = data.map((d, i) => {
+      const sweep = (Math.max(0, d.value) / total) * Math.PI * 2;
+      const [x1, y1] = [50 + 40 * Math.cos(angle), 50 + 40 * Math.sin(angle)];
+      angle += sweep;
+      const [x2, y2] = [50 + 40 * Math.cos(angle), 50 + 40 * Math.sin(angle)];
+      return `<path d="M50,50 L${x1},${y1} A40,40 0 ${sweep > Math.PI ? 1 : 0} 1 ${x2},${y2} Z" fill="hsl(${(i * 57) % 360},60%,55%)"><title>${escapeHtml(`${d.label}: ${d.value}`)}</title></path>`;
+    });
+    return `<svg viewBox="0 0 100 100" preserveAspectRatio="xMidYMid meet">${slices.join('')}</svg>`;
+  }
+  const step = 100 / data.length;
+  if (chartType === 'line') {
+    const points = data.map((d, i) => `${step * i + step / 2},${90 - (d.value / max) * 80}`).join(' ');
+    return `<svg viewBox="0 0 100 100" preserveAspectRatio="none"><polyline points="${points}" fill="none" stroke="#2563eb" stroke-width="1.5" vector-effect="non-scaling-stroke"/></svg>`;
+  }
+  const bars = data.map((d, i) => {
+    const barHeight = (Math.max(0, d.value) / max) * 80;
+    return `<rect x="${step * i + step * 0.15}" y="${90 - barHeight}" width="${step * 0.7}" height="${barHeight}" fill="#2563eb"><title>${escapeHtml(`${d.label}: ${d.value}`)}</title></rect>`;
+  });
+  return `<svg viewBox="0 0 100 100" preserveAspectRatio="none">${bars.join('')}</svg>`;
+};
+
+const findActionItem = (tasks: ProjectTask[], subStepId: string, actionItemId: string): ActionItem | undefined => {
+  for (const task of tasks) {
+    const item = task.extendedDetails?.subSteps?.find(ss => ss.id === subStepId)?.actionItems?.find(ai => ai.id === actionItemId);
+    if (item) return item;
+  }
+  return undefined;
+};
+
+// `tasks` carry bundle paths, so images point at the files in the archive
+const renderElementHtml = (element: SlideElement, tasks: ProjectTask[]): string => {
+  const placeholder = (text: string) => `<div class="placeholder">${escapeHtml(text)}</div>`;
+  switch (element.type) {
+    case 'textbox':
+      return `<div class="text" style="font-size:${FONT_SIZES[element.fontSize || 'medium']};font-weight:${element.fontWeight || 'normal'};text-align:${element.textAlign || 'left'}">${escapeHtml(element.content)}</div>`;
+    case 'image': {
+      const attachment = findActionItem(tasks, element.subStepId, element.actionItemId)?.report?.attachments?.find(a => a.id === element.attachmentId);
+      return attachment?.bundlePath
+        ? `<img src="${relativeUrl(attachment.bundlePath, 1)}" alt="${escapeHtml(attachment.name)}">`
+        : placeholder('画像が見つかりません');
+    }
+    case 'table': {
+      const matrix = findActionItem(tasks, element.subStepId, element.actionItemId)?.report?.matrixData;
+      if (!matrix) return placeholder('データなし');
+      return `<table><thead><tr>${matrix.headers.map(h => `<th>${escapeHtml(h)}</th>`).join('')}</tr></thead>`
+        + `<tbody>${matrix.rows.map(row => `<tr>${row.map(cell => `<td>${escapeHtml(cell)}</td>`).join('')}</tr>`).join('')}</tbody></table>`;
+    }
+    case 'chart': {
+      const rows = findActionItem(tasks, element.subStepId, element.actionItemId)?.report?.matrixData?.rows || [];
+      const data = rows.map(row => ({ label: row[0], value: parseFloat(row[1]) || 0 })).filter(d => d.label);
+      if (data.length === 0) return placeholder('チャートデータなし');
+      return `<figure class="chart"><figcaption>${escapeHtml(element.title)}</figcaption>${renderChartSvg(element.chartType, data)}`
+        + `<div class="legend">${data.map(d => `<span>${escapeHtml(d.label)}: ${escapeHtml(d.value)}</span>`).join('')}</div></figure>`;
+    }
+    case 'flowchart':
+      return `<ol class="flow">${(element.data?.subSteps || []).map(subStep => `<li>${escapeHtml(subStep.text)}</li>`).join('')}</ol>`;
+    default:
+      return '';
+  }
+};
+
+const REPORT_STYLE = `
+body { font-family: sans-serif; background: #e2e8f0; margin: 0; padding: 24px; color: #1e293b; }
+h1 { font-size: 20px; } a { color: #2563eb; }
+.slide { position: relative; width: min(100%, 1100px); aspect-ratio: 16 / 9; margin: 0 auto 12px; background: #fff; box-shadow: 0 2px 8px rgba(0,0,0,.15); container-type: inline-size; overflow: hidden; }
+.slide.dark { background: #1e293b; color: #f1f5f9; }
+.element { position: absolute; overflow: hidden; box-sizing: border-box; }
+.text { white-space: pre-wrap; padding: .5cqw; height: 100%; box-sizing: border-box; }
+img { width: 100%; height: 100%; object-fit: contain; }
+table { border-collapse: collapse; width: 100%; font-size: 1.2cqw; } th, td { border: 1px solid #cbd5e1; padding: .3cqw; } th { background: #f1f5f9; }
+.chart { margin: 0; height: 100%; display: flex; flex-direction: column; } .chart svg { flex: 1; width: 100%; }
+figcaption { font-weight: bold; font-size: 1.6cqw; } .legend { font-size: 1.1cqw; display: flex; flex-wrap: wrap; gap: .8cqw; }
+.flow { font-size: 1.4cqw; } .placeholder { background: #f1f5f9; color: #64748b; height: 100%; display: flex; align-items: center; justify-content: center; font-size: 1.2cqw; }
+.notes { width: min(100%, 1100px); margin: 0 auto 28px; font-size: 13px; color: #475569; white-space: pre-wrap; }
+`;
+
+const renderDeckHtml = (title: string, deck: SlideDeck, tasks: ProjectTask[]): string => `<!DOCTYPE html>
+<html lang="ja">
+<head><meta charset="UTF-8"><title>${escapeHtml(title)}</title><style>${REPORT_STYLE}</style></head>
+<body>
+<p><a href="../index.html">← 目次に戻る</a></p>
+<h1>${escapeHtml(title)}</h1>
+${deck.slides.map(slide => `<section class="slide${deck.theme === 'dark' ? ' dark' : ''}">
+${slide.elements.map(element => `<div class="element" style="left:${element.position.x}%;top:${element.position.y}%;width:${element.position.width}%;height:${element.position.height}%">${renderElementHtml(element, tasks)}</div>`).join('\n')}
+</section>${slide.notes ? `\n<div class="notes">${escapeHtml(slide.notes)}</div>` : ''}`).join('\n')}
+</body>
+</html>
+`;
+
+// --- Index ---
+
+const attachmentList = (attachments: Attachment[] | undefined, missing: Set<string>): string => {
+  if (!attachments?.length) return '';
+  return `<ul class="files">${attachments.map(attachment => attachment.bundlePath && !missing.has(attachment.bundlePath)
+    ? `<li><a href="${relativeUrl(attachment.bundlePath, 0)}">${escapeHtml(attachment.name)}</a> <span class="muted">${escapeHtml(formatFileSize(attachment.size))}</span></li>`
+    : `<li>${escapeHtml(attachment.name)} <span class="muted">（ファイルを取得できませんでした）</span></li>`).join('')}</ul>`;
+};
+
+const INDEX_STYLE = `
+body { font-family: sans-serif; max-width: 1000px; margin: 0 auto; padding: 24px; color: #1e293b; line-height: 1.6; }
+h1 { font-size: 24px; margin-bottom: 4px; } h2 { border-bottom: 2px solid #e2e8f0; padding-bottom: 4px; margin-top: 32px; }
+h3 { margin: 24px 0 4px; } h4 { margin: 12px 0 2px; }
+a { color: #2563eb; } .muted { color: #64748b; font-size: 13px; } .meta { color: #475569; font-size: 14px; }
+.task { border: 1px solid #e2e8f0; border-radius: 8px; padding: 4px 16px 12px; margin: 16px 0; }
+.substep { border-left: 3px solid #cbd5e1; padding-left: 12px; margin: 10px 0; }
+.files { margin: 4px 0; } .gantt { max-width: 100%; border: 1px solid #e2e8f0; }
+table { border-collapse: collapse; font-size: 13px; margin: 4px 0; } th, td { border: 1px solid #cbd5e1; padding: 2px 6px; } th { background: #f1f5f9; }
+p.pre { white-space: pre-wrap; margin: 4px 0; }
+`;
+
+const renderIndexHtml = (
+  input: ProjectBundleInput,
+  tasks: ProjectTask[],
+  reports: { title: string; path: string }[],
+  hasGantt: boolean,
+  missing: Set<string>,
+): string => {
+  const meta = (parts: (string | undefined | false)[]) => {
+    const text = parts.filter(Boolean).join('・');
+    return text ? `<p class="meta">${escapeHtml(text)}</p>` : '';
+  };
+
+  const taskSections = tasks.map((task, taskIndex) => {
+    const details = task.extendedDetails;
+    const subSteps = (details?.subSteps || []).map(subStep => {
+      const actionItems = (subStep.actionItems || []).map(item => `<li>${item.completed ? '☑' : '☐'} ${escapeHtml(item.text)}`
+        + `${item.responsible || item.dueDate ? ` <span class="muted">${escapeHtml([item.responsible && `担当: ${item.responsible}`, item.dueDate && `期日: ${item.dueDate}`].filter(Boolean).join('・'))}</span>` : ''}`
+        + (item.report?.notes ? `<p class="pre">${escapeHtml(item.report.notes)}</p>` : '')
+        + (item.report?.matrixData ? `<table><tr>${item.report.matrixData.headers.map(h => `<th>${escapeHtml(h)}</th>`).join('')}</tr>`
+          + item.report.matrixData.rows.map(row => `<tr>${row.map(cell => `<td>${escapeHtml(cell)}</td>`).join('')}</tr>`).join('') + '</table>' : '')
+        + attachmentList(item.report?.attachments, missing)
+        + '</li>').join('');
+      return `<div class="substep"><h4>${escapeHtml(subStep.text)}</h4>`
+        + meta([STATUS_LABELS[subStep.status || SubStepStatus.NOT_STARTED], subStep.responsible && `担当: ${subStep.responsible}`, subStep.dueDate && `期日: ${subStep.dueDate}`])
+        + (subStep.notes ? `<p class="pre">${escapeHtml(subStep.notes)}</p>` : '')
+        + attachmentList(subStep.attachments, missing)
+        + (actionItems ? `<ul>${actionItems}</ul>` : '')
+        + '</div>';
+    }).join('');
+    const decisions = (details?.decisions || []).map(decision => `<li>${escapeHtml(decision.question)}：`
+      + `${decision.status === 'decided' ? escapeHtml(decision.decision || '') : '<span class="muted">未決定</span>'}</li>`).join('');
+    return `<div class="task" id="task-${escapeHtml(task.id)}"><h3>${taskIndex + 1}. ${escapeHtml(task.title)}</h3>`
+      + meta([STATUS_LABELS[task.status || TaskStatus.NOT_STARTED], details?.responsible && `担当: ${details.responsible}`, details?.dueDate && `期日: ${details.dueDate}`])
+      + (task.description ? `<p class="pre">${escapeHtml(task.description)}</p>` : '')
+      + (details?.notes ? `<p class="pre">${escapeHtml(details.notes)}</p>` : '')
+      + attachmentList(details?.attachments, missing)
+      + (decisions ? `<h4>決定事項</h4><ul>${decisions}</ul>` : '')
+      + subSteps
+      + '</div>';
+  }).join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="ja">
+<head><meta charset="UTF-8"><title>${escapeHtml(input.title)}</title><style>${INDEX_STYLE}</style></head>
+<body>
+<h1>${escapeHtml(input.title)}</h1>
+<p class="muted">書き出し日時: ${escapeHtml(new Date().toLocaleString('ja-JP'))}</p>
+<p><strong>事業目的:</strong> ${escapeHtml(input.projectGoal)}</p>
+<p><strong>目標日:</strong> ${escapeHtml(input.targetDate)}</p>
+<p class="muted">プロジェクトデータ: <a href="${PROJECT_JSON}">${PROJECT_JSON}</a>（アプリの「計画をインポート」でこのZIPファイルごと読み込めます）</p>
+${reports.length > 0 ? `<h2>レポート</h2><ul>${reports.map(report => `<li><a href="${relativeUrl(report.path, 0)}">${escapeHtml(report.title)}</a></li>`).join('')}</ul>` : ''}
+${hasGantt ? '<h2>ガントチャート</h2><a href="gantt.svg"><img class="gantt" src="gantt.svg" alt="ガントチャート"></a>' : ''}
+<h2>タスク</h2>
+${taskSections}
+</body>
+</html>
+`;
+};
+
+/**
+ * Builds the ZIP bundle. Attachments that cannot be downloaded are listed in `missingFiles`
+ * and in index.html instead of stopping the export.
+ */
+export const exportProjectBundle = async (input: ProjectBundleInput): Promise<ProjectBundleExport> => {
+  const zip = new JSZip();
+  const { tasks, files } = assignBundlePaths(input.tasks);
+  const missing = new Set<string>();
+
+  for (const { attachment, path } of files) {
+    try {
+      zip.file(path, await getAttachmentBlob(attachment));
+    } catch (error) {
+      console.error(`Failed to bundle attachment ${attachment.name}:`, error);
+      missing.add(path);
+    }
+  }
+
+  zip.file(PROJECT_JSON, JSON.stringify(createProjectFile({
+    projectGoal: input.projectGoal,
+    targetDate: input.targetDate,
+    tasks,
+    ganttData: input.ganttData,
+  }), null, 2));
+
+  const reports: { title: string; path: string }[] = [];
+  if (input.reportDeck?.slides.length) {
+    reports.push({ title: 'プロジェクトレポート', path: 'reports/00_プロジェクトレポート.html' });
+    zip.file(reports[0].path, renderDeckHtml(`${input.title} プロジェクトレポート`, input.reportDeck, tasks));
+  }
+  tasks.forEach((task, taskIndex) => {
+    const deck = task.extendedDetails?.reportDeck;
+    if (!deck?.slides.length) return;
+    const report = { title: `タスクレポート: ${task.title}`, path: `reports/${numbered(taskIndex, task.title, task.id)}.html` };
+    reports.push(report);
+    zip.file(report.path, renderDeckHtml(report.title, deck, tasks));
+  });
+
+  const hasGantt = !!input.ganttData?.length;
+  if (hasGantt) zip.file('gantt.svg', renderGanttSvg(input.ganttData!, input.targetDate));
+
+  zip.file('index.html', renderIndexHtml(input, tasks, reports, hasGantt, missing));
+
+  const blob = await zip.generateAsync({ type: 'blob', compression: 'DEFLATE', mimeType: 'application/zip' });
+  return { blob, missingFiles: files.filter(file => missing.has(file.path)).map(file => file.attachment.name) };
+};
+
+/**
+ * Reads a ZIP bundle: validates project.json like a JSON import and stores the attachment files.
+ * Attachments whose file is missing from the archive are dropped and reported as warnings.
+ * @throws Error when the file is not a ZIP archive or has no project.json.
+ */
+export const importProjectBundle = async (data: ArrayBuffer, fileName: string): Promise<{ result: ProjectFileReadResult; summary: ImportSummary }> => {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(data);
+  } catch {
+    throw new Error('ZIPファイルとして読み取れません。');
+  }
+  const projectJson = zip.file(PROJECT_JSON);
+  if (!projectJson) throw new Error(`ZIPファイルに ${PROJECT_JSON} が含まれていません。`);
+
+  const result = readProjectFile(await projectJson.async('string'));
+  const summary = { ...summarizeProjectFile(result, fileName), format: 'ZIPバンドル' };
+  if (!result.content) return { result, summary };
+
+  let restored = 0;
+  const restore = async (attachments: Attachment[] | undefined): Promise<Attachment[] | undefined> => {
+    if (!attachments) return attachments;
+    const kept: Attachment[] = [];
+    for (const attachment of attachments) {
+      const { bundlePath, ...rest } = attachment;
+      const entry = bundlePath ? zip.file(bundlePath) : null;
+      if (!entry) {
+        // Attachments from a plain JSON export may still carry their inline data
+        if (rest.dataUrl) kept.push(rest);
+        else summary.warnings.push(`添付ファイル「${attachment.name}」がZIPファイルに含まれていないため、取り込みませんでした`);
+        continue;
+      }
+      const blob = new Blob([await entry.async('arraybuffer')], { type: attachment.type });
+      kept.push(await storeImportedAttachment(blob, rest));
+      restored++;
+    }
+    return kept;
+  };
+
+  const tasks: ProjectTask[] = [];
+  for (const task of result.content.tasks) {
+    const details = task.extendedDetails;
+    if (!details) {
+      tasks.push(task);
+      continue;
+    }
+    const subSteps = [];
+    for (const subStep of details.subSteps) {
+      const actionItems = [];
+      for (const item of subStep.actionItems || []) {
+        actionItems.push(item.report ? { ...item, report: { ...item.report, attachments: (await restore(item.report.attachments)) || [] } } : item);
+      }
+      subSteps.push({ ...subStep, attachments: await restore(subStep.attachments), actionItems: subStep.actionItems && actionItems });
+    }
+    tasks.push({ ...task, extendedDetails: { ...details, attachments: await restore(details.attachments), subSteps } });
+  }
+
+  summary.counts.push({ label: '添付ファイル', count: restored });
+  return { result: { ...result, content: { ...result.content, tasks } }, summary };
+};
@@ -0,0 +1,162 @@
+import { ProjectTask, ExtendedTaskDetails, SubStep, ActionItem, Decision } from '../types';
+import { MergeableProject } from './projectMerge';
+
+/**
+ * Structured comparison of two states of a project, e.g. two saved versions.
+ *
+ * Tasks, sub-steps, action items and decisions are matched by id. An added or removed item is
+ * reported once, without listing its children; a modified item lists the fields that changed.
+ * Layout-only changes (card positions, canvas size) are ignored.
+ */
+
+export type DiffChangeKind = 'added' | 'removed' | 'modified';
+export type DiffEntityType = 'project' | 'task' | 'substep' | 'actionitem' | 'decision';
+
+export interface FieldChange {
+  field: string;
+  from: any;
+  to: any;
+  dateShiftDays?: number; // Set for date fields that had a value on both sides
+}
+
+export interface DiffEntry {
+  entityType: DiffEntityType;
+  kind: DiffChangeKind;
+  id: string;
+  name: string;
+  taskId?: string; // Enclosing task (the task itself for task entries)
+  parentNames: string[]; // Names of the enclosing task / sub-step, outermost first
+  changes: FieldChange[]; // Empty for added and removed items
+}
+
+export interface ProjectDiff {
+  entries: DiffEntry[];
+  taskStates: Record<string, DiffChangeKind>; // Tasks that were added, removed or changed in any way
+  removedTasks: ProjectTask[]; // Tasks of the older state that no longer exist
+}
+
+// A saved version compared with an earlier one
+export interface VersionComparison {
+  fromVersion: number;
+  diff: ProjectDiff;
+}
+
+const PROJECT_FIELDS = ['goal', 'targetDate'];
+const TASK_FIELDS = ['title', 'description', 'status', 'nextTaskIds'];
+const TASK_DETAIL_FIELDS = ['responsible', 'dueDate', 'estimatedDays', 'resources', 'notes', 'numericalTarget', 'resourceMatrix', 'attachments', 'reportDeck'];
+const SUBSTEP_FIELDS = ['text', 'status', 'responsible', 'dueDate', 'estimatedDays', 'notes', 'nextSubStepIds', 'attachments'];
+const ACTION_ITEM_FIELDS = ['text', 'completed', 'responsible', 'dueDate', 'completedDate', 'estimatedDays', 'report'];
+const DECISION_FIELDS = ['question', 'status', 'decision', 'reasoning', 'date'];
+export const DATE_FIELDS = new Set(['targetDate', 'dueDate', 'completedDate', 'date']);
+
+const isEmpty = (value: any) =>
+  value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+
+const isEqual = (a: any, b: any): boolean => {
+  if (isEmpty(a) && isEmpty(b)) return true;
+  return JSON.stringify(a) === JSON.stringify(b);
+};
+
+const daysBetween = (from: string, to: string): number | undefined => {
+  const days = (Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86400000;
+  return Number.isFinite(days) ? Math.round(days) : undefined;
+};
+
+const compareFields = (from: Record<string, any>, to: Record<string, any>, fields: string[]): FieldChange[] =>
+  fields
+    .filter(field => !isEqual(from[field], to[field]))
+    .map(field => {
+      const change: FieldChange = { field, from: from[field], to: to[field] };
+      if (DATE_FIELDS.has(field) && !isEmpty(from[field]) && !isEmpty(to[field])) {
+        change.dateShiftDays = daysBetween(from[field], to[field]);
+      }
+      return change;
+    });
+
+/**
+ * Walks two lists matched by id: removed items in their old order, then kept and added items in their new order.
+ */
+const compareLists = <T extends { id: string }>(
+  from: T[] = [],
+  to: T[] = [],
+  visit: (kind: DiffChangeKind | null, before: T | undefined, after: T | undefined) => void,
+) => {
+  const toIds = new Set(to.map(item => item.id));
+  const fromById = new Map(from.map(item => [item.id, item]));
+  from.filter(item => !toIds.has(item.id)).forEach(item => visit('removed', item, undefined));
+  to.forEach(item => {
+    const before = fromById.get(item.id);
+    visit(before ? null : 'added', before, item);
+  });
+};
+
+export const diffProjects = (from: MergeableProject, to: MergeableProject): ProjectDiff => {
+  const entries: DiffEntry[] = [];
+  const taskStates: Record<string, DiffChangeKind> = {};
+  const removedTasks: ProjectTask[] = [];
+
+  const projectChanges = compareFields(from, to, PROJECT_FIELDS);
+  if (projectChanges.length > 0) {
+    entries.push({ entityType: 'project', kind: 'modified', id: 'project', name: 'プロジェクト', parentNames: [], changes: projectChanges });
+  }
+
+  compareLists<ProjectTask>(from.tasks, to.tasks, (kind, before, after) => {
+    const task = (after || before)!;
+    const taskEntryIndex = entries.length;
+    if (kind) {
+      entries.push({ entityType: 'task', kind, id: task.id, name: task.title, taskId: task.id, parentNames: [], changes: [] });
+      taskStates[task.id] = kind;
+      if (kind === 'removed') removedTasks.push(task);
+      return;
+    }
+
+    const beforeDetails: Partial<ExtendedTaskDetails> = before!.extendedDetails || {};
+    const afterDetails: Partial<ExtendedTaskDetails> = after!.extendedDetails || {};
+    const taskChanges = [
+      ...compareFields(before!, after!, TASK_FIELDS),
+      ...compareFields(beforeDetails, afterDetails, TASK_DETAIL_FIELDS),
+    ];
+    if (taskChanges.length > 0) {
+      entries.push({ entityType: 'task', kind: 'modified', id: task.id, name: task.title, taskId: task.id, parentNames: [], changes: taskChanges });
+    }
+
+    compareLists<SubStep>(beforeDetails.subSteps, afterDetails.subSteps, (subKind, subBefore, subAfter) => {
+      const subStep = (subAfter || subBefore)!;
+      const subParents = [task.title];
+      if (subKind) {
+        entries.push({ entityType: 'substep', kind: subKind, id: subStep.id, name: subStep.text, taskId: task.id, parentNames: subParents, changes: [] });
+        return;
+      }
+      const subChanges = compareFields(subBefore!, subAfter!, SUBSTEP_FIELDS);
+      if (subChanges.length > 0) {
+        entries.push({ entityType: 'substep', kind: 'modified', id: subStep.id, name: subStep.text, taskId: task.id, parentNames: subParents, changes: subChanges });
+      }
+
+      compareLists<ActionItem>(subBefore!.actionItems, subAfter!.actionItems, (itemKind, itemBefore, itemAfter) => {
+        const item = (itemAfter || itemBefore)!;
+        const changes = itemKind ? [] : compareFields(itemBefore!, itemAfter!, ACTION_ITEM_FIELDS);
+        if (itemKind || changes.length > 0) {
+          entries.push({
+            entityType: 'actionitem', kind: itemKind || 'modified', id: item.id, name: item.text,
+            taskId: task.id, parentNames: [task.title, subStep.text], changes,
+          });
+        }
+      });
+    });
+
+    compareLists<Decision>(beforeDetails.decisions, afterDetails.decisions, (decisionKind, decisionBefore, decisionAfter) => {
+      const decision = (decisionAfter || decisionBefore)!;
+      const changes = decisionKind ? [] : compareFields(decisionBefore!, decisionAfter!, DECISION_FIELDS);
+      if (decisionKind || changes.length > 0) {
+        entries.push({
+          entityType: 'decision', kind: decisionKind || 'modified', id: decision.id, name: decision.question,
+          taskId: task.id, parentNames: [task.title], changes,
+        });
+      }
+    });
+
+    if (entries.length > taskEntryIndex) taskStates[task.id] = 'modified';
+  });
+
+  return { entries, taskStates, removedTasks };
+};
@@ -0,0 +1,532 @@
+import { ProjectTask, SubStep, GanttItem, ProjectFileContent, ImportSummary, TaskStatus, SubStepStatus, NumericalTargetStatus, SlideDeck } from '../types';
+
+/**
+ * The JSON project file: versioning, migration of older shapes, and validation on import.
+ *
+ * Exported files carry `formatVersion`. Files without it were written before versioning and are
+ * treated as version 0. On import the file is brought up to the current version by running each
+ * migration in turn, then every field is checked. Problems that would break the app (missing ids,
+ * duplicate ids, a missing goal or task list) are errors and stop the import; smaller problems are
+ * fixed (the field is dropped or reset) and reported as warnings, each with the path of the field.
+ */
+
+export const PROJECT_FILE_FORMAT_VERSION = 2;
+
+export interface ProjectFile extends ProjectFileContent {
+  formatVersion: number;
+  exportedAt: string;
+}
+
+export interface ProjectFileIssue {
+  severity: 'error' | 'warning';
+  path: string; // e.g. "tasks[2].extendedDetails.subSteps[0].dueDate"
+  message: string;
+}
+
+export interface ProjectFileReadResult {
+  content: ProjectFileContent | null; // null when there are errors
+  formatVersion: number; // Version of the file before migration
+  migrations: string[]; // Descriptions of the migrations that changed the file
+  issues: ProjectFileIssue[];
+}
+
+export const createProjectFile = (content: ProjectFileContent): ProjectFile => ({
+  formatVersion: PROJECT_FILE_FORMAT_VERSION,
+  exportedAt: new Date().toISOString(),
+  projectGoal: content.projectGoal,
+  targetDate: content.targetDate,
+  tasks: content.tasks,
+  ganttData: content.ganttData ?? null,
+});
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const isDate = (value: unknown): value is string => typeof value === 'string' && DATE_PATTERN.test(value) && !isNaN(Date.parse(value));
+
+// --- Migrations ---
+
+interface ProjectFileMigration {
+  from: number;
+  description: string;
+  // Changes `data` in place and returns how many items were changed
+  migrate: (data: Record<string, any>) => number;
+}
+
+const forEachTask = (data: Record<string, any>, fn: (task: Record<string, any>) => void) =>
+  (Array.isArray(data.tasks) ? data.tasks : []).filter(isObject).forEach(fn);
+
+const forEachSubStep = (data: Record<string, any>, fn: (subStep: Record<string, any>, task: Record<string, any>) => void) =>
+  forEachTask(data, task => (Array.isArray(task.extendedDetails?.subSteps) ? task.extendedDetails.subSteps : [])
+    .filter(isObject)
+    .forEach((subStep: Record<string, any>) => fn(subStep, task)));
+
+// Text of a pre-slide-deck report, whatever fields it used
+const legacyReportText = (report: unknown): string => {
+  if (typeof report === 'string') return report;
+  if (Array.isArray(report)) return report.map(legacyReportText).filter(Boolean).join('\n');
+  if (isObject(report)) return Object.values(report).map(legacyReportText).filter(Boolean).join('\n');
+  return typeof report === 'number' ? String(report) : '';
+};
+
+const MIGRATIONS: ProjectFileMigration[] = [
+  {
+    from: 0,
+    description: 'スライド形式になる前のタスクレポート（reportData / report）をスライドに変換し、文字列のみのサブステップ・アクションアイテムを項目に変換しました',
+    migrate: data => {
+      let changed = 0;
+      forEachTask(data, task => {
+        const details = task.extendedDetails;
+        if (!isObject(details)) return;
+        const legacyReport = details.reportData ?? details.report;
+        if (legacyReport !== undefined) {
+          if (!details.reportDeck) {
+            const text = legacyReportText(legacyReport);
+            const deck: SlideDeck = {
+              slides: [{
+                id: `slide_${task.id}_legacy`,
+                layout: 'title_and_content',
+                elements: [
+                  { id: `el_${task.id}_title`, type: 'textbox', content: String(task.title ?? ''), position: { x: 5, y: 5, width: 90, height: 15 }, fontSize: 'title', fontWeight: 'bold' },
+                  { id: `el_${task.id}_body`, type: 'textbox', content: text, position: { x: 5, y: 25, width: 90, height: 70 }, fontSize: 'medium' },
+                ],
+              }],
+            };
+            details.reportDeck = deck;
+          }
+          delete details.reportData;
+          delete details.report;
+          changed++;
+        }
+        if (Array.isArray(details.subSteps)) {
+          details.subSteps = details.subSteps.map((subStep: unknown, index: number) => {
+            if (typeof subStep !== 'string') return subStep;
+            changed++;
+            return { id: `${task.id}_sub_${index + 1}`, text: subStep };
+          });
+        }
+      });
+      forEachSubStep(data, (subStep, task) => {
+        if (!Array.isArray(subStep.actionItems)) return;
+        subStep.actionItems = subStep.actionItems.map((item: unknown, index: number) => {
+          if (typeof item !== 'string') return item;
+          changed++;
+          return { id: `${task.id}_${subStep.id}_action_${index + 1}`, text: item, completed: false };
+        });
+      });
+      return changed;
+    },
+  },
+  {
+    from: 1,
+    description: '決定事項の状態、アクションアイテムの実施報告、ガントチャートの親子関係を現在の形式に補完しました',
+    migrate: data => {
+      let changed = 0;
+      forEachTask(data, task => {
+        (Array.isArray(task.extendedDetails?.decisions) ? task.extendedDetails.decisions : []).filter(isObject).forEach((decision: Record<string, any>) => {
+          if (decision.status === 'decided' || decision.status === 'undecided') return;
+          decision.status = decision.decision ? 'decided' : 'undecided';
+          changed++;
+        });
+      });
+      forEachSubStep(data, subStep => {
+        (Array.isArray(subStep.actionItems) ? subStep.actionItems : []).filter(isObject).forEach((item: Record<string, any>) => {
+          if (!isObject(item.report)) return;
+          if (item.report.attachments === undefined || item.report.matrixData === undefined || item.report.notes === undefined) {
+            item.report = { notes: '', attachments: [], matrixData: null, ...item.report };
+            changed++;
+          }
+        });
+      });
+      (Array.isArray(data.ganttData) ? data.ganttData : []).filter(isObject).forEach((item: Record<string, any>) => {
+        if (item.parentId === undefined || item.dependencies === undefined) {
+          item.parentId = item.parentId ?? null;
+          item.dependencies = item.dependencies ?? [];
+          changed++;
+        }
+      });
+      return changed;
+    },
+  },
+];
+
+// --- Validation ---
+
+const validateContent = (data: Record<string, any>, requireProjectFields: boolean): ProjectFileIssue[] => {
+  const issues: ProjectFileIssue[] = [];
+  const error = (path: string, message: string) => issues.push({ severity: 'error', path, message });
+  const warn = (path: string, message: string) => issues.push({ severity: 'warning', path, message });
+
+  // Optional fields are dropped when they have the wrong type
+  const optionalString = (obj: Record<string, any>, key: string, path: string) => {
+    if (obj[key] === undefined || obj[key] === null || typeof obj[key] === 'string') return;
+    if (typeof obj[key] === 'number') {
+      obj[key] = String(obj[key]);
+      return;
+    }
+    warn(`${path}.${key}`, '文字列ではないため削除しました');
+    delete obj[key];
+  };
+  const optionalDate = (obj: Record<string, any>, key: string, path: string) => {
+    if (obj[key] === undefined || obj[key] === null || obj[key] === '' || isDate(obj[key])) return;
+    warn(`${path}.${key}`, `日付（YYYY-MM-DD）として読み取れないため削除しました: ${JSON.stringify(obj[key])}`);
+    delete obj[key];
+  };
+  const optionalNumber = (obj: Record<string, any>, key: string, path: string) => {
+    if (obj[key] === undefined || obj[key] === null) return;
+    const value = typeof obj[key] === 'string' ? Number(obj[key]) : obj[key];
+    if (typeof value === 'number' && isFinite(value) && value >= 0) {
+      obj[key] = value;
+      return;
+    }
+    warn(`${path}.${key}`, '0以上の数値ではないため削除しました');
+    delete obj[key];
+  };
+  const optionalEnum = (obj: Record<string, any>, key: string, path: string, values: string[]) => {
+    if (obj[key] === undefined || obj[key] === null || values.includes(obj[key])) return;
+    warn(`${path}.${key}`, `不明な値のため削除しました: ${JSON.stringify(obj[key])}`);
+    delete obj[key];
+  };
+  const idList = (obj: Record<string, any>, key: string, path: string, known: Set<string>) => {
+    if (obj[key] === undefined) return;
+    if (!Array.isArray(obj[key])) {
+      warn(`${path}.${key}`, '配列ではないため空にしました');
+      obj[key] = [];
+      return;
+    }
+    const valid = obj[key].filter((id: unknown) => typeof id === 'string' && known.has(id));
+    if (valid.length !== obj[key].length) warn(`${path}.${key}`, `存在しない項目への接続 ${obj[key].length - valid.length} 件を削除しました`);
+    obj[key] = valid;
+  };
+  const requiredId = (obj: Record<string, any>, path: string, seen: Set<string>): boolean => {
+    if (typeof obj.id !== 'string' || !obj.id) {
+      error(`${path}.id`, 'IDがありません');
+      return false;
+    }
+    if (seen.has(obj.id)) {
+      error(`${path}.id`, `IDが重複しています: ${obj.id}`);
+      return false;
+    }
+    seen.add(obj.id);
+    return true;
+  };
+  const requiredText = (obj: Record<string, any>, key: string, path: string) => {
+    if (typeof obj[key] === 'string') return;
+    if (typeof obj[key] === 'number') obj[key] = String(obj[key]);
+    else error(`${path}.${key}`, '文字列がありません');
+  };
+  const objectList = (obj: Record<string, any>, key: string, path: string): Record<string, any>[] => {
+    if (obj[key] === undefined || obj[key] === null) return [];
+    if (!Array.isArray(obj[key])) {
+      warn(`${path}.${key}`, '配列ではないため空にしました');
+      obj[key] = [];
+      return [];
+    }
+    const valid = obj[key].filter(isObject);
+    if (valid.length !== obj[key].length) warn(`${path}.${key}`, `オブジェクトではない要素 ${obj[key].length - valid.length} 件を削除しました`);
+    obj[key] = valid;
+    return valid;
+  };
+  const attachments = (obj: Record<string, any>, key: string, path: string) => {
+    const list = objectList(obj, key, path);
+    const valid = list.filter(attachment => typeof attachment.id === 'string' && typeof attachment.name === 'string');
+    if (valid.length !== list.length) warn(`${path}.${key}`, `IDまたは名前のない添付ファイル ${list.length - valid.length} 件を削除しました`);
+    // Uploader ids come from the exporting instance; the importing user becomes the uploader when the file is stored
+    valid.forEach(attachment => delete attachment.uploadedBy);
+    if (obj[key] !== undefined) obj[key] = valid;
+  };
+
+  if (requireProjectFields) {
+    if (typeof data.projectGoal !== 'string' || !data.projectGoal.trim()) error('projectGoal', '事業目的がありません');
+    if (!isDate(data.targetDate)) error('targetDate', `目標日（YYYY-MM-DD）がありません: ${JSON.stringify(data.targetDate)}`);
+  }
+  if (!Array.isArray(data.tasks)) {
+    error('tasks', 'タスクの配列がありません');
+    return issues;
+  }
+
+  const taskIds = new Set<string>();
+  const allIds = new Set<string>();
+  const tasks = objectList(data, 'tasks', '');
+  tasks.forEach((task, taskIndex) => requiredId(task, `tasks[${taskIndex}]`, taskIds));
+
+  tasks.forEach((task, taskIndex) => {
+    const taskPath = `tasks[${taskIndex}]`;
+    requiredText(task, 'title', taskPath);
+    if (typeof task.description !== 'string') task.description = task.description === undefined ? '' : String(task.description);
+    optionalEnum(task, 'status', taskPath, Object.values(TaskStatus));
+    idList(task, 'nextTaskIds', taskPath, taskIds);
+    if (task.position !== undefined && !(isObject(task.position) && typeof task.position.x === 'number' && typeof task.position.y === 'number')) {
+      warn(`${taskPath}.position`, '座標が不正なため削除しました');
+      delete task.position;
+    }
+
+    if (task.extendedDetails === undefined || task.extendedDetails === null) return;
+    const detailsPath = `${taskPath}.extendedDetails`;
+    if (!isObject(task.extendedDetails)) {
+      warn(detailsPath, 'オブジェクトではないため削除しました');
+      delete task.extendedDetails;
+      return;
+    }
+    const details = task.extendedDetails;
+    ['resources', 'responsible', 'notes'].forEach(key => {
+      if (typeof details[key] !== 'string') details[key] = details[key] === undefined || details[key] === null ? '' : String(details[key]);
+    });
+    optionalDate(details, 'dueDate', detailsPath);
+    optionalNumber(details, 'estimatedDays', detailsPath);
+    attachments(details, 'attachments', detailsPath);
+    if (details.numericalTarget !== undefined && details.numericalTarget !== null) {
+      const target = details.numericalTarget;
+      if (!isObject(target) || typeof target.description !== 'string') {
+        warn(`${detailsPath}.numericalTarget`, '数値目標の形式が不正なため削除しました');
+        delete details.numericalTarget;
+      } else {
+        optionalEnum(target, 'status', `${detailsPath}.numericalTarget`, Object.values(NumericalTargetStatus));
+      }
+    }
+    if (details.reportDeck !== undefined && details.reportDeck !== null && !(isObject(details.reportDeck) && Array.isArray(details.reportDeck.slides))) {
+      warn(`${detailsPath}.reportDeck`, 'スライドの形式が不正なため削除しました');
+      delete details.reportDeck;
+    }
+    const decisionIds = new Set<string>();
+    objectList(details, 'decisions', detailsPath).forEach((decision, index) => {
+      const path = `${detailsPath}.decisions[${index}]`;
+      requiredId(decision, path, decisionIds);
+      requiredText(decision, 'question', path);
+      optionalEnum(decision, 'status', path, ['decided', 'undecided']);
+      if (decision.status === undefined) decision.status = decision.decision ? 'decided' : 'undecided';
+      optionalDate(decision, 'date', path);
+    });
+
+    const subSteps = objectList(details, 'subSteps', detailsPath);
+    if (details.subSteps === undefined) details.subSteps = [];
+    const subStepIds = new Set<string>();
+    subSteps.forEach((subStep, index) => requiredId(subStep, `${detailsPath}.subSteps[${index}]`, subStepIds));
+    subSteps.forEach((subStep, subStepIndex) => {
+      const subStepPath = `${detailsPath}.subSteps[${subStepIndex}]`;
+      allIds.add(subStep.id);
+      requiredText(subStep, 'text', subStepPath);
+      optionalString(subStep, 'notes', subStepPath);
+      optionalString(subStep, 'responsible', subStepPath);
+      optionalDate(subStep, 'dueDate', subStepPath);
+      optionalNumber(subStep, 'estimatedDays', subStepPath);
+      optionalEnum(subStep, 'status', subStepPath, Object.values(SubStepStatus));
+      idList(subStep, 'nextSubStepIds', subStepPath, subStepIds);
+      attachments(subStep, 'attachments', subStepPath);
+
+      const actionItemIds = new Set<string>();
+      objectList(subStep, 'actionItems', subStepPath).forEach((item, itemIndex) => {
+        const itemPath = `${subStepPath}.actionItems[${itemIndex}]`;
+        if (!requiredId(item, itemPath, actionItemIds)) return;
+        allIds.add(item.id);
+        requiredText(item, 'text', itemPath);
+        if (typeof item.completed !== 'boolean') {
+          if (item.completed !== undefined) warn(`${itemPath}.completed`, '真偽値ではないため変換しました');
+          item.completed = Boolean(item.completed);
+        }
+        optionalDate(item, 'dueDate', itemPath);
+        optionalDate(item, 'completedDate', itemPath);
+        optionalString(item, 'responsible', itemPath);
+        optionalNumber(item, 'estimatedDays', itemPath);
+        if (item.report !== undefined && item.report !== null) {
+          if (!isObject(item.report)) {
+            warn(`${itemPath}.report`, '実施報告の形式が不正なため削除しました');
+            delete item.report;
+            return;
+          }
+          if (typeof item.report.notes !== 'string') item.report.notes = '';
+          attachments(item.report, 'attachments', `${itemPath}.report`);
+          if (!Array.isArray(item.report.attachments)) item.report.attachments = [];
+          const matrix = item.report.matrixData;
+          if (matrix !== null && matrix !== undefined && !(isObject(matrix) && Array.isArray(matrix.headers) && Array.isArray(matrix.rows))) {
+            warn(`${itemPath}.report.matrixData`, '表データの形式が不正なため削除しました');
+            item.report.matrixData = null;
+          }
+          if (item.report.matrixData === undefined) item.report.matrixData = null;
+        }
+      });
+    });
+  });
+
+  taskIds.forEach(id => allIds.add(id));
+  if (data.ganttData !== undefined && data.ganttData !== null) {
+    if (!Array.isArray(data.ganttData)) {
+      warn('ganttData', '配列ではないため削除しました');
+      data.ganttData = null;
+    } else {
+      const valid = data.ganttData.filter((item: unknown) => isObject(item) && typeof item.id === 'string' && allIds.has(item.id)
+        && isDate(item.start) && isDate(item.end) && ['task', 'substep', 'actionitem'].includes(item.type));
+      if (valid.length !== data.ganttData.length) {
+        warn('ganttData', `日付・種別が不正か、対応する項目がない行 ${data.ganttData.length - valid.length} 件を削除しました`);
+      }
+      valid.forEach((item: Record<string, any>) => {
+        item.dependencies = Array.isArray(item.dependencies) ? item.dependencies.filter((id: unknown) => typeof id === 'string' && allIds.has(id)) : [];
+        if (typeof item.progress !== 'number') item.progress = Number(item.progress) || 0;
+      });
+      data.ganttData = valid;
+    }
+  }
+
+  return issues;
+};
+
+const readFile = (text: string, requireProjectFields: boolean): ProjectFileReadResult => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('JSONとして読み取れないファイルです。');
+  }
+  if (!isObject(parsed)) throw new Error('無効なプロジェクトファイル形式です。');
+
+  const formatVersion = typeof parsed.formatVersion === 'number' ? parsed.formatVersion : 0;
+  if (formatVersion > PROJECT_FILE_FORMAT_VERSION) {
+    throw new Error(`このファイルは新しい形式（バージョン ${formatVersion}）で保存されています。アプリを更新してから読み込んでください。`);
+  }
+
+  const data: Record<string, any> = parsed;
+  // Single-task exports ({ task }) are read as a file with one task
+  if (!requireProjectFields && data.tasks === undefined && isObject(data.task)) data.tasks = [data.task];
+
+  const migrations = MIGRATIONS
+    .filter(migration => migration.from >= formatVersion)
+    .flatMap(migration => (migration.migrate(data) > 0 ? [migration.description] : []));
+
+  const issues = validateContent(data, requireProjectFields);
+  const hasErrors = issues.some(issue => issue.severity === 'error');
+  return {
+    content: hasErrors ? null : {
+      projectGoal: typeof data.projectGoal === 'string' ? data.projectGoal : '',
+      targetDate: typeof data.targetDate === 'string' ? data.targetDate : '',
+      tasks: data.tasks,
+      ganttData: data.ganttData ?? null,
+    },
+    formatVersion,
+    migrations,
+    issues,
+  };
+};
+
+/**
+ * Reads a JSON project file: migrates it to the current format and validates every field.
+ * @throws Error when the text is not JSON or the file is newer than this app.
+ */
+export const readProjectFile = (text: string): ProjectFileReadResult => readFile(text, true);
+
+/**
+ * Reads tasks to add to an open project. Accepts project files and single-task files; the goal
+ * and target date are not required.
+ */
+export const readTasksFile = (text: string): ProjectFileReadResult => readFile(text, false);
+
+/**
+ * Builds the import result shown to the user. Errors and warnings are listed with the path of the field.
+ */
+export const summarizeProjectFile = (result: ProjectFileReadResult, fileName: string): ImportSummary => {
+  const tasks = result.content?.tasks || [];
+  const subSteps = tasks.flatMap(task => task.extendedDetails?.subSteps || []);
+  const describe = (issue: ProjectFileIssue) => `${issue.path}: ${issue.message}`;
+  const errors = result.issues.filter(issue => issue.severity === 'error').map(describe);
+  return {
+    format: result.formatVersion > 0 ? `JSON（形式バージョン ${result.formatVersion}）` : 'JSON（旧形式）',
+    fileName,
+    counts: [
+      { label: 'タスク', count: tasks.length },
+      { label: 'サブステップ', count: subSteps.length },
+      { label: 'アクションアイテム', count: subSteps.reduce((sum, subStep) => sum + (subStep.actionItems || []).length, 0) },
+      { label: '決定事項', count: tasks.reduce((sum, task) => sum + (task.extendedDetails?.decisions || []).length, 0) },
+    ],
+    warnings: [
+      ...result.migrations,
+      ...result.issues.filter(issue => issue.severity === 'warning').map(describe),
+    ],
+    unmappedFields: [],
+    ...(errors.length > 0 ? { errors } : {}),
+  };
+};
+
+// --- Merging into an existing project ---
+
+/**
+ * Prepares tasks from a file for adding to an existing project: task, sub-step and action item ids
+ * that are already used in the project get new ids, and every reference to them (connections,
+ * report slides, Gantt rows) follows. Connections to tasks outside the file are dropped.
+ */
+export const remapImportedIds = (
+  imported: ProjectFileContent,
+  existingTasks: ProjectTask[],
+  generateUniqueId: (prefix: string) => string,
+): { tasks: ProjectTask[]; ganttData: GanttItem[]; remappedCount: number } => {
+  const usedIds = new Set<string>();
+  existingTasks.forEach(task => {
+    usedIds.add(task.id);
+    (task.extendedDetails?.subSteps || []).forEach(subStep => {
+      usedIds.add(subStep.id);
+      (subStep.actionItems || []).forEach(item => usedIds.add(item.id));
+    });
+  });
+
+  const idMap = new Map<string, string>();
+  let remappedCount = 0;
+  const remap = (id: string, prefix: string) => {
+    if (!usedIds.has(id)) {
+      usedIds.add(id);
+      idMap.set(id, id);
+      return id;
+    }
+    const newId = generateUniqueId(prefix);
+    usedIds.add(newId);
+    idMap.set(id, newId);
+    remappedCount++;
+    return newId;
+  };
+  const mapped = (id: string) => idMap.get(id) ?? id;
+
+  const importedTaskIds = new Set(imported.tasks.map(task => task.id));
+  const tasks = imported.tasks.map(task => {
+    const taskId = remap(task.id, 'task');
+    const details = task.extendedDetails;
+    if (!details) return { ...task, id: taskId };
+
+    // Sub-step and action item ids only need to be unique within the project's flat id space (Gantt rows)
+    const subStepIdMap = new Map<string, string>();
+    const subSteps: SubStep[] = details.subSteps.map(subStep => {
+      const subStepId = remap(subStep.id, 'sub');
+      subStepIdMap.set(subStep.id, subStepId);
+      return {
+        ...subStep,
+        id: subStepId,
+        actionItems: (subStep.actionItems || []).map(item => ({ ...item, id: remap(item.id, 'action') })),
+      };
+    });
+    subSteps.forEach(subStep => {
+      subStep.nextSubStepIds = (subStep.nextSubStepIds || []).map(id => subStepIdMap.get(id) ?? id);
+    });
+
+    const reportDeck = details.reportDeck && {
+      ...details.reportDeck,
+      slides: details.reportDeck.slides.map(slide => ({
+        ...slide,
+        elements: slide.elements.map(element => ('subStepId' in element
+          ? { ...element, subStepId: mapped(element.subStepId), actionItemId: mapped(element.actionItemId) }
+          : element)),
+      })),
+    };
+
+    return { ...task, id: taskId, extendedDetails: { ...details, subSteps, reportDeck } };
+  });
+
+  tasks.forEach(task => {
+    task.nextTaskIds = (task.nextTaskIds || []).filter(id => importedTaskIds.has(id)).map(mapped);
+  });
+
+  const ganttData = (imported.ganttData || []).map(item => ({
+    ...item,
+    id: mapped(item.id),
+    parentId: item.parentId ? mapped(item.parentId) : null,
+    dependencies: item.dependencies.map(mapped),
+  }));
+
+  return { tasks, ganttData, remappedCount };
+};
@@ -0,0 +1,314 @@
+import { ProjectTask, SubStep, ActionItem, GanttItem } from '../types';
+
+/**
+ * Three-way merge of project data, used when a save finds that someone else saved first.
+ *
+ * `base` is the state both sides last agreed on, `local` is this browser's state and `remote`
+ * is what is stored now. Tasks, sub-steps and action items are matched by id and merged field
+ * by field: a field changed on only one side takes that side's value, and link lists
+ * (`nextTaskIds`, `nextSubStepIds`) merge additions and removals from both sides. A field changed
+ * differently on both sides, or an item deleted on one side and edited on the other, becomes a
+ * conflict that the user resolves.
+ */
+
+export interface MergeableProject {
+  goal: string;
+  targetDate: string;
+  tasks: ProjectTask[];
+  ganttData?: GanttItem[] | null;
+}
+
+export type MergeSide = 'local' | 'remote';
+export type MergeEntityType = 'project' | 'task' | 'substep' | 'actionitem';
+
+export interface MergeConflict {
+  id: string; // Stable across re-runs of the same merge, used as the resolution key
+  kind: 'fields' | 'deleted';
+  entityType: MergeEntityType;
+  entityName: string;
+  parentNames: string[]; // Names of the enclosing task / sub-step, outermost first
+  fields: string[]; // Conflicting fields; task detail fields are prefixed with "details."
+  local: Record<string, any> | null; // null when the item was deleted on that side
+  remote: Record<string, any> | null;
+}
+
+export interface MergeResult {
+  merged: MergeableProject;
+  conflicts: MergeConflict[];
+}
+
+type Fields = Record<string, any>;
+
+// Link lists merge like sets instead of conflicting.
+const SET_FIELDS = new Set(['nextTaskIds', 'nextSubStepIds']);
+const DETAIL_PREFIX = 'details.';
+const HAS_DETAILS = '__hasDetails';
+
+const isEqual = (a: any, b: any): boolean => {
+  if (a === b) return true;
+  if (a === undefined || b === undefined || a === null || b === null) return false;
+  return JSON.stringify(a) === JSON.stringify(b);
+};
+
+const mergeSet = (base: string[] = [], local: string[] = [], remote: string[] = []): string[] => {
+  const removed = new Set([...base.filter(id => !local.includes(id)), ...base.filter(id => !remote.includes(id))]);
+  const result: string[] = [];
+  for (const id of [...local, ...remote]) {
+    if (!removed.has(id) && !result.includes(id)) result.push(id);
+  }
+  return result;
+};
+
+interface MergeContext {
+  resolutions: Record<string, MergeSide>;
+  conflicts: MergeConflict[];
+}
+
+/**
+ * Merges the own fields of one entity. Unresolved conflicting fields take the remote value
+ * for now, so `merged` is always a complete project.
+ */
+const mergeFields = (
+  base: Fields | undefined,
+  local: Fields,
+  remote: Fields,
+  ctx: MergeContext,
+  conflict: Omit<MergeConflict, 'kind' | 'fields' | 'local' | 'remote'>,
+): Fields => {
+  const result: Fields = {};
+  const conflicting: string[] = [];
+  const keys = new Set([...Object.keys(base || {}), ...Object.keys(local), ...Object.keys(remote)]);
+
+  for (const key of keys) {
+    const [b, l, r] = [base?.[key], local[key], remote[key]];
+    let value: any;
+    if (isEqual(l, r)) value = l;
+    else if (base && isEqual(l, b)) value = r;
+    else if (base && isEqual(r, b)) value = l;
+    else if (SET_FIELDS.has(key)) value = mergeSet(b, l, r);
+    else {
+      conflicting.push(key);
+      value = r;
+    }
+    if (value !== undefined) result[key] = value;
+  }
+
+  if (conflicting.length > 0) {
+    const side = ctx.resolutions[conflict.id];
+    if (side) {
+      for (const key of conflicting) {
+        const value = (side === 'local' ? local : remote)[key];
+        if (value === undefined) delete result[key];
+        else result[key] = value;
+      }
+    } else {
+      ctx.conflicts.push({
+        ...conflict,
+        kind: 'fields',
+        fields: conflicting,
+        local: Object.fromEntries(conflicting.map(key => [key, local[key]])),
+        remote: Object.fromEntries(conflicting.map(key => [key, remote[key]])),
+      });
+    }
+  }
+
+  return result;
+};
+
+// Merged order: follow the side that reordered the shared items, then slot in the other side's additions.
+const mergeOrder = (base: string[], local: string[], remote: string[]): string[] => {
+  const shared = (ids: string[]) => ids.filter(id => base.includes(id));
+  const localReordered = !isEqual(shared(local), shared(base).filter(id => local.includes(id)));
+  const [primary, secondary] = localReordered ? [local, remote] : [remote, local];
+
+  const order = [...primary];
+  secondary.forEach((id, index) => {
+    if (order.includes(id)) return;
+    const previous = secondary.slice(0, index).reverse().find(prevId => order.includes(prevId));
+    order.splice(previous ? order.indexOf(previous) + 1 : 0, 0, id);
+  });
+  return order;
+};
+
+interface ListMerge<T> {
+  nameOf: (item: T) => string;
+  entityType: MergeEntityType;
+  conflictId: (id: string) => string;
+  parentNames: string[];
+  mergeItem: (base: T | undefined, local: T, remote: T) => T;
+}
+
+const mergeList = <T extends { id: string }>(
+  base: T[] = [],
+  local: T[] = [],
+  remote: T[] = [],
+  ctx: MergeContext,
+  spec: ListMerge<T>,
+): T[] => {
+  const byId = (items: T[]) => new Map(items.map(item => [item.id, item]));
+  const [baseById, localById, remoteById] = [byId(base), byId(local), byId(remote)];
+  const order = mergeOrder(base.map(i => i.id), local.map(i => i.id), remote.map(i => i.id));
+
+  const result: T[] = [];
+  for (const id of order) {
+    const [b, l, r] = [baseById.get(id), localById.get(id), remoteById.get(id)];
+    if (l && r) {
+      result.push(spec.mergeItem(b, l, r));
+      continue;
+    }
+    const kept = l || r;
+    if (!kept) continue;
+    if (!b) {
+      result.push(kept); // Added on one side
+      continue;
+    }
+    if (isEqual(kept, b)) continue; // Deleted on one side, untouched on the other
+
+    // Deleted on one side, edited on the other
+    const conflictId = spec.conflictId(id);
+    const side = ctx.resolutions[conflictId];
+    const deletedSide: MergeSide = l ? 'remote' : 'local';
+    if (side === undefined) {
+      ctx.conflicts.push({
+        id: conflictId,
+        kind: 'deleted',
+        entityType: spec.entityType,
+        entityName: spec.nameOf(kept),
+        parentNames: spec.parentNames,
+        fields: [],
+        local: l ? { ...l } : null,
+        remote: r ? { ...r } : null,
+      });
+      result.push(kept); // Keep the edited item until the user decides
+    } else if (side !== deletedSide) {
+      result.push(kept);
+    }
+  }
+  return result;
+};
+
+const splitTask = (task: ProjectTask): Fields => {
+  const { extendedDetails, ...own } = task;
+  const fields: Fields = { ...own };
+  if (extendedDetails) {
+    const { subSteps, ...details } = extendedDetails;
+    fields[HAS_DETAILS] = true;
+    for (const [key, value] of Object.entries(details)) fields[DETAIL_PREFIX + key] = value;
+  }
+  return fields;
+};
+
+const joinTask = (fields: Fields, subSteps: SubStep[]): ProjectTask => {
+  const task: Fields = {};
+  const details: Fields = {};
+  for (const [key, value] of Object.entries(fields)) {
+    if (key === HAS_DETAILS) continue;
+    if (key.startsWith(DETAIL_PREFIX)) details[key.slice(DETAIL_PREFIX.length)] = value;
+    else task[key] = value;
+  }
+  if (fields[HAS_DETAILS] || subSteps.length > 0) {
+    task.extendedDetails = { resources: '', responsible: '', notes: '', ...details, subSteps };
+  }
+  return task as ProjectTask;
+};
+
+const mergeActionItems = (task: ProjectTask, subStep: SubStep, base: ActionItem[] | undefined, local: ActionItem[] | undefined, remote: ActionItem[] | undefined, ctx: MergeContext) =>
+  mergeList(base, local, remote, ctx, {
+    entityType: 'actionitem',
+    nameOf: item => item.text,
+    conflictId: id => `actionitem:${task.id}/${subStep.id}/${id}`,
+    parentNames: [task.title, subStep.text],
+    mergeItem: (b, l, r) => mergeFields(b, l, r, ctx, {
+      id: `actionitem:${task.id}/${subStep.id}/${l.id}`,
+      entityType: 'actionitem',
+      entityName: l.text,
+      parentNames: [task.title, subStep.text],
+    }) as ActionItem,
+  });
+
+const mergeSubSteps = (task: ProjectTask, base: SubStep[] | undefined, local: SubStep[] | undefined, remote: SubStep[] | undefined, ctx: MergeContext) =>
+  mergeList(base, local, remote, ctx, {
+    entityType: 'substep',
+    nameOf: subStep => subStep.text,
+    conflictId: id => `substep:${task.id}/${id}`,
+    parentNames: [task.title],
+    mergeItem: (b, l, r) => {
+      const { actionItems: baseItems, ...baseOwn } = b || ({} as SubStep);
+      const { actionItems: localItems, ...localOwn } = l;
+      const { actionItems: remoteItems, ...remoteOwn } = r;
+      const own = mergeFields(b ? baseOwn : undefined, localOwn, remoteOwn, ctx, {
+        id: `substep:${task.id}/${l.id}`,
+        entityType: 'substep',
+        entityName: l.text,
+        parentNames: [task.title],
+      });
+      const actionItems = mergeActionItems(task, l, baseItems, localItems, remoteItems, ctx);
+      return { ...own, actionItems } as SubStep;
+    },
+  });
+
+const mergeTasks = (base: ProjectTask[], local: ProjectTask[], remote: ProjectTask[], ctx: MergeContext) =>
+  mergeList(base, local, remote, ctx, {
+    entityType: 'task',
+    nameOf: task => task.title,
+    conflictId: id => `task:${id}`,
+    parentNames: [],
+    mergeItem: (b, l, r) => {
+      const own = mergeFields(b ? splitTask(b) : undefined, splitTask(l), splitTask(r), ctx, {
+        id: `task:${l.id}`,
+        entityType: 'task',
+        entityName: l.title,
+        parentNames: [],
+      });
+      const subSteps = mergeSubSteps(l, b?.extendedDetails?.subSteps, l.extendedDetails?.subSteps, r.extendedDetails?.subSteps, ctx);
+      return joinTask(own, subSteps);
+    },
+  });
+
+// A link kept by one side may point at an item the other side deleted.
+const dropDanglingLinks = (tasks: ProjectTask[]): ProjectTask[] => {
+  const taskIds = new Set(tasks.map(task => task.id));
+  return tasks.map(task => {
+    const details = task.extendedDetails;
+    const subStepIds = new Set((details?.subSteps || []).map(subStep => subStep.id));
+    return {
+      ...task,
+      ...(task.nextTaskIds ? { nextTaskIds: task.nextTaskIds.filter(id => taskIds.has(id)) } : {}),
+      ...(details ? {
+        extendedDetails: {
+          ...details,
+          subSteps: details.subSteps.map(subStep => subStep.nextSubStepIds
+            ? { ...subStep, nextSubStepIds: subStep.nextSubStepIds.filter(id => subStepIds.has(id)) }
+            : subStep),
+        },
+      } : {}),
+    };
+  });
+};
+
+/**
+ * Merges local and remote changes made since `base`.
+ * Conflicts listed in `resolutions` are resolved with the chosen side; the rest are returned
+ * (with the remote value provisionally applied in `merged`).
+ */
+export const mergeProjects = (
+  base: MergeableProject,
+  local: MergeableProject,
+  remote: MergeableProject,
+  resolutions: Record<string, MergeSide> = {},
+): MergeResult => {
+  const ctx: MergeContext = { resolutions, conflicts: [] };
+  const { tasks: baseTasks, ...baseOwn } = base;
+  const { tasks: localTasks, ...localOwn } = local;
+  const { tasks: remoteTasks, ...remoteOwn } = remote;
+
+  const own = mergeFields(baseOwn, localOwn, remoteOwn, ctx, {
+    id: 'project',
+    entityType: 'project',
+    entityName: local.goal,
+    parentNames: [],
+  });
+  const tasks = dropDanglingLinks(mergeTasks(baseTasks, localTasks, remoteTasks, ctx));
+
+  return { merged: { ...(own as Omit<MergeableProject, 'tasks'>), tasks }, conflicts: ctx.conflicts };
+};
@@ -1,5 +1,13 @@
-import { supabase } from '../lib/supabase';
-import { ProjectTask, GanttItem, ProjectMember, ProjectInvitation, ProjectWithMetadata } from '../types';
+import { supabase, supabaseUrl, supabaseAnonKey } from '../lib/supabase';
+import { ProjectTask, GanttItem, ProjectMember, ProjectInvitation, ProjectWithMetadata, GanttBaseline, ProjectActivity, ActivityEntityType, ProjectVersion, ProjectVersionSummary, ProjectTemplate, TemplateVariable, TaskBlueprint, TaskBlueprintKind, CalendarFeed, ProjectDocument, Attachment, ProjectComment, CommentTarget } from '../types';
+import {
+  TaskRowSet, TaskTable, TABLE_NAMES, TABLE_WRITE_ORDER,
+  flattenTasks, assembleTasks, diffTaskRows, countRowChanges,
+} from './taskStorage';
+import { hasAttachmentsToUpload, uploadAttachmentsToProject, deleteProjectFiles } from './attachmentStorage';
+import { MergeableProject, MergeResult, MergeSide, mergeProjects } from './projectMerge';
+import { BlueprintContent } from './taskBlueprints';
+import { CommentRead, commentTargetKey } from './comments';
 
 export interface ProjectData {
   id: string;
@@ -13,8 +21,40 @@ export interface ProjectData {
   lastModifiedBy?: string;
   version: number;
   userRole: 'owner' | 'editor' | 'viewer';
+  taskCount?: number; // Set by getProjects, which does not load the task tree
+  archivedAt?: string | null;
+  deletedAt?: string | null; // Set while the project is in the trash
 }
 
+export interface MergeSaveOutcome {
+  project?: ProjectData; // Set when the save went through
+  merge?: MergeResult; // Set when remote changes were merged in, or when conflicts need resolving
+}
+
+// ゴミ箱に移したプロジェクトを保管する日数（purge_expired_projects と同じ）
+export const TRASH_RETENTION_DAYS = 30;
+
+// タスク単位の自動保存は、同じユーザーの直前のスナップショットからこの時間が経つまで履歴に残さない
+const AUTO_SAVE_VERSION_INTERVAL_MINUTES = 10;
+
+// save_project_tasks がバージョンの不一致で返す SQLSTATE
+const VERSION_CONFLICT_CODE = 'PT409';
+const VERSION_CONFLICT_MESSAGE = 'プロジェクトが他のユーザーによって更新されています。最新の状態を取得してから再度お試しください。';
+
+// 楽観的ロックで保存が拒否されたかどうか
+export const isVersionConflict = (error: unknown): boolean =>
+  error instanceof Error && error.message === VERSION_CONFLICT_MESSAGE;
+
+export interface ActivityFilter {
+  taskId?: string;
+  entityTypes?: ActivityEntityType[];
+  actorId?: string;
+  beforeId?: string; // id of the oldest entry already loaded, for paging
+  limit?: number;
+}
+
+export type TaskFieldUpdates = Partial<Pick<ProjectTask, 'title' | 'description' | 'status' | 'position' | 'nextTaskIds'>>;
+
 export class ProjectService {
   // プロジェクト一覧を取得
   static async getProjects(): Promise<ProjectData[]> {
@@ -27,7 +67,8 @@ export class ProjectService {
       .from('projects')
       .select(`
         *,
-        project_members!inner(role)
+        project_members!inner(role),
+        project_tasks(count)
       `)
       .order('updated_at', { ascending: false });
 
@@ -35,18 +76,22 @@ export class ProjectService {
       throw new Error(`プロジェクトの取得に失敗しました: ${error.message}`);
     }
 
+    // 一覧ではタスクツリーを読み込まない（選択時に getProject / getProjectWithMembers で取得）
     return data.map(project => ({
       id: project.id,
       title: project.title,
       goal: project.goal,
       targetDate: project.target_date,
-      tasks: project.tasks_data || [],
+      tasks: [],
+      taskCount: project.tasks_migrated_at ? project.project_tasks?.[0]?.count ?? 0 : (project.tasks_data || []).length,
       ganttData: project.gantt_data,
       createdAt: project.created_at,
       updatedAt: project.updated_at,
       lastModifiedBy: project.last_modified_by,
       version: project.version || 1,
       userRole: project.project_members[0]?.role || 'viewer',
+      archivedAt: project.archived_at,
+      deletedAt: project.deleted_at,
     }));
   }
 
@@ -102,13 +147,15 @@ export class ProjectService {
       title: projectData.title,
       goal: projectData.goal,
       targetDate: projectData.target_date,
-      tasks: projectData.tasks_data || [],
+      tasks: await this.loadTasks(projectData),
       ganttData: projectData.gantt_data,
       createdAt: projectData.created_at,
       updatedAt: projectData.updated_at,
       lastModifiedBy: projectData.last_modified_by,
       version: projectData.version || 1,
       userRole: projectData.project_members[0]?.role || 'viewer',
+      archivedAt: projectData.archived_at,
+      deletedAt: projectData.deleted_at,
       members,
     };
   }
@@ -133,10 +180,10 @@ export class ProjectService {
         title,
         goal,
         target_date: targetDate,
-        tasks_data: tasks,
         gantt_data: ganttData,
         last_modified_by: user.id,
         version: 1,
+        tasks_migrated_at: new Date().toISOString(),
       })
       .select()
       .single();
@@ -145,17 +192,22 @@ export class ProjectService {
       throw new Error(`プロジェクトの作成に失敗しました: ${error.message}`);
     }
 
+    // この端末だけに保存されていた添付ファイルをプロジェクトのストレージへ移す
+    const storedTasks = hasAttachmentsToUpload(tasks) ? await uploadAttachmentsToProject(tasks, data.id) : tasks;
+    const project = storedTasks.length > 0 ? await this.saveTaskRows(data.id, { upserts: flattenTasks(data.id, storedTasks) }) : data;
+    await this.recordVersion(project, storedTasks);
+
     return {
-      id: data.id,
-      title: data.title,
-      goal: data.goal,
-      targetDate: data.target_date,
-      tasks: data.tasks_data || [],
-      ganttData: data.gantt_data,
-      createdAt: data.created_at,
-      updatedAt: data.updated_at,
-      lastModifiedBy: data.last_modified_by,
-      version: data.version,
+      id: project.id,
+      title: project.title,
+      goal: project.goal,
+      targetDate: project.target_date,
+      tasks: storedTasks,
+      ganttData: project.gantt_data,
+      createdAt: project.created_at,
+      updatedAt: project.updated_at,
+      lastModifiedBy: project.last_modified_by,
+      version: project.version,
       userRole: 'owner',
     };
   }
@@ -177,65 +229,124 @@ export class ProjectService {
       throw new Error('ログインが必要です');
     }
 
-    // 楽観的ロックのチェック
-    if (updates.expectedVersion !== undefined) {
-      const { data: currentProject, error: checkError } = await supabase
-        .from('projects')
-        .select('version')
-        .eq('id', id)
-        .single();
-
-      if (checkError) {
-        throw new Error(`プロジェクトの確認に失敗しました: ${checkError.message}`);
-      }
-
-      if (currentProject.version !== updates.expectedVersion) {
-        throw new Error('プロジェクトが他のユーザーによって更新されています。最新の状態を取得してから再度お試しください。');
-      }
-    }
-
     const updateData: any = {};
     
     if (updates.title !== undefined) updateData.title = updates.title;
     if (updates.goal !== undefined) updateData.goal = updates.goal;
     if (updates.targetDate !== undefined) updateData.target_date = updates.targetDate;
-    if (updates.tasks !== undefined) updateData.tasks_data = updates.tasks;
     if (updates.ganttData !== undefined) updateData.gantt_data = updates.ganttData;
 
-    const { data, error } = await supabase
-      .from('projects')
-      .update(updateData)
-      .eq('id', id)
-      .select(`
-        *,
-        project_members!inner(role)
-      `)
+    // タスクを渡された場合はツリー全体を置き換える（プロジェクトの更新と同じトランザクションで保存）
+    const storedTasks = updates.tasks === undefined ? undefined
+      : hasAttachmentsToUpload(updates.tasks) ? await uploadAttachmentsToProject(updates.tasks, id)
+      : updates.tasks;
+    const data = await this.saveTaskRows(
+      id,
+      { upserts: storedTasks && flattenTasks(id, storedTasks) },
+      { expectedVersion: updates.expectedVersion, replaceAll: storedTasks !== undefined, projectFields: updateData }
+    );
+
+    const { data: membership, error } = await supabase
+      .from('project_members')
+      .select('role')
+      .eq('project_id', id)
+      .eq('user_id', user.id)
       .single();
 
     if (error) {
       throw new Error(`プロジェクトの更新に失敗しました: ${error.message}`);
     }
 
+    const tasks = storedTasks ?? await this.loadTasks(data);
+    await this.recordVersion(data, tasks);
+
     return {
       id: data.id,
       title: data.title,
       goal: data.goal,
       targetDate: data.target_date,
-      tasks: data.tasks_data || [],
+      tasks,
       ganttData: data.gantt_data,
       createdAt: data.created_at,
       updatedAt: data.updated_at,
       lastModifiedBy: data.last_modified_by,
       version: data.version,
-      userRole: data.project_members[0]?.role || 'viewer',
+      userRole: membership.role,
+      archivedAt: data.archived_at,
+      deletedAt: data.deleted_at,
     };
   }
 
-  // プロジェクトを削除
+  // プロジェクトを保存。他のユーザーが先に保存していた場合は3-wayマージしてから保存する。
+  // 自動で解決できない競合が残った場合は保存せずに merge.conflicts を返す（resolutions を渡して再実行する）
+  static async saveProjectWithMerge(
+    id: string,
+    base: MergeableProject,
+    local: MergeableProject,
+    expectedVersion: number,
+    resolutions: Record<string, MergeSide> = {}
+  ): Promise<MergeSaveOutcome> {
+    const MAX_ATTEMPTS = 3;
+
+    for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+      const remote = await this.getProject(id);
+
+      if (remote.version === expectedVersion) {
+        try {
+          return { project: await this.updateProject(id, { ...local, expectedVersion }) };
+        } catch (error) {
+          if (isVersionConflict(error)) continue;
+          throw error;
+        }
+      }
+
+      const merge = mergeProjects(base, local, remote, resolutions);
+      if (merge.conflicts.length > 0) {
+        return { merge };
+      }
+
+      try {
+        const project = await this.updateProject(id, { ...merge.merged, expectedVersion: remote.version });
+        return { project, merge };
+      } catch (error) {
+        // マージ中にさらに別の保存があった場合は、最新の状態でやり直す
+        if (isVersionConflict(error)) continue;
+        throw error;
+      }
+    }
+
+    throw new Error(VERSION_CONFLICT_MESSAGE);
+  }
+
+  // プロジェクトをアーカイブ（archived = false で解除）
+  static async setProjectArchived(id: string, archived: boolean): Promise<void> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      throw new Error('ログインが必要です');
+    }
+
+    const { error } = await supabase
+      .from('projects')
+      .update(archived
+        ? { archived_at: new Date().toISOString(), archived_by: user.id }
+        : { archived_at: null, archived_by: null })
+      .eq('id', id);
+
+    if (error) {
+      throw new Error(`プロジェクトの${archived ? 'アーカイブ' : 'アーカイブ解除'}に失敗しました: ${error.message}`);
+    }
+  }
+
+  // プロジェクトをゴミ箱に移動（保管期間が過ぎると完全に削除される）
   static async deleteProject(id: string): Promise<void> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      throw new Error('ログインが必要です');
+    }
+
     const { error } = await supabase
       .from('projects')
-      .delete()
+      .update({ deleted_at: new Date().toISOString(), deleted_by: user.id })
       .eq('id', id);
 
     if (error) {
@@ -243,6 +354,95 @@ export class ProjectService {
     }
   }
 
+  // ゴミ箱のプロジェクトを元に戻す
+  static async restoreProject(id: string): Promise<void> {
+    const { error } = await supabase
+      .from('projects')
+      .update({ deleted_at: null, deleted_by: null })
+      .eq('id', id);
+
+    if (error) {
+      throw new Error(`プロジェクトの復元に失敗しました: ${error.message}`);
+    }
+  }
+
+  // ゴミ箱のプロジェクトを完全に削除（オーナーのみ・添付ファイルも削除）
+  static async purgeProject(id: string): Promise<void> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      throw new Error('ログインが必要です');
+    }
+
+    const { data: project, error: checkError } = await supabase
+      .from('projects')
+      .select('deleted_at, project_members!inner(role)')
+      .eq('id', id)
+      .eq('project_members.user_id', user.id)
+      .single();
+
+    if (checkError) {
+      throw new Error(`プロジェクトの確認に失敗しました: ${checkError.message}`);
+    }
+    if (!project.deleted_at || project.project_members[0]?.role !== 'owner') {
+      throw new Error('プロジェクトを完全に削除できるのは、ゴミ箱にあるプロジェクトのオーナーのみです');
+    }
+
+    // ストレージの権限はプロジェクトのメンバーで判定されるため、プロジェクトより先に削除する
+    try {
+      await deleteProjectFiles(id);
+    } catch (error) {
+      // ファイルが残ってもプロジェクト自体の削除は続ける
+      console.error('添付ファイルの削除に失敗しました:', error);
+    }
+
+    const { error } = await supabase
+      .from('projects')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      throw new Error(`プロジェクトの完全削除に失敗しました: ${error.message}`);
+    }
+  }
+
+  // 保管期間を過ぎたゴミ箱のプロジェクトを完全に削除（削除した件数を返す）
+  static async purgeExpiredProjects(): Promise<number> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      throw new Error('ログインが必要です');
+    }
+
+    const expiredBefore = new Date(Date.now() - TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString();
+    const { data: expired, error: listError } = await supabase
+      .from('projects')
+      .select('id, project_members!inner(role)')
+      .lt('deleted_at', expiredBefore)
+      .eq('project_members.user_id', user.id)
+      .eq('project_members.role', 'owner');
+
+    if (listError) {
+      throw new Error(`ゴミ箱の確認に失敗しました: ${listError.message}`);
+    }
+    if (expired.length === 0) return 0;
+
+    // ストレージの権限はプロジェクトのメンバーで判定されるため、プロジェクトより先に削除する
+    for (const project of expired) {
+      try {
+        await deleteProjectFiles(project.id);
+      } catch (error) {
+        console.error('添付ファイルの削除に失敗しました:', error);
+      }
+    }
+
+    const { data, error } = await supabase.rpc('purge_expired_projects');
+
+    if (error) {
+      throw new Error(`ゴミ箱の整理に失敗しました: ${error.message}`);
+    }
+
+    return data ?? 0;
+  }
+
   // 特定のプロジェクトを取得
   static async getProject(id: string): Promise<ProjectData> {
     const { data, error } = await supabase
@@ -263,13 +463,15 @@ export class ProjectService {
       title: data.title,
       goal: data.goal,
       targetDate: data.target_date,
-      tasks: data.tasks_data || [],
+      tasks: await this.loadTasks(data),
       ganttData: data.gantt_data,
       createdAt: data.created_at,
       updatedAt: data.updated_at,
       lastModifiedBy: data.last_modified_by,
       version: data.version || 1,
       userRole: data.project_members[0]?.role || 'viewer',
+      archivedAt: data.archived_at,
+      deletedAt: data.deleted_at,
     };
   }
 
@@ -381,38 +583,933 @@ export class ProjectService {
     }
   }
 
-  // リアルタイム更新の購読
-  static subscribeToProjectChanges(
+  // プロジェクトのタスクツリーを取得
+  static async getProjectTasks(projectId: string): Promise<ProjectTask[]> {
+    const { data, error } = await supabase
+      .from('projects')
+      .select('id, tasks_data, tasks_migrated_at')
+      .eq('id', projectId)
+      .single();
+
+    if (error) {
+      throw new Error(`タスクの取得に失敗しました: ${error.message}`);
+    }
+
+    return this.loadTasks(data);
+  }
+
+  // 1つのタスクをサブステップ・添付ファイルなどを含めて取得（削除済みの場合は null）
+  static async getTask(projectId: string, taskId: string): Promise<ProjectTask | null> {
+    const results = await Promise.all(TABLE_WRITE_ORDER.map(table =>
+      supabase
+        .from(TABLE_NAMES[table])
+        .select('*')
+        .eq('project_id', projectId)
+        .eq(table === 'tasks' ? 'id' : 'task_id', taskId)
+    ));
+
+    const rows = {} as TaskRowSet;
+    results.forEach(({ data, error }, index) => {
+      if (error) {
+        throw new Error(`タスクの取得に失敗しました: ${error.message}`);
+      }
+      rows[TABLE_WRITE_ORDER[index]] = data;
+    });
+
+    return assembleTasks(rows)[0] || null;
+  }
+
+  // 変更前後のタスクを比較し、変更された行だけを保存。保存後のバージョンを返す（変更がなければ null）
+  // expectedVersion を渡すと、他のユーザーが先に保存していた場合は保存しない（楽観的ロック）
+  static async saveTasks(projectId: string, previousTasks: ProjectTask[], nextTasks: ProjectTask[], expectedVersion?: number): Promise<number | null> {
+    const changes = diffTaskRows(flattenTasks(projectId, previousTasks), flattenTasks(projectId, nextTasks));
+    if (countRowChanges(changes) === 0) return null;
+
+    const project = await this.saveTaskRows(projectId, changes, { expectedVersion });
+    await this.recordAutoSaveVersion(project);
+    return project.version;
+  }
+
+  // タスクの基本項目（タイトル・状態・位置・接続など）だけを更新
+  static async updateTask(projectId: string, taskId: string, fields: TaskFieldUpdates): Promise<void> {
+    const { data: row, error } = await supabase
+      .from('project_tasks')
+      .select('*')
+      .eq('project_id', projectId)
+      .eq('id', taskId)
+      .single();
+
+    if (error) {
+      throw new Error(`タスクの更新に失敗しました: ${error.message}`);
+    }
+
+    const updateData: any = { ...row };
+
+    if ('title' in fields) updateData.title = fields.title ?? '';
+    if ('description' in fields) updateData.description = fields.description ?? '';
+    if ('status' in fields) updateData.status = fields.status ?? null;
+    if ('position' in fields) updateData.canvas_position = fields.position ?? null;
+    if ('nextTaskIds' in fields) updateData.next_task_ids = fields.nextTaskIds ?? [];
+
+    const project = await this.saveTaskRows(projectId, { upserts: { tasks: [updateData] } });
+    await this.recordAutoSaveVersion(project);
+  }
+
+  // タスクを削除（サブステップ・アクションアイテム・決定事項・添付ファイルも削除される）
+  static async deleteTask(projectId: string, taskId: string): Promise<void> {
+    const project = await this.saveTaskRows(projectId, { deletes: { tasks: [{ id: taskId }] } });
+    await this.recordAutoSaveVersion(project);
+  }
+
+  // タスクツリーを読み込む。未移行のプロジェクトは読み込み時に正規化テーブルへ移行する
+  private static async loadTasks(project: { id: string; tasks_data?: any; tasks_migrated_at?: string | null }): Promise<ProjectTask[]> {
+    if (!project.tasks_migrated_at) {
+      const { error } = await supabase.rpc('migrate_project_tasks_data', {
+        target_project_id: project.id,
+      });
+
+      if (error) {
+        // 閲覧者は移行できないため、従来のJSONをそのまま使う
+        return project.tasks_data || [];
+      }
+    }
+
+    const results = await Promise.all(TABLE_WRITE_ORDER.map(table =>
+      supabase
+        .from(TABLE_NAMES[table])
+        .select('*')
+        .eq('project_id', project.id)
+    ));
+
+    const rows = {} as TaskRowSet;
+    results.forEach(({ data, error }, index) => {
+      if (error) {
+        throw new Error(`タスクの取得に失敗しました: ${error.message}`);
+      }
+      rows[TABLE_WRITE_ORDER[index]] = data;
+    });
+
+    const tasks = assembleTasks(rows);
+    if (!hasAttachmentsToUpload(tasks)) return tasks;
+
+    // 従来の base64 添付ファイルをストレージへ移す（権限がない場合はそのまま表示する）
+    try {
+      const storedTasks = await uploadAttachmentsToProject(tasks, project.id);
+      await this.saveTasks(project.id, tasks, storedTasks);
+      return storedTasks;
+    } catch (error) {
+      console.warn('Failed to move attachments to storage:', error);
+      return tasks;
+    }
+  }
+
+  // タスク行の変更とプロジェクトの更新を1つのトランザクション（save_project_tasks）で保存し、バージョンを進めた行を返す。
+  // expectedVersion を渡すと、他のユーザーが先に保存していた場合は何も保存しない（楽観的ロック）。
+  // replaceAll を指定すると upserts にない行をすべて削除する（タスクツリー全体の置き換え）
+  private static async saveTaskRows(
     projectId: string,
-    onProjectUpdate: (payload: any) => void,
-    onMemberUpdate: (payload: any) => void
-  ) {
-    const projectChannel = supabase
-      .channel(`project-${projectId}`)
-      .on(
-        'postgres_changes',
-        {
-          event: '*',
-          schema: 'public',
-          table: 'projects',
-          filter: `id=eq.${projectId}`,
-        },
-        onProjectUpdate
-      )
-      .on(
-        'postgres_changes',
-        {
-          event: '*',
-          schema: 'public',
-          table: 'project_members',
-          filter: `project_id=eq.${projectId}`,
-        },
-        onMemberUpdate
-      )
-      .subscribe();
+    changes: { upserts?: Partial<Record<TaskTable, object[]>>; deletes?: Partial<Record<TaskTable, object[]>> },
+    options: { expectedVersion?: number; replaceAll?: boolean; projectFields?: Record<string, unknown> } = {}
+  ): Promise<any> {
+    const byTableName = (rows: Partial<Record<TaskTable, object[]>> = {}) =>
+      Object.fromEntries(TABLE_WRITE_ORDER.map(table => [TABLE_NAMES[table], rows[table] ?? []]));
 
-    return () => {
-      supabase.removeChannel(projectChannel);
+    const { data, error } = await supabase.rpc('save_project_tasks', {
+      target_project_id: projectId,
+      expected_version: options.expectedVersion ?? null,
+      upserts: byTableName(changes.upserts),
+      deletes: byTableName(changes.deletes),
+      replace_all: options.replaceAll ?? false,
+      project_fields: options.projectFields ?? {},
+    });
+
+    if (error) {
+      if (error.code === VERSION_CONFLICT_CODE) {
+        throw new Error(VERSION_CONFLICT_MESSAGE);
+      }
+      throw new Error(`プロジェクトの保存に失敗しました: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  // 保存後のプロジェクトをバージョン履歴に残す。
+  // 保存自体は完了しているため、履歴の記録に失敗しても保存は失敗扱いにしない
+  private static async recordVersion(project: any, tasks: ProjectTask[]): Promise<void> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return;
+
+    const { error } = await supabase
+      .from('project_versions')
+      .upsert({
+        project_id: project.id,
+        version: project.version,
+        title: project.title,
+        goal: project.goal,
+        target_date: project.target_date,
+        tasks_data: tasks,
+        gantt_data: project.gantt_data,
+        created_by: user.id,
+        created_by_email: user.email,
+      }, { onConflict: 'project_id,version', ignoreDuplicates: true });
+
+    if (error) {
+      console.error('バージョン履歴の保存に失敗しました:', error.message);
+    }
+  }
+
+  // 自動保存後のスナップショット。最新のスナップショットが同じユーザーの直前のものなら、
+  // 新しく追加せずにその行を現在の状態で上書きする。クライアントの状態ではなくDBから読み直したタスクを残す
+  private static async recordAutoSaveVersion(project: any): Promise<void> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return;
+
+    const { data: latest, error } = await supabase
+      .from('project_versions')
+      .select('id, version, created_by, created_at')
+      .eq('project_id', project.id)
+      .order('version', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      console.error('バージョン履歴の確認に失敗しました:', error.message);
+      return;
+    }
+    const intervalMs = AUTO_SAVE_VERSION_INTERVAL_MINUTES * 60 * 1000;
+    const tasks = await this.loadTasks(project);
+    if (latest?.created_by !== user.id || Date.now() - Date.parse(latest.created_at) >= intervalMs) {
+      await this.recordVersion(project, tasks);
+      return;
+    }
+    if (latest.version >= project.version) return;
+
+    // 記録日時は変えない（次のスナップショットを追加するまでの間隔の起点）
+    const { error: updateError } = await supabase
+      .from('project_versions')
+      .update({
+        version: project.version,
+        title: project.title,
+        goal: project.goal,
+        target_date: project.target_date,
+        tasks_data: tasks,
+        gantt_data: project.gantt_data,
+      })
+      .eq('id', latest.id);
+
+    if (updateError) {
+      console.error('バージョン履歴の保存に失敗しました:', updateError.message);
+    }
+  }
+
+  // バージョン履歴を新しい順に取得（タスクは含まない）
+  static async getProjectVersions(projectId: string, beforeVersion?: number, limit = 50): Promise<ProjectVersionSummary[]> {
+    let query = supabase
+      .from('project_versions')
+      .select('id, project_id, version, title, goal, target_date, created_by, created_by_email, created_at')
+      .eq('project_id', projectId)
+      .order('version', { ascending: false })
+      .limit(limit);
+
+    if (beforeVersion !== undefined) query = query.lt('version', beforeVersion);
+
+    const { data, error } = await query;
+
+    if (error) {
+      throw new Error(`バージョン履歴の取得に失敗しました: ${error.message}`);
+    }
+
+    return data.map(version => ({
+      id: version.id,
+      projectId: version.project_id,
+      version: version.version,
+      title: version.title,
+      goal: version.goal,
+      targetDate: version.target_date || '',
+      createdBy: version.created_by ?? undefined,
+      createdByEmail: version.created_by_email ?? undefined,
+      createdAt: version.created_at,
+    }));
+  }
+
+  // 過去のバージョンをタスク・ガントチャートを含めて取得
+  static async getProjectVersion(projectId: string, version: number): Promise<ProjectVersion> {
+    const { data, error } = await supabase
+      .from('project_versions')
+      .select('*')
+      .eq('project_id', projectId)
+      .eq('version', version)
+      .single();
+
+    if (error) {
+      throw new Error(`バージョンの取得に失敗しました: ${error.message}`);
+    }
+
+    return {
+      id: data.id,
+      projectId: data.project_id,
+      version: data.version,
+      title: data.title,
+      goal: data.goal,
+      targetDate: data.target_date || '',
+      createdBy: data.created_by ?? undefined,
+      createdByEmail: data.created_by_email ?? undefined,
+      createdAt: data.created_at,
+      tasks: data.tasks_data || [],
+      ganttData: data.gantt_data ?? null,
+    };
+  }
+
+  // 自分のテンプレートを取得（新しい順）
+  static async getProjectTemplates(): Promise<ProjectTemplate[]> {
+    const { data, error } = await supabase
+      .from('project_templates')
+      .select('*')
+      .order('updated_at', { ascending: false });
+
+    if (error) {
+      throw new Error(`テンプレートの取得に失敗しました: ${error.message}`);
+    }
+
+    return data.map(template => this.toProjectTemplate(template));
+  }
+
+  // プロジェクトの内容をテンプレートとして保存
+  static async createProjectTemplate(template: {
+    name: string;
+    description: string;
+    goal: string;
+    tasks: ProjectTask[];
+    dueDateOffsets: Record<string, number>;
+    variables: TemplateVariable[];
+  }): Promise<ProjectTemplate> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      throw new Error('ログインが必要です');
+    }
+
+    const { data, error } = await supabase
+      .from('project_templates')
+      .insert({
+        name: template.name,
+        description: template.description,
+        goal: template.goal,
+        tasks_data: template.tasks,
+        due_date_offsets: template.dueDateOffsets,
+        variables: template.variables,
+        created_by: user.id,
+        created_by_email: user.email,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`テンプレートの保存に失敗しました: ${error.message}`);
+    }
+
+    return this.toProjectTemplate(data);
+  }
+
+  // テンプレートを削除（作成者のみ）
+  static async deleteProjectTemplate(templateId: string): Promise<void> {
+    const { error } = await supabase
+      .from('project_templates')
+      .delete()
+      .eq('id', templateId);
+
+    if (error) {
+      throw new Error(`テンプレートの削除に失敗しました: ${error.message}`);
+    }
+  }
+
+  // データベースの行をテンプレートに変換
+  private static toProjectTemplate(template: any): ProjectTemplate {
+    return {
+      id: template.id,
+      name: template.name,
+      description: template.description,
+      goal: template.goal,
+      tasks: template.tasks_data || [],
+      dueDateOffsets: template.due_date_offsets || {},
+      variables: template.variables || [],
+      createdBy: template.created_by,
+      createdByEmail: template.created_by_email ?? undefined,
+      createdAt: template.created_at,
+      updatedAt: template.updated_at,
+    };
+  }
+
+  // 自分のブループリントを種類ごとに取得（新しい順）
+  static async getTaskBlueprints(kind: TaskBlueprintKind): Promise<TaskBlueprint[]> {
+    const { data, error } = await supabase
+      .from('task_blueprints')
+      .select('*')
+      .eq('kind', kind)
+      .order('updated_at', { ascending: false });
+
+    if (error) {
+      throw new Error(`ブループリントの取得に失敗しました: ${error.message}`);
+    }
+
+    return data.map(blueprint => this.toTaskBlueprint(blueprint));
+  }
+
+  // タスク・サブステップ・チェックリストをブループリントとして保存
+  static async createTaskBlueprint(
+    content: BlueprintContent,
+    details: { name: string; description: string }
+  ): Promise<TaskBlueprint> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      throw new Error('ログインが必要です');
+    }
+
+    const { data, error } = await supabase
+      .from('task_blueprints')
+      .insert({
+        kind: content.kind,
+        name: details.name,
+        description: details.description,
+        content: content.task ?? content.subStep ?? content.actionItems ?? [],
+        due_date_offsets: content.dueDateOffsets,
+        created_by: user.id,
+        created_by_email: user.email,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`ブループリントの保存に失敗しました: ${error.message}`);
+    }
+
+    return this.toTaskBlueprint(data);
+  }
+
+  // ブループリントを削除（作成者のみ）
+  static async deleteTaskBlueprint(blueprintId: string): Promise<void> {
+    const { error } = await supabase
+      .from('task_blueprints')
+      .delete()
+      .eq('id', blueprintId);
+
+    if (error) {
+      throw new Error(`ブループリントの削除に失敗しました: ${error.message}`);
+    }
+  }
+
+  // データベースの行をブループリントに変換
+  private static toTaskBlueprint(blueprint: any): TaskBlueprint {
+    return {
+      id: blueprint.id,
+      kind: blueprint.kind,
+      name: blueprint.name,
+      description: blueprint.description,
+      task: blueprint.kind === 'task' ? blueprint.content : undefined,
+      subStep: blueprint.kind === 'substep' ? blueprint.content : undefined,
+      actionItems: blueprint.kind === 'checklist' ? blueprint.content || [] : undefined,
+      dueDateOffsets: blueprint.due_date_offsets || {},
+      createdBy: blueprint.created_by,
+      createdByEmail: blueprint.created_by_email ?? undefined,
+      createdAt: blueprint.created_at,
+      updatedAt: blueprint.updated_at,
+    };
+  }
+
+  // 自分のカレンダーフィードを取得
+  static async getCalendarFeeds(): Promise<CalendarFeed[]> {
+    const { data, error } = await supabase
+      .from('calendar_feeds')
+      .select('*')
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      throw new Error(`カレンダーフィードの取得に失敗しました: ${error.message}`);
+    }
+
+    return data.map(feed => this.toCalendarFeed(feed));
+  }
+
+  // 購読用のカレンダーフィードを作成
+  static async createCalendarFeed(feed: { name: string; responsible: string | null; projectId: string | null; appUrl: string }): Promise<CalendarFeed> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      throw new Error('ログインが必要です');
+    }
+
+    const { data, error } = await supabase
+      .from('calendar_feeds')
+      .insert({
+        user_id: user.id,
+        name: feed.name,
+        responsible: feed.responsible,
+        project_id: feed.projectId,
+        app_url: feed.appUrl,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`カレンダーフィードの作成に失敗しました: ${error.message}`);
+    }
+
+    return this.toCalendarFeed(data);
+  }
+
+  // カレンダーフィードを削除（購読URLは無効になる）
+  static async deleteCalendarFeed(feedId: string): Promise<void> {
+    const { error } = await supabase
+      .from('calendar_feeds')
+      .delete()
+      .eq('id', feedId);
+
+    if (error) {
+      throw new Error(`カレンダーフィードの削除に失敗しました: ${error.message}`);
+    }
+  }
+
+  // データベースの行をカレンダーフィードに変換（購読URLを組み立てる）
+  private static toCalendarFeed(feed: any): CalendarFeed {
+    const params = new URLSearchParams({ feed_token: feed.token, apikey: supabaseAnonKey });
+    return {
+      id: feed.id,
+      name: feed.name,
+      responsible: feed.responsible,
+      projectId: feed.project_id,
+      url: `${supabaseUrl}/rest/v1/rpc/calendar_feed?${params.toString()}`,
+      createdAt: feed.created_at,
+    };
+  }
+
+  // ベースライン一覧を取得（新しい順）
+  static async getBaselines(projectId: string): Promise<GanttBaseline[]> {
+    const { data, error } = await supabase
+      .from('project_baselines')
+      .select('*')
+      .eq('project_id', projectId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      throw new Error(`ベースラインの取得に失敗しました: ${error.message}`);
+    }
+
+    return data.map(baseline => ({
+      id: baseline.id,
+      projectId: baseline.project_id,
+      name: baseline.name,
+      items: baseline.gantt_data || [],
+      createdBy: baseline.created_by,
+      createdAt: baseline.created_at,
+    }));
+  }
+
+  // 現在のガントチャートをベースラインとして保存
+  static async createBaseline(projectId: string, name: string, items: GanttItem[]): Promise<GanttBaseline> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      throw new Error('ログインが必要です');
+    }
+
+    const { data, error } = await supabase
+      .from('project_baselines')
+      .insert({
+        project_id: projectId,
+        name,
+        gantt_data: items,
+        created_by: user.id,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`ベースラインの保存に失敗しました: ${error.message}`);
+    }
+
+    return {
+      id: data.id,
+      projectId: data.project_id,
+      name: data.name,
+      items: data.gantt_data || [],
+      createdBy: data.created_by,
+      createdAt: data.created_at,
+    };
+  }
+
+  // ベースラインを削除
+  static async deleteBaseline(baselineId: string): Promise<void> {
+    const { error } = await supabase
+      .from('project_baselines')
+      .delete()
+      .eq('id', baselineId);
+
+    if (error) {
+      throw new Error(`ベースラインの削除に失敗しました: ${error.message}`);
+    }
+  }
+
+  // プロジェクトのドキュメントを取得（更新の新しい順）
+  static async getProjectDocuments(projectId: string): Promise<ProjectDocument[]> {
+    const { data, error } = await supabase
+      .from('project_documents')
+      .select('*')
+      .eq('project_id', projectId)
+      .order('updated_at', { ascending: false });
+
+    if (error) {
+      throw new Error(`ドキュメントの取得に失敗しました: ${error.message}`);
+    }
+
+    return data.map(document => this.toProjectDocument(document));
+  }
+
+  // ドキュメントを保存（id がなければ新規作成）
+  static async saveProjectDocument(document: {
+    id?: string;
+    projectId: string;
+    title: string;
+    content: string;
+    attachments: Attachment[];
+  }): Promise<ProjectDocument> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      throw new Error('ログインが必要です');
+    }
+
+    const fields = {
+      title: document.title,
+      content: document.content,
+      attachments: document.attachments,
+      updated_by: user.id,
+      updated_at: new Date().toISOString(),
+    };
+    const { data, error } = document.id
+      ? await supabase
+        .from('project_documents')
+        .update(fields)
+        .eq('id', document.id)
+        .select()
+        .single()
+      : await supabase
+        .from('project_documents')
+        .insert({ ...fields, project_id: document.projectId, created_by: user.id })
+        .select()
+        .single();
+
+    if (error) {
+      throw new Error(`ドキュメントの保存に失敗しました: ${error.message}`);
+    }
+
+    return this.toProjectDocument(data);
+  }
+
+  // ドキュメントを削除
+  static async deleteProjectDocument(documentId: string): Promise<void> {
+    const { error } = await supabase
+      .from('project_documents')
+      .delete()
+      .eq('id', documentId);
+
+    if (error) {
+      throw new Error(`ドキュメントの削除に失敗しました: ${error.message}`);
+    }
+  }
+
+  // データベースの行をドキュメントに変換
+  private static toProjectDocument(document: any): ProjectDocument {
+    return {
+      id: document.id,
+      projectId: document.project_id,
+      title: document.title,
+      content: document.content || '',
+      attachments: document.attachments || [],
+      createdBy: document.created_by ?? undefined,
+      updatedBy: document.updated_by ?? undefined,
+      createdAt: document.created_at,
+      updatedAt: document.updated_at,
+    };
+  }
+
+  // プロジェクトのコメントを取得（投稿の古い順）
+  static async getProjectComments(projectId: string): Promise<ProjectComment[]> {
+    const { data, error } = await supabase
+      .from('project_comments')
+      .select('*')
+      .eq('project_id', projectId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      throw new Error(`コメントの取得に失敗しました: ${error.message}`);
+    }
+
+    return data.map(comment => this.toProjectComment(comment));
+  }
+
+  // コメントを投稿（parentId があればそのスレッドへの返信）
+  static async addComment(comment: {
+    projectId: string;
+    target: CommentTarget;
+    parentId?: string;
+    body: string;
+    mentions: string[];
+  }): Promise<ProjectComment> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      throw new Error('ログインが必要です');
+    }
+
+    const { data, error } = await supabase
+      .from('project_comments')
+      .insert({
+        project_id: comment.projectId,
+        target_type: comment.target.type,
+        target_id: comment.target.id,
+        task_id: comment.target.taskId,
+        parent_id: comment.parentId ?? null,
+        body: comment.body,
+        mentions: comment.mentions,
+        author_id: user.id,
+        author_name: user.user_metadata?.name || user.email || null,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`コメントの投稿に失敗しました: ${error.message}`);
+    }
+
+    return this.toProjectComment(data);
+  }
+
+  // コメントの本文を編集
+  static async updateComment(commentId: string, body: string, mentions: string[]): Promise<ProjectComment> {
+    const { data, error } = await supabase
+      .from('project_comments')
+      .update({ body, mentions, updated_at: new Date().toISOString() })
+      .eq('id', commentId)
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`コメントの編集に失敗しました: ${error.message}`);
+    }
+
+    return this.toProjectComment(data);
+  }
+
+  // スレッドを解決済み・未解決に切り替え
+  static async setCommentThreadResolved(commentId: string, resolved: boolean): Promise<ProjectComment> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      throw new Error('ログインが必要です');
+    }
+
+    const { data, error } = await supabase
+      .from('project_comments')
+      .update({
+        resolved_at: resolved ? new Date().toISOString() : null,
+        resolved_by: resolved ? user.id : null,
+      })
+      .eq('id', commentId)
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`スレッドの状態の変更に失敗しました: ${error.message}`);
+    }
+
+    return this.toProjectComment(data);
+  }
+
+  // コメントを削除（スレッドの最初のコメントなら返信も削除される）
+  static async deleteComment(commentId: string): Promise<void> {
+    const { error } = await supabase
+      .from('project_comments')
+      .delete()
+      .eq('id', commentId);
+
+    if (error) {
+      throw new Error(`コメントの削除に失敗しました: ${error.message}`);
+    }
+  }
+
+  // 自分の既読状況を取得（項目のキーごとの最終既読日時）
+  static async getCommentReads(projectId: string): Promise<Record<string, string>> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return {};
+
+    const { data, error } = await supabase
+      .from('project_comment_reads')
+      .select('target_type, target_id, last_read_at')
+      .eq('project_id', projectId)
+      .eq('user_id', user.id);
+
+    if (error) {
+      throw new Error(`既読状況の取得に失敗しました: ${error.message}`);
+    }
+
+    return Object.fromEntries(data.map(read => [
+      commentTargetKey({ type: read.target_type, id: read.target_id }),
+      read.last_read_at,
+    ]));
+  }
+
+  // 項目のコメントを既読にする（readAt は読んだ中で最も新しいコメントの投稿日時）
+  static async markCommentsRead(projectId: string, reads: CommentRead[]): Promise<void> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user || reads.length === 0) return;
+
+    const { error } = await supabase
+      .from('project_comment_reads')
+      .upsert(reads.map(read => ({
+        user_id: user.id,
+        project_id: projectId,
+        target_type: read.type,
+        target_id: read.id,
+        last_read_at: read.readAt,
+      })));
+
+    if (error) {
+      throw new Error(`既読の記録に失敗しました: ${error.message}`);
+    }
+  }
+
+  // データベースの行をコメントに変換
+  private static toProjectComment(comment: any): ProjectComment {
+    return {
+      id: comment.id,
+      projectId: comment.project_id,
+      targetType: comment.target_type,
+      targetId: comment.target_id,
+      taskId: comment.task_id ?? undefined,
+      parentId: comment.parent_id ?? undefined,
+      body: comment.body,
+      mentions: comment.mentions || [],
+      authorId: comment.author_id ?? undefined,
+      authorName: comment.author_name ?? undefined,
+      resolvedAt: comment.resolved_at ?? undefined,
+      resolvedBy: comment.resolved_by ?? undefined,
+      createdAt: comment.created_at,
+      updatedAt: comment.updated_at,
+    };
+  }
+
+  // 変更履歴を新しい順に取得
+  static async getProjectActivity(projectId: string, filter: ActivityFilter = {}): Promise<ProjectActivity[]> {
+    let query = supabase
+      .from('project_activity')
+      .select('*')
+      .eq('project_id', projectId)
+      .order('id', { ascending: false })
+      .limit(filter.limit ?? 50);
+
+    if (filter.taskId) query = query.eq('task_id', filter.taskId);
+    if (filter.entityTypes?.length) query = query.in('entity_type', filter.entityTypes);
+    if (filter.actorId) query = query.eq('actor_id', filter.actorId);
+    if (filter.beforeId) query = query.lt('id', filter.beforeId);
+
+    const { data, error } = await query;
+
+    if (error) {
+      throw new Error(`変更履歴の取得に失敗しました: ${error.message}`);
+    }
+
+    return data.map(entry => ({
+      id: String(entry.id),
+      projectId: entry.project_id,
+      actorId: entry.actor_id ?? undefined,
+      actorEmail: entry.actor_email ?? undefined,
+      entityType: entry.entity_type,
+      entityId: entry.entity_id,
+      taskId: entry.task_id ?? undefined,
+      subStepId: entry.sub_step_id ?? undefined,
+      entityName: entry.entity_name ?? undefined,
+      action: entry.action,
+      changes: entry.changes || {},
+      createdAt: entry.created_at,
+    }));
+  }
+
+  // リアルタイム更新の購読
+  static subscribeToProjectChanges(
+    projectId: string,
+    onProjectUpdate: (payload: any) => void,
+    onMemberUpdate: (payload: any) => void,
+    onTaskChange?: (taskId: string) => void
+  ) {
+    const projectChannel = supabase.channel(`project-${projectId}`);
+
+    // タスク関連テーブルの変更は、変更されたタスクのIDだけを通知する
+    // （削除イベントはフィルタできないため、主キーに含まれる project_id で絞り込む）
+    if (onTaskChange) {
+      TABLE_WRITE_ORDER.forEach(table => {
+        projectChannel.on(
+          'postgres_changes',
+          { event: '*', schema: 'public', table: TABLE_NAMES[table] },
+          (payload: any) => {
+            const row = payload.eventType === 'DELETE' ? payload.old : payload.new;
+            if (!row || row.project_id !== projectId) return;
+            onTaskChange(table === 'tasks' ? row.id : row.task_id);
+          }
+        );
+      });
+    }
+
+    projectChannel
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'projects',
+          filter: `id=eq.${projectId}`,
+        },
+        onProjectUpdate
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'project_members',
+          filter: `project_id=eq.${projectId}`,
+        },
+        onMemberUpdate
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(projectChannel);
+    };
+  }
+
+  // コメントのリアルタイム更新の購読
+  static subscribeToComments(
+    projectId: string,
+    onCommentChange: (comment: ProjectComment) => void,
+    onCommentDelete: (commentId: string) => void
+  ) {
+    const commentChannel = supabase.channel(`comments-${projectId}`);
+
+    // 削除イベントはフィルタできないため、届いたIDで手元のコメントを探す
+    commentChannel
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'project_comments',
+        },
+        (payload: any) => {
+          if (payload.eventType === 'DELETE') {
+            if (payload.old?.id) onCommentDelete(payload.old.id);
+          } else if (payload.new?.project_id === projectId) {
+            onCommentChange(this.toProjectComment(payload.new));
+          }
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(commentChannel);
     };
   }
 }
\ No newline at end of file
@@ -0,0 +1,275 @@
+import { ProjectTask, SubStep, ActionItem, Decision, ProjectTemplate, TemplateVariable } from '../types';
+
+/**
+ * Conversion between projects and reusable project templates.
+ *
+ * A template keeps the structure of a project (tasks, sub-steps, action items, decision prompts,
+ * links and layout) but none of its progress: statuses, completion, reports, decided outcomes and
+ * attachments are dropped. Due dates are stored separately as day offsets from the project's target
+ * date, so a project started from the template gets dates that fit its own target date.
+ * Any text may contain `{{variable}}` placeholders that are filled in when the template is used.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const VARIABLE_PATTERN = /\{\{\s*([^{}]+?)\s*\}\}/g;
+
+// Starter templates available to every user
+export const BUILT_IN_TEMPLATES: ProjectTemplate[] = [
+  {
+    id: 'process-design',
+    name: '工程設計 (APQP)',
+    description: '新製品の工程をAPQPに基づき計画から量産まで設計します。',
+    goal: 'APQP（Advanced Product Quality Planning）に基づく新製品の工程設計を完了し、量産開始準備を整える',
+    tasks: [
+      { id: 'apqp-1', title: '計画・プログラム定義（Phase 1）', description: '顧客要求の理解、設計目標の設定、初期品質計画の策定' },
+      { id: 'apqp-2', title: '製品設計・開発（Phase 2）', description: 'DFMEA実施、設計検証、製品仕様の確定' },
+      { id: 'apqp-3', title: '工程設計・開発（Phase 3）', description: 'PFMEA実施、工程フロー作成、制御計画策定' },
+      { id: 'apqp-4', title: '製品・工程検証（Phase 4）', description: '試作評価、工程能力確認、量産試作実施' },
+      { id: 'apqp-5', title: '立上げ・評価・是正処置（Phase 5）', description: '量産開始、初期品質監視、継続的改善' },
+    ],
+    dueDateOffsets: {},
+    variables: [],
+    isBuiltIn: true,
+  },
+  {
+    id: 'process-change',
+    name: '工程変更 (ISO/IATF)',
+    description: '既存工程の変更を影響分析、承認、検証を含めて管理します。',
+    goal: 'ISO/IATF 16949に準拠した工程変更管理を実施し、品質リスクを最小化して変更を完了する',
+    tasks: [
+      { id: 'change-1', title: '変更要求・影響分析', description: '変更内容の詳細分析、リスクアセスメント、関連部門への影響評価' },
+      { id: 'change-2', title: '変更計画・承認', description: '変更実施計画の策定、必要な承認取得、リソース確保' },
+      { id: 'change-3', title: '変更実施・検証', description: '工程変更の実施、検証試験、品質確認' },
+      { id: 'change-4', title: '効果確認・標準化', description: '変更効果の測定、標準書更新、関係者への展開' },
+    ],
+    dueDateOffsets: {},
+    variables: [],
+    isBuiltIn: true,
+  },
+  {
+    id: 'new-product-eval',
+    name: '新製品の設備評価',
+    description: '顧客要求に基づき、既存設備での実現可能性を評価・報告します。',
+    goal: '顧客からの新製品要求に対し、既存設備での製造可能性を評価し、実現可能性報告書を提出する',
+    tasks: [
+      { id: 'eval-1', title: '顧客要求分析', description: '製品仕様、品質要求、数量・納期要求の詳細分析' },
+      { id: 'eval-2', title: '設備能力評価', description: '既存設備の能力確認、必要な改造・追加設備の検討' },
+      { id: 'eval-3', title: '製造可能性検証', description: '試作・テスト実施、品質確認、コスト試算' },
+      { id: 'eval-4', title: '実現可能性報告', description: '評価結果まとめ、リスク・課題整理、顧客への提案書作成' },
+    ],
+    dueDateOffsets: {},
+    variables: [],
+    isBuiltIn: true,
+  },
+  {
+    id: 'improvement-project',
+    name: '生産性・コスト改善',
+    description: 'DMAICフレームワークに基づき、既存プロセスの問題を解決し、改善します。',
+    goal: 'DMAICアプローチを用いて生産性向上とコスト削減を実現し、目標効果を達成する',
+    tasks: [
+      { id: 'dmaic-d', title: 'Define（定義）', description: '問題の明確化、目標設定、プロジェクトスコープの定義' },
+      { id: 'dmaic-m', title: 'Measure（測定）', description: '現状把握、データ収集、ベースライン設定' },
+      { id: 'dmaic-a', title: 'Analyze（分析）', description: '根本原因分析、要因特定、改善機会の抽出' },
+      { id: 'dmaic-i', title: 'Improve（改善）', description: '改善案実施、効果検証、最適化' },
+      { id: 'dmaic-c', title: 'Control（管理）', description: '標準化、監視体制構築、継続的改善' },
+    ],
+    dueDateOffsets: {},
+    variables: [],
+    isBuiltIn: true,
+  },
+  {
+    id: 'equipment-modification',
+    name: '社内設備改造',
+    description: '社内設備・治具の改造・改善を計画・実行・評価します。',
+    goal: '社内設備・治具の改造により生産効率向上を図り、投資対効果を最大化する',
+    tasks: [
+      { id: 'equip-1', title: '現状分析・要求定義', description: '現設備の課題分析、改造要求の明確化、目標設定' },
+      { id: 'equip-2', title: '改造設計・計画', description: '改造設計、部品調達計画、作業スケジュール策定' },
+      { id: 'equip-3', title: '改造実施・テスト', description: '設備停止、改造作業実施、機能確認テスト' },
+      { id: 'equip-4', title: '効果検証・標準化', description: '改造効果測定、作業標準更新、横展開検討' },
+    ],
+    dueDateOffsets: {},
+    variables: [],
+    isBuiltIn: true,
+  },
+];
+
+export const parseDay = (date: string | undefined | null): number | null => {
+  if (!date) return null;
+  const ms = Date.parse(`${date}T00:00:00Z`);
+  return isNaN(ms) ? null : Math.floor(ms / DAY_MS);
+};
+
+export const formatDay = (day: number): string => new Date(day * DAY_MS).toISOString().split('T')[0];
+
+// Called with the id and due date of every item that is stripped
+export type DueDateRecorder = (id: string, dueDate: string | undefined) => void;
+
+export const stripActionItemProgress = (item: ActionItem, recordDueDate: DueDateRecorder): ActionItem => {
+  recordDueDate(item.id, item.dueDate);
+  return {
+    id: item.id,
+    text: item.text,
+    completed: false,
+    responsible: item.responsible,
+    estimatedDays: item.estimatedDays,
+  };
+};
+
+export const stripSubStepProgress = (subStep: SubStep, recordDueDate: DueDateRecorder): SubStep => {
+  recordDueDate(subStep.id, subStep.dueDate);
+  return {
+    id: subStep.id,
+    text: subStep.text,
+    notes: subStep.notes,
+    nextSubStepIds: subStep.nextSubStepIds,
+    position: subStep.position,
+    responsible: subStep.responsible,
+    estimatedDays: subStep.estimatedDays,
+    actionItems: subStep.actionItems?.map(item => stripActionItemProgress(item, recordDueDate)),
+  };
+};
+
+const stripDecisionOutcome = (decision: Decision): Decision => ({
+  id: decision.id,
+  question: decision.question,
+  reasoning: decision.reasoning,
+  status: 'undecided',
+});
+
+/**
+ * Copy of a task without progress, outcomes, reports, attachments or due dates.
+ * Due dates are handed to `recordDueDate` instead.
+ */
+export const stripTaskProgress = (task: ProjectTask, recordDueDate: DueDateRecorder): ProjectTask => {
+  const details = task.extendedDetails;
+  recordDueDate(task.id, details?.dueDate);
+  return {
+    id: task.id,
+    title: task.title,
+    description: task.description,
+    nextTaskIds: task.nextTaskIds,
+    position: task.position,
+    extendedDetails: details && {
+      subSteps: details.subSteps.map(subStep => stripSubStepProgress(subStep, recordDueDate)),
+      resources: details.resources,
+      responsible: details.responsible,
+      notes: details.notes,
+      numericalTarget: details.numericalTarget && {
+        description: details.numericalTarget.description,
+        targetValue: details.numericalTarget.targetValue,
+        unit: details.numericalTarget.unit,
+      },
+      estimatedDays: details.estimatedDays,
+      resourceMatrix: details.resourceMatrix,
+      decisions: details.decisions?.map(stripDecisionOutcome),
+      subStepCanvasSize: details.subStepCanvasSize,
+    },
+  };
+};
+
+/**
+ * Applies `transform` to every string inside a JSON-like value. The result has the shape of `value`.
+ */
+const mapStrings = (value: unknown, transform: (text: string) => string): unknown => {
+  if (typeof value === 'string') return transform(value);
+  if (Array.isArray(value)) return value.map(item => mapStrings(item, transform));
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, mapStrings(item, transform)]));
+  }
+  return value;
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Variable keys used as `{{key}}` in the goal or anywhere in the tasks, in order of first use.
+ */
+export const findTemplateVariables = (goal: string, tasks: ProjectTask[]): string[] => {
+  const keys: string[] = [];
+  mapStrings({ goal, tasks }, text => {
+    for (const match of text.matchAll(VARIABLE_PATTERN)) {
+      if (!keys.includes(match[1])) keys.push(match[1]);
+    }
+    return text;
+  });
+  return keys;
+};
+
+export interface TemplateSource {
+  goal: string;
+  targetDate: string;
+  tasks: ProjectTask[];
+}
+
+/**
+ * Builds the content of a template from a project.
+ * @param replacements Literal texts of the project to turn into variables, e.g. the product name
+ *   `{ '製品名': 'ABC-100' }` replaces every "ABC-100" with "{{製品名}}".
+ */
+export const createTemplateContent = (
+  source: TemplateSource,
+  replacements: Record<string, string>,
+): Pick<ProjectTemplate, 'goal' | 'tasks' | 'dueDateOffsets'> => {
+  const targetDay = parseDay(source.targetDate);
+  const dueDateOffsets: Record<string, number> = {};
+  const recordOffset = (id: string, dueDate: string | undefined) => {
+    const dueDay = parseDay(dueDate);
+    if (targetDay !== null && dueDay !== null) dueDateOffsets[id] = dueDay - targetDay;
+  };
+
+  const tasks = source.tasks.map(task => stripTaskProgress(task, recordOffset));
+
+  // Longer texts first, so that a value containing another value is replaced as a whole
+  const pairs = Object.entries(replacements)
+    .filter(([key, text]) => key.trim() && text.trim())
+    .sort(([, a], [, b]) => b.length - a.length);
+  const templatize = (text: string) =>
+    pairs.reduce((result, [key, literal]) => result.replace(new RegExp(escapeRegExp(literal), 'g'), `{{${key.trim()}}}`), text);
+
+  return {
+    goal: templatize(source.goal),
+    tasks: mapStrings(JSON.parse(JSON.stringify(tasks)), templatize) as ProjectTask[],
+    dueDateOffsets,
+  };
+};
+
+/**
+ * Creates the tasks and goal of a new project from a template.
+ * Placeholders without a value (and without a default) are left as they are.
+ */
+export const instantiateTemplate = (
+  template: ProjectTemplate,
+  values: Record<string, string>,
+  targetDate: string,
+): { goal: string; tasks: ProjectTask[] } => {
+  const defaults = Object.fromEntries(template.variables.map((variable: TemplateVariable) => [variable.key, variable.defaultValue || '']));
+  const fill = (text: string) => text.replace(VARIABLE_PATTERN, (placeholder, key: string) => {
+    const value = values[key]?.trim() || defaults[key]?.trim();
+    return value || placeholder;
+  });
+
+  const targetDay = parseDay(targetDate);
+  const dueDateFor = (id: string): string | undefined => {
+    const offset = template.dueDateOffsets[id];
+    return targetDay !== null && typeof offset === 'number' ? formatDay(targetDay + offset) : undefined;
+  };
+
+  const tasks = (mapStrings(template.tasks, fill) as ProjectTask[]).map(task => {
+    if (!task.extendedDetails) return task;
+    return {
+      ...task,
+      extendedDetails: {
+        ...task.extendedDetails,
+        dueDate: dueDateFor(task.id),
+        subSteps: task.extendedDetails.subSteps.map(subStep => ({
+          ...subStep,
+          dueDate: dueDateFor(subStep.id),
+          actionItems: subStep.actionItems?.map(item => ({ ...item, dueDate: dueDateFor(item.id) })),
+        })),
+      },
+    };
+  });
+
+  return { goal: fill(template.goal), tasks };
+};
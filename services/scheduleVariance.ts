@@ -0,0 +1,94 @@
+import { GanttItem } from '../types';
+
+/**
+ * Compares the current Gantt data against a saved baseline.
+ * Slip is measured in calendar days; positive means later than the baseline.
+ */
+
+export interface ItemVariance {
+  baselineStart: string;
+  baselineEnd: string;
+  startSlipDays: number;
+  finishSlipDays: number;
+}
+
+export interface ScheduleVarianceSummary {
+  baselineFinish: string | null;
+  currentFinish: string | null;
+  finishSlipDays: number | null; // Project-level slip of the last finish date
+  slippedCount: number; // Items finishing later than planned
+  aheadCount: number; // Items finishing earlier than planned
+  onPlanCount: number;
+  addedCount: number; // Items that did not exist in the baseline
+  removedCount: number; // Baseline items that no longer exist
+  worstSlip: { itemId: string; name: string; days: number } | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toDay = (date: string): number | null => {
+  const ms = Date.parse(`${date}T00:00:00Z`);
+  return isNaN(ms) ? null : Math.floor(ms / DAY_MS);
+};
+
+const latestEnd = (items: GanttItem[]): { date: string; day: number } | null =>
+  items.reduce<{ date: string; day: number } | null>((latest, item) => {
+    const day = toDay(item.end);
+    return day !== null && (!latest || day > latest.day) ? { date: item.end, day } : latest;
+  }, null);
+
+export const compareWithBaseline = (current: GanttItem[], baseline: GanttItem[]): { byItem: Map<string, ItemVariance>; summary: ScheduleVarianceSummary } => {
+  const baselineById = new Map(baseline.map(item => [item.id, item]));
+  const currentIds = new Set(current.map(item => item.id));
+  const byItem = new Map<string, ItemVariance>();
+  let slippedCount = 0;
+  let aheadCount = 0;
+  let onPlanCount = 0;
+  let addedCount = 0;
+  let worstSlip: ScheduleVarianceSummary['worstSlip'] = null;
+
+  for (const item of current) {
+    const planned = baselineById.get(item.id);
+    if (!planned) {
+      addedCount++;
+      continue;
+    }
+    const [start, end, plannedStart, plannedEnd] = [item.start, item.end, planned.start, planned.end].map(toDay);
+    if (start === null || end === null || plannedStart === null || plannedEnd === null) continue;
+
+    const variance = {
+      baselineStart: planned.start,
+      baselineEnd: planned.end,
+      startSlipDays: start - plannedStart,
+      finishSlipDays: end - plannedEnd,
+    };
+    byItem.set(item.id, variance);
+
+    if (variance.finishSlipDays > 0) slippedCount++;
+    else if (variance.finishSlipDays < 0) aheadCount++;
+    else onPlanCount++;
+    if (variance.finishSlipDays > 0 && (!worstSlip || variance.finishSlipDays > worstSlip.days)) {
+      worstSlip = { itemId: item.id, name: item.name, days: variance.finishSlipDays };
+    }
+  }
+
+  const baselineFinish = latestEnd(baseline);
+  const currentFinish = latestEnd(current);
+
+  return {
+    byItem,
+    summary: {
+      baselineFinish: baselineFinish?.date ?? null,
+      currentFinish: currentFinish?.date ?? null,
+      finishSlipDays: baselineFinish && currentFinish ? currentFinish.day - baselineFinish.day : null,
+      slippedCount,
+      aheadCount,
+      onPlanCount,
+      addedCount,
+      removedCount: baseline.filter(item => !currentIds.has(item.id)).length,
+      worstSlip,
+    },
+  };
+};
+
+export const formatSlip = (days: number): string => (days > 0 ? `+${days}日` : days < 0 ? `${days}日` : '±0日');
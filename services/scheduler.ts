@@ -0,0 +1,343 @@
+import { ProjectTask, SubStep, ActionItem, GanttItem, ScheduleResult, TaskStatus, SubStepStatus } from '../types';
+
+/**
+ * Deterministic critical-path scheduler.
+ *
+ * Builds Gantt data from the project structure instead of asking the AI to invent dates:
+ * - Tasks are ordered by `nextTaskIds`, sub-steps within a task by `nextSubStepIds`,
+ *   and action items run one after another in list order inside their sub-step.
+ * - Durations come from `estimatedDays`. Without an estimate, an item that has a `dueDate`
+ *   stretches until that date, and anything else takes one day (tasks without sub-steps take
+ *   DEFAULT_TASK_DAYS). A parent always lasts at least as long as its children.
+ * - Due dates are also deadlines: they cap the late finish, so an item that cannot meet its
+ *   due date ends up with negative slack.
+ * - `startDate` is a start-no-earlier-than constraint (items moved on the Gantt chart keep their place).
+ * Days are calendar days; start and end are both inclusive.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_TASK_DAYS = 5;
+
+interface ScheduleOptions {
+  startDate?: string; // YYYY-MM-DD, defaults to today
+  targetDate?: string | null;
+}
+
+interface Timing {
+  es: number; // earliest start (day index, inclusive)
+  ef: number; // earliest finish (day index, inclusive)
+  lf?: number; // latest finish, filled in by the backward pass
+}
+
+const parseDay = (date: string | undefined | null): number | null => {
+  if (!date) return null;
+  const ms = Date.parse(`${date}T00:00:00Z`);
+  return isNaN(ms) ? null : Math.floor(ms / DAY_MS);
+};
+
+const formatDay = (day: number): string => new Date(day * DAY_MS).toISOString().split('T')[0];
+
+const toDuration = (value: number | undefined): number | null =>
+  typeof value === 'number' && isFinite(value) && value > 0 ? Math.ceil(value) : null;
+
+/**
+ * Own duration of an item before its children are considered.
+ * @param fallback Days used when neither an estimate nor a due date is available.
+ */
+const ownDuration = (estimatedDays: number | undefined, dueDay: number | null, es: number, fallback: number): number =>
+  toDuration(estimatedDays) ?? (dueDay !== null ? Math.max(1, dueDay - es + 1) : fallback);
+
+/**
+ * Topological order of `ids` given predecessor lists. Nodes caught in a cycle are appended
+ * in their original order; edges from nodes that have not been placed yet are then ignored.
+ */
+const topologicalOrder = (ids: string[], preds: Map<string, string[]>): { order: string[]; cyclic: string[] } => {
+  const indegree = new Map(ids.map(id => [id, (preds.get(id) || []).length]));
+  const succs = invertEdges(ids, preds);
+  const queue = ids.filter(id => indegree.get(id) === 0);
+  const order: string[] = [];
+
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    order.push(id);
+    for (const next of succs.get(id) || []) {
+      const remaining = indegree.get(next)! - 1;
+      indegree.set(next, remaining);
+      if (remaining === 0) queue.push(next);
+    }
+  }
+
+  const placed = new Set(order);
+  const cyclic = ids.filter(id => !placed.has(id));
+  return { order: [...order, ...cyclic], cyclic };
+};
+
+const invertEdges = (ids: string[], preds: Map<string, string[]>): Map<string, string[]> => {
+  const succs = new Map<string, string[]>(ids.map(id => [id, []]));
+  for (const id of ids) {
+    for (const pred of preds.get(id) || []) succs.get(pred)?.push(id);
+  }
+  return succs;
+};
+
+/**
+ * Builds predecessor lists from "next" links, dropping links to unknown ids and self-links.
+ */
+const predecessorsFromNextLinks = <T extends { id: string }>(nodes: T[], getNext: (node: T) => string[] | undefined): Map<string, string[]> => {
+  const ids = new Set(nodes.map(n => n.id));
+  const preds = new Map<string, string[]>(nodes.map(n => [n.id, []]));
+  for (const node of nodes) {
+    for (const next of getNext(node) || []) {
+      if (next !== node.id && ids.has(next)) preds.get(next)!.push(node.id);
+    }
+  }
+  return preds;
+};
+
+/**
+ * Earliest-start pass over one level of the hierarchy.
+ * @param startConstraints Days before which a node may not start.
+ * @param finishFor Returns the earliest finish of a node that starts on `es` (may schedule its children).
+ */
+const forwardPass = (
+  order: string[],
+  preds: Map<string, string[]>,
+  minStart: number,
+  startConstraints: Map<string, number | null>,
+  finishFor: (id: string, es: number) => number,
+): Map<string, Timing> => {
+  const timings = new Map<string, Timing>();
+  for (const id of order) {
+    let es = Math.max(minStart, startConstraints.get(id) ?? minStart);
+    for (const pred of preds.get(id) || []) {
+      const predTiming = timings.get(pred);
+      if (predTiming) es = Math.max(es, predTiming.ef + 1);
+    }
+    timings.set(id, { es, ef: finishFor(id, es) });
+  }
+  return timings;
+};
+
+/**
+ * Latest-finish pass over one level, bounded by the parent's latest finish and each node's deadline.
+ */
+const backwardPass = (
+  order: string[],
+  succs: Map<string, string[]>,
+  timings: Map<string, Timing>,
+  bound: number,
+  deadlines: Map<string, number | null>,
+): void => {
+  for (const id of [...order].reverse()) {
+    const timing = timings.get(id)!;
+    let lf = bound;
+    const deadline = deadlines.get(id);
+    if (deadline !== null && deadline !== undefined) lf = Math.min(lf, deadline);
+    for (const succ of succs.get(id) || []) {
+      const succTiming = timings.get(succ);
+      if (succTiming?.lf !== undefined) lf = Math.min(lf, succTiming.lf - (succTiming.ef - succTiming.es) - 1);
+    }
+    timing.lf = lf;
+  }
+};
+
+// --- Progress (same rules the AI prompt used) ---
+
+const actionItemProgress = (item: ActionItem): number => (item.completed ? 100 : 0);
+
+const subStepProgress = (subStep: SubStep): number => {
+  const items = subStep.actionItems || [];
+  if (items.length > 0) return Math.round(items.filter(i => i.completed).length / items.length * 100);
+  if (subStep.status === SubStepStatus.COMPLETED) return 100;
+  if (subStep.status === SubStepStatus.IN_PROGRESS) return 50;
+  return 0;
+};
+
+const taskProgress = (task: ProjectTask): number => {
+  if (task.status === TaskStatus.COMPLETED) return 100;
+  if (!task.status || task.status === TaskStatus.NOT_STARTED) return 0;
+  const subSteps = task.extendedDetails?.subSteps || [];
+  if (subSteps.length === 0) return 50;
+  return Math.round(subSteps.reduce((sum, ss) => sum + subStepProgress(ss), 0) / subSteps.length);
+};
+
+/**
+ * Schedules the whole project and computes slack and the critical path.
+ */
+export const buildSchedule = (tasks: ProjectTask[], options: ScheduleOptions = {}): ScheduleResult => {
+  const projectStart = options.startDate || new Date().toISOString().split('T')[0];
+  const startDay = parseDay(projectStart) ?? Math.floor(Date.now() / DAY_MS);
+  const warnings: string[] = [];
+
+  const taskPreds = predecessorsFromNextLinks(tasks, t => t.nextTaskIds);
+  const taskIds = tasks.map(t => t.id);
+  const taskOrder = topologicalOrder(taskIds, taskPreds);
+  if (taskOrder.cyclic.length > 0) {
+    warnings.push(`タスクの依存関係に循環があります（${taskOrder.cyclic.map(id => tasks.find(t => t.id === id)?.title || id).join('、')}）。循環部分はリスト順に配置しました。`);
+  }
+
+  // Per-task sub-step and per-sub-step action item schedules, captured during the forward pass.
+  const subStepTimings = new Map<string, Map<string, Timing>>();
+  const subStepOrders = new Map<string, { order: string[]; preds: Map<string, string[]> }>();
+  const actionItemTimings = new Map<string, Map<string, Timing>>();
+
+  const scheduleActionItems = (subStep: SubStep, es: number): number => {
+    const timings = new Map<string, Timing>();
+    let cursor = es;
+    let ef = es - 1;
+    for (const item of subStep.actionItems || []) {
+      cursor = Math.max(cursor, parseDay(item.startDate) ?? cursor);
+      const itemEf = cursor + ownDuration(item.estimatedDays, parseDay(item.dueDate), cursor, 1) - 1;
+      timings.set(item.id, { es: cursor, ef: itemEf });
+      cursor = itemEf + 1;
+      ef = itemEf;
+    }
+    actionItemTimings.set(subStep.id, timings);
+    return ef;
+  };
+
+  const scheduleSubSteps = (task: ProjectTask, es: number): number => {
+    const subSteps = task.extendedDetails?.subSteps || [];
+    const preds = predecessorsFromNextLinks(subSteps, ss => ss.nextSubStepIds);
+    const { order, cyclic } = topologicalOrder(subSteps.map(ss => ss.id), preds);
+    if (cyclic.length > 0) {
+      warnings.push(`タスク「${task.title}」のサブステップの依存関係に循環があります。循環部分はリスト順に配置しました。`);
+    }
+    const byId = new Map(subSteps.map(ss => [ss.id, ss]));
+    const startConstraints = new Map(subSteps.map(ss => [ss.id, parseDay(ss.startDate)]));
+    const timings = forwardPass(order, preds, es, startConstraints, (id, subEs) => {
+      const subStep = byId.get(id)!;
+      const own = subEs + ownDuration(subStep.estimatedDays, parseDay(subStep.dueDate), subEs, 1) - 1;
+      return Math.max(own, scheduleActionItems(subStep, subEs));
+    });
+    subStepTimings.set(task.id, timings);
+    subStepOrders.set(task.id, { order, preds });
+    return Math.max(es - 1, ...Array.from(timings.values()).map(t => t.ef));
+  };
+
+  const tasksById = new Map(tasks.map(t => [t.id, t]));
+  const taskStartConstraints = new Map(tasks.map(t => [t.id, parseDay(t.extendedDetails?.startDate)]));
+  const taskTimings = forwardPass(taskOrder.order, taskPreds, startDay, taskStartConstraints, (id, es) => {
+    const task = tasksById.get(id)!;
+    const hasSubSteps = (task.extendedDetails?.subSteps || []).length > 0;
+    const own = es + ownDuration(task.extendedDetails?.estimatedDays, parseDay(task.extendedDetails?.dueDate), es, hasSubSteps ? 1 : DEFAULT_TASK_DAYS) - 1;
+    return Math.max(own, scheduleSubSteps(task, es));
+  });
+
+  const finishDay = Math.max(startDay, ...Array.from(taskTimings.values()).map(t => t.ef));
+
+  // Backward passes, top-down so each level is bounded by its parent's latest finish.
+  backwardPass(taskOrder.order, invertEdges(taskIds, taskPreds), taskTimings, finishDay,
+    new Map(tasks.map(t => [t.id, parseDay(t.extendedDetails?.dueDate)])));
+
+  for (const task of tasks) {
+    const subSteps = task.extendedDetails?.subSteps || [];
+    const level = subStepOrders.get(task.id)!;
+    const timings = subStepTimings.get(task.id)!;
+    backwardPass(level.order, invertEdges(level.order, level.preds), timings, taskTimings.get(task.id)!.lf!,
+      new Map(subSteps.map(ss => [ss.id, parseDay(ss.dueDate)])));
+
+    for (const subStep of subSteps) {
+      const items = subStep.actionItems || [];
+      const itemIds = items.map(i => i.id);
+      const chainPreds = new Map(itemIds.map((id, i) => [id, i > 0 ? [itemIds[i - 1]] : []]));
+      backwardPass(itemIds, invertEdges(itemIds, chainPreds), actionItemTimings.get(subStep.id)!, timings.get(subStep.id)!.lf!,
+        new Map(items.map(i => [i.id, parseDay(i.dueDate)])));
+    }
+  }
+
+  // Assemble Gantt items.
+  const items: GanttItem[] = [];
+  const toItem = (
+    id: string, name: string, timing: Timing, progress: number, dependencies: string[],
+    type: GanttItem['type'], parentId: string | null, dueDate?: string,
+  ): GanttItem => {
+    const slackDays = timing.lf! - timing.ef;
+    const dueDay = parseDay(dueDate);
+    if (dueDay !== null && timing.ef > dueDay && progress < 100) {
+      warnings.push(`「${name}」は期日 ${dueDate} を ${timing.ef - dueDay} 日超過する見込みです。`);
+    }
+    return {
+      id, name, start: formatDay(timing.es), end: formatDay(Math.max(timing.es, timing.ef)), progress, dependencies,
+      type, parentId, isCritical: slackDays <= 0, slackDays,
+    };
+  };
+
+  for (const task of tasks) {
+    items.push(toItem(task.id, task.title, taskTimings.get(task.id)!, taskProgress(task), taskPreds.get(task.id) || [], 'task', null, task.extendedDetails?.dueDate));
+    const level = subStepOrders.get(task.id)!;
+    for (const subStep of task.extendedDetails?.subSteps || []) {
+      items.push(toItem(subStep.id, subStep.text, subStepTimings.get(task.id)!.get(subStep.id)!, subStepProgress(subStep), level.preds.get(subStep.id) || [], 'substep', task.id, subStep.dueDate));
+      (subStep.actionItems || []).forEach((item, index, all) => {
+        items.push(toItem(item.id, item.text, actionItemTimings.get(subStep.id)!.get(item.id)!, actionItemProgress(item), index > 0 ? [all[index - 1].id] : [], 'actionitem', subStep.id, item.dueDate));
+      });
+    }
+  }
+
+  const criticalPathTaskIds = taskOrder.order
+    .filter(id => taskTimings.get(id)!.lf! - taskTimings.get(id)!.ef <= 0)
+    .sort((a, b) => taskTimings.get(a)!.es - taskTimings.get(b)!.es);
+
+  const targetDay = parseDay(options.targetDate);
+  return {
+    items,
+    criticalPathTaskIds,
+    projectStart: formatDay(startDay),
+    projectedFinish: formatDay(finishDay),
+    targetDate: targetDay !== null ? options.targetDate! : null,
+    varianceDays: targetDay !== null ? finishDay - targetDay : null,
+    warnings,
+  };
+};
+
+/**
+ * Projected finish and variance for Gantt data that did not come from buildSchedule
+ * (e.g. AI-generated or manually edited charts).
+ */
+export const summarizeGanttSchedule = (items: GanttItem[], targetDate?: string | null): { projectedFinish: string | null; varianceDays: number | null } => {
+  const ends = items.map(i => parseDay(i.end)).filter((d): d is number => d !== null);
+  if (ends.length === 0) return { projectedFinish: null, varianceDays: null };
+  const finishDay = Math.max(...ends);
+  const targetDay = parseDay(targetDate);
+  return { projectedFinish: formatDay(finishDay), varianceDays: targetDay !== null ? finishDay - targetDay : null };
+};
+
+/**
+ * Recomputes slack and critical flags for Gantt data whose dates are fixed (e.g. after manual
+ * edits on the chart). Each level is bounded by its parent's latest finish, like buildSchedule.
+ */
+export const annotateCriticalPath = (items: GanttItem[]): GanttItem[] => {
+  const ids = new Set(items.map(i => i.id));
+  const timings = new Map<string, Timing>();
+  for (const item of items) {
+    const es = parseDay(item.start);
+    const ef = parseDay(item.end);
+    if (es !== null && ef !== null) timings.set(item.id, { es, ef: Math.max(es, ef) });
+  }
+  if (timings.size === 0) return items;
+
+  const childrenOf = new Map<string | null, GanttItem[]>();
+  for (const item of items) {
+    if (!timings.has(item.id)) continue;
+    const parentKey = item.parentId && ids.has(item.parentId) ? item.parentId : null;
+    childrenOf.set(parentKey, [...(childrenOf.get(parentKey) || []), item]);
+  }
+
+  const annotateLevel = (parentKey: string | null, bound: number) => {
+    const level = childrenOf.get(parentKey) || [];
+    const levelIds = level.map(i => i.id);
+    const inLevel = new Set(levelIds);
+    const preds = new Map(level.map(i => [i.id, i.dependencies.filter(dep => inLevel.has(dep) && dep !== i.id)]));
+    const { order } = topologicalOrder(levelIds, preds);
+    backwardPass(order, invertEdges(levelIds, preds), timings, bound, new Map());
+    for (const item of level) annotateLevel(item.id, timings.get(item.id)!.lf!);
+  };
+  annotateLevel(null, Math.max(...Array.from(timings.values()).map(t => t.ef)));
+
+  return items.map(item => {
+    const timing = timings.get(item.id);
+    if (!timing || timing.lf === undefined) return item;
+    const slackDays = timing.lf - timing.ef;
+    return { ...item, slackDays, isCritical: slackDays <= 0 };
+  });
+};
@@ -0,0 +1,264 @@
+import { ProjectTask } from '../types';
+import { ProjectService, ProjectData, isVersionConflict } from './projectService';
+import { MergeableProject, MergeConflict, MergeSide } from './projectMerge';
+import { offlineRequest, offlineTransaction, QUEUE_STORE } from './offlineStore';
+
+/**
+ * Replays edits to Supabase in the order they were made.
+ *
+ * Edits are queued in IndexedDB before anything is sent, so they survive a lost connection or a
+ * closed tab. The queue is processed whenever something is added, when the browser comes back
+ * online and periodically while operations are waiting. A failure caused by the network pauses
+ * the queue; any other failure stops it on the failing operation until it is retried or discarded.
+ *
+ * Each operation remembers the project version it was made against. If someone else saved in the
+ * meantime, the operation is three-way merged into their version like a manual save; conflicts are
+ * handed to the handler set with setSyncConflictHandler, and merged results to the merge listeners.
+ */
+
+type ProjectFields = Pick<MergeableProject, 'goal' | 'targetDate' | 'ganttData'>;
+
+export type SyncOperation =
+  | { type: 'saveTasks'; projectId: string; baseVersion: number; previousTasks: ProjectTask[]; nextTasks: ProjectTask[] }
+  | { type: 'updateProject'; projectId: string; baseVersion: number; base: ProjectFields; updates: ProjectFields };
+
+// Asks the user how to resolve merge conflicts; null cancels
+export type SyncConflictHandler = (conflicts: MergeConflict[]) => Promise<Record<string, MergeSide> | null>;
+
+interface QueuedOperation {
+  id?: number;
+  operation: SyncOperation;
+  queuedAt: string;
+  attempts: number;
+  lastError?: string;
+}
+
+export type SyncState = 'synced' | 'syncing' | 'offline' | 'error';
+
+export interface SyncStatus {
+  state: SyncState;
+  pending: number;
+  lastError?: string;
+  lastSyncedAt?: string;
+}
+
+const RETRY_INTERVAL_MS = 30 * 1000;
+
+let status: SyncStatus = { state: typeof navigator !== 'undefined' && !navigator.onLine ? 'offline' : 'synced', pending: 0 };
+const listeners = new Set<(status: SyncStatus) => void>();
+let processing: Promise<void> | null = null;
+let sendingId: number | undefined; // Queue id of the operation being sent; it must not change until it is removed
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+let conflictHandler: SyncConflictHandler | null = null;
+const mergeListeners = new Set<(project: ProjectData) => void>();
+
+const setStatus = (changes: Partial<SyncStatus>) => {
+  status = { ...status, ...changes };
+  listeners.forEach(listener => listener(status));
+};
+
+export const getSyncStatus = (): SyncStatus => status;
+
+export const subscribeSyncStatus = (listener: (status: SyncStatus) => void): (() => void) => {
+  listeners.add(listener);
+  listener(status);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const setSyncConflictHandler = (handler: SyncConflictHandler | null): void => {
+  conflictHandler = handler;
+};
+
+/**
+ * Called with the saved project whenever a queued operation had to be merged with remote changes.
+ */
+export const subscribeSyncMerges = (listener: (project: ProjectData) => void): (() => void) => {
+  mergeListeners.add(listener);
+  return () => {
+    mergeListeners.delete(listener);
+  };
+};
+
+const readQueue = () => offlineRequest<QueuedOperation[]>(QUEUE_STORE, 'readonly', store => store.getAll());
+
+const isNetworkError = (error: unknown): boolean => {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return true;
+  const message = error instanceof Error ? error.message : String(error);
+  return /Failed to fetch|NetworkError|Load failed|network/i.test(message);
+};
+
+// Saves the operation if the project is still at its base version; returns the version after the save
+const saveOnBaseVersion = async (operation: SyncOperation): Promise<number> => {
+  switch (operation.type) {
+    case 'saveTasks':
+      return await ProjectService.saveTasks(operation.projectId, operation.previousTasks, operation.nextTasks, operation.baseVersion)
+        ?? operation.baseVersion;
+    case 'updateProject':
+      return (await ProjectService.updateProject(operation.projectId, { ...operation.updates, expectedVersion: operation.baseVersion })).version;
+  }
+};
+
+const mergeWithRemote = async (operation: SyncOperation): Promise<ProjectData> => {
+  const remote = await ProjectService.getProject(operation.projectId);
+  const remoteFields: ProjectFields = { goal: remote.goal, targetDate: remote.targetDate, ganttData: remote.ganttData ?? null };
+  const base: MergeableProject = operation.type === 'saveTasks'
+    ? { ...remoteFields, tasks: operation.previousTasks }
+    : { ...operation.base, tasks: remote.tasks };
+  const local: MergeableProject = operation.type === 'saveTasks'
+    ? { ...base, tasks: operation.nextTasks }
+    : { ...operation.updates, tasks: remote.tasks };
+
+  let resolutions: Record<string, MergeSide> = {};
+  let outcome = await ProjectService.saveProjectWithMerge(operation.projectId, base, local, operation.baseVersion);
+  while (!outcome.project) {
+    const chosen = conflictHandler ? await conflictHandler(outcome.merge?.conflicts || []) : null;
+    if (!chosen) {
+      throw new Error('他のユーザーの変更と競合しているため、同期を保留しています。');
+    }
+    resolutions = { ...resolutions, ...chosen };
+    outcome = await ProjectService.saveProjectWithMerge(operation.projectId, base, local, operation.baseVersion, resolutions);
+  }
+  return outcome.project;
+};
+
+// Operations queued after a saved one were made on top of it, so they continue from its version
+const rebaseQueued = async (projectId: string, fromVersion: number, toVersion: number): Promise<void> => {
+  if (fromVersion === toVersion) return;
+  for (const item of await readQueue()) {
+    if (item.operation.projectId === projectId && item.operation.baseVersion === fromVersion) {
+      await offlineRequest(QUEUE_STORE, 'readwrite', store => store.put({ ...item, operation: { ...item.operation, baseVersion: toVersion } }));
+    }
+  }
+};
+
+// Returns the version after the save, or null when the operation had to be merged with remote changes
+const runOperation = async (operation: SyncOperation): Promise<number | null> => {
+  try {
+    return await saveOnBaseVersion(operation);
+  } catch (error) {
+    if (!isVersionConflict(error)) throw error;
+  }
+
+  const project = await mergeWithRemote(operation);
+  mergeListeners.forEach(listener => listener(project));
+  return null;
+};
+
+const scheduleRetry = () => {
+  if (retryTimer) return;
+  retryTimer = setTimeout(() => {
+    retryTimer = null;
+    processSyncQueue();
+  }, RETRY_INTERVAL_MS);
+};
+
+const drainQueue = async (): Promise<void> => {
+  let queue = await readQueue();
+  setStatus({ pending: queue.length });
+
+  while (queue.length > 0) {
+    if (typeof navigator !== 'undefined' && !navigator.onLine) {
+      setStatus({ state: 'offline' });
+      return;
+    }
+    setStatus({ state: 'syncing' });
+
+    const item = queue[0];
+    sendingId = item.id;
+    let savedVersion: number | null;
+    try {
+      savedVersion = await runOperation(item.operation);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : '不明なエラー';
+      await offlineRequest(QUEUE_STORE, 'readwrite', store => store.put({ ...item, attempts: item.attempts + 1, lastError: message }));
+      sendingId = undefined;
+      setStatus(isNetworkError(error) ? { state: 'offline' } : { state: 'error', lastError: message });
+      scheduleRetry();
+      return;
+    }
+
+    await offlineRequest(QUEUE_STORE, 'readwrite', store => store.delete(item.id!));
+    sendingId = undefined;
+    if (savedVersion !== null) await rebaseQueued(item.operation.projectId, item.operation.baseVersion, savedVersion);
+    queue = await readQueue();
+    setStatus({ pending: queue.length, lastSyncedAt: new Date().toISOString() });
+  }
+
+  setStatus({ state: 'synced', pending: 0, lastError: undefined });
+};
+
+/**
+ * Sends queued operations until the queue is empty or an operation fails.
+ */
+export const processSyncQueue = (): Promise<void> => {
+  if (!processing) {
+    processing = drainQueue()
+      .catch(error => console.error('Sync queue failed:', error))
+      .finally(() => { processing = null; });
+  }
+  return processing;
+};
+
+export const enqueueSync = async (operation: SyncOperation): Promise<void> => {
+  // Two task saves in a row collapse into one, unless the first one is already being sent.
+  // The last operation is read and rewritten in one transaction, so sending cannot start in between.
+  const added = await offlineTransaction<boolean>(QUEUE_STORE, 'readwrite', (store, finish) => {
+    const request = store.openCursor(null, 'prev');
+    request.onsuccess = () => {
+      const cursor = request.result;
+      const last: QueuedOperation | undefined = cursor?.value;
+      if (cursor && last && last.id !== sendingId && last.attempts === 0 && last.operation.type === 'saveTasks' &&
+          operation.type === 'saveTasks' && last.operation.projectId === operation.projectId) {
+        const merged: SyncOperation = { ...last.operation, nextTasks: operation.nextTasks };
+        cursor.update({ ...last, operation: merged });
+        finish(false);
+      } else {
+        const item: QueuedOperation = { operation, queuedAt: new Date().toISOString(), attempts: 0 };
+        store.add(item);
+        finish(true);
+      }
+    };
+  });
+  if (added) setStatus({ pending: (await readQueue()).length });
+
+  processSyncQueue();
+};
+
+export const hasPendingSync = async (projectId?: string): Promise<boolean> => {
+  const queue = await readQueue();
+  return projectId ? queue.some(item => item.operation.projectId === projectId) : queue.length > 0;
+};
+
+/**
+ * Drops the operation the queue is stuck on (after a non-network error) and continues.
+ */
+export const discardFailedOperation = async (): Promise<void> => {
+  const [first] = await readQueue();
+  if (first?.lastError) {
+    await offlineRequest(QUEUE_STORE, 'readwrite', store => store.delete(first.id!));
+  }
+  setStatus({ lastError: undefined });
+  await processSyncQueue();
+};
+
+/**
+ * Starts processing the queue and watches the connection. Returns a cleanup function.
+ */
+export const startSyncQueue = (): (() => void) => {
+  const handleOnline = () => processSyncQueue();
+  const handleOffline = () => setStatus({ state: 'offline' });
+  window.addEventListener('online', handleOnline);
+  window.addEventListener('offline', handleOffline);
+  processSyncQueue();
+
+  return () => {
+    window.removeEventListener('online', handleOnline);
+    window.removeEventListener('offline', handleOffline);
+    if (retryTimer) {
+      clearTimeout(retryTimer);
+      retryTimer = null;
+    }
+  };
+};
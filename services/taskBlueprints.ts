@@ -0,0 +1,104 @@
+import { ProjectTask, SubStep, ActionItem, TaskBlueprint, TaskBlueprintKind } from '../types';
+import { parseDay, formatDay, stripTaskProgress, stripSubStepProgress, stripActionItemProgress } from './projectTemplates';
+
+/**
+ * Reusable building blocks inserted into existing projects: a whole task, a single sub-step with
+ * its checklist, or just a checklist of action items.
+ *
+ * Like project templates, blueprints keep structure but no progress. Due dates are stored as day
+ * offsets from an anchor date: the blueprint's own due date, or the latest due date inside it when
+ * it has none. On insertion every id is replaced and dates are placed around the chosen anchor date.
+ */
+
+export type BlueprintContent = Pick<TaskBlueprint, 'kind' | 'task' | 'subStep' | 'actionItems' | 'dueDateOffsets'>;
+
+export const createBlueprintContent = (
+  kind: TaskBlueprintKind,
+  source: { task?: ProjectTask; subStep?: SubStep; actionItems?: ActionItem[] },
+): BlueprintContent => {
+  const dueDates: Record<string, string> = {};
+  const recordDueDate = (id: string, dueDate: string | undefined) => {
+    if (parseDay(dueDate) !== null) dueDates[id] = dueDate!;
+  };
+
+  const content: BlueprintContent = { kind, dueDateOffsets: {} };
+  let ownDueDate: string | undefined;
+  if (kind === 'task' && source.task) {
+    content.task = stripTaskProgress(source.task, recordDueDate);
+    content.task.nextTaskIds = [];
+    content.task.position = undefined;
+    ownDueDate = source.task.extendedDetails?.dueDate;
+  } else if (kind === 'substep' && source.subStep) {
+    content.subStep = stripSubStepProgress(source.subStep, recordDueDate);
+    content.subStep.nextSubStepIds = [];
+    content.subStep.position = undefined;
+    ownDueDate = source.subStep.dueDate;
+  } else {
+    content.actionItems = (source.actionItems || []).map(item => stripActionItemProgress(item, recordDueDate));
+  }
+
+  const days = Object.values(dueDates).map(date => parseDay(date)!);
+  const anchorDay = parseDay(ownDueDate) ?? (days.length > 0 ? Math.max(...days) : null);
+  if (anchorDay === null) return content;
+
+  Object.entries(dueDates).forEach(([id, date]) => {
+    content.dueDateOffsets[id] = parseDay(date)! - anchorDay;
+  });
+  return content;
+};
+
+export const hasBlueprintDates = (blueprint: TaskBlueprint) => Object.keys(blueprint.dueDateOffsets).length > 0;
+
+/**
+ * Copy of a blueprint's contents with fresh ids and due dates placed around `anchorDate`.
+ * Links between sub-steps inside the blueprint are kept; without an anchor date, items get no due dates.
+ */
+export const instantiateBlueprint = (
+  blueprint: TaskBlueprint,
+  anchorDate: string,
+  generateUniqueId: (prefix: string) => string,
+): { task?: ProjectTask; subStep?: SubStep; actionItems?: ActionItem[] } => {
+  const anchorDay = parseDay(anchorDate);
+  const dueDateFor = (id: string): string | undefined => {
+    const offset = blueprint.dueDateOffsets[id];
+    return anchorDay !== null && typeof offset === 'number' ? formatDay(anchorDay + offset) : undefined;
+  };
+
+  const toActionItem = (item: ActionItem): ActionItem => ({
+    ...item,
+    id: generateUniqueId('action'),
+    dueDate: dueDateFor(item.id),
+  });
+
+  const toSubSteps = (subSteps: SubStep[]): SubStep[] => {
+    const idMap = new Map(subSteps.map(subStep => [subStep.id, generateUniqueId('sub')]));
+    return subSteps.map(subStep => ({
+      ...subStep,
+      id: idMap.get(subStep.id)!,
+      dueDate: dueDateFor(subStep.id),
+      nextSubStepIds: (subStep.nextSubStepIds || []).filter(id => idMap.has(id)).map(id => idMap.get(id)!),
+      actionItems: (subStep.actionItems || []).map(toActionItem),
+    }));
+  };
+
+  if (blueprint.kind === 'task' && blueprint.task) {
+    const { task } = blueprint;
+    return {
+      task: {
+        ...task,
+        id: generateUniqueId('task'),
+        nextTaskIds: [],
+        extendedDetails: task.extendedDetails && {
+          ...task.extendedDetails,
+          dueDate: dueDateFor(task.id),
+          subSteps: toSubSteps(task.extendedDetails.subSteps || []),
+          decisions: task.extendedDetails.decisions?.map(decision => ({ ...decision, id: generateUniqueId('decision') })),
+        },
+      },
+    };
+  }
+  if (blueprint.kind === 'substep' && blueprint.subStep) {
+    return { subStep: toSubSteps([blueprint.subStep])[0] };
+  }
+  return { actionItems: (blueprint.actionItems || []).map(toActionItem) };
+};
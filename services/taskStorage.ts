@@ -0,0 +1,432 @@
+import { ProjectTask, SubStep, ActionItem, Decision, Attachment, ExtendedTaskDetails, TaskStatus, SubStepStatus } from '../types';
+
+/**
+ * Maps the task tree to the normalized Supabase tables and back.
+ *
+ * Every row carries the ids of its ancestors, because ids are generated by the client (or the AI)
+ * and are only guaranteed to be unique among siblings. Fields the tables do not know about are kept
+ * in an `extra` JSON column so that nothing is lost when the task model grows.
+ */
+
+export interface TaskRow {
+  project_id: string;
+  id: string;
+  sort_order: number;
+  title: string;
+  description: string;
+  status: string | null;
+  next_task_ids: string[];
+  canvas_position: { x: number; y: number } | null;
+  has_details: boolean;
+  resources: string | null;
+  responsible: string | null;
+  notes: string | null;
+  due_date: string | null;
+  estimated_days: number | null;
+  numerical_target: any;
+  report_deck: any;
+  resource_matrix: any;
+  sub_step_canvas_size: any;
+  extra: Record<string, any> | null;
+}
+
+export interface SubStepRow {
+  project_id: string;
+  task_id: string;
+  id: string;
+  sort_order: number;
+  text: string;
+  notes: string | null;
+  next_sub_step_ids: string[];
+  canvas_position: { x: number; y: number } | null;
+  responsible: string | null;
+  due_date: string | null;
+  estimated_days: number | null;
+  status: string | null;
+  extra: Record<string, any> | null;
+}
+
+export interface ActionItemRow {
+  project_id: string;
+  task_id: string;
+  sub_step_id: string;
+  id: string;
+  sort_order: number;
+  text: string;
+  completed: boolean;
+  due_date: string | null;
+  completed_date: string | null;
+  responsible: string | null;
+  estimated_days: number | null;
+  has_report: boolean;
+  report_notes: string | null;
+  report_matrix: any;
+  extra: Record<string, any> | null;
+}
+
+export interface DecisionRow {
+  project_id: string;
+  task_id: string;
+  id: string;
+  sort_order: number;
+  question: string;
+  decision: string | null;
+  reasoning: string | null;
+  decided_on: string | null;
+  status: 'decided' | 'undecided';
+}
+
+export interface AttachmentRow {
+  project_id: string;
+  task_id: string;
+  sub_step_id: string; // '' for task-level attachments
+  action_item_id: string; // '' unless attached to an action item report
+  id: string;
+  sort_order: number;
+  name: string;
+  mime_type: string;
+  size_bytes: number | null;
+  sha256: string | null;
+  storage: string | null;
+  storage_path: string | null;
+  uploaded_by: string | null;
+  uploaded_at: string | null;
+  data_url: string | null; // Legacy inline base64
+}
+
+interface TaskRowTypes {
+  tasks: TaskRow;
+  subSteps: SubStepRow;
+  actionItems: ActionItemRow;
+  decisions: DecisionRow;
+  attachments: AttachmentRow;
+}
+
+export type TaskTable = keyof TaskRowTypes;
+
+export type TaskRowSet = { [T in TaskTable]: TaskRowTypes[T][] };
+
+// Parents before children. Deletes walk this list backwards.
+export const TABLE_WRITE_ORDER: TaskTable[] = ['tasks', 'subSteps', 'actionItems', 'decisions', 'attachments'];
+
+export const TABLE_NAMES: Record<TaskTable, string> = {
+  tasks: 'project_tasks',
+  subSteps: 'project_sub_steps',
+  actionItems: 'project_action_items',
+  decisions: 'project_decisions',
+  attachments: 'project_attachments',
+};
+
+// Primary key columns (besides project_id) of each table. save_project_tasks (SQL) lists the same keys.
+export const TABLE_KEYS: Record<TaskTable, string[]> = {
+  tasks: ['id'],
+  subSteps: ['task_id', 'id'],
+  actionItems: ['task_id', 'sub_step_id', 'id'],
+  decisions: ['task_id', 'id'],
+  attachments: ['task_id', 'sub_step_id', 'action_item_id', 'id'],
+};
+
+const TASK_FIELDS = ['id', 'title', 'description', 'nextTaskIds', 'position', 'extendedDetails', 'status'];
+const DETAIL_FIELDS = [
+  'subSteps', 'resources', 'responsible', 'notes', 'numericalTarget', 'dueDate', 'estimatedDays',
+  'reportDeck', 'resourceMatrix', 'attachments', 'decisions', 'subStepCanvasSize',
+];
+const SUB_STEP_FIELDS = [
+  'id', 'text', 'notes', 'nextSubStepIds', 'position', 'responsible', 'dueDate', 'estimatedDays',
+  'status', 'actionItems', 'attachments',
+];
+const ACTION_ITEM_FIELDS = ['id', 'text', 'completed', 'dueDate', 'completedDate', 'responsible', 'estimatedDays', 'report'];
+
+const pickExtra = (source: Record<string, any>, known: string[]): Record<string, any> | null => {
+  const extra: Record<string, any> = {};
+  for (const [key, value] of Object.entries(source)) {
+    if (!known.includes(key) && value !== undefined) extra[key] = value;
+  }
+  return Object.keys(extra).length > 0 ? extra : null;
+};
+
+const orNull = <T>(value: T | undefined): T | null => (value === undefined ? null : value);
+
+const attachmentRows = (
+  projectId: string,
+  attachments: Attachment[] | undefined,
+  owner: { taskId: string; subStepId?: string; actionItemId?: string },
+): AttachmentRow[] =>
+  (attachments || []).map((attachment, index) => ({
+    project_id: projectId,
+    task_id: owner.taskId,
+    sub_step_id: owner.subStepId || '',
+    action_item_id: owner.actionItemId || '',
+    id: attachment.id,
+    sort_order: index,
+    name: attachment.name,
+    mime_type: attachment.type,
+    size_bytes: orNull(attachment.size),
+    sha256: orNull(attachment.hash),
+    storage: orNull(attachment.storage),
+    storage_path: orNull(attachment.storagePath),
+    uploaded_by: orNull(attachment.uploadedBy),
+    uploaded_at: orNull(attachment.uploadedAt),
+    data_url: attachment.dataUrl || null,
+  }));
+
+/**
+ * Splits tasks into one row per task, sub-step, action item, decision and attachment.
+ * `sort_order` is the position among siblings, so reordering is an ordinary row update.
+ */
+export const flattenTasks = (projectId: string, tasks: ProjectTask[]): TaskRowSet => {
+  const rows: TaskRowSet = { tasks: [], subSteps: [], actionItems: [], decisions: [], attachments: [] };
+
+  tasks.forEach((task, taskIndex) => {
+    const details = task.extendedDetails;
+    const detailExtra = details ? pickExtra(details, DETAIL_FIELDS) : null;
+    const taskExtra = { ...pickExtra(task, TASK_FIELDS), ...(detailExtra ? { details: detailExtra } : {}) };
+    rows.tasks.push({
+      project_id: projectId,
+      id: task.id,
+      sort_order: taskIndex,
+      title: task.title,
+      description: task.description,
+      status: orNull(task.status),
+      next_task_ids: task.nextTaskIds || [],
+      canvas_position: orNull(task.position),
+      has_details: !!details,
+      resources: orNull(details?.resources),
+      responsible: orNull(details?.responsible),
+      notes: orNull(details?.notes),
+      due_date: orNull(details?.dueDate),
+      estimated_days: orNull(details?.estimatedDays),
+      numerical_target: orNull(details?.numericalTarget),
+      report_deck: orNull(details?.reportDeck),
+      resource_matrix: orNull(details?.resourceMatrix),
+      sub_step_canvas_size: orNull(details?.subStepCanvasSize),
+      extra: Object.keys(taskExtra).length > 0 ? taskExtra : null, // Unknown detail fields live under `details`
+    });
+
+    if (!details) return;
+    rows.attachments.push(...attachmentRows(projectId, details.attachments, { taskId: task.id }));
+
+    (details.decisions || []).forEach((decision, index) => {
+      rows.decisions.push({
+        project_id: projectId,
+        task_id: task.id,
+        id: decision.id,
+        sort_order: index,
+        question: decision.question,
+        decision: orNull(decision.decision),
+        reasoning: orNull(decision.reasoning),
+        decided_on: orNull(decision.date),
+        status: decision.status,
+      });
+    });
+
+    (details.subSteps || []).forEach((subStep, subStepIndex) => {
+      rows.subSteps.push({
+        project_id: projectId,
+        task_id: task.id,
+        id: subStep.id,
+        sort_order: subStepIndex,
+        text: subStep.text,
+        notes: orNull(subStep.notes),
+        next_sub_step_ids: subStep.nextSubStepIds || [],
+        canvas_position: orNull(subStep.position),
+        responsible: orNull(subStep.responsible),
+        due_date: orNull(subStep.dueDate),
+        estimated_days: orNull(subStep.estimatedDays),
+        status: orNull(subStep.status),
+        extra: pickExtra(subStep, SUB_STEP_FIELDS),
+      });
+      rows.attachments.push(...attachmentRows(projectId, subStep.attachments, { taskId: task.id, subStepId: subStep.id }));
+
+      (subStep.actionItems || []).forEach((item, itemIndex) => {
+        rows.actionItems.push({
+          project_id: projectId,
+          task_id: task.id,
+          sub_step_id: subStep.id,
+          id: item.id,
+          sort_order: itemIndex,
+          text: item.text,
+          completed: !!item.completed,
+          due_date: orNull(item.dueDate),
+          completed_date: orNull(item.completedDate),
+          responsible: orNull(item.responsible),
+          estimated_days: orNull(item.estimatedDays),
+          has_report: !!item.report,
+          report_notes: orNull(item.report?.notes),
+          report_matrix: orNull(item.report?.matrixData),
+          extra: pickExtra(item, ACTION_ITEM_FIELDS),
+        });
+        if (item.report) {
+          rows.attachments.push(...attachmentRows(projectId, item.report.attachments, {
+            taskId: task.id, subStepId: subStep.id, actionItemId: item.id,
+          }));
+        }
+      });
+    });
+  });
+
+  return rows;
+};
+
+// Copies only the fields that are set, so assembled objects look like the ones the app creates.
+const defined = <T extends object>(source: T): T =>
+  Object.fromEntries(Object.entries(source).filter(([, value]) => value !== null && value !== undefined)) as T;
+
+const bySortOrder = <T extends { sort_order: number }>(a: T, b: T) => a.sort_order - b.sort_order;
+
+const groupBy = <T extends { sort_order: number }>(rows: T[], keyOf: (row: T) => string): Map<string, T[]> => {
+  const groups = new Map<string, T[]>();
+  for (const row of [...rows].sort(bySortOrder)) {
+    const key = keyOf(row);
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key)!.push(row);
+  }
+  return groups;
+};
+
+const toAttachment = (row: AttachmentRow): Attachment => defined({
+  id: row.id,
+  name: row.name,
+  type: row.mime_type,
+  size: row.size_bytes,
+  hash: row.sha256,
+  storage: row.storage as Attachment['storage'] | null,
+  storagePath: row.storage_path,
+  uploadedBy: row.uploaded_by,
+  uploadedAt: row.uploaded_at,
+  dataUrl: row.data_url || null,
+}) as Attachment;
+
+/**
+ * Rebuilds the task tree from the normalized rows. The inverse of `flattenTasks`.
+ */
+export const assembleTasks = (rows: TaskRowSet): ProjectTask[] => {
+  const subStepsByTask = groupBy(rows.subSteps, row => row.task_id);
+  const actionItemsBySubStep = groupBy(rows.actionItems, row => `${row.task_id}/${row.sub_step_id}`);
+  const decisionsByTask = groupBy(rows.decisions, row => row.task_id);
+  const attachmentsByOwner = groupBy(rows.attachments, row => `${row.task_id}/${row.sub_step_id}/${row.action_item_id}`);
+  const attachmentsOf = (taskId: string, subStepId = '', actionItemId = '') =>
+    (attachmentsByOwner.get(`${taskId}/${subStepId}/${actionItemId}`) || []).map(toAttachment);
+
+  return [...rows.tasks].sort(bySortOrder).map(row => {
+    const { details: extraDetails, ...extraTask } = row.extra || {};
+    const task: ProjectTask = {
+      ...extraTask,
+      ...defined({
+        id: row.id,
+        title: row.title,
+        description: row.description,
+        status: row.status as TaskStatus | null,
+        nextTaskIds: row.next_task_ids,
+        position: row.canvas_position,
+      }),
+    } as ProjectTask;
+    if (!row.has_details) return task;
+
+    const subSteps: SubStep[] = (subStepsByTask.get(row.id) || []).map(subStepRow => {
+      const actionItems: ActionItem[] = (actionItemsBySubStep.get(`${row.id}/${subStepRow.id}`) || []).map(itemRow => ({
+        ...(itemRow.extra || {}),
+        ...defined({
+          id: itemRow.id,
+          text: itemRow.text,
+          completed: itemRow.completed,
+          dueDate: itemRow.due_date,
+          completedDate: itemRow.completed_date,
+          responsible: itemRow.responsible,
+          estimatedDays: itemRow.estimated_days,
+        }),
+        ...(itemRow.has_report ? {
+          report: {
+            notes: itemRow.report_notes || '',
+            attachments: attachmentsOf(row.id, subStepRow.id, itemRow.id),
+            matrixData: itemRow.report_matrix ?? null,
+          },
+        } : {}),
+      }) as ActionItem);
+      const attachments = attachmentsOf(row.id, subStepRow.id);
+
+      return {
+        ...(subStepRow.extra || {}),
+        ...defined({
+          id: subStepRow.id,
+          text: subStepRow.text,
+          notes: subStepRow.notes,
+          nextSubStepIds: subStepRow.next_sub_step_ids,
+          position: subStepRow.canvas_position,
+          responsible: subStepRow.responsible,
+          dueDate: subStepRow.due_date,
+          estimatedDays: subStepRow.estimated_days,
+          status: subStepRow.status as SubStepStatus | null,
+        }),
+        actionItems,
+        ...(attachments.length > 0 ? { attachments } : {}),
+      } as SubStep;
+    });
+
+    const decisions: Decision[] = (decisionsByTask.get(row.id) || []).map(decisionRow => defined({
+      id: decisionRow.id,
+      question: decisionRow.question,
+      decision: decisionRow.decision,
+      reasoning: decisionRow.reasoning,
+      date: decisionRow.decided_on,
+      status: decisionRow.status,
+    }) as Decision);
+    const attachments = attachmentsOf(row.id);
+
+    const extendedDetails: ExtendedTaskDetails = {
+      ...(extraDetails || {}),
+      subSteps,
+      resources: row.resources || '',
+      responsible: row.responsible || '',
+      notes: row.notes || '',
+      ...defined({
+        numericalTarget: row.numerical_target,
+        dueDate: row.due_date,
+        estimatedDays: row.estimated_days,
+        reportDeck: row.report_deck,
+        resourceMatrix: row.resource_matrix,
+        subStepCanvasSize: row.sub_step_canvas_size,
+      }),
+      ...(attachments.length > 0 ? { attachments } : {}),
+      ...(decisions.length > 0 ? { decisions } : {}),
+    };
+    return { ...task, extendedDetails };
+  });
+};
+
+export const rowKey = (table: TaskTable, row: object): string =>
+  TABLE_KEYS[table].map(column => (row as Record<string, unknown>)[column]).join('/');
+
+export interface TaskRowChanges {
+  upserts: TaskRowSet;
+  deletes: TaskRowSet;
+}
+
+/**
+ * Compares two flattened trees and returns only the rows that have to be written or removed.
+ */
+export const diffTaskRows = (previous: TaskRowSet, next: TaskRowSet): TaskRowChanges => {
+  const changes: TaskRowChanges = {
+    upserts: { tasks: [], subSteps: [], actionItems: [], decisions: [], attachments: [] },
+    deletes: { tasks: [], subSteps: [], actionItems: [], decisions: [], attachments: [] },
+  };
+
+  const diffTable = <T extends TaskTable>(table: T) => {
+    const before = new Map<string, string>(previous[table].map(row => [rowKey(table, row), JSON.stringify(row)]));
+    const after = new Set<string>();
+    for (const row of next[table]) {
+      const key = rowKey(table, row);
+      after.add(key);
+      if (before.get(key) !== JSON.stringify(row)) changes.upserts[table].push(row);
+    }
+    for (const row of previous[table]) {
+      if (!after.has(rowKey(table, row))) changes.deletes[table].push(row);
+    }
+  };
+  TABLE_WRITE_ORDER.forEach(diffTable);
+
+  return changes;
+};
+
+export const countRowChanges = (changes: TaskRowChanges): number =>
+  TABLE_WRITE_ORDER.reduce((sum, table) => sum + changes.upserts[table].length + changes.deletes[table].length, 0);
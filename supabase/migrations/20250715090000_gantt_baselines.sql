@@ -0,0 +1,70 @@
+/*
+  # ガントチャートのベースライン
+
+  1. 新しいテーブル
+    - `project_baselines`
+      - `id` (uuid, primary key)
+      - `project_id` (uuid, foreign key to projects)
+      - `name` (text) - ベースライン名（例: 「承認済み計画 v1」）
+      - `gantt_data` (jsonb) - 保存時点の GanttItem[] スナップショット
+      - `created_by` (uuid, foreign key to auth.users)
+      - `created_at` (timestamp)
+
+  2. セキュリティ
+    - メンバーは閲覧可能
+    - オーナーと編集者は作成・削除可能
+*/
+
+CREATE TABLE IF NOT EXISTS project_baselines (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id uuid REFERENCES projects(id) ON DELETE CASCADE NOT NULL,
+  name text NOT NULL,
+  gantt_data jsonb NOT NULL DEFAULT '[]'::jsonb,
+  created_by uuid REFERENCES auth.users(id),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS project_baselines_project_id_idx ON project_baselines(project_id, created_at DESC);
+
+ALTER TABLE project_baselines ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Project members can view baselines"
+  ON project_baselines
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM project_members 
+      WHERE project_members.project_id = project_baselines.project_id 
+      AND project_members.user_id = auth.uid()
+      AND project_members.status = 'accepted'
+    )
+  );
+
+CREATE POLICY "Project owners and editors can create baselines"
+  ON project_baselines
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM project_members 
+      WHERE project_members.project_id = project_baselines.project_id 
+      AND project_members.user_id = auth.uid()
+      AND project_members.role IN ('owner', 'editor')
+      AND project_members.status = 'accepted'
+    )
+  );
+
+CREATE POLICY "Project owners and editors can delete baselines"
+  ON project_baselines
+  FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM project_members 
+      WHERE project_members.project_id = project_baselines.project_id 
+      AND project_members.user_id = auth.uid()
+      AND project_members.role IN ('owner', 'editor')
+      AND project_members.status = 'accepted'
+    )
+  );
@@ -0,0 +1,727 @@
+/*
+  # タスクデータの正規化
+
+  `projects.tasks_data` (jsonb) に保存していたタスクツリーを、行単位で更新できる
+  テーブルに分割します。保存時に変更された行だけを書き込むため、添付ファイルを含む
+  巨大なJSONを毎回書き換えることがなくなり、別々のタスクを同時に編集しても衝突しません。
+
+  IDはクライアント（またはAI）が生成するため兄弟要素の中でしか一意にならないので、
+  各テーブルの主キーには親要素のIDを含めます。
+
+  1. 新しいテーブル
+    - `project_tasks` - タスク本体と拡張詳細（担当者・期限・報告書スライドなど）
+    - `project_sub_steps` - サブステップ
+    - `project_action_items` - アクションアイテムと実施報告（メモ・表データ）
+    - `project_decisions` - 決定事項
+    - `project_attachments` - タスク・サブステップ・実施報告の添付ファイル
+    - すべてのテーブルに `sort_order` (兄弟内の並び順) と、未知の項目を保持する `extra` (jsonb) があります
+
+  2. プロジェクトテーブルの更新
+    - `tasks_migrated_at` (timestamp) - 正規化テーブルへ移行済みかどうか
+
+  3. 既存プロジェクトの移行
+    - `migrate_project_tasks_data(project_id)` が `tasks_data` を各テーブルに展開し、
+      `tasks_data` を空にして `tasks_migrated_at` を記録します
+    - このマイグレーションで既存の全プロジェクトを移行します。移行前のクライアントが
+      `tasks_data` に保存したプロジェクトは、読み込み時にクライアントが同じ関数を呼び出します
+
+  4. 保存用の関数
+    - `save_project_tasks(project_id, expected_version, upserts, deletes, replace_all, project_fields)` が
+      タスク行の追加・更新・削除とプロジェクトの更新（バージョンを進める）を1つのトランザクションで実行します
+    - `expected_version` が現在のバージョンと異なる場合は何も保存せずにエラー（SQLSTATE `PT409`）を返します
+    - 呼び出したユーザーの権限（RLS）の範囲で実行します
+
+  5. セキュリティ
+    - メンバーは閲覧可能
+    - オーナーと編集者は作成・更新・削除可能
+*/
+
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS tasks_migrated_at timestamptz;
+
+-- タスクテーブル
+CREATE TABLE IF NOT EXISTS project_tasks (
+  project_id uuid REFERENCES projects(id) ON DELETE CASCADE NOT NULL,
+  id text NOT NULL,
+  sort_order integer NOT NULL DEFAULT 0,
+  title text NOT NULL DEFAULT '',
+  description text NOT NULL DEFAULT '',
+  status text,
+  next_task_ids text[] NOT NULL DEFAULT '{}',
+  canvas_position jsonb,
+  has_details boolean NOT NULL DEFAULT false,
+  resources text,
+  responsible text,
+  notes text,
+  due_date text,
+  estimated_days numeric,
+  numerical_target jsonb,
+  report_deck jsonb,
+  resource_matrix jsonb,
+  sub_step_canvas_size jsonb,
+  extra jsonb,
+  updated_at timestamptz DEFAULT now(),
+  PRIMARY KEY (project_id, id)
+);
+
+-- サブステップテーブル
+CREATE TABLE IF NOT EXISTS project_sub_steps (
+  project_id uuid NOT NULL,
+  task_id text NOT NULL,
+  id text NOT NULL,
+  sort_order integer NOT NULL DEFAULT 0,
+  text text NOT NULL DEFAULT '',
+  notes text,
+  next_sub_step_ids text[] NOT NULL DEFAULT '{}',
+  canvas_position jsonb,
+  responsible text,
+  due_date text,
+  estimated_days numeric,
+  status text,
+  extra jsonb,
+  updated_at timestamptz DEFAULT now(),
+  PRIMARY KEY (project_id, task_id, id),
+  FOREIGN KEY (project_id, task_id) REFERENCES project_tasks(project_id, id) ON DELETE CASCADE
+);
+
+-- アクションアイテムテーブル
+CREATE TABLE IF NOT EXISTS project_action_items (
+  project_id uuid NOT NULL,
+  task_id text NOT NULL,
+  sub_step_id text NOT NULL,
+  id text NOT NULL,
+  sort_order integer NOT NULL DEFAULT 0,
+  text text NOT NULL DEFAULT '',
+  completed boolean NOT NULL DEFAULT false,
+  due_date text,
+  completed_date text,
+  responsible text,
+  estimated_days numeric,
+  has_report boolean NOT NULL DEFAULT false,
+  report_notes text,
+  report_matrix jsonb,
+  extra jsonb,
+  updated_at timestamptz DEFAULT now(),
+  PRIMARY KEY (project_id, task_id, sub_step_id, id),
+  FOREIGN KEY (project_id, task_id, sub_step_id) REFERENCES project_sub_steps(project_id, task_id, id) ON DELETE CASCADE
+);
+
+-- 決定事項テーブル
+CREATE TABLE IF NOT EXISTS project_decisions (
+  project_id uuid NOT NULL,
+  task_id text NOT NULL,
+  id text NOT NULL,
+  sort_order integer NOT NULL DEFAULT 0,
+  question text NOT NULL DEFAULT '',
+  decision text,
+  reasoning text,
+  decided_on text,
+  status text NOT NULL DEFAULT 'undecided' CHECK (status IN ('decided', 'undecided')),
+  updated_at timestamptz DEFAULT now(),
+  PRIMARY KEY (project_id, task_id, id),
+  FOREIGN KEY (project_id, task_id) REFERENCES project_tasks(project_id, id) ON DELETE CASCADE
+);
+
+-- 添付ファイルテーブル（sub_step_id / action_item_id が空文字の場合は上位要素の添付）
+CREATE TABLE IF NOT EXISTS project_attachments (
+  project_id uuid NOT NULL,
+  task_id text NOT NULL,
+  sub_step_id text NOT NULL DEFAULT '',
+  action_item_id text NOT NULL DEFAULT '',
+  id text NOT NULL,
+  sort_order integer NOT NULL DEFAULT 0,
+  name text NOT NULL DEFAULT '',
+  mime_type text NOT NULL DEFAULT '',
+  data_url text NOT NULL DEFAULT '',
+  updated_at timestamptz DEFAULT now(),
+  PRIMARY KEY (project_id, task_id, sub_step_id, action_item_id, id),
+  FOREIGN KEY (project_id, task_id) REFERENCES project_tasks(project_id, id) ON DELETE CASCADE
+);
+
+-- RLSを有効化
+ALTER TABLE project_tasks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE project_sub_steps ENABLE ROW LEVEL SECURITY;
+ALTER TABLE project_action_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE project_decisions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE project_attachments ENABLE ROW LEVEL SECURITY;
+
+-- タスクのRLSポリシー
+CREATE POLICY "Project members can view tasks"
+  ON project_tasks
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM project_members
+      WHERE project_members.project_id = project_tasks.project_id
+      AND project_members.user_id = auth.uid()
+      AND project_members.status = 'accepted'
+    )
+  );
+
+CREATE POLICY "Project owners and editors can manage tasks"
+  ON project_tasks
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM project_members
+      WHERE project_members.project_id = project_tasks.project_id
+      AND project_members.user_id = auth.uid()
+      AND project_members.role IN ('owner', 'editor')
+      AND project_members.status = 'accepted'
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM project_members
+      WHERE project_members.project_id = project_tasks.project_id
+      AND project_members.user_id = auth.uid()
+      AND project_members.role IN ('owner', 'editor')
+      AND project_members.status = 'accepted'
+    )
+  );
+
+-- サブステップのRLSポリシー
+CREATE POLICY "Project members can view sub-steps"
+  ON project_sub_steps
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM project_members
+      WHERE project_members.project_id = project_sub_steps.project_id
+      AND project_members.user_id = auth.uid()
+      AND project_members.status = 'accepted'
+    )
+  );
+
+CREATE POLICY "Project owners and editors can manage sub-steps"
+  ON project_sub_steps
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM project_members
+      WHERE project_members.project_id = project_sub_steps.project_id
+      AND project_members.user_id = auth.uid()
+      AND project_members.role IN ('owner', 'editor')
+      AND project_members.status = 'accepted'
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM project_members
+      WHERE project_members.project_id = project_sub_steps.project_id
+      AND project_members.user_id = auth.uid()
+      AND project_members.role IN ('owner', 'editor')
+      AND project_members.status = 'accepted'
+    )
+  );
+
+-- アクションアイテムのRLSポリシー
+CREATE POLICY "Project members can view action items"
+  ON project_action_items
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM project_members
+      WHERE project_members.project_id = project_action_items.project_id
+      AND project_members.user_id = auth.uid()
+      AND project_members.status = 'accepted'
+    )
+  );
+
+CREATE POLICY "Project owners and editors can manage action items"
+  ON project_action_items
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM project_members
+      WHERE project_members.project_id = project_action_items.project_id
+      AND project_members.user_id = auth.uid()
+      AND project_members.role IN ('owner', 'editor')
+      AND project_members.status = 'accepted'
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM project_members
+      WHERE project_members.project_id = project_action_items.project_id
+      AND project_members.user_id = auth.uid()
+      AND project_members.role IN ('owner', 'editor')
+      AND project_members.status = 'accepted'
+    )
+  );
+
+-- 決定事項のRLSポリシー
+CREATE POLICY "Project members can view decisions"
+  ON project_decisions
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM project_members
+      WHERE project_members.project_id = project_decisions.project_id
+      AND project_members.user_id = auth.uid()
+      AND project_members.status = 'accepted'
+    )
+  );
+
+CREATE POLICY "Project owners and editors can manage decisions"
+  ON project_decisions
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM project_members
+      WHERE project_members.project_id = project_decisions.project_id
+      AND project_members.user_id = auth.uid()
+      AND project_members.role IN ('owner', 'editor')
+      AND project_members.status = 'accepted'
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM project_members
+      WHERE project_members.project_id = project_decisions.project_id
+      AND project_members.user_id = auth.uid()
+      AND project_members.role IN ('owner', 'editor')
+      AND project_members.status = 'accepted'
+    )
+  );
+
+-- 添付ファイルのRLSポリシー
+CREATE POLICY "Project members can view attachments"
+  ON project_attachments
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM project_members
+      WHERE project_members.project_id = project_attachments.project_id
+      AND project_members.user_id = auth.uid()
+      AND project_members.status = 'accepted'
+    )
+  );
+
+CREATE POLICY "Project owners and editors can manage attachments"
+  ON project_attachments
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM project_members
+      WHERE project_members.project_id = project_attachments.project_id
+      AND project_members.user_id = auth.uid()
+      AND project_members.role IN ('owner', 'editor')
+      AND project_members.status = 'accepted'
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM project_members
+      WHERE project_members.project_id = project_attachments.project_id
+      AND project_members.user_id = auth.uid()
+      AND project_members.role IN ('owner', 'editor')
+      AND project_members.status = 'accepted'
+    )
+  );
+
+-- 行の更新日時を記録する関数
+CREATE OR REPLACE FUNCTION touch_task_row()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER touch_project_tasks BEFORE UPDATE ON project_tasks FOR EACH ROW EXECUTE FUNCTION touch_task_row();
+CREATE TRIGGER touch_project_sub_steps BEFORE UPDATE ON project_sub_steps FOR EACH ROW EXECUTE FUNCTION touch_task_row();
+CREATE TRIGGER touch_project_action_items BEFORE UPDATE ON project_action_items FOR EACH ROW EXECUTE FUNCTION touch_task_row();
+CREATE TRIGGER touch_project_decisions BEFORE UPDATE ON project_decisions FOR EACH ROW EXECUTE FUNCTION touch_task_row();
+CREATE TRIGGER touch_project_attachments BEFORE UPDATE ON project_attachments FOR EACH ROW EXECUTE FUNCTION touch_task_row();
+
+-- JSON配列を text[] に変換する関数
+CREATE OR REPLACE FUNCTION jsonb_text_array(value jsonb)
+RETURNS text[] AS $$
+  SELECT CASE
+    WHEN jsonb_typeof(value) = 'array' THEN ARRAY(SELECT jsonb_array_elements_text(value))
+    ELSE '{}'::text[]
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- 既知の項目を取り除いた残り（extra列）を返す関数。空なら NULL
+CREATE OR REPLACE FUNCTION jsonb_extra(value jsonb, known text[])
+RETURNS jsonb AS $$
+  SELECT NULLIF(jsonb_strip_nulls(value - known), '{}'::jsonb);
+$$ LANGUAGE sql IMMUTABLE;
+
+-- JSONの数値・真偽値だけを変換する関数（型が違う値は NULL）
+CREATE OR REPLACE FUNCTION jsonb_numeric(value jsonb)
+RETURNS numeric AS $$
+  SELECT CASE WHEN jsonb_typeof(value) = 'number' THEN (value #>> '{}')::numeric END;
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION jsonb_boolean(value jsonb)
+RETURNS boolean AS $$
+  SELECT CASE WHEN jsonb_typeof(value) = 'boolean' THEN (value #>> '{}')::boolean END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- 列に変換できる項目名を返す関数。型が違う値は変換せずに extra 列へ残すため、既知の項目から外す
+CREATE OR REPLACE FUNCTION jsonb_typed_key(value jsonb, key text, json_type text)
+RETURNS text[] AS $$
+  SELECT CASE WHEN jsonb_typeof(value->key) IN (json_type, 'null') OR NOT value ? key THEN ARRAY[key] ELSE '{}'::text[] END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- 添付ファイル配列を展開する関数
+CREATE OR REPLACE FUNCTION insert_project_attachments(
+  target_project_id uuid,
+  attachments jsonb,
+  owner_task_id text,
+  owner_sub_step_id text,
+  owner_action_item_id text
+)
+RETURNS void AS $$
+BEGIN
+  IF jsonb_typeof(attachments) <> 'array' THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO project_attachments (project_id, task_id, sub_step_id, action_item_id, id, sort_order, name, mime_type, data_url)
+  SELECT
+    target_project_id,
+    owner_task_id,
+    owner_sub_step_id,
+    owner_action_item_id,
+    a.value->>'id',
+    a.ordinality - 1,
+    COALESCE(a.value->>'name', ''),
+    COALESCE(a.value->>'type', ''),
+    COALESCE(a.value->>'dataUrl', '')
+  FROM jsonb_array_elements(attachments) WITH ORDINALITY AS a(value, ordinality)
+  WHERE a.value->>'id' IS NOT NULL
+  ON CONFLICT DO NOTHING;
+END;
+$$ LANGUAGE plpgsql;
+
+-- プロジェクトの tasks_data を正規化テーブルに展開する関数
+CREATE OR REPLACE FUNCTION migrate_project_tasks_data(target_project_id uuid)
+RETURNS boolean AS $$
+DECLARE
+  project_record projects%ROWTYPE;
+  task_entry record;
+  sub_step_entry record;
+  item_entry record;
+  details jsonb;
+BEGIN
+  SELECT * INTO project_record
+  FROM projects
+  WHERE id = target_project_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR project_record.tasks_migrated_at IS NOT NULL THEN
+    RETURN false;
+  END IF;
+
+  FOR task_entry IN
+    SELECT t.value, t.ordinality - 1 AS sort_order
+    FROM jsonb_array_elements(COALESCE(project_record.tasks_data, '[]'::jsonb)) WITH ORDINALITY AS t(value, ordinality)
+    WHERE t.value->>'id' IS NOT NULL
+  LOOP
+    details := CASE WHEN jsonb_typeof(task_entry.value->'extendedDetails') = 'object' THEN task_entry.value->'extendedDetails' END;
+
+    INSERT INTO project_tasks (
+      project_id, id, sort_order, title, description, status, next_task_ids, canvas_position, has_details,
+      resources, responsible, notes, due_date, estimated_days, numerical_target, report_deck,
+      resource_matrix, sub_step_canvas_size, extra
+    ) VALUES (
+      target_project_id,
+      task_entry.value->>'id',
+      task_entry.sort_order,
+      COALESCE(task_entry.value->>'title', ''),
+      COALESCE(task_entry.value->>'description', ''),
+      task_entry.value->>'status',
+      jsonb_text_array(task_entry.value->'nextTaskIds'),
+      NULLIF(task_entry.value->'position', 'null'::jsonb),
+      details IS NOT NULL,
+      details->>'resources',
+      details->>'responsible',
+      details->>'notes',
+      details->>'dueDate',
+      jsonb_numeric(details->'estimatedDays'),
+      NULLIF(details->'numericalTarget', 'null'::jsonb),
+      NULLIF(details->'reportDeck', 'null'::jsonb),
+      NULLIF(details->'resourceMatrix', 'null'::jsonb),
+      NULLIF(details->'subStepCanvasSize', 'null'::jsonb),
+      jsonb_extra(
+        task_entry.value || jsonb_build_object('details', jsonb_extra(COALESCE(details, '{}'::jsonb), ARRAY[
+          'subSteps', 'resources', 'responsible', 'notes', 'numericalTarget', 'dueDate',
+          'reportDeck', 'resourceMatrix', 'attachments', 'decisions', 'subStepCanvasSize'
+        ] || jsonb_typed_key(COALESCE(details, '{}'::jsonb), 'estimatedDays', 'number'))),
+        ARRAY['id', 'title', 'description', 'nextTaskIds', 'position', 'extendedDetails', 'status']
+      )
+    )
+    ON CONFLICT DO NOTHING;
+
+    IF details IS NULL THEN
+      CONTINUE;
+    END IF;
+
+    PERFORM insert_project_attachments(target_project_id, details->'attachments', task_entry.value->>'id', '', '');
+
+    IF jsonb_typeof(details->'decisions') = 'array' THEN
+      INSERT INTO project_decisions (project_id, task_id, id, sort_order, question, decision, reasoning, decided_on, status)
+      SELECT
+        target_project_id,
+        task_entry.value->>'id',
+        d.value->>'id',
+        d.ordinality - 1,
+        COALESCE(d.value->>'question', ''),
+        d.value->>'decision',
+        d.value->>'reasoning',
+        d.value->>'date',
+        CASE WHEN d.value->>'status' = 'decided' THEN 'decided' ELSE 'undecided' END
+      FROM jsonb_array_elements(details->'decisions') WITH ORDINALITY AS d(value, ordinality)
+      WHERE d.value->>'id' IS NOT NULL
+      ON CONFLICT DO NOTHING;
+    END IF;
+
+    IF jsonb_typeof(details->'subSteps') <> 'array' THEN
+      CONTINUE;
+    END IF;
+
+    FOR sub_step_entry IN
+      SELECT s.value, s.ordinality - 1 AS sort_order
+      FROM jsonb_array_elements(details->'subSteps') WITH ORDINALITY AS s(value, ordinality)
+      WHERE s.value->>'id' IS NOT NULL
+    LOOP
+      INSERT INTO project_sub_steps (
+        project_id, task_id, id, sort_order, text, notes, next_sub_step_ids, canvas_position,
+        responsible, due_date, estimated_days, status, extra
+      ) VALUES (
+        target_project_id,
+        task_entry.value->>'id',
+        sub_step_entry.value->>'id',
+        sub_step_entry.sort_order,
+        COALESCE(sub_step_entry.value->>'text', ''),
+        sub_step_entry.value->>'notes',
+        jsonb_text_array(sub_step_entry.value->'nextSubStepIds'),
+        NULLIF(sub_step_entry.value->'position', 'null'::jsonb),
+        sub_step_entry.value->>'responsible',
+        sub_step_entry.value->>'dueDate',
+        jsonb_numeric(sub_step_entry.value->'estimatedDays'),
+        sub_step_entry.value->>'status',
+        jsonb_extra(sub_step_entry.value, ARRAY[
+          'id', 'text', 'notes', 'nextSubStepIds', 'position', 'responsible', 'dueDate',
+          'status', 'actionItems', 'attachments'
+        ] || jsonb_typed_key(sub_step_entry.value, 'estimatedDays', 'number'))
+      )
+      ON CONFLICT DO NOTHING;
+
+      PERFORM insert_project_attachments(
+        target_project_id, sub_step_entry.value->'attachments', task_entry.value->>'id', sub_step_entry.value->>'id', ''
+      );
+
+      IF jsonb_typeof(sub_step_entry.value->'actionItems') <> 'array' THEN
+        CONTINUE;
+      END IF;
+
+      FOR item_entry IN
+        SELECT i.value, i.ordinality - 1 AS sort_order
+        FROM jsonb_array_elements(sub_step_entry.value->'actionItems') WITH ORDINALITY AS i(value, ordinality)
+        WHERE i.value->>'id' IS NOT NULL
+      LOOP
+        INSERT INTO project_action_items (
+          project_id, task_id, sub_step_id, id, sort_order, text, completed, due_date, completed_date,
+          responsible, estimated_days, has_report, report_notes, report_matrix, extra
+        ) VALUES (
+          target_project_id,
+          task_entry.value->>'id',
+          sub_step_entry.value->>'id',
+          item_entry.value->>'id',
+          item_entry.sort_order,
+          COALESCE(item_entry.value->>'text', ''),
+          COALESCE(jsonb_boolean(item_entry.value->'completed'), false),
+          item_entry.value->>'dueDate',
+          item_entry.value->>'completedDate',
+          item_entry.value->>'responsible',
+          jsonb_numeric(item_entry.value->'estimatedDays'),
+          jsonb_typeof(item_entry.value->'report') = 'object',
+          item_entry.value->'report'->>'notes',
+          NULLIF(item_entry.value->'report'->'matrixData', 'null'::jsonb),
+          jsonb_extra(item_entry.value, ARRAY[
+            'id', 'text', 'dueDate', 'completedDate', 'responsible', 'report'
+          ] || jsonb_typed_key(item_entry.value, 'completed', 'boolean')
+            || jsonb_typed_key(item_entry.value, 'estimatedDays', 'number'))
+        )
+        ON CONFLICT DO NOTHING;
+
+        PERFORM insert_project_attachments(
+          target_project_id, item_entry.value->'report'->'attachments',
+          task_entry.value->>'id', sub_step_entry.value->>'id', item_entry.value->>'id'
+        );
+      END LOOP;
+    END LOOP;
+  END LOOP;
+
+  UPDATE projects
+  SET tasks_data = NULL, tasks_migrated_at = now()
+  WHERE id = target_project_id;
+
+  RETURN true;
+END;
+$$ LANGUAGE plpgsql;
+
+-- 既存プロジェクトを移行（最終更新者・バージョンは変更しない）
+ALTER TABLE projects DISABLE TRIGGER update_project_metadata_trigger;
+
+DO $$
+DECLARE
+  project_row record;
+BEGIN
+  FOR project_row IN SELECT id FROM projects WHERE tasks_migrated_at IS NULL LOOP
+    PERFORM migrate_project_tasks_data(project_row.id);
+  END LOOP;
+END;
+$$;
+
+ALTER TABLE projects ENABLE TRIGGER update_project_metadata_trigger;
+
+-- タスクテーブルと主キーの列（project_id 以外）。write_order は親テーブルから順に振る
+CREATE OR REPLACE FUNCTION task_tables()
+RETURNS TABLE (write_order integer, table_name regclass, key_columns text[]) AS $$
+  VALUES
+    (1, 'project_tasks'::regclass, ARRAY['id']),
+    (2, 'project_sub_steps'::regclass, ARRAY['task_id', 'id']),
+    (3, 'project_action_items'::regclass, ARRAY['task_id', 'sub_step_id', 'id']),
+    (4, 'project_decisions'::regclass, ARRAY['task_id', 'id']),
+    (5, 'project_attachments'::regclass, ARRAY['task_id', 'sub_step_id', 'action_item_id', 'id']);
+$$ LANGUAGE sql IMMUTABLE;
+
+-- JSON配列の行をタスクテーブルに追加・更新する関数（列は先頭の行にある項目のみ。project_id は引数の値を使う）
+CREATE OR REPLACE FUNCTION upsert_task_rows(target_table regclass, target_project_id uuid, key_columns text[], task_rows jsonb)
+RETURNS void AS $$
+DECLARE
+  row_columns text;
+  update_columns text;
+BEGIN
+  IF jsonb_typeof(task_rows) IS DISTINCT FROM 'array' OR jsonb_array_length(task_rows) = 0 THEN
+    RETURN;
+  END IF;
+
+  SELECT
+    string_agg(quote_ident(attname), ', ' ORDER BY attnum),
+    string_agg(format('%I = EXCLUDED.%I', attname, attname), ', ' ORDER BY attnum) FILTER (WHERE attname::text <> ALL(key_columns))
+  INTO row_columns, update_columns
+  FROM pg_attribute
+  WHERE attrelid = target_table
+  AND attnum > 0
+  AND NOT attisdropped
+  AND attname NOT IN ('project_id', 'updated_at')
+  AND task_rows->0 ? attname;
+
+  EXECUTE format(
+    'INSERT INTO %s (project_id, %s) SELECT $1, %s FROM jsonb_populate_recordset(NULL::%s, $2) ON CONFLICT (project_id, %s) DO UPDATE SET %s',
+    target_table, row_columns, row_columns, target_table,
+    (SELECT string_agg(quote_ident(key_column), ', ') FROM unnest(key_columns) AS key_column),
+    update_columns
+  ) USING target_project_id, task_rows;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER SET search_path = public;
+
+-- JSON配列の行（主キーの列のみ使う）をタスクテーブルから削除する関数。
+-- keep_listed が true の場合は、逆に配列にない行をすべて削除する
+CREATE OR REPLACE FUNCTION delete_task_rows(target_table regclass, target_project_id uuid, key_columns text[], task_rows jsonb, keep_listed boolean)
+RETURNS void AS $$
+DECLARE
+  key_list text;
+BEGIN
+  task_rows := CASE WHEN jsonb_typeof(task_rows) = 'array' THEN task_rows ELSE '[]'::jsonb END;
+  IF NOT keep_listed AND jsonb_array_length(task_rows) = 0 THEN
+    RETURN;
+  END IF;
+
+  SELECT string_agg(quote_ident(key_column), ', ') INTO key_list FROM unnest(key_columns) AS key_column;
+
+  EXECUTE format(
+    'DELETE FROM %s WHERE project_id = $1 AND (%s) %s IN (SELECT %s FROM jsonb_populate_recordset(NULL::%s, $2))',
+    target_table, key_list, CASE WHEN keep_listed THEN 'NOT' ELSE '' END, key_list, target_table
+  ) USING target_project_id, task_rows;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER SET search_path = public;
+
+-- タスク行の変更とプロジェクトの更新を1つのトランザクションで保存し、バージョンを進めたプロジェクトを返す。
+-- upserts / deletes はテーブル名ごとの行の配列。replace_all が true の場合は upserts にない行をすべて削除する。
+-- project_fields は projects の列名と値（title, goal, target_date, gantt_data）で、含まれる列だけを更新する
+CREATE OR REPLACE FUNCTION save_project_tasks(
+  target_project_id uuid,
+  expected_version integer,
+  upserts jsonb,
+  deletes jsonb,
+  replace_all boolean DEFAULT false,
+  project_fields jsonb DEFAULT '{}'::jsonb
+)
+RETURNS projects AS $$
+DECLARE
+  project_record projects%ROWTYPE;
+  task_table record;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'ログインが必要です';
+  END IF;
+
+  -- 先にプロジェクトを更新して行をロックする（トリガーでバージョンと更新者が進む）
+  project_fields := COALESCE(project_fields, '{}'::jsonb);
+
+  UPDATE projects
+  SET
+    title = CASE WHEN project_fields ? 'title' THEN fields.title ELSE projects.title END,
+    goal = CASE WHEN project_fields ? 'goal' THEN fields.goal ELSE projects.goal END,
+    target_date = CASE WHEN project_fields ? 'target_date' THEN fields.target_date ELSE projects.target_date END,
+    gantt_data = CASE WHEN project_fields ? 'gantt_data' THEN fields.gantt_data ELSE projects.gantt_data END,
+    last_modified_by = auth.uid()
+  FROM jsonb_populate_record(NULL::projects, project_fields) AS fields
+  WHERE projects.id = target_project_id
+  AND (expected_version IS NULL OR projects.version = expected_version)
+  RETURNING projects.* INTO project_record;
+
+  IF NOT FOUND THEN
+    IF expected_version IS NOT NULL AND EXISTS (SELECT 1 FROM projects WHERE id = target_project_id AND version <> expected_version) THEN
+      RAISE EXCEPTION 'プロジェクトが他のユーザーによって更新されています' USING ERRCODE = 'PT409';
+    END IF;
+    RAISE EXCEPTION 'プロジェクトを保存する権限がありません';
+  END IF;
+
+  FOR task_table IN
+    SELECT * FROM task_tables() ORDER BY write_order
+  LOOP
+    PERFORM upsert_task_rows(task_table.table_name, target_project_id, task_table.key_columns, upserts->(task_table.table_name::text));
+  END LOOP;
+
+  -- 削除は子テーブルから
+  FOR task_table IN
+    SELECT * FROM task_tables() ORDER BY write_order DESC
+  LOOP
+    IF replace_all THEN
+      PERFORM delete_task_rows(task_table.table_name, target_project_id, task_table.key_columns, upserts->(task_table.table_name::text), true);
+    ELSE
+      PERFORM delete_task_rows(task_table.table_name, target_project_id, task_table.key_columns, deletes->(task_table.table_name::text), false);
+    END IF;
+  END LOOP;
+
+  RETURN project_record;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION upsert_task_rows(regclass, uuid, text[], jsonb) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION delete_task_rows(regclass, uuid, text[], jsonb, boolean) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION save_project_tasks(uuid, integer, jsonb, jsonb, boolean, jsonb) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION upsert_task_rows(regclass, uuid, text[], jsonb) TO authenticated;
+GRANT EXECUTE ON FUNCTION delete_task_rows(regclass, uuid, text[], jsonb, boolean) TO authenticated;
+GRANT EXECUTE ON FUNCTION save_project_tasks(uuid, integer, jsonb, jsonb, boolean, jsonb) TO authenticated;
+
+-- リアルタイム更新の対象に追加
+ALTER PUBLICATION project_changes ADD TABLE project_tasks, project_sub_steps, project_action_items, project_decisions, project_attachments;
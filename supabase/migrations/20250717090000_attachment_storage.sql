@@ -0,0 +1,103 @@
+/*
+  # 添付ファイルのオブジェクトストレージ移行
+
+  添付ファイルを base64 の dataUrl としてタスクデータに埋め込むのをやめ、
+  Supabase Storage に保存します。タスクデータには参照とメタデータだけを残します。
+
+  1. ストレージ
+    - バケット `attachments`（非公開）
+    - パスは `<project_id>/<sha256>.<拡張子>`。同じ内容のファイルは一度だけ保存されます（ファイル名は `name` 列に保持）
+
+  2. `project_attachments` テーブルの更新
+    - `size_bytes` (bigint) - ファイルサイズ
+    - `sha256` (text) - 内容のハッシュ
+    - `storage` (text) - 'supabase' または 'local'（ブラウザ内のみに保存されたファイル）
+    - `storage_path` (text) - ストレージ上のパス
+    - `uploaded_by` (uuid) - アップロードしたユーザー（ユーザーが削除されると NULL）
+    - `uploaded_at` (timestamp)
+    - `data_url` は従来データ用に残し、NULL を許可します
+
+  3. 既存データの移行
+    - base64 のファイルは SQL からストレージに書き込めないため、編集権限のあるユーザーが
+      プロジェクトを開いたときにクライアントがアップロードし、`data_url` を削除します
+
+  4. セキュリティ
+    - メンバーはプロジェクトのファイルを閲覧可能
+    - オーナーと編集者はアップロード・削除可能
+*/
+
+ALTER TABLE project_attachments ADD COLUMN IF NOT EXISTS size_bytes bigint;
+ALTER TABLE project_attachments ADD COLUMN IF NOT EXISTS sha256 text;
+ALTER TABLE project_attachments ADD COLUMN IF NOT EXISTS storage text CHECK (storage IN ('supabase', 'local'));
+ALTER TABLE project_attachments ADD COLUMN IF NOT EXISTS storage_path text;
+ALTER TABLE project_attachments ADD COLUMN IF NOT EXISTS uploaded_by uuid REFERENCES auth.users(id) ON DELETE SET NULL;
+ALTER TABLE project_attachments ADD COLUMN IF NOT EXISTS uploaded_at timestamptz;
+
+ALTER TABLE project_attachments ALTER COLUMN data_url DROP NOT NULL;
+ALTER TABLE project_attachments ALTER COLUMN data_url DROP DEFAULT;
+UPDATE project_attachments SET data_url = NULL WHERE data_url = '';
+
+-- 添付ファイル用バケット
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('attachments', 'attachments', false)
+ON CONFLICT (id) DO NOTHING;
+
+-- ストレージのRLSポリシー（パスの先頭フォルダがプロジェクトID）
+CREATE POLICY "Project members can view attachment files"
+  ON storage.objects
+  FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'attachments'
+    AND EXISTS (
+      SELECT 1 FROM project_members
+      WHERE project_members.project_id::text = (storage.foldername(storage.objects.name))[1]
+      AND project_members.user_id = auth.uid()
+      AND project_members.status = 'accepted'
+    )
+  );
+
+CREATE POLICY "Project owners and editors can upload attachment files"
+  ON storage.objects
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'attachments'
+    AND EXISTS (
+      SELECT 1 FROM project_members
+      WHERE project_members.project_id::text = (storage.foldername(storage.objects.name))[1]
+      AND project_members.user_id = auth.uid()
+      AND project_members.role IN ('owner', 'editor')
+      AND project_members.status = 'accepted'
+    )
+  );
+
+CREATE POLICY "Project owners and editors can replace attachment files"
+  ON storage.objects
+  FOR UPDATE
+  TO authenticated
+  USING (
+    bucket_id = 'attachments'
+    AND EXISTS (
+      SELECT 1 FROM project_members
+      WHERE project_members.project_id::text = (storage.foldername(storage.objects.name))[1]
+      AND project_members.user_id = auth.uid()
+      AND project_members.role IN ('owner', 'editor')
+      AND project_members.status = 'accepted'
+    )
+  );
+
+CREATE POLICY "Project owners and editors can delete attachment files"
+  ON storage.objects
+  FOR DELETE
+  TO authenticated
+  USING (
+    bucket_id = 'attachments'
+    AND EXISTS (
+      SELECT 1 FROM project_members
+      WHERE project_members.project_id::text = (storage.foldername(storage.objects.name))[1]
+      AND project_members.user_id = auth.uid()
+      AND project_members.role IN ('owner', 'editor')
+      AND project_members.status = 'accepted'
+    )
+  );
@@ -0,0 +1,178 @@
+/*
+  # プロジェクトの変更履歴（監査証跡）
+
+  タスク・サブステップ・アクションアイテム・決定事項・メンバーの変更を、
+  誰がいつ何をどう変えたかが分かる形で記録します。
+  記録はデータベースのトリガーで行うため、クライアントの種類や保存方法に関係なく漏れなく残ります。
+
+  1. 新しいテーブル
+    - `project_activity`
+      - `id` (bigint, primary key)
+      - `project_id` (uuid, foreign key to projects)
+      - `actor_id` (uuid) - 変更したユーザー（サーバー側の処理では NULL）
+      - `actor_email` (text) - 記録時点のメールアドレス
+      - `entity_type` (text) - 'task' / 'substep' / 'actionitem' / 'decision' / 'member'
+      - `entity_id` (text) - 変更された項目のID（メンバーはユーザーID）
+      - `task_id` (text) - 所属するタスクのID（タスク単位の絞り込み用）
+      - `sub_step_id` (text) - 所属するサブステップのID
+      - `entity_name` (text) - 記録時点の名前（タイトル・内容・質問・メールアドレス）
+      - `action` (text) - 'created' / 'updated' / 'deleted'
+      - `changes` (jsonb) - 変更された列ごとの `{"from": 変更前, "to": 変更後}`
+      - `created_at` (timestamp)
+
+  2. 記録しないもの
+    - 内容が変わらない更新（`updated_at` だけの更新など）
+    - `tasks_data` からの移行中の行追加（移行完了前のプロジェクト）
+    - プロジェクト削除に伴う連鎖削除
+
+  3. セキュリティ
+    - メンバーは閲覧可能
+    - 記録の追加・変更・削除はクライアントからは行えません（トリガーのみが追加します）
+*/
+
+CREATE TABLE IF NOT EXISTS project_activity (
+  id bigint GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  project_id uuid REFERENCES projects(id) ON DELETE CASCADE NOT NULL,
+  actor_id uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  actor_email text,
+  entity_type text NOT NULL CHECK (entity_type IN ('task', 'substep', 'actionitem', 'decision', 'member')),
+  entity_id text NOT NULL,
+  task_id text,
+  sub_step_id text,
+  entity_name text,
+  action text NOT NULL CHECK (action IN ('created', 'updated', 'deleted')),
+  changes jsonb,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS project_activity_project_idx ON project_activity(project_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS project_activity_task_idx ON project_activity(project_id, task_id, created_at DESC);
+
+ALTER TABLE project_activity ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Project members can view activity"
+  ON project_activity
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM project_members
+      WHERE project_members.project_id = project_activity.project_id
+      AND project_members.user_id = auth.uid()
+      AND project_members.status = 'accepted'
+    )
+  );
+
+-- 変更内容の差分（変わった列だけ）
+CREATE OR REPLACE FUNCTION activity_changes(old_row jsonb, new_row jsonb)
+RETURNS jsonb AS $$
+  SELECT jsonb_object_agg(
+    keys.key,
+    jsonb_build_object('from', old_row->keys.key, 'to', new_row->keys.key)
+  )
+  FROM (
+    SELECT jsonb_object_keys(COALESCE(old_row, '{}'::jsonb) || COALESCE(new_row, '{}'::jsonb)) AS key
+  ) keys
+  WHERE keys.key NOT IN ('project_id', 'updated_at', 'created_at')
+  AND (old_row->keys.key) IS DISTINCT FROM (new_row->keys.key);
+$$ LANGUAGE sql IMMUTABLE;
+
+-- タスク関連テーブルの変更を記録（TG_ARGV[0] が entity_type）
+CREATE OR REPLACE FUNCTION log_task_activity()
+RETURNS TRIGGER AS $$
+DECLARE
+  entity text := TG_ARGV[0];
+  old_row jsonb := CASE WHEN TG_OP <> 'INSERT' THEN to_jsonb(OLD) END;
+  new_row jsonb := CASE WHEN TG_OP <> 'DELETE' THEN to_jsonb(NEW) END;
+  row_data jsonb := COALESCE(new_row, old_row);
+  target_project uuid := (row_data->>'project_id')::uuid;
+  migrated_at timestamptz;
+  diff jsonb;
+BEGIN
+  -- 削除中のプロジェクトや、移行中のプロジェクトは記録しない
+  SELECT tasks_migrated_at INTO migrated_at FROM projects WHERE id = target_project;
+  IF NOT FOUND OR migrated_at IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  diff := activity_changes(old_row, new_row);
+  IF TG_OP = 'UPDATE' AND diff IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO project_activity (
+    project_id, actor_id, actor_email, entity_type, entity_id, task_id, sub_step_id, entity_name, action, changes
+  ) VALUES (
+    target_project,
+    auth.uid(),
+    (SELECT email FROM auth.users WHERE id = auth.uid()),
+    entity,
+    row_data->>'id',
+    CASE WHEN entity = 'task' THEN row_data->>'id' ELSE row_data->>'task_id' END,
+    CASE WHEN entity = 'substep' THEN row_data->>'id' ELSE NULLIF(row_data->>'sub_step_id', '') END,
+    COALESCE(row_data->>'title', row_data->>'text', row_data->>'question'),
+    CASE TG_OP WHEN 'INSERT' THEN 'created' WHEN 'UPDATE' THEN 'updated' ELSE 'deleted' END,
+    diff
+  );
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- メンバーの招待・参加・権限変更・削除を記録
+CREATE OR REPLACE FUNCTION log_member_activity()
+RETURNS TRIGGER AS $$
+DECLARE
+  old_row jsonb := CASE WHEN TG_OP <> 'INSERT' THEN to_jsonb(OLD) END;
+  new_row jsonb := CASE WHEN TG_OP <> 'DELETE' THEN to_jsonb(NEW) END;
+  row_data jsonb := COALESCE(new_row, old_row);
+  target_project uuid := (row_data->>'project_id')::uuid;
+  diff jsonb;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM projects WHERE id = target_project) THEN
+    RETURN NULL;
+  END IF;
+
+  diff := activity_changes(old_row - 'id', new_row - 'id');
+  IF TG_OP = 'UPDATE' AND diff IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO project_activity (
+    project_id, actor_id, actor_email, entity_type, entity_id, entity_name, action, changes
+  ) VALUES (
+    target_project,
+    auth.uid(),
+    (SELECT email FROM auth.users WHERE id = auth.uid()),
+    'member',
+    row_data->>'user_id',
+    (SELECT email FROM auth.users WHERE id = (row_data->>'user_id')::uuid),
+    CASE TG_OP WHEN 'INSERT' THEN 'created' WHEN 'UPDATE' THEN 'updated' ELSE 'deleted' END,
+    diff
+  );
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER log_project_tasks_activity
+  AFTER INSERT OR UPDATE OR DELETE ON project_tasks
+  FOR EACH ROW EXECUTE FUNCTION log_task_activity('task');
+
+CREATE TRIGGER log_project_sub_steps_activity
+  AFTER INSERT OR UPDATE OR DELETE ON project_sub_steps
+  FOR EACH ROW EXECUTE FUNCTION log_task_activity('substep');
+
+CREATE TRIGGER log_project_action_items_activity
+  AFTER INSERT OR UPDATE OR DELETE ON project_action_items
+  FOR EACH ROW EXECUTE FUNCTION log_task_activity('actionitem');
+
+CREATE TRIGGER log_project_decisions_activity
+  AFTER INSERT OR UPDATE OR DELETE ON project_decisions
+  FOR EACH ROW EXECUTE FUNCTION log_task_activity('decision');
+
+CREATE TRIGGER log_project_members_activity
+  AFTER INSERT OR UPDATE OR DELETE ON project_members
+  FOR EACH ROW EXECUTE FUNCTION log_member_activity();
+
+ALTER PUBLICATION project_changes ADD TABLE project_activity;
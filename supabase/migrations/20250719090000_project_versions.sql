@@ -0,0 +1,106 @@
+/*
+  # プロジェクトのバージョン履歴
+
+  保存のたびに進む `projects.version` ごとに、その時点のプロジェクト全体のスナップショットを残します。
+  過去のバージョンの閲覧と、プロジェクト全体・個別タスクの復元に使います。
+  スナップショットは保存処理の後にクライアントが追加します。
+  タスク単位の自動保存では、同じユーザーが続けて保存した場合は10分に1つだけ残し、
+  その間の保存では同じユーザーの最新のスナップショットを保存後の状態で上書きします。
+
+  1. 新しいテーブル
+    - `project_versions`
+      - `id` (uuid, primary key)
+      - `project_id` (uuid, foreign key to projects)
+      - `version` (integer) - 保存後の `projects.version`
+      - `title` (text)
+      - `goal` (text)
+      - `target_date` (date)
+      - `tasks_data` (jsonb) - 保存時点の ProjectTask[]
+      - `gantt_data` (jsonb) - 保存時点の GanttItem[]
+      - `created_by` (uuid, foreign key to auth.users)
+      - `created_by_email` (text) - 記録時点のメールアドレス
+      - `created_at` (timestamp)
+
+  2. セキュリティ
+    - メンバーは閲覧可能
+    - オーナーと編集者は追加可能
+    - 作成したユーザーは、プロジェクトの最新のスナップショットに限り上書き可能（自動保存用）
+    - スナップショットは削除できません（プロジェクトの削除時にまとめて削除されます）
+*/
+
+CREATE TABLE IF NOT EXISTS project_versions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id uuid REFERENCES projects(id) ON DELETE CASCADE NOT NULL,
+  version integer NOT NULL,
+  title text NOT NULL,
+  goal text NOT NULL,
+  target_date date,
+  tasks_data jsonb NOT NULL DEFAULT '[]'::jsonb,
+  gantt_data jsonb,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_by_email text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (project_id, version)
+);
+
+CREATE INDEX IF NOT EXISTS project_versions_project_idx ON project_versions(project_id, version DESC);
+
+ALTER TABLE project_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Project members can view versions"
+  ON project_versions
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM project_members
+      WHERE project_members.project_id = project_versions.project_id
+      AND project_members.user_id = auth.uid()
+      AND project_members.status = 'accepted'
+    )
+  );
+
+CREATE POLICY "Project owners and editors can create versions"
+  ON project_versions
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    created_by = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM project_members
+      WHERE project_members.project_id = project_versions.project_id
+      AND project_members.user_id = auth.uid()
+      AND project_members.role IN ('owner', 'editor')
+      AND project_members.status = 'accepted'
+    )
+  );
+
+CREATE POLICY "Creators can update the latest version"
+  ON project_versions
+  FOR UPDATE
+  TO authenticated
+  USING (
+    created_by = auth.uid()
+    AND NOT EXISTS (
+      SELECT 1 FROM project_versions AS newer
+      WHERE newer.project_id = project_versions.project_id
+      AND newer.version > project_versions.version
+    )
+    AND EXISTS (
+      SELECT 1 FROM project_members
+      WHERE project_members.project_id = project_versions.project_id
+      AND project_members.user_id = auth.uid()
+      AND project_members.role IN ('owner', 'editor')
+      AND project_members.status = 'accepted'
+    )
+  )
+  WITH CHECK (
+    created_by = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM project_members
+      WHERE project_members.project_id = project_versions.project_id
+      AND project_members.user_id = auth.uid()
+      AND project_members.role IN ('owner', 'editor')
+      AND project_members.status = 'accepted'
+    )
+  );
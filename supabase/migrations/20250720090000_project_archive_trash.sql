@@ -0,0 +1,130 @@
+/*
+  # プロジェクトのアーカイブとゴミ箱
+
+  削除したプロジェクトはすぐには消さず、ゴミ箱に30日間保管してから完全に削除します。
+  完了したプロジェクトは、削除せずにアーカイブとして一覧から分けておけます。
+
+  1. `projects` テーブルの更新
+    - `archived_at` (timestamp) - アーカイブした日時（アーカイブされていなければ NULL）
+    - `archived_by` (uuid) - アーカイブしたユーザー
+    - `deleted_at` (timestamp) - ゴミ箱に移した日時（ゴミ箱になければ NULL）
+    - `deleted_by` (uuid) - ゴミ箱に移したユーザー
+
+  2. 新しい関数
+    - `purge_expired_projects()` - ゴミ箱に移してから30日を過ぎた、呼び出したユーザーがオーナーのプロジェクトを
+      完全に削除します。ログインしたユーザーのみ実行でき、RLSの範囲で削除します
+      （添付ファイルは、クライアントがストレージAPIで先に削除します）
+    - `purge_expired_projects_job()` - pg_cron から毎日実行する、全ユーザー分の削除です。
+      ストレージのファイルはSQLから削除できないため、ファイルが残っているプロジェクトは対象外とし、
+      オーナーがプロジェクト一覧を開いたときに上の関数で削除されます。クライアントからは実行できません
+
+  3. セキュリティ
+    - アーカイブ・アーカイブ解除はオーナーと編集者が可能
+    - ゴミ箱への移動・復元はオーナーのみ（トリガーで確認）
+    - 完全に削除できるのはオーナーのみで、ゴミ箱にあるプロジェクトに限ります
+*/
+
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS archived_at timestamptz;
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS archived_by uuid REFERENCES auth.users(id) ON DELETE SET NULL;
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS deleted_at timestamptz;
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS deleted_by uuid REFERENCES auth.users(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS projects_deleted_at_idx ON projects(deleted_at) WHERE deleted_at IS NOT NULL;
+
+-- ゴミ箱への移動・復元はオーナーのみ
+CREATE OR REPLACE FUNCTION guard_project_trash()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.deleted_at IS DISTINCT FROM OLD.deleted_at AND auth.uid() IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM project_members
+    WHERE project_members.project_id = NEW.id
+    AND project_members.user_id = auth.uid()
+    AND project_members.role = 'owner'
+    AND project_members.status = 'accepted'
+  ) THEN
+    RAISE EXCEPTION 'プロジェクトをゴミ箱に移動・復元できるのはオーナーのみです';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER guard_project_trash_trigger
+  BEFORE UPDATE OF deleted_at ON projects
+  FOR EACH ROW
+  EXECUTE FUNCTION guard_project_trash();
+
+-- 完全な削除はゴミ箱にあるプロジェクトのみ
+DROP POLICY IF EXISTS "Project owners can delete projects" ON projects;
+
+CREATE POLICY "Project owners can delete trashed projects"
+  ON projects
+  FOR DELETE
+  TO authenticated
+  USING (
+    deleted_at IS NOT NULL
+    AND EXISTS (
+      SELECT 1 FROM project_members
+      WHERE project_members.project_id = projects.id
+      AND project_members.user_id = auth.uid()
+      AND project_members.role = 'owner'
+      AND project_members.status = 'accepted'
+    )
+  );
+
+-- 保管期間を過ぎた自分のプロジェクトを完全に削除（削除した件数を返す）
+CREATE OR REPLACE FUNCTION purge_expired_projects()
+RETURNS integer AS $$
+DECLARE
+  purged integer;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'ログインが必要です';
+  END IF;
+
+  DELETE FROM projects
+  WHERE deleted_at < now() - interval '30 days'
+  AND EXISTS (
+    SELECT 1 FROM project_members
+    WHERE project_members.project_id = projects.id
+    AND project_members.user_id = auth.uid()
+    AND project_members.role = 'owner'
+    AND project_members.status = 'accepted'
+  );
+
+  GET DIAGNOSTICS purged = ROW_COUNT;
+  RETURN purged;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION purge_expired_projects() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION purge_expired_projects() TO authenticated;
+
+-- pg_cron 用。添付ファイルが残っていないプロジェクトだけを削除する
+CREATE OR REPLACE FUNCTION purge_expired_projects_job()
+RETURNS integer AS $$
+DECLARE
+  purged integer;
+BEGIN
+  DELETE FROM projects
+  WHERE deleted_at < now() - interval '30 days'
+  AND NOT EXISTS (
+    SELECT 1 FROM storage.objects
+    WHERE storage.objects.bucket_id = 'attachments'
+    AND (storage.foldername(storage.objects.name))[1] = projects.id::text
+  );
+
+  GET DIAGNOSTICS purged = ROW_COUNT;
+  RETURN purged;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION purge_expired_projects_job() FROM PUBLIC, anon, authenticated;
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule('purge-expired-projects', '0 3 * * *', 'SELECT purge_expired_projects_job()');
+  END IF;
+END;
+$$;
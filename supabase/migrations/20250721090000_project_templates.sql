@@ -0,0 +1,81 @@
+/*
+  # プロジェクトテンプレート
+
+  既存のプロジェクト（サブステップ・アクションアイテム・決定事項を含む）を
+  再利用できるテンプレートとして保存します。
+  テンプレート内の `{{変数名}}` は、テンプレートから開始するときに入力した値に置き換えます。
+  期限は目標日からの相対日数として保存し、開始時の目標日から計算し直します。
+
+  1. 新しいテーブル
+    - `project_templates`
+      - `id` (uuid, primary key)
+      - `name` (text) - テンプレート名
+      - `description` (text)
+      - `goal` (text) - プロジェクトの目的（変数を含められます）
+      - `tasks_data` (jsonb) - ProjectTask[]（進捗・添付ファイル・日付を除いたもの）
+      - `due_date_offsets` (jsonb) - タスク・サブステップ・アクションアイテムの ID ごとの、目標日からの相対日数
+      - `variables` (jsonb) - 変数の定義（キー・表示名・既定値）
+      - `created_by` (uuid, foreign key to auth.users)
+      - `created_by_email` (text)
+      - `created_at` / `updated_at` (timestamp)
+
+  2. セキュリティ
+    - テンプレートは作成者のみ閲覧・作成・変更・削除可能
+*/
+
+CREATE TABLE IF NOT EXISTS project_templates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  description text NOT NULL DEFAULT '',
+  goal text NOT NULL DEFAULT '',
+  tasks_data jsonb NOT NULL DEFAULT '[]'::jsonb,
+  due_date_offsets jsonb NOT NULL DEFAULT '{}'::jsonb,
+  variables jsonb NOT NULL DEFAULT '[]'::jsonb,
+  created_by uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  created_by_email text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS project_templates_created_by_idx ON project_templates(created_by);
+
+ALTER TABLE project_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own templates"
+  ON project_templates
+  FOR SELECT
+  TO authenticated
+  USING (created_by = auth.uid());
+
+CREATE POLICY "Users can create own templates"
+  ON project_templates
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (created_by = auth.uid());
+
+CREATE POLICY "Users can update own templates"
+  ON project_templates
+  FOR UPDATE
+  TO authenticated
+  USING (created_by = auth.uid())
+  WITH CHECK (created_by = auth.uid());
+
+CREATE POLICY "Users can delete own templates"
+  ON project_templates
+  FOR DELETE
+  TO authenticated
+  USING (created_by = auth.uid());
+
+-- 更新日時を自動で更新
+CREATE OR REPLACE FUNCTION update_project_templates_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER update_project_templates_updated_at
+  BEFORE UPDATE ON project_templates
+  FOR EACH ROW
+  EXECUTE FUNCTION update_project_templates_updated_at();
@@ -0,0 +1,71 @@
+/*
+  # タスクのブループリント
+
+  設定済みのタスク・サブステップ・チェックリスト（アクションアイテムの一覧）を部品として保存し、
+  任意のプロジェクトに挿入できるようにします。
+  挿入時には ID を振り直し、期限は挿入時に指定した基準日からの相対日数で計算します。
+
+  1. 新しいテーブル
+    - `task_blueprints`
+      - `id` (uuid, primary key)
+      - `kind` (text) - 'task'（タスク）、'substep'（サブステップ）、'checklist'（チェックリスト）
+      - `name` (text)
+      - `description` (text)
+      - `content` (jsonb) - ProjectTask / SubStep / ActionItem[]（進捗・添付ファイル・日付を除いたもの）
+      - `due_date_offsets` (jsonb) - 元の ID ごとの、基準日からの相対日数
+      - `created_by` (uuid, foreign key to auth.users)
+      - `created_by_email` (text)
+      - `created_at` / `updated_at` (timestamp)
+
+  2. セキュリティ
+    - ブループリントは作成者のみ閲覧・作成・変更・削除可能
+*/
+
+CREATE TABLE IF NOT EXISTS task_blueprints (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  kind text NOT NULL CHECK (kind IN ('task', 'substep', 'checklist')),
+  name text NOT NULL,
+  description text NOT NULL DEFAULT '',
+  content jsonb NOT NULL,
+  due_date_offsets jsonb NOT NULL DEFAULT '{}'::jsonb,
+  created_by uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  created_by_email text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS task_blueprints_kind_idx ON task_blueprints(kind, updated_at DESC);
+CREATE INDEX IF NOT EXISTS task_blueprints_created_by_idx ON task_blueprints(created_by);
+
+ALTER TABLE task_blueprints ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own blueprints"
+  ON task_blueprints
+  FOR SELECT
+  TO authenticated
+  USING (created_by = auth.uid());
+
+CREATE POLICY "Users can create own blueprints"
+  ON task_blueprints
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (created_by = auth.uid());
+
+CREATE POLICY "Users can update own blueprints"
+  ON task_blueprints
+  FOR UPDATE
+  TO authenticated
+  USING (created_by = auth.uid())
+  WITH CHECK (created_by = auth.uid());
+
+CREATE POLICY "Users can delete own blueprints"
+  ON task_blueprints
+  FOR DELETE
+  TO authenticated
+  USING (created_by = auth.uid());
+
+-- 更新日時を自動で更新（テンプレートと同じ関数を使う）
+CREATE TRIGGER update_task_blueprints_updated_at
+  BEFORE UPDATE ON task_blueprints
+  FOR EACH ROW
+  EXECUTE FUNCTION update_project_templates_updated_at();
@@ -0,0 +1,217 @@
+/*
+  # カレンダーフィード（iCalendar）
+
+  タスク・サブステップ・アクションアイテムの期限と、プロジェクトの目標日を
+  Googleカレンダー・Outlook などで購読できる iCalendar (.ics) フィードとして配信します。
+  各予定にはタスクを開くリンク（`<app_url>/?project=<id>&task=<id>`）が付きます。
+
+  1. 新しいテーブル
+    - `calendar_feeds`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, foreign key to auth.users) - フィードの所有者。所有者がメンバーのプロジェクトが対象
+      - `token` (text, unique) - 購読URLに含める秘密のトークン
+      - `name` (text) - カレンダー名
+      - `responsible` (text) - 担当者名での絞り込み。NULL の場合はすべての項目
+      - `project_id` (uuid, foreign key to projects) - 対象のプロジェクト。NULL の場合は参加中のすべてのプロジェクト
+      - `app_url` (text) - 予定からタスクへのリンクに使うアプリのURL
+      - `created_at` (timestamp)
+
+  2. 新しい関数
+    - `calendar_feed(feed_token)` - フィードを iCalendar 形式で返します。
+      カレンダーアプリはログインできないため、トークンを知っていれば匿名で呼び出せます。
+      `"text/calendar"` ドメインを返すので、PostgREST（v12 以降）は Content-Type: text/calendar で応答します。
+      購読URL: `<SUPABASE_URL>/rest/v1/rpc/calendar_feed?feed_token=<token>&apikey=<anon key>`
+    - 担当者は「、」「,」「/」区切りで複数書けるため、いずれかが一致すれば対象にします
+    - アーカイブ済み・ゴミ箱のプロジェクトは含めません
+
+  3. セキュリティ
+    - フィードの閲覧・作成・削除は所有者のみ
+    - トークンを削除するとそのURLでは購読できなくなります
+*/
+
+CREATE TABLE IF NOT EXISTS calendar_feeds (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  token text UNIQUE NOT NULL DEFAULT encode(gen_random_bytes(32), 'hex'),
+  name text NOT NULL,
+  responsible text,
+  project_id uuid REFERENCES projects(id) ON DELETE CASCADE,
+  app_url text NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS calendar_feeds_user_id_idx ON calendar_feeds(user_id);
+
+ALTER TABLE calendar_feeds ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own calendar feeds"
+  ON calendar_feeds
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can create own calendar feeds"
+  ON calendar_feeds
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can delete own calendar feeds"
+  ON calendar_feeds
+  FOR DELETE
+  TO authenticated
+  USING (user_id = auth.uid());
+
+-- PostgREST がこの型を返す関数の応答を text/calendar として送るためのドメイン
+DO $$
+BEGIN
+  CREATE DOMAIN "text/calendar" AS text;
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END;
+$$;
+
+-- 'YYYY-MM-DD' 形式の文字列を日付に変換（不正な値は NULL）
+CREATE OR REPLACE FUNCTION try_parse_date(value text)
+RETURNS date AS $$
+BEGIN
+  IF value IS NULL OR value !~ '^\d{4}-\d{2}-\d{2}' THEN
+    RETURN NULL;
+  END IF;
+  RETURN left(value, 10)::date;
+EXCEPTION
+  WHEN others THEN RETURN NULL;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- iCalendar の TEXT 値のエスケープ
+CREATE OR REPLACE FUNCTION ics_escape(value text)
+RETURNS text AS $$
+  SELECT replace(replace(replace(replace(replace(coalesce(value, ''), '\', '\\'), ';', '\;'), ',', '\,'), E'\r', ''), E'\n', '\n');
+$$ LANGUAGE sql IMMUTABLE;
+
+-- 1行75オクテットごとに折り返す（RFC 5545 3.1）
+CREATE OR REPLACE FUNCTION ics_fold(line text)
+RETURNS text AS $$
+DECLARE
+  result text := '';
+  current_line text := '';
+  ch text;
+BEGIN
+  FOREACH ch IN ARRAY regexp_split_to_array(line, '') LOOP
+    IF octet_length(current_line || ch) > (CASE WHEN result = '' THEN 75 ELSE 74 END) THEN
+      result := result || current_line || E'\r\n ';
+      current_line := '';
+    END IF;
+    current_line := current_line || ch;
+  END LOOP;
+  RETURN result || current_line;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- 担当者欄（「、」「,」「/」区切り）に指定の名前が含まれるか
+CREATE OR REPLACE FUNCTION responsible_includes(responsible text, name text)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM regexp_split_to_table(coalesce(responsible, ''), '[、,，/]') AS part
+    WHERE trim(part) <> '' AND lower(trim(part)) = lower(trim(name))
+  );
+$$ LANGUAGE sql IMMUTABLE;
+
+-- フィードの予定を iCalendar 形式で返す
+CREATE OR REPLACE FUNCTION calendar_feed(feed_token text)
+RETURNS "text/calendar" AS $$
+DECLARE
+  feed calendar_feeds%ROWTYPE;
+  events text;
+  stamp text := to_char(now() AT TIME ZONE 'UTC', 'YYYYMMDD"T"HH24MISS"Z"');
+BEGIN
+  SELECT * INTO feed FROM calendar_feeds WHERE token = feed_token;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION '無効なカレンダーフィードです' USING ERRCODE = 'P0002';
+  END IF;
+
+  WITH visible_projects AS (
+    SELECT p.id, p.title, p.goal, p.target_date::text AS target_date
+    FROM projects p
+    JOIN project_members m ON m.project_id = p.id
+    WHERE m.user_id = feed.user_id
+      AND m.status = 'accepted'
+      AND p.archived_at IS NULL
+      AND p.deleted_at IS NULL
+      AND (feed.project_id IS NULL OR p.id = feed.project_id)
+  ),
+  items AS (
+    -- プロジェクトの目標日（担当者で絞り込むフィードには含めない）
+    SELECT 'project-' || p.id AS uid, try_parse_date(p.target_date) AS day,
+      '【目標日】' || p.title AS summary, p.goal AS description,
+      p.id AS project_id, NULL::text AS task_id, NULL::text AS responsible
+    FROM visible_projects p
+    WHERE feed.responsible IS NULL
+
+    UNION ALL
+    -- タスクの期限（マイルストーン）
+    SELECT 'task-' || t.project_id || '-' || t.id, try_parse_date(t.due_date),
+      '◆ ' || t.title || CASE WHEN t.status = 'Completed' THEN '（完了）' ELSE '' END,
+      p.title || E'\n' || coalesce(t.description, ''),
+      t.project_id, t.id, t.responsible
+    FROM project_tasks t
+    JOIN visible_projects p ON p.id = t.project_id
+
+    UNION ALL
+    -- サブステップの期限
+    SELECT 'substep-' || s.project_id || '-' || s.task_id || '-' || s.id, try_parse_date(s.due_date),
+      s.text || CASE WHEN s.status = 'Completed' THEN '（完了）' ELSE '' END,
+      p.title || ' / ' || t.title || CASE WHEN coalesce(s.notes, '') <> '' THEN E'\n' || s.notes ELSE '' END,
+      s.project_id, s.task_id, s.responsible
+    FROM project_sub_steps s
+    JOIN project_tasks t ON t.project_id = s.project_id AND t.id = s.task_id
+    JOIN visible_projects p ON p.id = s.project_id
+
+    UNION ALL
+    -- アクションアイテムの期限
+    SELECT 'action-' || a.project_id || '-' || a.task_id || '-' || a.sub_step_id || '-' || a.id, try_parse_date(a.due_date),
+      a.text || CASE WHEN a.completed THEN '（完了）' ELSE '' END,
+      p.title || ' / ' || t.title || ' / ' || s.text,
+      a.project_id, a.task_id, a.responsible
+    FROM project_action_items a
+    JOIN project_sub_steps s ON s.project_id = a.project_id AND s.task_id = a.task_id AND s.id = a.sub_step_id
+    JOIN project_tasks t ON t.project_id = a.project_id AND t.id = a.task_id
+    JOIN visible_projects p ON p.id = a.project_id
+  )
+  SELECT string_agg(
+    'BEGIN:VEVENT' || E'\r\n' ||
+    ics_fold('UID:' || uid || '@ai-project-planner') || E'\r\n' ||
+    'DTSTAMP:' || stamp || E'\r\n' ||
+    'DTSTART;VALUE=DATE:' || to_char(day, 'YYYYMMDD') || E'\r\n' ||
+    'DTEND;VALUE=DATE:' || to_char(day + 1, 'YYYYMMDD') || E'\r\n' ||
+    ics_fold('SUMMARY:' || ics_escape(summary)) || E'\r\n' ||
+    ics_fold('DESCRIPTION:' || ics_escape(
+      description
+      || CASE WHEN coalesce(responsible, '') <> '' THEN E'\n担当: ' || responsible ELSE '' END
+      || E'\n' || rtrim(feed.app_url, '/') || '/?project=' || project_id || coalesce('&task=' || task_id, '')
+    )) || E'\r\n' ||
+    ics_fold('URL:' || rtrim(feed.app_url, '/') || '/?project=' || project_id || coalesce('&task=' || task_id, '')) || E'\r\n' ||
+    'TRANSP:TRANSPARENT' || E'\r\n' ||
+    'END:VEVENT' || E'\r\n',
+    '' ORDER BY day, uid
+  ) INTO events
+  FROM items
+  WHERE day IS NOT NULL
+    AND (feed.responsible IS NULL OR responsible_includes(responsible, feed.responsible));
+
+  RETURN
+    'BEGIN:VCALENDAR' || E'\r\n' ||
+    'VERSION:2.0' || E'\r\n' ||
+    'PRODID:-//AI Project Planner//Calendar Feed//JA' || E'\r\n' ||
+    'CALSCALE:GREGORIAN' || E'\r\n' ||
+    'METHOD:PUBLISH' || E'\r\n' ||
+    ics_fold('X-WR-CALNAME:' || ics_escape(feed.name)) || E'\r\n' ||
+    'REFRESH-INTERVAL;VALUE=DURATION:PT1H' || E'\r\n' ||
+    'X-PUBLISHED-TTL:PT1H' || E'\r\n' ||
+    coalesce(events, '') ||
+    'END:VCALENDAR' || E'\r\n';
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION calendar_feed(text) TO anon, authenticated;
@@ -0,0 +1,92 @@
+/*
+  # プロジェクトのドキュメント
+
+  資料センターで生成したテキストレポート（Markdown）を編集し、プロジェクト内のドキュメントとして保存します。
+
+  1. 新しいテーブル
+    - `project_documents`
+      - `id` (uuid, primary key)
+      - `project_id` (uuid, foreign key to projects)
+      - `title` (text) - ドキュメント名
+      - `content` (text) - 本文（Markdown）。画像は `![名前](attachment:<添付ファイルID>)` で参照する
+      - `attachments` (jsonb) - レポートに含める画像の添付ファイル（Attachment[]）
+      - `created_by` (uuid, foreign key to auth.users)
+      - `updated_by` (uuid, foreign key to auth.users)
+      - `created_at` (timestamp)
+      - `updated_at` (timestamp)
+
+  2. セキュリティ
+    - メンバーは閲覧可能
+    - オーナーと編集者は作成・更新・削除可能
+*/
+
+CREATE TABLE IF NOT EXISTS project_documents (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id uuid REFERENCES projects(id) ON DELETE CASCADE NOT NULL,
+  title text NOT NULL,
+  content text NOT NULL DEFAULT '',
+  attachments jsonb NOT NULL DEFAULT '[]'::jsonb,
+  created_by uuid REFERENCES auth.users(id),
+  updated_by uuid REFERENCES auth.users(id),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS project_documents_project_id_idx ON project_documents(project_id, updated_at DESC);
+
+ALTER TABLE project_documents ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Project members can view documents"
+  ON project_documents
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM project_members
+      WHERE project_members.project_id = project_documents.project_id
+      AND project_members.user_id = auth.uid()
+      AND project_members.status = 'accepted'
+    )
+  );
+
+CREATE POLICY "Project owners and editors can create documents"
+  ON project_documents
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM project_members
+      WHERE project_members.project_id = project_documents.project_id
+      AND project_members.user_id = auth.uid()
+      AND project_members.role IN ('owner', 'editor')
+      AND project_members.status = 'accepted'
+    )
+  );
+
+CREATE POLICY "Project owners and editors can update documents"
+  ON project_documents
+  FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM project_members
+      WHERE project_members.project_id = project_documents.project_id
+      AND project_members.user_id = auth.uid()
+      AND project_members.role IN ('owner', 'editor')
+      AND project_members.status = 'accepted'
+    )
+  );
+
+CREATE POLICY "Project owners and editors can delete documents"
+  ON project_documents
+  FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM project_members
+      WHERE project_members.project_id = project_documents.project_id
+      AND project_members.user_id = auth.uid()
+      AND project_members.role IN ('owner', 'editor')
+      AND project_members.status = 'accepted'
+    )
+  );
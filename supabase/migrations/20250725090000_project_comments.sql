@@ -0,0 +1,168 @@
+/*
+  # コメントスレッドとメンション
+
+  タスク・サブステップ・アクションアイテム・決定事項・スライドにスレッド形式のコメントを付けられるようにします。
+  これまで `notes` に書き込んで上書きし合っていた議論を、コメントとして残せるようにするためのものです。
+
+  1. 新しいテーブル
+    - `project_comments`
+      - `id` (uuid, primary key)
+      - `project_id` (uuid, foreign key to projects)
+      - `target_type` (text) - 'task' / 'substep' / 'actionitem' / 'decision' / 'slide'
+      - `target_id` (text) - コメントを付けた項目のID
+      - `task_id` (text) - 所属するタスクのID（プロジェクトレポートのスライドは NULL）。タスクごとの未読数の集計用
+      - `parent_id` (uuid) - 返信先のスレッドの最初のコメント。NULL ならスレッドの最初のコメント
+      - `body` (text) - 本文
+      - `mentions` (uuid[]) - 本文でメンションしたメンバーのユーザーID
+      - `author_id` (uuid, foreign key to auth.users)
+      - `author_name` (text) - 投稿時点の表示名
+      - `resolved_at` (timestamp) - スレッドを解決済みにした日時（スレッドの最初のコメントのみ）
+      - `resolved_by` (uuid) - 解決済みにしたユーザー
+      - `created_at` (timestamp)
+      - `updated_at` (timestamp)
+    - `project_comment_reads`
+      - `user_id` (uuid, foreign key to auth.users)
+      - `project_id` (uuid, foreign key to projects)
+      - `target_type` (text)
+      - `target_id` (text)
+      - `last_read_at` (timestamp) - この項目のコメントを最後に読んだ日時
+
+  2. 未読数
+    - 項目ごとの `last_read_at` より後に他のメンバーが投稿したコメントを未読とします
+    - スレッドの最初のコメントを削除すると返信も削除されます
+
+  3. セキュリティ
+    - メンバーは閲覧・投稿可能（閲覧者も議論に参加できます）
+    - 本文の編集は投稿者のみ、解決済みの切り替えは投稿者・オーナー・編集者が可能
+    - 削除は投稿者とオーナーのみ
+    - 既読の記録は本人のみが読み書き可能
+*/
+
+CREATE TABLE IF NOT EXISTS project_comments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id uuid REFERENCES projects(id) ON DELETE CASCADE NOT NULL,
+  target_type text NOT NULL CHECK (target_type IN ('task', 'substep', 'actionitem', 'decision', 'slide')),
+  target_id text NOT NULL,
+  task_id text,
+  parent_id uuid REFERENCES project_comments(id) ON DELETE CASCADE,
+  body text NOT NULL CHECK (length(trim(body)) > 0),
+  mentions uuid[] NOT NULL DEFAULT '{}',
+  author_id uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  author_name text,
+  resolved_at timestamptz,
+  resolved_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS project_comments_project_idx ON project_comments(project_id, created_at);
+CREATE INDEX IF NOT EXISTS project_comments_target_idx ON project_comments(project_id, target_type, target_id);
+CREATE INDEX IF NOT EXISTS project_comments_parent_idx ON project_comments(parent_id);
+
+CREATE TABLE IF NOT EXISTS project_comment_reads (
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  project_id uuid REFERENCES projects(id) ON DELETE CASCADE NOT NULL,
+  target_type text NOT NULL,
+  target_id text NOT NULL,
+  last_read_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, project_id, target_type, target_id)
+);
+
+ALTER TABLE project_comments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE project_comment_reads ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Project members can view comments"
+  ON project_comments
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM project_members
+      WHERE project_members.project_id = project_comments.project_id
+      AND project_members.user_id = auth.uid()
+      AND project_members.status = 'accepted'
+    )
+  );
+
+CREATE POLICY "Project members can post comments"
+  ON project_comments
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    author_id = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM project_members
+      WHERE project_members.project_id = project_comments.project_id
+      AND project_members.user_id = auth.uid()
+      AND project_members.status = 'accepted'
+    )
+  );
+
+CREATE POLICY "Authors, owners and editors can update comments"
+  ON project_comments
+  FOR UPDATE
+  TO authenticated
+  USING (
+    author_id = auth.uid()
+    OR EXISTS (
+      SELECT 1 FROM project_members
+      WHERE project_members.project_id = project_comments.project_id
+      AND project_members.user_id = auth.uid()
+      AND project_members.role IN ('owner', 'editor')
+      AND project_members.status = 'accepted'
+    )
+  );
+
+CREATE POLICY "Authors and owners can delete comments"
+  ON project_comments
+  FOR DELETE
+  TO authenticated
+  USING (
+    author_id = auth.uid()
+    OR EXISTS (
+      SELECT 1 FROM project_members
+      WHERE project_members.project_id = project_comments.project_id
+      AND project_members.user_id = auth.uid()
+      AND project_members.role = 'owner'
+      AND project_members.status = 'accepted'
+    )
+  );
+
+-- 本文の編集は投稿者のみ（オーナー・編集者が変更できるのは解決済みの状態だけ）
+CREATE OR REPLACE FUNCTION protect_comment_body()
+RETURNS trigger AS $$
+BEGIN
+  IF (NEW.body IS DISTINCT FROM OLD.body OR NEW.mentions IS DISTINCT FROM OLD.mentions)
+    AND OLD.author_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'コメントの本文は投稿者のみ編集できます';
+  END IF;
+  IF NEW.project_id <> OLD.project_id OR NEW.target_type <> OLD.target_type OR NEW.target_id <> OLD.target_id
+    OR NEW.parent_id IS DISTINCT FROM OLD.parent_id OR NEW.author_id IS DISTINCT FROM OLD.author_id THEN
+    RAISE EXCEPTION 'コメントの投稿先は変更できません';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER protect_comment_body
+  BEFORE UPDATE ON project_comments
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_comment_body();
+
+CREATE POLICY "Users can view own comment reads"
+  ON project_comment_reads
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can record own comment reads"
+  ON project_comment_reads
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can update own comment reads"
+  ON project_comment_reads
+  FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid());
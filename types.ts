@@ -3,7 +3,14 @@ export interface Attachment {
   id: string;
   name: string;
   type: string;
-  dataUrl: string; // Base64 encoded URL for image preview
+  size?: number; // Bytes
+  hash?: string; // SHA-256 of the contents (hex)
+  storage?: 'supabase' | 'local'; // Where storagePath points, see services/attachmentStorage
+  storagePath?: string;
+  uploadedBy?: string; // User id of the uploader
+  uploadedAt?: string;
+  dataUrl?: string; // Legacy inline base64; moved to storage when the project is saved
+  bundlePath?: string; // Path of the file inside a ZIP bundle, see services/projectBundle
 }
 
 export enum SubStepStatus {
@@ -26,6 +33,8 @@ export interface ActionItem {
   dueDate?: string; // Due date for the specific action item
   completedDate?: string; // Date when the action item was marked as completed
   responsible?: string; // Responsible person for the specific action item
+  estimatedDays?: number; // Effort estimate in days, used by the local scheduler
+  startDate?: string; // Start no earlier than this date, set by moving the item on the Gantt chart
   report?: ActionItemReport; // Each action item can have its own detailed implementation report
 }
 
@@ -39,6 +48,8 @@ export interface SubStep {
   // New detailed fields for sub-steps
   responsible?: string;
   dueDate?: string;
+  estimatedDays?: number; // Effort estimate in days, used by the local scheduler
+  startDate?: string; // Start no earlier than this date, set by moving the item on the Gantt chart
   status?: SubStepStatus;
   actionItems?: ActionItem[]; // Checklist for the sub-step
   attachments?: Attachment[]; // For sub-step specific files
@@ -159,6 +170,8 @@ export interface ExtendedTaskDetails {
   notes: string; 
   numericalTarget?: NumericalTarget;
   dueDate?: string; 
+  estimatedDays?: number; // Effort estimate in days, used by the local scheduler
+  startDate?: string; // Start no earlier than this date, set by moving the item on the Gantt chart
   reportDeck?: SlideDeck; // Replaces ReportData
   resourceMatrix?: { headers: string[]; rows: string[][] } | null;
   attachments?: Attachment[]; // For task-level files
@@ -196,6 +209,16 @@ export interface ProjectFileContent {
   ganttData?: GanttItem[] | null;
 }
 
+// Result of importing a project from another tool's file format
+export interface ImportSummary {
+  format: string; // e.g. "Microsoft Project XML"
+  fileName: string;
+  counts: { label: string; count: number }[];
+  warnings: string[];
+  unmappedFields: { field: string; count: number }[]; // Fields in the file that have no place in the project
+  errors?: string[]; // Problems that stopped the import; nothing was imported when present
+}
+
 export interface TaskExportData { 
   task: ProjectTask; 
   details: TaskDetail | null; 
@@ -231,6 +254,149 @@ export interface GanttItem {
   dependencies: string[];
   type: 'task' | 'substep' | 'actionitem';
   parentId: string | null; // ID of the parent task or sub-step
+  // Set only by the local critical-path scheduler
+  isCritical?: boolean;
+  slackDays?: number; // Negative when the item cannot meet its due date or successors
+}
+
+export interface GanttBaseline {
+  id: string;
+  projectId: string;
+  name: string;
+  items: GanttItem[]; // Snapshot of the chart when the baseline was taken
+  createdBy?: string;
+  createdAt: string;
+}
+
+export type ActivityEntityType = 'task' | 'substep' | 'actionitem' | 'decision' | 'member';
+export type ActivityAction = 'created' | 'updated' | 'deleted';
+
+export interface ProjectActivity {
+  id: string;
+  projectId: string;
+  actorId?: string;
+  actorEmail?: string;
+  entityType: ActivityEntityType;
+  entityId: string;
+  taskId?: string;
+  subStepId?: string;
+  entityName?: string; // Name at the time of the change
+  action: ActivityAction;
+  changes: Record<string, { from: any; to: any }>; // Changed database columns
+  createdAt: string;
+}
+
+export interface ProjectVersionSummary {
+  id: string;
+  projectId: string;
+  version: number; // projects.version after the save
+  title: string;
+  goal: string;
+  targetDate: string;
+  createdBy?: string;
+  createdByEmail?: string;
+  createdAt: string;
+}
+
+export interface ProjectVersion extends ProjectVersionSummary {
+  tasks: ProjectTask[];
+  ganttData: GanttItem[] | null;
+}
+
+export interface TemplateVariable {
+  key: string; // Written as {{key}} in the goal and task texts
+  label: string;
+  defaultValue?: string;
+}
+
+export interface ProjectTemplate {
+  id: string;
+  name: string;
+  description: string;
+  goal: string;
+  tasks: ProjectTask[]; // Progress, attachments and dates removed, see services/projectTemplates
+  dueDateOffsets: Record<string, number>; // Days relative to the target date, keyed by task / sub-step / action item id
+  variables: TemplateVariable[];
+  isBuiltIn?: boolean;
+  createdBy?: string;
+  createdByEmail?: string;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export type TaskBlueprintKind = 'task' | 'substep' | 'checklist';
+
+export interface TaskBlueprint {
+  id: string;
+  kind: TaskBlueprintKind;
+  name: string;
+  description: string;
+  task?: ProjectTask; // kind 'task'
+  subStep?: SubStep; // kind 'substep'
+  actionItems?: ActionItem[]; // kind 'checklist'
+  dueDateOffsets: Record<string, number>; // Days relative to the anchor date, see services/taskBlueprints
+  createdBy?: string;
+  createdByEmail?: string;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+// Subscribable iCalendar feed of due dates, see services/icalendar
+export interface CalendarFeed {
+  id: string;
+  name: string;
+  responsible: string | null; // Only items assigned to this person; null for all items
+  projectId: string | null; // null for every project the user is a member of
+  url: string; // Subscription URL, contains the secret token
+  createdAt: string;
+}
+
+export interface ProjectDocument {
+  id: string;
+  projectId: string;
+  title: string;
+  content: string; // Markdown; images are written as ![name](attachment:<attachment id>)
+  attachments: Attachment[]; // Images to include in the report
+  createdBy?: string;
+  updatedBy?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type CommentTargetType = 'task' | 'substep' | 'actionitem' | 'decision' | 'slide';
+
+export interface CommentTarget {
+  type: CommentTargetType;
+  id: string;
+  taskId: string | null; // Task the item belongs to; null for slides of the project report
+  label: string; // Shown above the thread, not stored
+}
+
+export interface ProjectComment {
+  id: string;
+  projectId: string;
+  targetType: CommentTargetType;
+  targetId: string;
+  taskId?: string;
+  parentId?: string; // First comment of the thread this is a reply to
+  body: string;
+  mentions: string[]; // User ids of mentioned members
+  authorId?: string;
+  authorName?: string;
+  resolvedAt?: string; // Set on the first comment of a resolved thread
+  resolvedBy?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ScheduleResult {
+  items: GanttItem[];
+  criticalPathTaskIds: string[]; // Task-level critical chain in execution order
+  projectStart: string; // YYYY-MM-DD
+  projectedFinish: string; // YYYY-MM-DD
+  targetDate: string | null;
+  varianceDays: number | null; // projectedFinish - targetDate; positive means late
+  warnings: string[];
 }
 
 // プロジェクトコラボレーション関連の型定義
@@ -271,5 +437,7 @@ export interface ProjectWithMetadata {
   lastModifiedBy?: string;
   version: number;
   userRole: 'owner' | 'editor' | 'viewer';
+  archivedAt?: string | null;
+  deletedAt?: string | null;
   members?: ProjectMember[];
 }
\ No newline at end of file